@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import CommentModeration from '../../components/Admin/CommentModeration';
+
+export const metadata: Metadata = {
+  title: 'Comment Moderation',
+  robots: { index: false, follow: false },
+};
+
+export default function CommentModerationPage() {
+  return <CommentModeration />;
+}
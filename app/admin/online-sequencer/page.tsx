@@ -0,0 +1,11 @@
+import type { Metadata } from 'next';
+import RoomDashboard from '../../components/Admin/RoomDashboard';
+
+export const metadata: Metadata = {
+  title: 'Online Sequencer Admin',
+  robots: { index: false, follow: false },
+};
+
+export default function OnlineSequencerAdminPage() {
+  return <RoomDashboard />;
+}
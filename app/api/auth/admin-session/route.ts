@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setCorsHeaders, handleOptions } from '../../../utils/corsUtils';
+import { withApiLogging } from '../../../utils/apiLogger';
+import { createAdminSession, verifyAdminPassword } from '../../../utils/adminAuth';
+import { getClientIP } from '../../../utils/requestUtils';
+import { getHashedIP } from '../../../utils/hashUtils';
+
+// Route Segment Config - 환경변수에 의존하므로 동적 렌더링
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * CORS Preflight 요청 처리
+ */
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+/**
+ * 관리자 세션 발급 API
+ * POST /api/auth/admin-session
+ *
+ * 관리자 비밀번호를 확인한 뒤 짧은 수명의 관리자 세션 토큰을 발급합니다.
+ * 관리자 API는 비밀번호 대신 이 토큰을 X-Admin-Session 헤더로 받습니다.
+ * 비밀번호 시도 횟수를 넘으면 429를 반환합니다.
+ *
+ * Request Body:
+ * {
+ *   "password": "입력한 비밀번호"
+ * }
+ *
+ * Response:
+ * {
+ *   "token": "관리자 세션 토큰",
+ *   "expiresAt": 만료 시간 (timestamp)
+ * }
+ */
+export async function POST(request: NextRequest) {
+  return withApiLogging(request, '/api/auth/admin-session', async () => {
+    try {
+      const body = await request.json();
+      const { password } = body;
+
+      // 필수 필드 검증
+      if (!password || typeof password !== 'string' || password.trim().length === 0) {
+        const errorResponse = NextResponse.json(
+          { error: 'password는 필수입니다.' },
+          { status: 400 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
+      if (!process.env.ADMIN_PASSWORD_HASH?.trim()) {
+        const errorResponse = NextResponse.json(
+          {
+            error: 'Server configuration error',
+            details: '환경 변수 ADMIN_PASSWORD_HASH가 설정되지 않았습니다.',
+          },
+          { status: 500 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
+      const { valid, retryAfterMs } = await verifyAdminPassword(password, getHashedIP(getClientIP(request)));
+
+      if (retryAfterMs !== undefined) {
+        const errorResponse = NextResponse.json(
+          { error: '비밀번호 시도 횟수를 초과했습니다. 잠시 후 다시 시도해주세요.', retryAfterMs },
+          { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
+      if (!valid) {
+        const errorResponse = NextResponse.json(
+          { error: '비밀번호가 일치하지 않습니다.' },
+          { status: 401 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
+      const response = NextResponse.json(createAdminSession(), {
+        status: 200,
+        headers: { 'Cache-Control': 'no-store' },
+      });
+      return setCorsHeaders(request, response);
+    } catch (error) {
+      const errorResponse = NextResponse.json(
+        {
+          error: 'Failed to create admin session',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+  });
+}
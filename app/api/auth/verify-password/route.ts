@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { setCorsHeaders, handleOptions } from '../../../utils/corsUtils';
 import { withApiLogging } from '../../../utils/apiLogger';
-import { comparePassword } from '../../../utils/passwordUtils';
+import { verifyAdminPassword } from '../../../utils/adminAuth';
+import { getClientIP } from '../../../utils/requestUtils';
+import { getHashedIP } from '../../../utils/hashUtils';
 
 // Route Segment Config - 환경변수에 의존하므로 동적 렌더링
 export const dynamic = 'force-dynamic';
@@ -20,6 +22,7 @@ export async function OPTIONS(request: NextRequest) {
  * 
  * 환경변수에 저장된 해시된 비밀번호와 입력된 비밀번호를 비교합니다.
  * comment API와 동일한 PEPPER와 규칙을 사용합니다.
+ * 관리자 세션 발급(/api/auth/admin-session)과 시도 횟수 제한을 공유하며, 초과 시 429를 반환합니다.
  * 
  * Request Body:
  * {
@@ -61,7 +64,15 @@ export async function POST(request: NextRequest) {
       }
 
       // 비밀번호 비교 (comment API와 동일한 PEPPER 사용)
-      const isValid = await comparePassword(password.trim(), storedPasswordHash);
+      const { valid: isValid, retryAfterMs } = await verifyAdminPassword(password, getHashedIP(getClientIP(request)));
+
+      if (retryAfterMs !== undefined) {
+        const errorResponse = NextResponse.json(
+          { error: '비밀번호 시도 횟수를 초과했습니다. 잠시 후 다시 시도해주세요.', retryAfterMs },
+          { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
 
       const response = NextResponse.json(
         { valid: isValid },
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeComment, setCommentStatus } from '../../../../services/commentService';
+import { isAdminRequest } from '../../../../utils/adminAuth';
+import { setCorsHeaders, handleOptions } from '../../../../utils/corsUtils';
+import { withApiLogging } from '../../../../utils/apiLogger';
+import { COMMENT_STATUSES } from '../../../../types/comment';
+import type { CommentStatus } from '../../../../types/comment';
+
+// Route Segment Config - DB 연결이 있으므로 동적 렌더링
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+/**
+ * 관리자 요청 공통 에러 응답
+ */
+function createModerationErrorResponse(request: NextRequest, error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message.includes('존재하지 않는')) {
+      const errorResponse = NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+    if (error.message.includes('환경 변수가 설정되지 않았습니다')) {
+      const errorResponse = NextResponse.json(
+        {
+          error: 'Database configuration error',
+          details: 'DB 환경 변수가 설정되지 않았습니다.',
+        },
+        { status: 500 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+    if (error.message.includes('ORA-') || error.message.includes('Oracle')) {
+      const errorResponse = NextResponse.json(
+        {
+          error: 'Database connection error',
+          details: error.message,
+        },
+        { status: 500 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+  }
+
+  const errorResponse = NextResponse.json(
+    {
+      error: fallback,
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  );
+  return setCorsHeaders(request, errorResponse);
+}
+
+/**
+ * 관리자 인증 및 댓글 ID 검증
+ * @returns 검증 실패 시 에러 응답, 성공 시 댓글 ID
+ */
+async function validateModerationRequest(request: NextRequest, id: string): Promise<NextResponse | number> {
+  if (!(await isAdminRequest(request))) {
+    const errorResponse = NextResponse.json(
+      { error: '관리자 인증이 필요합니다.' },
+      { status: 403 }
+    );
+    return setCorsHeaders(request, errorResponse);
+  }
+
+  const commentId = parseInt(id, 10);
+  if (isNaN(commentId) || commentId < 1) {
+    const errorResponse = NextResponse.json(
+      { error: '유효하지 않은 댓글 ID입니다.' },
+      { status: 400 }
+    );
+    return setCorsHeaders(request, errorResponse);
+  }
+  return commentId;
+}
+
+/**
+ * 댓글 모더레이션 상태 변경 API (관리자 전용)
+ * PUT /api/comments/:id/moderation
+ * body: { status: 'visible' | 'pending' | 'hidden' | 'spam' } (승인은 visible, 숨김은 hidden)
+ * 체인의 모든 버전에 같은 상태가 적용됩니다.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const resolvedParams = await params;
+  return withApiLogging(request, `/api/comments/${resolvedParams.id}/moderation`, async () => {
+    try {
+    const validated = await validateModerationRequest(request, resolvedParams.id);
+    if (validated instanceof NextResponse) {
+      return validated;
+    }
+
+    const body = await request.json();
+    const { status } = body;
+
+    if (!COMMENT_STATUSES.includes(status as CommentStatus)) {
+      const errorResponse = NextResponse.json(
+        { error: `status는 ${COMMENT_STATUSES.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    const headerId = await setCommentStatus(validated, status as CommentStatus);
+
+    const response = NextResponse.json(
+      { headerId, status },
+      { status: 200 }
+    );
+    return setCorsHeaders(request, response);
+  } catch (error) {
+    console.error('[API ERROR] 댓글 상태 변경 중 오류:', error);
+    return createModerationErrorResponse(request, error, 'Failed to update comment status');
+    }
+  });
+}
+
+/**
+ * 댓글 영구 삭제 API (관리자 전용)
+ * DELETE /api/comments/:id/moderation
+ * 체인의 모든 버전과 대댓글 체인을 DB에서 삭제합니다. (되돌릴 수 없음)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const resolvedParams = await params;
+  return withApiLogging(request, `/api/comments/${resolvedParams.id}/moderation`, async () => {
+    try {
+    const validated = await validateModerationRequest(request, resolvedParams.id);
+    if (validated instanceof NextResponse) {
+      return validated;
+    }
+
+    const result = await purgeComment(validated);
+
+    const response = NextResponse.json(result, { status: 200 });
+    return setCorsHeaders(request, response);
+  } catch (error) {
+    console.error('[API ERROR] 댓글 영구 삭제 중 오류:', error);
+    return createModerationErrorResponse(request, error, 'Failed to purge comment');
+    }
+  });
+}
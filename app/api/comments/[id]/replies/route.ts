@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { COMMENT_MAX_DEPTH, getReplies } from '../../../../services/commentService';
+import { setCorsHeaders, handleOptions } from '../../../../utils/corsUtils';
+import { withApiLogging } from '../../../../utils/apiLogger';
+import { toReplyResponse } from '../../../../utils/commentResponse';
+import type { CommentRepliesResponse } from '../../../../types/comment';
+
+// Route Segment Config - DB 연결이 있으므로 동적 렌더링
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * 답글 조회 API
+ * GET /api/comments/:id/replies
+ * 댓글의 답글 트리를 COMMENT_INLINE_REPLY_DEPTH 단계까지 조회합니다.
+ * 더 깊은 답글은 children 없이 replyCount만 포함되며, 해당 답글 ID로 다시 조회합니다.
+ */
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const resolvedParams = await params;
+  const commentId = resolvedParams.id;
+  return withApiLogging(request, `/api/comments/${commentId}/replies`, async () => {
+    try {
+    // ID 검증
+    const commentId = parseInt(resolvedParams.id, 10);
+    if (isNaN(commentId) || commentId < 1) {
+      const errorResponse = NextResponse.json(
+        { error: '유효하지 않은 댓글 ID입니다.' },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    const result = await getReplies(commentId);
+
+    const body: CommentRepliesResponse = {
+      headerId: result.headerId,
+      depth: result.depth,
+      replyCount: result.replyCount,
+      maxDepth: COMMENT_MAX_DEPTH,
+      data: result.replies.map(toReplyResponse),
+    };
+    const response = NextResponse.json(body, { status: 200 });
+    return setCorsHeaders(request, response);
+  } catch (error) {
+    console.error('[API ERROR] 답글 조회 중 오류:', error);
+
+    // 에러 메시지에 따라 적절한 상태 코드 반환
+    if (error instanceof Error) {
+      if (error.message.includes('존재하지 않는')) {
+        const errorResponse = NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+      if (error.message.includes('환경 변수가 설정되지 않았습니다')) {
+        const errorResponse = NextResponse.json(
+          {
+            error: 'Database configuration error',
+            details: 'DB 환경 변수가 설정되지 않았습니다.',
+          },
+          { status: 500 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+      if (error.message.includes('ORA-') || error.message.includes('Oracle')) {
+        const errorResponse = NextResponse.json(
+          {
+            error: 'Database connection error',
+            details: error.message,
+          },
+          { status: 500 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+    }
+
+    const errorResponse = NextResponse.json(
+      {
+        error: 'Failed to fetch replies',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(request, errorResponse);
+    }
+  });
+}
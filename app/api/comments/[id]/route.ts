@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { deleteComment, updateComment } from '../../../services/commentService';
+import { CommentRejectedError } from '../../../services/commentFilter';
 import { getClientIP } from '../../../utils/requestUtils';
 import { getHashedIP } from '../../../utils/hashUtils';
 import { setCorsHeaders, handleOptions } from '../../../utils/corsUtils';
 import { withApiLogging } from '../../../utils/apiLogger';
+import type { CommentRejectionResponse } from '../../../types/comment';
 
 // Route Segment Config - DB 연결이 있으므로 동적 렌더링
 export const dynamic = 'force-dynamic';
@@ -157,23 +159,35 @@ export async function PUT(
     }
 
     // 클라이언트 IP 가져오기 및 해싱 (newHashedUserIP가 제공되면 사용, 아니면 현재 IP 사용)
+    //   필터의 작성 기록은 newHashedUserIP와 관계없이 현재 IP 기준
+    const requesterHashedIP = getHashedIP(getClientIP(request));
     let hashedUserIP: string;
     if (newHashedUserIP && typeof newHashedUserIP === 'string') {
       hashedUserIP = newHashedUserIP;
     } else {
-      const clientIP = getClientIP(request);
-      hashedUserIP = getHashedIP(clientIP);
+      hashedUserIP = requesterHashedIP;
     }
 
     // 댓글 수정
-    const newId = await updateComment(commentId, content.trim(), userPassword, hashedUserIP);
+    const { id, status } = await updateComment(commentId, content.trim(), userPassword, hashedUserIP, requesterHashedIP);
 
     const response = NextResponse.json(
-      { id: newId },
+      { id, status },
       { status: 200 }
     );
     return setCorsHeaders(request, response);
   } catch (error) {
+    // 필터에 거부된 경우 사유 코드 반환 (작성 빈도 제한은 429)
+    if (error instanceof CommentRejectedError) {
+      const { code, message, retryAfterMs } = error.rejection;
+      const body: CommentRejectionResponse = { error: message, code, retryAfterMs };
+      const errorResponse = NextResponse.json(body, { status: code === 'RATE_LIMITED' ? 429 : 422 });
+      if (retryAfterMs !== undefined) {
+        errorResponse.headers.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      }
+      return setCorsHeaders(request, errorResponse);
+    }
+
     console.error('[API ERROR] 댓글 수정 중 오류:', error);
 
     // 에러 메시지에 따라 적절한 상태 코드 반환
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { commentFilterPipeline } from '../../../../services/commentFilter';
+import { isAdminRequest } from '../../../../utils/adminAuth';
+import { setCorsHeaders, handleOptions } from '../../../../utils/corsUtils';
+import { withApiLogging } from '../../../../utils/apiLogger';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * 필터 차단 기록 API (관리자 전용)
+ * 스팸/도배 필터에 거부된 댓글을 최근 순으로 조회하거나 기록을 비웁니다.
+ * 기록은 서버 메모리에만 보관되며 재시작 시 초기화됩니다.
+ */
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+function createUnauthorizedResponse(request: NextRequest) {
+  const errorResponse = NextResponse.json(
+    { error: '관리자 인증이 필요합니다.' },
+    { status: 403 }
+  );
+  return setCorsHeaders(request, errorResponse);
+}
+
+/**
+ * GET /api/comments/moderation/blocked?limit=50
+ */
+export async function GET(request: NextRequest) {
+  return withApiLogging(request, '/api/comments/moderation/blocked', async () => {
+    if (!(await isAdminRequest(request))) {
+      return createUnauthorizedResponse(request);
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      const errorResponse = NextResponse.json(
+        { error: 'limit은 1 이상이어야 합니다.' },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    const blocked = commentFilterPipeline.getBlocked(limit);
+    const response = NextResponse.json({ totalCount: blocked.length, data: blocked });
+    response.headers.set('Cache-Control', 'no-store');
+    return setCorsHeaders(request, response);
+  });
+}
+
+/**
+ * DELETE /api/comments/moderation/blocked
+ */
+export async function DELETE(request: NextRequest) {
+  return withApiLogging(request, '/api/comments/moderation/blocked', async () => {
+    if (!(await isAdminRequest(request))) {
+      return createUnauthorizedResponse(request);
+    }
+
+    const cleared = commentFilterPipeline.clearBlocked();
+    const response = NextResponse.json({ cleared });
+    return setCorsHeaders(request, response);
+  });
+}
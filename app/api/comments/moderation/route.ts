@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getModerationComments } from '../../../services/commentService';
+import { isAdminRequest } from '../../../utils/adminAuth';
+import { setCorsHeaders, handleOptions } from '../../../utils/corsUtils';
+import { withApiLogging } from '../../../utils/apiLogger';
+import { COMMENT_STATUSES } from '../../../types/comment';
+import type { CommentResponse, CommentStatus } from '../../../types/comment';
+
+type ModerationCommentRow = Awaited<ReturnType<typeof getModerationComments>>['comments'][number];
+
+// Route Segment Config - DB 연결이 있으므로 동적 렌더링
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * 모더레이션 댓글 목록 조회 API (관리자 전용)
+ * GET /api/comments/moderation?status=pending&page=1&limit=20
+ * status: visible | pending | hidden | spam | all (기본값: pending)
+ */
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+export async function GET(request: NextRequest) {
+  return withApiLogging(request, '/api/comments/moderation', async () => {
+    try {
+    if (!(await isAdminRequest(request))) {
+      const errorResponse = NextResponse.json(
+        { error: '관리자 인증이 필요합니다.' },
+        { status: 403 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const statusParam = searchParams.get('status') || 'pending';
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+
+    // 유효성 검사
+    if (statusParam !== 'all' && !COMMENT_STATUSES.includes(statusParam as CommentStatus)) {
+      const errorResponse = NextResponse.json(
+        { error: `status는 ${COMMENT_STATUSES.join(', ')}, all 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+    if (isNaN(page) || isNaN(limit) || page < 1 || limit < 1 || limit > 100) {
+      const errorResponse = NextResponse.json(
+        { error: 'page는 1 이상, limit은 1~100이어야 합니다.' },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    const status = statusParam === 'all' ? null : statusParam as CommentStatus;
+    const result = await getModerationComments(status, page, limit);
+
+    // 필드 매핑: 서버 필드 → 클라이언트 필드
+    const mappedComments: CommentResponse[] = result.comments.map((item: ModerationCommentRow) => ({
+      id: item.ID,
+      parentHeaderId: item.PARENT_HEADER_ID,
+      content: item.CONTENT,
+      createdAt: new Date(item.CREATED_AT).toISOString(),
+      updatedAt: new Date(item.UPDATED_AT).toISOString(),
+      isEdited: item.IS_EDITED,
+      isDeleted: item.IS_DELETED,
+      version: item.VERSION,
+      editedCommentId: item.EDITED_COMMENT_ID,
+      headerId: item.HEADER_ID,
+      tailId: item.TAIL_ID,
+      hashedUser: item.HASHED_USER_IP,
+      status: item.STATUS,
+    }));
+
+    const response = NextResponse.json({
+      status: statusParam,
+      page,
+      limit,
+      totalCount: result.totalCount,
+      data: mappedComments,
+    });
+    response.headers.set('Cache-Control', 'no-store');
+    return setCorsHeaders(request, response);
+  } catch (error) {
+    console.error('[API ERROR] 모더레이션 댓글 조회 중 오류:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('환경 변수가 설정되지 않았습니다')) {
+        const errorResponse = NextResponse.json(
+          {
+            error: 'Database configuration error',
+            details: 'DB 환경 변수가 설정되지 않았습니다.',
+          },
+          { status: 500 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+      if (error.message.includes('ORA-') || error.message.includes('Oracle')) {
+        const errorResponse = NextResponse.json(
+          {
+            error: 'Database connection error',
+            details: error.message,
+          },
+          { status: 500 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+    }
+
+    const errorResponse = NextResponse.json(
+      {
+        error: 'Failed to fetch moderation queue',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(request, errorResponse);
+    }
+  });
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getComments, createComment } from '../../services/commentService';
+import { COMMENT_MAX_DEPTH, getComments, createComment } from '../../services/commentService';
+import { CommentRejectedError } from '../../services/commentFilter';
 import { getClientIP } from '../../utils/requestUtils';
 import { getHashedIP } from '../../utils/hashUtils';
 import { setCorsHeaders, handleOptions } from '../../utils/corsUtils';
 import { withApiLogging } from '../../utils/apiLogger';
-import type { CommentResponse } from '../../types/comment';
+import { toReplyResponse } from '../../utils/commentResponse';
+import { COMMENT_SORTS } from '../../types/comment';
+import type { CommentListResponse, CommentRejectionResponse, CommentResponse, CommentSort } from '../../types/comment';
 
 type CommentRow = Awaited<ReturnType<typeof getComments>>['comments'][number];
 
@@ -16,6 +19,10 @@ export const revalidate = 0;
  * 댓글 목록 조회 API
  * GET /api/comments
  * 부모 댓글과 해당 자식 댓글을 함께 조회 (페이지네이션)
+ * - page, limit: 페이지 번호 기반 조회
+ * - cursor: 이전 응답의 nextCursor로 다음 목록 조회 (cursor 파라미터가 있으면 page 무시, 빈 값이면 첫 목록)
+ * - sort: newest | oldest | most_replies (기본값: newest)
+ * - count=false: 총 개수 조회 생략 (totalCount는 null)
  */
 export async function OPTIONS(request: NextRequest) {
   return handleOptions(request);
@@ -27,6 +34,9 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '10', 10);
+    const cursor = searchParams.get('cursor');
+    const sort = (searchParams.get('sort') || 'newest') as CommentSort;
+    const includeCount = searchParams.get('count') !== 'false';
 
     // 유효성 검사
     if (page < 1 || limit < 1) {
@@ -36,9 +46,16 @@ export async function GET(request: NextRequest) {
       );
       return setCorsHeaders(request, errorResponse);
     }
+    if (!COMMENT_SORTS.includes(sort)) {
+      const errorResponse = NextResponse.json(
+        { error: `sort는 ${COMMENT_SORTS.join(', ')} 중 하나여야 합니다.` },
+        { status: 400 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
 
     // DB에서 댓글 목록 가져오기
-    const result = await getComments(page, limit);
+    const result = await getComments({ page, limit, cursor, sort, includeCount });
 
     // 필드 매핑: 서버 필드 → 클라이언트 필드
     const mappedComments: CommentResponse[] = result.comments.map((item: CommentRow) => ({
@@ -54,33 +71,34 @@ export async function GET(request: NextRequest) {
       headerId: item.HEADER_ID,
       tailId: item.TAIL_ID,
       hashedUser: item.HASHED_USER_IP,  // hashedUserIP → hashedUser로 매핑
-      // 자식 댓글도 동일하게 매핑 (없으면 빈 배열)
-      children: (item.children || []).map((child) => ({
-        id: child.ID,
-        parentHeaderId: child.parentHeaderId,
-        content: child.CONTENT,
-        createdAt: new Date(child.CREATED_AT).toISOString(),
-        updatedAt: new Date(child.UPDATED_AT).toISOString(),
-        isEdited: child.IS_EDITED,
-        isDeleted: child.IS_DELETED,
-        version: child.VERSION,
-        editedCommentId: child.EDITED_COMMENT_ID,
-        headerId: child.HEADER_ID,
-        tailId: child.TAIL_ID,
-        hashedUser: child.HASHED_USER_IP,  // hashedUserIP → hashedUser로 매핑
-      })),
+      depth: 0,
+      replyCount: item.REPLY_COUNT,
+      // 답글 트리도 동일하게 매핑 (깊은 답글은 children 없이 replyCount만 포함)
+      children: item.children?.map(toReplyResponse),
     }));
 
-    const response = NextResponse.json({
-      page,
+    const body: CommentListResponse = {
+      ...(cursor === null ? { page } : {}),
       limit,
+      sort,
       totalCount: result.totalCount,
+      nextCursor: result.nextCursor,
+      maxDepth: COMMENT_MAX_DEPTH,
       data: mappedComments,
-    });
+    };
+    const response = NextResponse.json(body);
     return setCorsHeaders(request, response);
   } catch (error) {
     // DB 연결 에러인지 확인
     if (error instanceof Error) {
+      if (error.message.includes('유효하지 않은 커서')) {
+        const errorResponse = NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
       if (error.message.includes('환경 변수가 설정되지 않았습니다')) {
         const errorResponse = NextResponse.json(
           {
@@ -163,8 +181,8 @@ export async function POST(request: NextRequest) {
     const clientIP = getClientIP(request);
     const hashedUserIP = getHashedIP(clientIP);
 
-    // 댓글 생성
-    const newId = await createComment(
+    // 댓글 생성 (승인 대기 모드면 status가 pending)
+    const { id, status } = await createComment(
       content.trim(),
       userPassword,
       hashedUserIP,
@@ -172,13 +190,39 @@ export async function POST(request: NextRequest) {
     );
 
     const response = NextResponse.json(
-      { id: newId },
+      { id, status },
       { status: 201 }
     );
     return setCorsHeaders(request, response);
   } catch (error) {
+    // 필터에 거부된 경우 사유 코드 반환 (작성 빈도 제한은 429)
+    if (error instanceof CommentRejectedError) {
+      const { code, message, retryAfterMs } = error.rejection;
+      const body: CommentRejectionResponse = { error: message, code, retryAfterMs };
+      const errorResponse = NextResponse.json(body, { status: code === 'RATE_LIMITED' ? 429 : 422 });
+      if (retryAfterMs !== undefined) {
+        errorResponse.headers.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      }
+      return setCorsHeaders(request, errorResponse);
+    }
+
     // DB 연결 에러인지 확인
     if (error instanceof Error) {
+      if (error.message.includes('존재하지 않는')) {
+        const errorResponse = NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+      if (error.message.includes('단계까지만')) {
+        const errorResponse = NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+        return setCorsHeaders(request, errorResponse);
+      }
+
       if (error.message.includes('환경 변수가 설정되지 않았습니다')) {
         const errorResponse = NextResponse.json(
           {
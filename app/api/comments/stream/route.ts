@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { commentEventHub } from '../../../services/commentEvents';
+import { setCorsHeaders, handleOptions } from '../../../utils/corsUtils';
+import { withApiLogging } from '../../../utils/apiLogger';
+import type { CommentEvent } from '../../../types/comment';
+
+// Route Segment Config - 연결마다 스트림을 유지하므로 동적 렌더링
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// 프록시가 유휴 연결을 끊지 않도록 주기적으로 보내는 주석 줄 간격
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// 연결이 끊긴 EventSource가 다시 연결을 시도하기까지의 대기 시간
+const RECONNECT_DELAY_MS = 5000;
+
+const maxClients = parseInt(process.env.COMMENT_STREAM_MAX_CLIENTS || '', 10);
+const COMMENT_STREAM_MAX_CLIENTS = Number.isNaN(maxClients) || maxClients < 0 ? 1000 : maxClients;
+
+const encoder = new TextEncoder();
+
+/**
+ * 댓글 실시간 이벤트 API (Server-Sent Events)
+ * GET /api/comments/stream
+ * 공개 댓글의 created, edited, deleted 이벤트를 CommentResponse 형식의 data로 전송합니다.
+ * 동시 연결 수가 COMMENT_STREAM_MAX_CLIENTS(기본값: 1000, 0이면 제한 없음)를 넘으면 503을 반환하며,
+ * 클라이언트는 이 경우 목록 폴링으로 대신합니다.
+ */
+export async function OPTIONS(request: NextRequest) {
+  return handleOptions(request);
+}
+
+export async function GET(request: NextRequest) {
+  return withApiLogging(request, '/api/comments/stream', async () => {
+    if (COMMENT_STREAM_MAX_CLIENTS > 0 && commentEventHub.listenerCount >= COMMENT_STREAM_MAX_CLIENTS) {
+      const errorResponse = NextResponse.json(
+        { error: '실시간 연결이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+        { status: 503 }
+      );
+      return setCorsHeaders(request, errorResponse);
+    }
+
+    let cleanup = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let eventId = 0;
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // 이미 닫힌 스트림
+            cleanup();
+          }
+        };
+
+        const unsubscribe = commentEventHub.subscribe((event: CommentEvent) => {
+          eventId += 1;
+          send(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event.comment)}\n\n`);
+        });
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          request.signal.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // 이미 닫힌 스트림
+          }
+        };
+        request.signal.addEventListener('abort', onAbort);
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n: connected\n\n`);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    const response = new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',  // nginx 버퍼링 비활성화
+      },
+    });
+    return setCorsHeaders(request, response);
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * ICE 서버 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import { getIceServers } from '@/app/utils/collaboration/iceServers';
+import type { IceServersResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * GET /api/online-sequencer/ice-servers?roomCode=XXXX
+ * STUN 서버와 기한이 있는 TURN 인증 정보 발급 (룸의 호스트, 참가자 또는 관전자 전용)
+ *
+ * X-Client-Id 헤더의 클라이언트가 룸에 속해 있어야 하며,
+ * Authorization 헤더로 해당 역할의 룸 토큰(호스트 토큰 또는 참가자 토큰)을 전달해야 합니다.
+ */
+export async function GET(request: NextRequest) {
+  return withApiLogging(request, '/api/online-sequencer/ice-servers', async () => {
+    const roomCode = normalizeRoomCode(request.nextUrl.searchParams.get('roomCode') || '');
+    const clientId = request.headers.get('x-client-id') || undefined;
+    try {
+    logDebug(`[Online Sequencer] [GET /api/online-sequencer/ice-servers] ICE server request:${roomCode} clientId:${clientId || 'none'}`);
+
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // clientId 검증
+    if (!clientId) {
+      const { response, status } = createErrorResponse(
+        'X-Client-Id header is required',
+        ErrorCode.INVALID_PARTICIPANT_ID,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 멤버십 확인 (호스트는 호스트 토큰, 참가자는 참가자 토큰, 관전자는 참가자 또는 관전자 토큰)
+    const token = getBearerToken(request);
+    const isHost = room.hostId === clientId && verifyRoomToken(token, room, 'host');
+    const isParticipant = room.participants.includes(clientId) && verifyRoomToken(token, room, 'participant');
+    const isSpectator = room.spectators.includes(clientId)
+      && (verifyRoomToken(token, room, 'participant') || verifyRoomToken(token, room, 'spectator'));
+    if (!isHost && !isParticipant && !isSpectator) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only room members can request ICE servers',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      const { iceServers, expiresAt } = getIceServers(room, clientId);
+      const response: IceServersResponse = {
+        success: true,
+        iceServers,
+        expiresAt
+      };
+
+      return NextResponse.json(response, {
+        headers: { 'Cache-Control': 'no-store' }
+      });
+    } catch (error) {
+      logError('GET /api/online-sequencer/ice-servers', error, { roomCode, clientId });
+      const { response, status } = createErrorResponse(
+        'Failed to get ICE servers',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
@@ -4,10 +4,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { roomService } from '@/app/services/collaboration/roomService';
-import { isValidRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
 import type { AllowJoinRequest, AllowJoinResponse } from '@/app/types/collaboration/room';
 import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
 import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
 import { logDebug } from '@/app/utils/logging';
 
 /**
@@ -19,7 +21,7 @@ export async function POST(
   { params }: { params: Promise<{ roomCode: string }> }
 ) {
   const resolvedParams = await params;
-  const roomCode = resolvedParams.roomCode;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
   return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/allow-join`, async () => {
     let duration: number | undefined;
     try {
@@ -31,7 +33,7 @@ export async function POST(
     // 룸 코드 형식 검증
     if (!isValidRoomCode(roomCode)) {
       const { response, status } = createErrorResponse(
-        'Invalid room code format (must be 4 digits)',
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
         ErrorCode.INVALID_ROOM_CODE,
         400
       );
@@ -59,8 +61,8 @@ export async function POST(
       return NextResponse.json(response, { status });
     }
 
-    // 호스트 권한 확인
-    if (clientId && room.hostId !== clientId) {
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host') || (clientId && room.hostId !== clientId)) {
       const { response, status } = createErrorResponse(
         'Unauthorized: Only the host can allow join',
         ErrorCode.UNAUTHORIZED,
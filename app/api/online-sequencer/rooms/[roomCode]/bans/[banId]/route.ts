@@ -0,0 +1,97 @@
+/**
+ * 차단 해제 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { LiftBanResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * DELETE /api/online-sequencer/rooms/:roomCode/bans/:banId
+ * 차단 해제 (호스트 전용, 현재 룸의 강퇴 기록도 함께 해제)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string; banId: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  const banId = resolvedParams.banId;
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/bans/${banId}`, async () => {
+    try {
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can lift bans',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    const ban = roomService.liftBan(roomCode, banId);
+    logDebug(`[Online Sequencer] Ban lifted:${roomCode} banId:${banId} participantId:${ban.participantId}`);
+
+      const response: LiftBanResponse = {
+        success: true,
+        banId,
+        participantId: ban.participantId
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('DELETE /api/online-sequencer/rooms/:roomCode/bans/:banId', error, { roomCode, banId });
+
+      if (error instanceof Error && error.message === 'Room not found') {
+        const { response, status } = createErrorResponse(
+          'Room not found',
+          ErrorCode.ROOM_NOT_FOUND,
+          404
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Ban not found') {
+        const { response, status } = createErrorResponse(
+          'Ban not found',
+          ErrorCode.BAN_NOT_FOUND,
+          404
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      const { response, status } = createErrorResponse(
+        'Failed to lift ban',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
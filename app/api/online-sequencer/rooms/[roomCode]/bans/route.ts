@@ -0,0 +1,73 @@
+/**
+ * 호스트 차단 목록 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { toRoomBanInfo } from '@/app/services/collaboration/hostBanList';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { RoomBansResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+
+/**
+ * GET /api/online-sequencer/rooms/:roomCode/bans
+ * 룸 호스트의 차단 목록 조회 (호스트 전용, 이전 룸에서 차단한 참가자 포함)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/bans`, async () => {
+    try {
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can view bans',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      const response: RoomBansResponse = {
+        success: true,
+        bans: roomService.getBans(roomCode).map(toRoomBanInfo)
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('GET /api/online-sequencer/rooms/:roomCode/bans', error, { roomCode });
+      const { response, status } = createErrorResponse(
+        'Failed to get bans',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
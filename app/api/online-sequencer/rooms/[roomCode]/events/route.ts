@@ -0,0 +1,92 @@
+/**
+ * 룸 이벤트 로그 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { roomEventLog, toJsonLines } from '@/app/services/collaboration/roomEventLog';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { RoomEventsResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { isAdminRequest } from '@/app/utils/adminAuth';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * GET /api/online-sequencer/rooms/:roomCode/events
+ * 룸 이벤트 로그 조회 (호스트 토큰 또는 관리자 인증 필요)
+ *
+ * - 기본 응답은 JSON, ?format=jsonl 또는 Accept: application/x-ndjson이면 JSONL 파일로 내려받기
+ * - 삭제된 룸의 로그는 보관 기간 동안 관리자만 조회 가능
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/events`, async () => {
+    try {
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 토큰 또는 관리자 인증 확인
+    const room = roomService.getRoom(roomCode);
+    const isHost = room !== null && verifyRoomToken(getBearerToken(request), room, 'host');
+    if (!isHost && !(await isAdminRequest(request))) {
+      const { response, status } = room
+        ? createErrorResponse('Unauthorized: Only the host or an admin can view room events', ErrorCode.UNAUTHORIZED, 403)
+        : createErrorResponse('Room not found', ErrorCode.ROOM_NOT_FOUND, 404);
+      return NextResponse.json(response, { status });
+    }
+
+    const log = roomEventLog.get(roomCode);
+    if (!log) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    logDebug(`[Online Sequencer] [GET /api/online-sequencer/rooms/:roomCode/events] Room events requested:${roomCode} events:${log.events.length} by:${isHost ? 'host' : 'admin'}`);
+
+    const format = request.nextUrl.searchParams.get('format');
+    const accept = request.headers.get('accept') || '';
+    if (format === 'jsonl' || (!format && accept.includes('application/x-ndjson'))) {
+      return new NextResponse(toJsonLines(roomCode, log.events), {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="room-${roomCode}-events.jsonl"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+      const response: RoomEventsResponse = {
+        success: true,
+        roomCode,
+        ...log
+      };
+      return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+      logError('GET /api/online-sequencer/rooms/:roomCode/events', error, { roomCode });
+      const { response, status } = createErrorResponse(
+        'Failed to get room events',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * 룸 수명 연장 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ROOM_LIMITS, roomService } from '@/app/services/collaboration/roomService';
+import { signalingService } from '@/app/services/collaboration/signalingService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { ExtendRoomRequest, ExtendRoomResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * POST /api/online-sequencer/rooms/:roomCode/extend
+ * 룸 수명 연장 (호스트 전용, 최대 수명을 넘지 않는 만큼만 연장)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/extend`, async () => {
+    let minutes: number | undefined;
+    try {
+    const body: ExtendRoomRequest = await request.json();
+    minutes = body.minutes;
+    const clientId = request.headers.get('x-client-id') || undefined;
+
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // minutes 검증
+    if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes <= 0 || minutes > ROOM_LIMITS.extendMaxMinutes) {
+      const { response, status } = createErrorResponse(
+        `Invalid minutes (must be between 1 and ${ROOM_LIMITS.extendMaxMinutes})`,
+        ErrorCode.INVALID_DURATION,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host') || (clientId && room.hostId !== clientId)) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can extend the room',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 연장 후 참가자에게 새 만료 시간 알림
+    const extendedRoom = roomService.extendRoom(roomCode, minutes);
+    logDebug(`[Online Sequencer] Room extended:${roomCode} minutes:${minutes} expiresAt:${extendedRoom.expiresAt} maxExpiresAt:${extendedRoom.maxExpiresAt}`);
+    signalingService.broadcastToRoom(roomCode, {
+      action: 'room-extended',
+      roomCode,
+      data: {
+        expiresAt: extendedRoom.expiresAt,
+        maxExpiresAt: extendedRoom.maxExpiresAt
+      },
+      timestamp: Date.now()
+    });
+
+      const response: ExtendRoomResponse = {
+        success: true,
+        expiresAt: extendedRoom.expiresAt,
+        maxExpiresAt: extendedRoom.maxExpiresAt
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('POST /api/online-sequencer/rooms/:roomCode/extend', error, { roomCode, minutes });
+
+      if (error instanceof Error && error.message === 'Room not found') {
+        const { response, status } = createErrorResponse(
+          'Room not found',
+          ErrorCode.ROOM_NOT_FOUND,
+          404
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Room lifetime limit reached') {
+        const { response, status } = createErrorResponse(
+          `Room has reached its maximum lifetime (${ROOM_LIMITS.lifetimeMaxMinutes} minutes)`,
+          ErrorCode.ROOM_LIFETIME_LIMIT_REACHED,
+          409
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      const { response, status } = createErrorResponse(
+        'Failed to extend room',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * 조인 요청(lobby 모드) REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { signalingService } from '@/app/services/collaboration/signalingService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { JoinRequestDecisionRequest, JoinRequestDecisionResponse } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * GET /api/online-sequencer/rooms/:roomCode/join-requests
+ * 대기 중인 조인 요청 목록 조회 (호스트 전용)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/join-requests`, async () => {
+    try {
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can view join requests',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      return NextResponse.json({
+        success: true,
+        joinMode: room.joinMode,
+        joinRequests: roomService.getJoinRequests(roomCode)
+      });
+    } catch (error) {
+      logError('GET /api/online-sequencer/rooms/:roomCode/join-requests', error, { roomCode });
+      const { response, status } = createErrorResponse(
+        'Failed to get join requests',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
+
+/**
+ * POST /api/online-sequencer/rooms/:roomCode/join-requests
+ * 조인 요청 승인/거절 (호스트가 대기 중인 참가자를 승인 또는 거절 시)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/join-requests`, async () => {
+    let participantId: string | undefined;
+    try {
+    const body: JoinRequestDecisionRequest = await request.json();
+    participantId = body.participantId;
+    const approve = body.approve;
+    logDebug(`[Online Sequencer] [POST /api/online-sequencer/rooms/:roomCode/join-requests] Join decision received:${roomCode} participantId:${participantId} approve:${approve}`);
+
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // participantId 검증
+    if (!participantId || typeof participantId !== 'string') {
+      const { response, status } = createErrorResponse(
+        'participantId is required and must be a string',
+        ErrorCode.INVALID_PARTICIPANT_ID,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // approve 검증
+    if (typeof approve !== 'boolean') {
+      const { response, status } = createErrorResponse(
+        'approve is required and must be a boolean',
+        ErrorCode.INVALID_INPUT,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can respond to join requests',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 조인 요청 처리
+    const resolved = signalingService.resolveJoinRequest(roomCode, participantId, approve);
+    if (!resolved) {
+      const { response, status } = createErrorResponse(
+        'Join request not found or expired',
+        ErrorCode.PARTICIPANT_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      const response: JoinRequestDecisionResponse = {
+        success: true,
+        participantId,
+        approved: approve
+      };
+
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('POST /api/online-sequencer/rooms/:roomCode/join-requests', error, { roomCode, participantId });
+
+      if (error instanceof Error && error.message === 'Room is full') {
+        const { response, status } = createErrorResponse(
+          'Room is full',
+          ErrorCode.ROOM_FULL,
+          409
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Room not found') {
+        const { response, status } = createErrorResponse(
+          'Room not found',
+          ErrorCode.ROOM_NOT_FOUND,
+          404
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      const { response, status } = createErrorResponse(
+        'Failed to process join request',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
@@ -4,32 +4,39 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { roomService } from '@/app/services/collaboration/roomService';
-import { isValidRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { signalingService } from '@/app/services/collaboration/signalingService';
+import { toRoomBanInfo } from '@/app/services/collaboration/hostBanList';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
 import type { KickParticipantRequest, KickParticipantResponse } from '@/app/types/collaboration/room';
-import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { createErrorResponse, logError, ErrorCode, createValidationError } from '@/app/utils/collaboration/errorHandler';
 import { withApiLogging } from '@/app/utils/apiLogger';
+import { isAdminRequest } from '@/app/utils/adminAuth';
+import { getBearerToken } from '@/app/utils/requestUtils';
 
 /**
  * POST /api/online-sequencer/rooms/:roomCode/kick
- * 참가자 강퇴 (호스트가 강퇴 버튼 클릭 시)
+ * 참가자/관전자 강퇴 (호스트가 강퇴 버튼 클릭 시, 관리자 대시보드에서도 사용)
+ * 강퇴와 함께 호스트 단위 차단 목록에 추가하며, banIp가 true면 참가자의 해싱된 IP도 차단합니다.
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ roomCode: string }> }
 ) {
   const resolvedParams = await params;
-  const roomCode = resolvedParams.roomCode;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
   return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/kick`, async () => {
     let participantId: string | undefined;
     try {
     const body: KickParticipantRequest = await request.json();
     participantId = body.participantId;
+    const banIp = body.banIp ?? false;
     const clientId = request.headers.get('x-client-id') || undefined;
 
     // 룸 코드 형식 검증
     if (!isValidRoomCode(roomCode)) {
       const { response, status } = createErrorResponse(
-        'Invalid room code format (must be 4 digits)',
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
         ErrorCode.INVALID_ROOM_CODE,
         400
       );
@@ -57,8 +64,9 @@ export async function POST(
       return NextResponse.json(response, { status });
     }
 
-    // 호스트 권한 확인
-    if (clientId && room.hostId !== clientId) {
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증) 또는 관리자 인증 확인
+    const isHost = verifyRoomToken(getBearerToken(request), room, 'host') && (!clientId || room.hostId === clientId);
+    if (!isHost && !(await isAdminRequest(request))) {
       const { response, status } = createErrorResponse(
         'Unauthorized: Only the host can kick participants',
         ErrorCode.UNAUTHORIZED,
@@ -67,8 +75,15 @@ export async function POST(
       return NextResponse.json(response, { status });
     }
 
-    // 참가자 존재 확인
-    if (!room.participants.includes(participantId)) {
+    // banIp 검증
+    if (typeof banIp !== 'boolean') {
+      const { response, status } = createValidationError('banIp', 'banIp must be a boolean');
+      return NextResponse.json(response, { status });
+    }
+
+    // 참가자/관전자 존재 확인
+    const isSpectator = room.spectators.includes(participantId);
+    if (!room.participants.includes(participantId) && !isSpectator) {
       const { response, status } = createErrorResponse(
         'Participant not found in room',
         ErrorCode.PARTICIPANT_NOT_FOUND,
@@ -77,17 +92,16 @@ export async function POST(
       return NextResponse.json(response, { status });
     }
 
-    // 참가자 강퇴
-    roomService.kickParticipant(roomCode, participantId);
-
-    // 강퇴된 참가자에게 'kicked' 메시지 전송은 WebSocket을 통해 처리
-    // (SignalingService에서 처리)
-    // Note: signalingService는 서버에서만 사용 가능하므로 여기서는 직접 호출하지 않음
-    // WebSocket 서버에서 처리됨
+    // 참가자 강퇴 후 WebSocket으로 kicked 알림 (server.ts와 같은 signalingService 인스턴스 사용)
+    // IP 차단은 연결이 끊기기 전에 해싱된 IP를 조회해야 함
+    const ipHash = banIp ? signalingService.getClientIpHash(participantId) : null;
+    const ban = roomService.kickParticipant(roomCode, participantId, ipHash);
+    signalingService.notifyKicked(roomCode, participantId, isSpectator ? 'spectator' : 'participant');
 
       const response: KickParticipantResponse = {
         success: true,
-        message: 'Participant kicked'
+        message: 'Participant kicked',
+        ban: ban ? toRoomBanInfo(ban) : null
       };
 
       return NextResponse.json(response);
@@ -4,10 +4,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { roomService } from '@/app/services/collaboration/roomService';
-import { isValidRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { signalingService } from '@/app/services/collaboration/signalingService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
 import type { RoomInfo } from '@/app/types/collaboration/room';
 import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
 import { withApiLogging } from '@/app/utils/apiLogger';
+import { isAdminRequest } from '@/app/utils/adminAuth';
+import { getHashedIP } from '@/app/utils/hashUtils';
+import { getBearerToken, getClientIP } from '@/app/utils/requestUtils';
 import { logDebug } from '@/app/utils/logging';
 
 /**
@@ -19,7 +24,7 @@ export async function GET(
   { params }: { params: Promise<{ roomCode: string }> }
 ) {
   const resolvedParams = await params;
-  const roomCode = resolvedParams.roomCode;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
   return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}`, async () => {
     try {
     const clientId = request.headers.get('x-client-id') || undefined;
@@ -28,7 +33,7 @@ export async function GET(
     // 룸 코드 형식 검증
     if (!isValidRoomCode(roomCode)) {
       const { response, status } = createErrorResponse(
-        'Invalid room code format (must be 4 digits)',
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
         ErrorCode.INVALID_ROOM_CODE,
         400
       );
@@ -52,10 +57,10 @@ export async function GET(
     // 조인 허용 만료 확인 및 업데이트
     roomService.checkAndUpdateAllowJoin(roomCode);
 
-    // 강퇴된 참가자인지 확인 (clientId가 제공된 경우)
+    // 강퇴된 참가자인지 확인 (clientId가 제공된 경우, 호스트 차단 목록의 IP 포함)
     let isKicked = false;
     if (clientId) {
-      isKicked = roomService.isKickedParticipant(roomCode, clientId);
+      isKicked = roomService.isKickedParticipant(roomCode, clientId, getHashedIP(getClientIP(request)));
       if (isKicked) {
         logDebug(`[Online Sequencer] Client is kicked:${roomCode} clientId:${clientId}`);
       }
@@ -75,17 +80,21 @@ export async function GET(
     const roomInfo: RoomInfo = {
       success: true,
       roomCode: room.roomCode,
-      hostId: room.hostId,
       status: Date.now() > room.expiresAt ? 'expired' : 'active',
       allowJoin: room.allowJoin,
       allowJoinExpiresAt: room.allowJoinExpiresAt,
+      joinMode: room.joinMode,
       participantCount: room.participants.length,
       maxParticipants: room.maxParticipants,
+      spectatorCount: room.spectators.length,
+      maxSpectators: room.maxSpectators,
       createdAt: room.createdAt,
-      expiresAt: room.expiresAt
+      expiresAt: room.expiresAt,
+      maxExpiresAt: room.maxExpiresAt,
+      relayedPairs: signalingService.getRelayedPairs(roomCode)
     };
 
-      logDebug(`[Online Sequencer] Room info returned:${roomCode} hostId:${roomInfo.hostId} status:${roomInfo.status}`);
+      logDebug(`[Online Sequencer] Room info returned:${roomCode} status:${roomInfo.status}`);
       return NextResponse.json(roomInfo);
     } catch (error) {
       logError('GET /api/online-sequencer/rooms/:roomCode', error, { roomCode });
@@ -101,14 +110,15 @@ export async function GET(
 
 /**
  * DELETE /api/online-sequencer/rooms/:roomCode
- * 룸 삭제 (호스트가 "Stop Hosting" 클릭 시, 또는 6시간 후 자동)
+ * 룸 삭제 (호스트가 "Stop Hosting" 클릭 시, 만료 시간이 지나면 자동)
+ * 관리자는 호스트 토큰 없이 룸을 강제 종료할 수 있으며, 이때 호스트를 포함한 모든 클라이언트에게 room-closed를 전송합니다.
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ roomCode: string }> }
 ) {
   const resolvedParams = await params;
-  const roomCode = resolvedParams.roomCode;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
   return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}`, async () => {
     try {
     const clientId = request.headers.get('x-client-id') || undefined;
@@ -116,7 +126,7 @@ export async function DELETE(
     // 룸 코드 형식 검증
     if (!isValidRoomCode(roomCode)) {
       const { response, status } = createErrorResponse(
-        'Invalid room code format (must be 4 digits)',
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
         ErrorCode.INVALID_ROOM_CODE,
         400
       );
@@ -134,8 +144,10 @@ export async function DELETE(
       return NextResponse.json(response, { status });
     }
 
-    // 호스트 권한 확인
-    if (clientId && room.hostId !== clientId) {
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증) 또는 관리자 인증 확인
+    const isHost = verifyRoomToken(getBearerToken(request), room, 'host') && (!clientId || room.hostId === clientId);
+    const isAdmin = !isHost && (await isAdminRequest(request));
+    if (!isHost && !isAdmin) {
       const { response, status } = createErrorResponse(
         'Unauthorized: Only the host can delete the room',
         ErrorCode.UNAUTHORIZED,
@@ -145,8 +157,11 @@ export async function DELETE(
     }
 
     // 룸 삭제
-    logDebug(`[Online Sequencer] [DELETE /api/online-sequencer/rooms/:roomCode] Room deletion requested:${roomCode} clientId:${clientId || 'none'}`);
-    roomService.deleteRoom(roomCode);
+    logDebug(`[Online Sequencer] [DELETE /api/online-sequencer/rooms/:roomCode] Room deletion requested:${roomCode} clientId:${clientId || 'none'} by:${isAdmin ? 'admin' : 'host'}`);
+    if (isAdmin) {
+      signalingService.notifyRoomClosed(roomCode, true);
+    }
+    roomService.deleteRoom(roomCode, isAdmin ? 'admin-request' : 'host-request');
     logDebug(`[Online Sequencer] Room deleted:${roomCode}`);
 
       return NextResponse.json({
@@ -0,0 +1,189 @@
+/**
+ * 룸 상태 스냅샷 REST API 엔드포인트
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { roomService } from '@/app/services/collaboration/roomService';
+import { getRoomCodeFormatDescription, isValidRoomCode, normalizeRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import type { RoomStateResponse, UpdateRoomStateRequest } from '@/app/types/collaboration/room';
+import { createErrorResponse, logError, ErrorCode } from '@/app/utils/collaboration/errorHandler';
+import { withApiLogging } from '@/app/utils/apiLogger';
+import { getBearerToken } from '@/app/utils/requestUtils';
+import { logDebug } from '@/app/utils/logging';
+
+/**
+ * GET /api/online-sequencer/rooms/:roomCode/state
+ * 최신 룸 상태 스냅샷 조회 (호스트, 참가자 또는 관전자 토큰 필요)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/state`, async () => {
+    try {
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 토큰 확인 (호스트, 참가자 또는 관전자)
+    const token = getBearerToken(request);
+    if (!verifyRoomToken(token, room, 'host') && !verifyRoomToken(token, room, 'participant') && !verifyRoomToken(token, room, 'spectator')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: A valid room token is required',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      const response: RoomStateResponse = {
+        success: true,
+        roomCode,
+        stateSnapshot: room.stateSnapshot
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('GET /api/online-sequencer/rooms/:roomCode/state', error, { roomCode });
+      const { response, status } = createErrorResponse(
+        'Failed to get room state',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
+
+/**
+ * PUT /api/online-sequencer/rooms/:roomCode/state
+ * 룸 상태 스냅샷 업로드 (호스트 전용, 이전 스냅샷보다 높은 버전만 저장)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomCode: string }> }
+) {
+  const resolvedParams = await params;
+  const roomCode = normalizeRoomCode(resolvedParams.roomCode);
+  return withApiLogging(request, `/api/online-sequencer/rooms/${roomCode}/state`, async () => {
+    try {
+    const body: UpdateRoomStateRequest = await request.json();
+    const { version, state } = body;
+    logDebug(`[Online Sequencer] [PUT /api/online-sequencer/rooms/:roomCode/state] State upload received:${roomCode} version:${version}`);
+
+    // 룸 코드 형식 검증
+    if (!isValidRoomCode(roomCode)) {
+      const { response, status } = createErrorResponse(
+        `Invalid room code format (${getRoomCodeFormatDescription()})`,
+        ErrorCode.INVALID_ROOM_CODE,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // version 검증
+    if (typeof version !== 'number' || !Number.isSafeInteger(version) || version < 0) {
+      const { response, status } = createErrorResponse(
+        'version is required and must be a non-negative integer',
+        ErrorCode.INVALID_INPUT,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // state 검증
+    if (state === undefined) {
+      const { response, status } = createErrorResponse(
+        'state is required',
+        ErrorCode.INVALID_INPUT,
+        400
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 룸 존재 확인
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      const { response, status } = createErrorResponse(
+        'Room not found',
+        ErrorCode.ROOM_NOT_FOUND,
+        404
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // 호스트 권한 확인 (서명된 호스트 토큰 검증)
+    if (!verifyRoomToken(getBearerToken(request), room, 'host')) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Only the host can update room state',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
+      const stateSnapshot = roomService.setRoomState(roomCode, version, state);
+      const response: RoomStateResponse = {
+        success: true,
+        roomCode,
+        stateSnapshot
+      };
+      return NextResponse.json(response);
+    } catch (error) {
+      logError('PUT /api/online-sequencer/rooms/:roomCode/state', error, { roomCode });
+
+      if (error instanceof Error && error.message === 'Room state too large') {
+        const { response, status } = createErrorResponse(
+          'Room state too large',
+          ErrorCode.PAYLOAD_TOO_LARGE,
+          413
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Room state version conflict') {
+        const { response, status } = createErrorResponse(
+          'Room state version must be greater than the current version',
+          ErrorCode.STATE_VERSION_CONFLICT,
+          409
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Room not found') {
+        const { response, status } = createErrorResponse(
+          'Room not found',
+          ErrorCode.ROOM_NOT_FOUND,
+          404
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      const { response, status } = createErrorResponse(
+        'Failed to update room state',
+        ErrorCode.INTERNAL_ERROR,
+        500
+      );
+      return NextResponse.json(response, { status });
+    }
+  });
+}
@@ -3,25 +3,39 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { roomService } from '@/app/services/collaboration/roomService';
+import { ROOM_LIMITS, roomService } from '@/app/services/collaboration/roomService';
 import { signalingService } from '@/app/services/collaboration/signalingService';
-import type { CreateRoomRequest } from '@/app/types/collaboration/room';
+import type { AdminRoomSummary, AdminRoomsResponse, CreateRoomRequest, CreateRoomResponse } from '@/app/types/collaboration/room';
 import { createErrorResponse, logError, ErrorCode, createValidationError } from '@/app/utils/collaboration/errorHandler';
+import { createRoomTokens } from '@/app/utils/collaboration/roomToken';
 import { withApiLogging } from '@/app/utils/apiLogger';
+import { isAdminRequest } from '@/app/utils/adminAuth';
+import { getHashedIP } from '@/app/utils/hashUtils';
 import { logDebug } from '@/app/utils/logging';
+import { getBearerToken, getClientIP } from '@/app/utils/requestUtils';
 
 /**
  * GET /api/online-sequencer/rooms
- * 모든 룸 정보 조회 (디버깅/모니터링용)
+ * 모든 룸 정보 조회 (관리자 대시보드/모니터링용, 관리자 인증 필요)
  */
 export async function GET(request: NextRequest) {
   return withApiLogging(request, '/api/online-sequencer/rooms', async () => {
     try {
+    // 관리자 인증 확인 (호스트 ID 등 민감한 정보 포함)
+    if (!(await isAdminRequest(request))) {
+      const { response, status } = createErrorResponse(
+        'Unauthorized: Admin authentication required',
+        ErrorCode.UNAUTHORIZED,
+        403
+      );
+      return NextResponse.json(response, { status });
+    }
+
     const rooms = roomService.getAllRooms();
     const now = Date.now();
     
     // 각 룸에 대한 상세 정보 수집
-    const roomsInfo = rooms.map(room => {
+    const roomsInfo = rooms.map((room): AdminRoomSummary => {
       const timeLeft = room.expiresAt - now;
       const minutesLeft = Math.floor(timeLeft / (60 * 1000));
       const connectedClients = signalingService.getRoomClients(room.roomCode);
@@ -30,31 +44,46 @@ export async function GET(request: NextRequest) {
       return {
         roomCode: room.roomCode,
         hostId: room.hostId,
+        hostDisconnectedAt: room.hostDisconnectedAt,
         createdAt: room.createdAt,
         expiresAt: room.expiresAt,
+        maxExpiresAt: room.maxExpiresAt,
         minutesLeft,
         allowJoin: room.allowJoin,
         allowJoinExpiresAt: room.allowJoinExpiresAt,
+        joinMode: room.joinMode,
+        pendingJoinRequests: roomService.getJoinRequests(room.roomCode),
+        reconnectingParticipants: room.reconnectingParticipants,
+        relayedPairs: signalingService.getRelayedPairs(room.roomCode),
+        stateSnapshot: room.stateSnapshot
+          ? { version: room.stateSnapshot.version, size: room.stateSnapshot.size, updatedAt: room.stateSnapshot.updatedAt }
+          : null,
         participantCount: room.participants.length,
         participants: room.participants,
         maxParticipants: room.maxParticipants,
+        spectatorCount: room.spectators.length,
+        spectators: room.spectators,
+        maxSpectators: room.maxSpectators,
         connectedClients: connectedClients.length,
         connectedClientIds: connectedClients,
         clientConnections: clientConnections.map(conn => ({
           clientId: conn.clientId,
           role: conn.role,
           isOpen: conn.isOpen,
-          readyState: conn.readyState // 0: CONNECTING, 1: OPEN, 2: CLOSING, 3: CLOSED
+          readyState: conn.readyState,
+          rttMs: conn.rttMs,
+          lastPongAt: conn.lastPongAt
         }))
       };
     });
     
-      return NextResponse.json({
+      const response: AdminRoomsResponse = {
         success: true,
         totalRooms: rooms.length,
         rooms: roomsInfo,
         timestamp: now
-      });
+      };
+      return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
     } catch (error) {
       logError('GET /api/online-sequencer/rooms', error);
       const { response, status } = createErrorResponse(
@@ -70,6 +99,8 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/online-sequencer/rooms
  * 룸 생성 (호스트가 "Host" 클릭 시)
+ * 같은 hostId의 활성 룸이 있으면 Authorization 헤더로 그 룸의 호스트 토큰을 보낸 경우에만 기존 룸과 토큰을 다시 반환하고,
+ * 그렇지 않으면 409를 반환합니다.
  */
 export async function POST(request: NextRequest) {
   return withApiLogging(request, '/api/online-sequencer/rooms', async () => {
@@ -77,6 +108,9 @@ export async function POST(request: NextRequest) {
     try {
     const body: CreateRoomRequest = await request.json();
     hostId = body.hostId;
+    const joinMode = body.joinMode ?? 'open';
+    const ttlMinutes = body.ttlMinutes ?? ROOM_LIMITS.ttlDefaultMinutes;
+    const maxParticipants = body.maxParticipants ?? ROOM_LIMITS.maxParticipantsDefault;
     logDebug(`[Online Sequencer] [POST /api/online-sequencer/rooms] Room creation request received hostId:${hostId}`);
 
     // 입력 검증
@@ -96,18 +130,59 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status });
     }
 
+    // joinMode 검증
+    if (joinMode !== 'open' && joinMode !== 'lobby') {
+      const { response, status } = createValidationError('joinMode', 'joinMode must be "open" or "lobby"');
+      return NextResponse.json(response, { status });
+    }
+
+    // ttlMinutes 검증 (환경 변수로 설정한 범위)
+    if (!Number.isInteger(ttlMinutes) || ttlMinutes < ROOM_LIMITS.ttlMinMinutes || ttlMinutes > ROOM_LIMITS.ttlMaxMinutes) {
+      const { response, status } = createValidationError(
+        'ttlMinutes',
+        `ttlMinutes must be an integer between ${ROOM_LIMITS.ttlMinMinutes} and ${ROOM_LIMITS.ttlMaxMinutes}`
+      );
+      return NextResponse.json(response, { status });
+    }
+
+    // maxParticipants 검증
+    if (!Number.isInteger(maxParticipants) || maxParticipants < 1 || maxParticipants > ROOM_LIMITS.maxParticipantsLimit) {
+      const { response, status } = createValidationError(
+        'maxParticipants',
+        `maxParticipants must be an integer between 1 and ${ROOM_LIMITS.maxParticipantsLimit}`
+      );
+      return NextResponse.json(response, { status });
+    }
+
     // 룸 생성 (서버가 룸 코드 생성)
-    const room = roomService.createRoom(hostId);
+    const room = roomService.createRoom(hostId, {
+      joinMode,
+      ttlMinutes,
+      maxParticipants,
+      hostIpHash: getHashedIP(getClientIP(request)),
+      hostToken: getBearerToken(request)
+    });
     logDebug(`[Online Sequencer] Room created:${room.roomCode} hostId:${room.hostId}`);
 
-      return NextResponse.json({
+    // 호스트/참가자/관전자 서명 토큰 발급
+    const { hostToken, participantToken, spectatorToken } = createRoomTokens(room);
+
+      const response: CreateRoomResponse = {
         success: true,
         roomCode: room.roomCode,
         hostId: room.hostId,
         expiresAt: room.expiresAt,
+        maxExpiresAt: room.maxExpiresAt,
+        maxParticipants: room.maxParticipants,
         allowJoin: room.allowJoin,
-        createdAt: room.createdAt
-      });
+        joinMode: room.joinMode,
+        createdAt: room.createdAt,
+        hostToken,
+        participantToken,
+        spectatorToken
+      };
+
+      return NextResponse.json(response);
     } catch (error) {
       logError('POST /api/online-sequencer/rooms', error, hostId ? { hostId } : undefined);
       
@@ -120,6 +195,33 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(response, { status });
       }
 
+      if (error instanceof Error && error.message === 'Host room already exists') {
+        const { response, status } = createErrorResponse(
+          'This host already has an active room (send its host token to reuse it)',
+          ErrorCode.HOST_ROOM_EXISTS,
+          409
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Host room limit reached') {
+        const { response, status } = createErrorResponse(
+          `Too many active rooms from this address (max ${ROOM_LIMITS.maxRoomsPerIp})`,
+          ErrorCode.HOST_ROOM_LIMIT_EXCEEDED,
+          429
+        );
+        return NextResponse.json(response, { status });
+      }
+
+      if (error instanceof Error && error.message === 'Room limit reached') {
+        const { response, status } = createErrorResponse(
+          'Server room limit reached, please try again later',
+          ErrorCode.ROOM_LIMIT_EXCEEDED,
+          503
+        );
+        return NextResponse.json(response, { status });
+      }
+
       const { response, status } = createErrorResponse(
         'Failed to create room',
         ErrorCode.INTERNAL_ERROR,
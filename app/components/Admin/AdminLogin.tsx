@@ -0,0 +1,45 @@
+/**
+ * 관리자 로그인 화면 컴포넌트
+ * 관리자 페이지에서 세션이 없을 때 표시하며, 입력한 비밀번호를 onLogin으로 전달합니다.
+ */
+'use client';
+
+import { useState } from 'react';
+import styles from './AdminLogin.module.css';
+
+interface AdminLoginProps {
+  title: string;
+  error: string | null;
+  onLogin: (password: string) => Promise<void>;
+}
+
+export default function AdminLogin({ title, error, onLogin }: AdminLoginProps) {
+  const [passwordInput, setPasswordInput] = useState<string>('');
+
+  const handleLogin = async () => {
+    await onLogin(passwordInput);
+    setPasswordInput('');
+  };
+
+  return (
+    <div className={styles.container}>
+      <h1 className={styles.title}>{title}</h1>
+      <div className={styles.loginForm}>
+        <input
+          type="password"
+          className={styles.input}
+          placeholder="Admin password"
+          value={passwordInput}
+          onChange={(e) => setPasswordInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleLogin();
+          }}
+        />
+        <button onClick={handleLogin} className={styles.primaryButton}>
+          Log in
+        </button>
+      </div>
+      {error && <p className={styles.errorText}>{error}</p>}
+    </div>
+  );
+}
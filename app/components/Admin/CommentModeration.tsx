@@ -0,0 +1,224 @@
+/**
+ * 댓글 모더레이션 관리자 컴포넌트
+ * ADMIN_PASSWORD_HASH 비밀번호로 로그인한 뒤 상태별 댓글 목록을 조회하고,
+ * 승인/숨김/스팸 분류와 영구 삭제를 처리합니다.
+ * blocked 탭에서는 스팸/도배 필터에 거부된 댓글 기록을 확인합니다.
+ */
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BlockedComment, CommentResponse, CommentStatus } from '@/app/types/comment';
+import { useAdminSession, ADMIN_SESSION_HEADER } from '@/app/hooks/useAdminSession';
+import AdminLogin from './AdminLogin';
+import styles from './CommentModeration.module.css';
+
+const COMMENTS_PER_PAGE = 20;
+
+type StatusFilter = CommentStatus | 'all' | 'blocked';
+
+const STATUS_FILTERS: StatusFilter[] = ['pending', 'visible', 'hidden', 'spam', 'all', 'blocked'];
+
+// 상태 변경 버튼 (현재 상태와 같은 버튼은 표시하지 않음)
+const STATUS_ACTIONS: Array<{ status: CommentStatus; label: string }> = [
+  { status: 'visible', label: 'Approve' },
+  { status: 'hidden', label: 'Hide' },
+  { status: 'spam', label: 'Spam' },
+];
+
+export default function CommentModeration() {
+  const { sessionToken, loginError, login, logout: endSession, sendAdminRequest } = useAdminSession();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [comments, setComments] = useState<CommentResponse[]>([]);
+  const [blocked, setBlocked] = useState<BlockedComment[]>([]);
+  const [totalCount, setTotalCount] = useState<number>(0);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  // 로그아웃 시 화면에 남은 관리자 데이터도 지움
+  const logout = useCallback((message: string | null = null) => {
+    endSession(message);
+    setComments([]);
+  }, [endSession]);
+
+  const fetchComments = useCallback(async () => {
+    if (!sessionToken) return;
+    try {
+      const url = statusFilter === 'blocked'
+        ? '/api/comments/moderation/blocked'
+        : `/api/comments/moderation?status=${statusFilter}&page=${currentPage}&limit=${COMMENTS_PER_PAGE}`;
+      const res = await fetch(url, { headers: { [ADMIN_SESSION_HEADER]: sessionToken }, cache: 'no-store' });
+
+      // 세션이 만료되었거나 서명 키가 바뀐 경우 로그인 화면으로
+      if (res.status === 401 || res.status === 403) {
+        logout('Admin session is no longer valid. Please log in again.');
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${res.status}`);
+      }
+
+      if (statusFilter === 'blocked') {
+        setBlocked(data.data || []);
+        setComments([]);
+      } else {
+        setComments(data.data || []);
+      }
+      setTotalCount(data.totalCount || 0);
+      setFetchError(null);
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : 'Failed to load comments');
+    }
+  }, [sessionToken, statusFilter, currentPage, logout]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const handleSetStatus = async (comment: CommentResponse, status: CommentStatus) => {
+    await sendAdminRequest(`/api/comments/${comment.id}/moderation`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+    fetchComments();
+  };
+
+  const handlePurge = async (comment: CommentResponse) => {
+    if (!confirm('Permanently delete this comment, its edit history and all replies? This cannot be undone.')) return;
+    await sendAdminRequest(`/api/comments/${comment.id}/moderation`, { method: 'DELETE' });
+    fetchComments();
+  };
+
+  const handleClearBlocked = async () => {
+    if (!confirm('Clear the blocked comment log?')) return;
+    await sendAdminRequest('/api/comments/moderation/blocked', { method: 'DELETE' });
+    fetchComments();
+  };
+
+  const handleFilterChange = (filter: StatusFilter) => {
+    setStatusFilter(filter);
+    setCurrentPage(1);
+  };
+
+  if (!sessionToken) {
+    return <AdminLogin title="Comment Moderation" error={loginError} onLogin={login} />;
+  }
+
+  const totalPages = Math.ceil(totalCount / COMMENTS_PER_PAGE) || 1;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Comment Moderation</h1>
+        <div className={styles.toolbar}>
+          <button onClick={fetchComments} className={styles.secondaryButton}>
+            Refresh
+          </button>
+          <button onClick={() => logout()} className={styles.secondaryButton}>
+            Log out
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.filters}>
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter}
+            onClick={() => handleFilterChange(filter)}
+            className={filter === statusFilter ? styles.filterActive : styles.filterButton}
+          >
+            {filter}
+          </button>
+        ))}
+      </div>
+
+      <p className={styles.infoText}>{totalCount} comment{totalCount === 1 ? '' : 's'}</p>
+      {fetchError && <p className={styles.errorText}>{fetchError}</p>}
+
+      {statusFilter === 'blocked' ? (
+        blocked.length === 0 ? (
+          <div className={styles.emptyMessage}>
+            <p>No blocked comments since the server started.</p>
+          </div>
+        ) : (
+          <>
+            <div className={styles.logActions}>
+              <button onClick={handleClearBlocked} className={styles.dangerButton}>
+                Clear log
+              </button>
+            </div>
+            <ul className={styles.commentList}>
+              {blocked.map((item) => (
+                <li key={item.id} className={styles.commentCard}>
+                  <div className={styles.commentMeta}>
+                    <span className={styles.statusBadge}>{item.code}</span>
+                    {item.detail && <span>{item.detail}</span>}
+                    <span>{item.hashedUser}</span>
+                    <span>{new Date(item.blockedAt).toLocaleString()}</span>
+                    {item.parentHeaderId !== null && <span>reply to #{item.parentHeaderId}</span>}
+                  </div>
+                  <p className={styles.commentContent}>{item.content}</p>
+                </li>
+              ))}
+            </ul>
+          </>
+        )
+      ) : comments.length === 0 ? (
+        <div className={styles.emptyMessage}>
+          <p>No comments.</p>
+        </div>
+      ) : (
+        <ul className={styles.commentList}>
+          {comments.map((comment) => (
+            <li key={comment.id} className={styles.commentCard}>
+              <div className={styles.commentMeta}>
+                <span className={styles.statusBadge}>{comment.status}</span>
+                <span>{comment.hashedUser}</span>
+                <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                {comment.parentHeaderId !== null && <span>reply to #{comment.parentHeaderId}</span>}
+                {comment.version > 1 && <span>v{comment.version}</span>}
+              </div>
+              <p className={styles.commentContent}>
+                {comment.isDeleted ? '(deleted by author)' : comment.content}
+              </p>
+              <div className={styles.actions}>
+                {STATUS_ACTIONS.filter((action) => action.status !== comment.status).map((action) => (
+                  <button
+                    key={action.status}
+                    onClick={() => handleSetStatus(comment, action.status)}
+                    className={styles.secondaryButton}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+                <button onClick={() => handlePurge(comment)} className={styles.dangerButton}>
+                  Purge
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {statusFilter !== 'blocked' && (
+        <div className={styles.pagination}>
+          <button
+            disabled={currentPage <= 1}
+            onClick={() => setCurrentPage((prev) => prev - 1)}
+            className={styles.secondaryButton}
+          >
+            Previous
+          </button>
+          <span>{currentPage} / {totalPages}</span>
+          <button
+            disabled={currentPage >= totalPages}
+            onClick={() => setCurrentPage((prev) => prev + 1)}
+            className={styles.secondaryButton}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
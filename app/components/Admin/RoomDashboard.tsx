@@ -0,0 +1,234 @@
+/**
+ * Online Sequencer 룸 관리자 대시보드 컴포넌트
+ * ADMIN_PASSWORD_HASH 비밀번호로 로그인한 뒤 활성 룸 목록을 주기적으로 조회하고,
+ * 룸 강제 종료와 클라이언트 강퇴를 처리합니다.
+ */
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AdminRoomSummary, AdminRoomsResponse } from '@/app/types/collaboration/room';
+import { useAdminSession, ADMIN_SESSION_HEADER } from '@/app/hooks/useAdminSession';
+import AdminLogin from './AdminLogin';
+import styles from './RoomDashboard.module.css';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+// 남은 시간 포맷팅 헬퍼 함수 (예: 1h 05m, 4m 30s)
+const formatTimeLeft = (ms: number): string => {
+  if (ms <= 0) {
+    return 'expired';
+  }
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+};
+
+// 클라이언트 연결 상태 표시 (WebSocket readyState 기준)
+const CONNECTION_STATE_LABELS = ['connecting', 'open', 'closing', 'closed'];
+
+export default function RoomDashboard() {
+  const { sessionToken, loginError, login, logout: endSession, sendAdminRequest } = useAdminSession();
+  const [rooms, setRooms] = useState<AdminRoomSummary[]>([]);
+  const [clockOffset, setClockOffset] = useState<number>(0);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<number | null>(null);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState<boolean>(true);
+
+  // 로그아웃 시 화면에 남은 관리자 데이터도 지움
+  const logout = useCallback((message: string | null = null) => {
+    endSession(message);
+    setRooms([]);
+    setLastUpdatedAt(null);
+  }, [endSession]);
+
+  const fetchRooms = useCallback(async () => {
+    if (!sessionToken) return;
+    try {
+      const res = await fetch('/api/online-sequencer/rooms', {
+        headers: { [ADMIN_SESSION_HEADER]: sessionToken },
+        cache: 'no-store',
+      });
+
+      // 세션이 만료되었거나 서명 키가 바뀐 경우 로그인 화면으로
+      if (res.status === 401 || res.status === 403) {
+        logout('Admin session is no longer valid. Please log in again.');
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(`HTTP error! status: ${res.status}`);
+      }
+
+      const data: AdminRoomsResponse = await res.json();
+      setRooms(data.rooms);
+      setClockOffset(data.timestamp - Date.now());
+      setLastUpdatedAt(Date.now());
+      setFetchError(null);
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : 'Failed to load rooms');
+    }
+  }, [sessionToken, logout]);
+
+  // 로그인 후 즉시 조회, 이후 자동 새로고침
+  useEffect(() => {
+    if (!sessionToken) return;
+    fetchRooms();
+    if (!autoRefresh) return;
+    const timer = setInterval(fetchRooms, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sessionToken, autoRefresh, fetchRooms]);
+
+  // 남은 시간 표시용 1초 타이머
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleCloseRoom = async (roomCode: string) => {
+    if (!confirm(`Force-close room ${roomCode}? All connected clients will be disconnected.`)) return;
+    await sendAdminRequest(`/api/online-sequencer/rooms/${roomCode}`, { method: 'DELETE' });
+    fetchRooms();
+  };
+
+  const handleKick = async (roomCode: string, participantId: string) => {
+    if (!confirm(`Kick ${participantId} from room ${roomCode}?`)) return;
+    await sendAdminRequest(`/api/online-sequencer/rooms/${roomCode}/kick`, {
+      method: 'POST',
+      body: JSON.stringify({ participantId }),
+    });
+    fetchRooms();
+  };
+
+  if (!sessionToken) {
+    return <AdminLogin title="Online Sequencer Admin" error={loginError} onLogin={login} />;
+  }
+
+  const serverNow = now + clockOffset;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Online Sequencer Rooms</h1>
+        <div className={styles.toolbar}>
+          <label className={styles.toggle}>
+            <input
+              type="checkbox"
+              checked={autoRefresh}
+              onChange={(e) => setAutoRefresh(e.target.checked)}
+            />
+            Auto-refresh ({REFRESH_INTERVAL_MS / 1000}s)
+          </label>
+          <button onClick={fetchRooms} className={styles.secondaryButton}>
+            Refresh
+          </button>
+          <button onClick={() => logout()} className={styles.secondaryButton}>
+            Log out
+          </button>
+        </div>
+      </div>
+
+      <p className={styles.infoText}>
+        {rooms.length} live room{rooms.length === 1 ? '' : 's'}
+        {lastUpdatedAt && ` · updated ${new Date(lastUpdatedAt).toLocaleTimeString()}`}
+      </p>
+      {fetchError && <p className={styles.errorText}>{fetchError}</p>}
+
+      {rooms.length === 0 ? (
+        <div className={styles.emptyMessage}>
+          <p>No live rooms.</p>
+        </div>
+      ) : (
+        <div className={styles.roomList}>
+          {rooms.map((room) => {
+            const connections = new Map(room.clientConnections.map((conn) => [conn.clientId, conn]));
+            const reconnecting = new Set(room.reconnectingParticipants.map((p) => p.participantId));
+            const members = [
+              { clientId: room.hostId, role: 'host' },
+              ...room.participants.map((clientId) => ({ clientId, role: 'participant' })),
+              ...room.spectators.map((clientId) => ({ clientId, role: 'spectator' })),
+            ];
+            const allowJoinLeft = room.allowJoin && room.allowJoinExpiresAt ? room.allowJoinExpiresAt - serverNow : 0;
+
+            return (
+              <div key={room.roomCode} className={styles.roomCard}>
+                <div className={styles.roomHeader}>
+                  <span className={styles.roomCode}>{room.roomCode}</span>
+                  <button onClick={() => handleCloseRoom(room.roomCode)} className={styles.dangerButton}>
+                    Force close
+                  </button>
+                </div>
+
+                <dl className={styles.roomStats}>
+                  <dt>Time left</dt>
+                  <dd>{formatTimeLeft(room.expiresAt - serverNow)}</dd>
+                  <dt>Allow join</dt>
+                  <dd>
+                    {room.allowJoin ? `on (${formatTimeLeft(allowJoinLeft)})` : 'off'} · {room.joinMode}
+                    {room.pendingJoinRequests.length > 0 && ` · ${room.pendingJoinRequests.length} pending`}
+                  </dd>
+                  <dt>Participants</dt>
+                  <dd>{room.participantCount} / {room.maxParticipants}</dd>
+                  <dt>Spectators</dt>
+                  <dd>{room.spectatorCount} / {room.maxSpectators}</dd>
+                  {room.relayedPairs.length > 0 && (
+                    <>
+                      <dt>Relayed pairs</dt>
+                      <dd>{room.relayedPairs.length}</dd>
+                    </>
+                  )}
+                </dl>
+
+                <table className={styles.clientTable}>
+                  <thead>
+                    <tr>
+                      <th>Client</th>
+                      <th>Role</th>
+                      <th>Connection</th>
+                      <th>RTT</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {members.map(({ clientId, role }) => {
+                      const conn = connections.get(clientId);
+                      const state = role === 'host' && room.hostDisconnectedAt
+                        ? 'host reconnecting'
+                        : reconnecting.has(clientId)
+                          ? 'reconnecting'
+                          : conn
+                            ? CONNECTION_STATE_LABELS[conn.readyState] ?? 'unknown'
+                            : 'not connected';
+                      return (
+                        <tr key={clientId}>
+                          <td className={styles.clientId}>{clientId}</td>
+                          <td>{role}</td>
+                          <td className={conn?.isOpen ? styles.stateOpen : styles.stateOther}>{state}</td>
+                          <td>{conn?.rttMs != null ? `${conn.rttMs}ms` : '-'}</td>
+                          <td>
+                            {role !== 'host' && (
+                              <button
+                                onClick={() => handleKick(room.roomCode, clientId)}
+                                className={styles.kickButton}
+                              >
+                                Kick
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import type { CommentEvent, CommentRejectionCode } from '../../types/comment';
 import styles from './CommentItem.module.css';
 
 export interface CommentItem {
@@ -19,12 +20,19 @@ export interface CommentItem {
   headerId: number;
   tailId: number;
   hashedUser: string;
-  children?: CommentItem[];
+  depth?: number;
+  replyCount?: number;
+  children?: CommentItem[];  // 없으면 답글을 /api/comments/:id/replies로 조회
 }
 
+export type CommentEventListener = (event: CommentEvent) => void;
+
 interface CommentItemProps {
   comment: CommentItem;
   apiUrl?: string;
+  maxDepth?: number;  // 답글 최대 깊이 (0이면 제한 없음)
+  isLive?: boolean;   // 실시간 이벤트 수신 중이면 작성/수정/삭제 후 다시 조회하지 않음
+  subscribeEvents?: (listener: CommentEventListener) => () => void;
   onReload?: () => void;
 }
 
@@ -66,7 +74,75 @@ const formatTime = (dateString: string): string => {
   }
 };
 
-export default function CommentItemComponent({ comment, apiUrl, onReload }: CommentItemProps) {
+// 필터 거부 사유 코드별 안내 메시지
+const REJECTION_MESSAGES: Record<CommentRejectionCode, string> = {
+  BLOCKED_WORD: 'Your comment contains a blocked word.',
+  BLOCKED_PATTERN: 'Your comment contains content that is not allowed.',
+  TOO_MANY_LINKS: 'Your comment contains too many links.',
+  DUPLICATE_CONTENT: 'You have already posted this comment.',
+  RATE_LIMITED: 'You are commenting too often.',
+};
+
+/**
+ * 댓글 작성/수정 실패 응답을 안내 메시지로 변환 (사유 코드가 없으면 서버 에러 메시지 사용)
+ */
+export const formatCommentError = (data: { error?: string; code?: CommentRejectionCode; retryAfterMs?: number }): string => {
+  const message = data.code ? REJECTION_MESSAGES[data.code] ?? data.error : data.error;
+  if (!data.retryAfterMs) {
+    return message || 'Unknown error';
+  }
+  const seconds = Math.ceil(data.retryAfterMs / 1000);
+  const wait = seconds >= 60 ? `${Math.ceil(seconds / 60)} minute${seconds > 60 ? 's' : ''}` : `${seconds} second${seconds > 1 ? 's' : ''}`;
+  return `${message} Please try again in ${wait}.`;
+};
+
+// 부모 댓글에 새 답글 반영 (답글 목록을 불러오지 않은 상태면 답글 수만 증가)
+const addReply = (parent: CommentItem, reply: CommentItem): CommentItem => {
+  if (parent.children?.some((child) => child.headerId === reply.headerId)) {
+    return parent;
+  }
+  return {
+    ...parent,
+    replyCount: (parent.replyCount ?? parent.children?.length ?? 0) + 1,
+    children: parent.children ? [...parent.children, reply] : undefined,
+  };
+};
+
+/**
+ * 실시간 이벤트를 댓글 트리에 반영 (바뀐 노드와 그 상위 노드만 새 객체로 교체)
+ * - edited/deleted: 같은 체인(headerId)의 노드를 새 버전으로 교체 (깊이, 답글 수, 답글 트리는 유지)
+ * - created: 부모 노드에 답글 추가
+ * 루트 댓글 추가는 정렬/페이지 상태를 아는 CommentSection에서 처리합니다.
+ */
+export const applyCommentEvent = (items: CommentItem[], event: CommentEvent): CommentItem[] => {
+  const { type, comment } = event;
+  const targetHeaderId = type === 'created' ? comment.parentHeaderId : comment.headerId;
+  if (targetHeaderId === null || targetHeaderId === undefined) {
+    return items;
+  }
+
+  let changed = false;
+  const next = items.map((item) => {
+    if (item.headerId === targetHeaderId) {
+      changed = true;
+      return type === 'created'
+        ? addReply(item, comment)
+        : { ...item, ...comment, depth: item.depth, replyCount: item.replyCount, children: item.children };
+    }
+    if (!item.children || item.children.length === 0) {
+      return item;
+    }
+    const children = applyCommentEvent(item.children, event);
+    if (children === item.children) {
+      return item;
+    }
+    changed = true;
+    return { ...item, children };
+  });
+  return changed ? next : items;
+};
+
+export default function CommentItemComponent({ comment, apiUrl, maxDepth = 0, isLive = false, subscribeEvents, onReload }: CommentItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [editContent, setEditContent] = useState('');
@@ -75,13 +151,25 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
   const [history, setHistory] = useState<CommentItem[] | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [historyCommentId, setHistoryCommentId] = useState(comment.id);
   const [showMenu, setShowMenu] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const [showChild, setShowChild] = useState(false);
   const [replyContent, setReplyContent] = useState('');
   const [replyPassword, setReplyPassword] = useState('');
+  const [loadedChildren, setLoadedChildren] = useState<CommentItem[] | null>(null);
+  const [isRepliesLoading, setIsRepliesLoading] = useState(false);
+
+  // 같은 체인(headerId)의 새 버전으로 바뀌면 불러온 수정 이력을 버림
+  if (historyCommentId !== comment.id) {
+    setHistoryCommentId(comment.id);
+    setHistory(null);
+    setShowHistory(false);
+  }
 
   const isParent = comment.parentHeaderId === null || comment.parentHeaderId === undefined;
+  const depth = comment.depth ?? (isParent ? 0 : 1);
+  const canReply = maxDepth === 0 || depth < maxDepth;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -146,11 +234,15 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
       
       const data = await response.json();
       if (response.ok) {
-        alert(isParent ? 'Comment has been updated.' : 'Reply has been updated.');
+        if (data.status === 'pending') {
+          alert('Your edit has been submitted and will appear after approval.');
+        } else {
+          alert(isParent ? 'Comment has been updated.' : 'Reply has been updated.');
+        }
         setIsEditing(false);
         if (onReload) onReload();
       } else {
-        alert(`Update failed: ${data.error}`);
+        alert(`Update failed: ${formatCommentError(data)}`);
       }
     } catch (error) {
       console.error('Update comment error:', error);
@@ -211,16 +303,75 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
     }
   };
 
+  // 목록 응답에 포함되지 않은 깊은 답글은 펼칠 때 따로 조회
+  const isLazy = comment.children === undefined;
+  const childrenToRender: CommentItem[] = comment.children ?? loadedChildren ?? [];
+  const replyCount = comment.replyCount ?? childrenToRender.length;
+
+  const loadReplies = async () => {
+    if (!apiUrl) return;
+    setIsRepliesLoading(true);
+    try {
+      const response = await fetch(`${apiUrl}comments/${comment.headerId}/replies`);
+
+      // Content-Type 확인
+      const contentType = response.headers.get('content-type');
+      if (!contentType || !contentType.includes('application/json')) {
+        throw new Error('API endpoint not found or invalid response');
+      }
+
+      const data = await response.json();
+      if (response.ok) {
+        setLoadedChildren(data.data);
+      } else {
+        console.error('Fetch replies error:', data.error);
+        alert(`Failed to fetch replies: ${data.error}${data.details ? ` - ${data.details}` : ''}`);
+      }
+    } catch (error) {
+      console.error('Fetch replies error:', error);
+      alert(`Failed to fetch replies: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsRepliesLoading(false);
+    }
+  };
+
+  // 따로 조회한 답글 트리 안의 변경은 해당 트리만 다시 조회 (실시간 이벤트 수신 중이면 이벤트로 반영)
+  const reloadReplies = () => {
+    if (isLazy && !isLive) {
+      loadReplies();
+    } else if (onReload) {
+      onReload();
+    }
+  };
+
+  // 따로 조회한 답글 트리는 CommentSection의 목록에 없으므로 실시간 이벤트를 직접 반영
+  useEffect(() => {
+    if (!isLazy || !subscribeEvents) return;
+    return subscribeEvents((event) => {
+      setLoadedChildren((prev) => {
+        if (prev === null) {
+          return prev;
+        }
+        if (event.type === 'created' && event.comment.parentHeaderId === comment.headerId) {
+          return prev.some((child) => child.headerId === event.comment.headerId) ? prev : [...prev, event.comment];
+        }
+        return applyCommentEvent(prev, event);
+      });
+    });
+  }, [isLazy, subscribeEvents, comment.headerId]);
+
   const toggleChild = () => {
+    if (!showChild && isLazy && loadedChildren === null && replyCount > 0) {
+      loadReplies();
+    }
     setShowChild((prev) => !prev);
     setShowMenu(false);
   };
 
-  const childrenToRender: CommentItem[] = comment.children || [];
   const childButtonText = showChild
     ? 'Hide Replies'
-    : childrenToRender.length > 0
-      ? 'View Replies'
+    : replyCount > 0
+      ? `View Replies (${replyCount})`
       : 'Write Reply';
 
   const handleCreateReply = async () => {
@@ -247,12 +398,12 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
       
       const data = await response.json();
       if (response.ok) {
-        alert('Reply has been created.');
+        alert(data.status === 'pending' ? 'Your reply has been submitted and will appear after approval.' : 'Reply has been created.');
         setReplyContent('');
         setReplyPassword('');
-        if (onReload) onReload();
+        reloadReplies();
       } else {
-        alert(`Reply creation failed: ${data.error}`);
+        alert(`Reply creation failed: ${formatCommentError(data)}`);
       }
     } catch (error) {
       console.error('Create reply error:', error);
@@ -401,8 +552,8 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
         </div>
       )}
 
-      {/* 부모 댓글만 대댓글 기능 */}
-      {isParent && (
+      {/* 답글 (최대 깊이에 도달한 댓글은 기존 답글만 표시) */}
+      {(canReply || replyCount > 0) && (
         <div>
           <button
             className={styles.replyButton}
@@ -413,42 +564,50 @@ export default function CommentItemComponent({ comment, apiUrl, onReload }: Comm
           {showChild && (
             <div className="mt-3">
               <div>
+                {isRepliesLoading && childrenToRender.length === 0 && (
+                  <div className={styles.historyLoading}>Loading...</div>
+                )}
                 {childrenToRender.length > 0 &&
                   childrenToRender.map((child) => (
                     <CommentItemComponent
-                      key={child.id}
+                      key={child.headerId}
                       comment={child}
                       apiUrl={apiUrl}
-                      onReload={onReload}
+                      maxDepth={maxDepth}
+                      isLive={isLive}
+                      subscribeEvents={subscribeEvents}
+                      onReload={reloadReplies}
                     />
                   ))}
               </div>
-              <div className={styles.replyForm}>
-                <div className={styles.replyTextarea}>
-                  <textarea
-                    className={styles.textarea}
-                    value={replyContent}
-                    onChange={(e) => setReplyContent(e.target.value)}
-                    placeholder="Enter your reply content."
-                    rows={3}
-                  />
-                </div>
-                <div className={styles.replyInputs}>
-                  <input
-                    type="password"
-                    className={styles.input}
-                    value={replyPassword}
-                    onChange={(e) => setReplyPassword(e.target.value)}
-                    placeholder="Password"
-                  />
-                  <button
-                    className={`${styles.button} ${styles.buttonPrimary}`}
-                    onClick={handleCreateReply}
-                  >
-                    Submit
-                  </button>
+              {canReply && (
+                <div className={styles.replyForm}>
+                  <div className={styles.replyTextarea}>
+                    <textarea
+                      className={styles.textarea}
+                      value={replyContent}
+                      onChange={(e) => setReplyContent(e.target.value)}
+                      placeholder="Enter your reply content."
+                      rows={3}
+                    />
+                  </div>
+                  <div className={styles.replyInputs}>
+                    <input
+                      type="password"
+                      className={styles.input}
+                      value={replyPassword}
+                      onChange={(e) => setReplyPassword(e.target.value)}
+                      placeholder="Password"
+                    />
+                    <button
+                      className={`${styles.button} ${styles.buttonPrimary}`}
+                      onClick={handleCreateReply}
+                    >
+                      Submit
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
         </div>
@@ -1,22 +1,45 @@
 /**
  * 코멘트 입력 섹션 컴포넌트
+ * 댓글 목록은 커서 기반으로 조회하며, "Load more"로 다음 목록을 이어 붙입니다.
+ * 다른 방문자의 작성/수정/삭제는 /api/comments/stream(SSE)으로 받아 목록에 바로 반영하고,
+ * SSE를 사용할 수 없으면 첫 목록을 주기적으로 다시 조회해 합칩니다.
  */
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import CommentItemComponent, { CommentItem } from './CommentItem';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import CommentItemComponent, { CommentEventListener, CommentItem, applyCommentEvent, formatCommentError } from './CommentItem';
+import { COMMENT_EVENT_TYPES } from '../../types/comment';
+import type { CommentEvent, CommentListResponse, CommentSort } from '../../types/comment';
 import styles from './CommentSection.module.css';
 
 const COMMENTS_PER_PAGE = 4;
 
+// SSE 연결이 없을 때 첫 목록을 다시 조회하는 간격
+const POLL_INTERVAL_MS = 30 * 1000;
+
+const SORT_LABELS: Record<CommentSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  most_replies: 'Most replies',
+};
+
 export default function CommentSection() {
   const [comments, setComments] = useState<CommentItem[]>([]);
-  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState<number>(0);
+  const [sort, setSort] = useState<CommentSort>('newest');
+  const [maxDepth, setMaxDepth] = useState<number>(0);
   const [newContent, setNewContent] = useState<string>('');
   const [newPassword, setNewPassword] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
   const [showRules, setShowRules] = useState<boolean>(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState<boolean>(false);
+  // 정렬 변경/새로고침 후 이전 요청의 응답을 무시하기 위한 요청 순번
+  const requestIdRef = useRef<number>(0);
+  // 따로 불러온 답글 트리(CommentItem)의 실시간 이벤트 구독자
+  const eventListenersRef = useRef<Set<CommentEventListener>>(new Set());
 
   // API URL은 기본 URL + '/api/'로 생성
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || (typeof window !== 'undefined' ? window.location.origin : '');
@@ -40,174 +63,189 @@ export default function CommentSection() {
       },
     ]);
     setTotalCount(1);
+    setNextCursor(null);
   }, []);
 
-  const fetchComments = useCallback(async (page: number) => {
+  /**
+   * 댓글 목록 요청 (빈 커서는 첫 목록)
+   * @returns 목록 응답, API가 없거나 JSON이 아닌 응답이면 null
+   */
+  const requestComments = useCallback(async (cursor: string, includeCount: boolean): Promise<CommentListResponse | null> => {
+    const params = new URLSearchParams({ cursor, limit: String(COMMENTS_PER_PAGE), sort });
+    if (!includeCount) {
+      params.set('count', 'false');
+    }
+    const res = await fetch(`${apiUrl}comments?${params.toString()}`);
+
+    if (!res.ok) {
+      if (res.status === 404) {
+        return null;
+      }
+      throw new Error(`HTTP error! status: ${res.status}`);
+    }
+
+    // Content-Type 확인 (JSON이 아닌 경우 HTML 응답일 수 있음)
+    const contentType = res.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      return null;
+    }
+    return res.json();
+  }, [apiUrl, sort]);
+
+  // 첫 목록 다시 불러오기 (마운트, 정렬 변경, 작성/수정/삭제 후)
+  const fetchComments = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
     setIsLoading(true);
     try {
-      const res = await fetch(`${apiUrl}comments?page=${page}&limit=${COMMENTS_PER_PAGE}`);
-      
-      // 응답이 OK가 아니거나 404인 경우 플레이스홀더로 처리
-      if (!res.ok) {
-        if (res.status === 404) {
-            setPlaceholderComments();
-          return;
-        }
-        const contentType = res.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          await res.json();
-        }
-        throw new Error(`HTTP error! status: ${res.status}`);
-      }
-      
-      // Content-Type 확인 (JSON이 아닌 경우 HTML 응답일 수 있음)
-      const contentType = res.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-          setPlaceholderComments();
+      const data = await requestComments('', true);
+      if (requestId !== requestIdRef.current) return;
+
+      // API가 없으면 플레이스홀더로 처리
+      if (!data) {
+        setPlaceholderComments();
         return;
       }
-      
-      const data = await res.json();
-      const newComments = data.data || [];
-      
-      setComments(newComments);
-      setTotalCount(data.totalCount || 0);
+      setComments(data.data || []);
+      setTotalCount(data.totalCount ?? 0);
+      setNextCursor(data.nextCursor);
+      setMaxDepth(data.maxDepth ?? 0);
     } catch {
+      if (requestId !== requestIdRef.current) return;
+
       // API 연결 실패 시 플레이스홀더 데이터 사용
       setPlaceholderComments();
     } finally {
-      setIsLoading(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
     }
-  }, [apiUrl, setPlaceholderComments]);
+  }, [requestComments, setPlaceholderComments]);
 
-  // 컴포넌트 마운트 시 즉시 첫 페이지 댓글 로드
   useEffect(() => {
-    let cancelled = false;
-    
-    const loadComments = async () => {
-      setIsLoading(true);
-      try {
-        const res = await fetch(`${apiUrl}comments?page=1&limit=${COMMENTS_PER_PAGE}`);
-        
-        if (cancelled) return;
-        
-        // 응답이 OK가 아니거나 404인 경우 플레이스홀더로 처리
-        if (!res.ok) {
-          if (res.status === 404) {
-            setPlaceholderComments();
-            return;
-          }
-          const contentType = res.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            await res.json();
-          }
-          throw new Error(`HTTP error! status: ${res.status}`);
-        }
-        
-        // Content-Type 확인 (JSON이 아닌 경우 HTML 응답일 수 있음)
-        const contentType = res.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-          setPlaceholderComments();
-          return;
-        }
-        
-        const data = await res.json();
-        const newComments = data.data || [];
-        
-        if (cancelled) return;
-        
-        setComments(newComments);
-        setTotalCount(data.totalCount || 0);
-      } catch {
-        if (cancelled) return;
-        
-        // API 연결 실패 시 플레이스홀더 데이터 사용
-        setPlaceholderComments();
-      } finally {
-        if (!cancelled) {
-          setIsLoading(false);
-        }
+    fetchComments();
+  }, [fetchComments]);
+
+  // 첫 목록을 다시 조회해 현재 목록에 합치기 (이어 붙인 목록은 유지, 폴링/재연결 시 사용)
+  const pollComments = useCallback(async () => {
+    const requestId = requestIdRef.current;
+    try {
+      const data = await requestComments('', true);
+      if (!data || requestId !== requestIdRef.current) return;
+
+      const fresh = data.data || [];
+      setComments((prev) => {
+        const loaded = new Set(prev.map((item) => item.headerId));
+        const freshByHeaderId = new Map(fresh.map((item) => [item.headerId, item]));
+        const updated = prev.map((item) => freshByHeaderId.get(item.headerId) ?? item);
+        const added = fresh.filter((item) => !loaded.has(item.headerId));
+        return sort === 'newest' ? [...added, ...updated] : [...updated, ...added];
+      });
+      setTotalCount(data.totalCount ?? 0);
+      setMaxDepth(data.maxDepth ?? 0);
+    } catch {
+      // 다음 주기에 다시 시도
+    }
+  }, [requestComments, sort]);
+
+  // 실시간 이벤트 반영 (루트 댓글 추가는 정렬 기준에 맞는 위치에만, 루트 삭제는 전체 개수 재조회)
+  const handleCommentEvent = (event: CommentEvent) => {
+    const { comment } = event;
+    if (event.type === 'created' && (comment.parentHeaderId === null || comment.parentHeaderId === undefined)) {
+      setComments((prev) => {
+        if (prev.some((item) => item.headerId === comment.headerId)) return prev;
+        if (sort === 'newest') return [comment, ...prev];
+        // 다른 정렬에서는 목록 끝에 오므로 마지막 목록까지 불러온 경우에만 추가
+        return nextCursor ? prev : [...prev, comment];
+      });
+      setTotalCount((prev) => prev + 1);
+    } else {
+      setComments((prev) => applyCommentEvent(prev, event));
+      // 작성자 삭제는 루트가 목록에 남고 숨김/영구 삭제는 빠지므로 전체 개수는 서버 기준으로 다시 맞춤
+      if (event.type === 'deleted' && (comment.parentHeaderId === null || comment.parentHeaderId === undefined)) {
+        void pollComments();
       }
-    };
-    
-    // 마운트 시 즉시 첫 페이지 로드
-    loadComments();
-    
+    }
+    eventListenersRef.current.forEach((listener) => listener(event));
+  };
+
+  // EventSource 핸들러가 항상 최신 정렬/커서 상태를 보도록 ref로 전달
+  const commentEventHandlerRef = useRef(handleCommentEvent);
+  const pollCommentsRef = useRef(pollComments);
+  useEffect(() => {
+    commentEventHandlerRef.current = handleCommentEvent;
+    pollCommentsRef.current = pollComments;
+  });
+
+  const subscribeEvents = useCallback((listener: CommentEventListener) => {
+    const listeners = eventListenersRef.current;
+    listeners.add(listener);
     return () => {
-      cancelled = true;
+      listeners.delete(listener);
     };
-  }, [apiUrl, setPlaceholderComments]); // 마운트 시 한 번만 실행
+  }, []);
 
-  // 페이지 변경 시 댓글 로드 (마운트 후)
+  // 실시간 이벤트 구독 (연결이 끊긴 동안 놓친 변경은 재연결 시 첫 목록 재조회로 보완)
   useEffect(() => {
-    // 첫 마운트가 아니고 currentPage가 1이 아닐 때만 로드
-    if (currentPage === 1) return;
-    
-    let cancelled = false;
-    
-    const loadComments = async () => {
-      setIsLoading(true);
-      try {
-        const res = await fetch(`${apiUrl}comments?page=${currentPage}&limit=${COMMENTS_PER_PAGE}`);
-        
-        if (cancelled) return;
-        
-        // 응답이 OK가 아니거나 404인 경우 플레이스홀더로 처리
-        if (!res.ok) {
-          if (res.status === 404) {
-            setPlaceholderComments();
-            return;
-          }
-          const contentType = res.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            await res.json();
-          }
-          throw new Error(`HTTP error! status: ${res.status}`);
-        }
-        
-        // Content-Type 확인 (JSON이 아닌 경우 HTML 응답일 수 있음)
-        const contentType = res.headers.get('content-type');
-        if (!contentType || !contentType.includes('application/json')) {
-          setPlaceholderComments();
-          return;
-        }
-        
-        const data = await res.json();
-        const newComments = data.data || [];
-        
-        if (cancelled) return;
-        
-        setComments(newComments);
-        setTotalCount(data.totalCount || 0);
-      } catch {
-        if (cancelled) return;
-        
-        // API 연결 실패 시 플레이스홀더 데이터 사용
-        setPlaceholderComments();
-      } finally {
-        if (!cancelled) {
-          setIsLoading(false);
-        }
+    if (typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`${apiUrl}comments/stream`);
+    let disconnected = false;
+    source.onopen = () => {
+      setIsLive(true);
+      if (disconnected) {
+        disconnected = false;
+        pollCommentsRef.current();
       }
     };
-    
-    loadComments();
-    
-    return () => {
-      cancelled = true;
+    source.onerror = () => {
+      // 재연결 중이거나 SSE를 사용할 수 없는 경우 (CLOSED면 더 이상 재연결하지 않음) 폴링으로 대신
+      setIsLive(false);
+      disconnected = true;
     };
-  }, [currentPage, apiUrl, setPlaceholderComments]);
+    for (const type of COMMENT_EVENT_TYPES) {
+      source.addEventListener(type, (e) => {
+        try {
+          commentEventHandlerRef.current({ type, comment: JSON.parse((e as MessageEvent<string>).data) });
+        } catch (error) {
+          console.error('Invalid comment event:', error);
+        }
+      });
+    }
+    return () => source.close();
+  }, [apiUrl]);
+
+  // SSE 연결이 없는 동안 폴링
+  useEffect(() => {
+    if (isLive) return;
+    const timer = setInterval(() => pollCommentsRef.current(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLive]);
 
-  const handlePrevPage = () => {
-    if (currentPage > 1) {
-      setCurrentPage((prev) => prev - 1);
+  // 작성/수정/삭제 후 목록 갱신 (실시간 이벤트를 받는 중이면 이벤트로 반영되므로 생략)
+  const handleReload = useCallback(() => {
+    if (!isLive) {
+      fetchComments();
     }
-  };
+  }, [isLive, fetchComments]);
+
+  // 다음 목록 이어 붙이기 (총 개수는 다시 조회하지 않음)
+  const handleLoadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const data = await requestComments(nextCursor, false);
+      if (!data || requestId !== requestIdRef.current) return;
 
-  const handleNextPage = () => {
-    const totalPages = Math.ceil(totalCount / COMMENTS_PER_PAGE);
-    if (currentPage < totalPages) {
-      setCurrentPage((prev) => prev + 1);
+      setComments((prev) => {
+        const loaded = new Set(prev.map((item) => item.headerId));
+        return [...prev, ...(data.data || []).filter((item) => !loaded.has(item.headerId))];
+      });
+      setNextCursor(data.nextCursor);
+    } catch {
+      alert('Failed to load more comments.');
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
@@ -229,8 +267,9 @@ export default function CommentSection() {
       if (!res.ok) {
         const contentType = res.headers.get('content-type');
         if (contentType && contentType.includes('application/json')) {
+          // 스팸/도배 필터에 거부된 경우 사유를 폼 아래에 표시
           const data = await res.json();
-          alert(`Failed: ${data.error || 'Unknown error'}`);
+          setSubmitError(formatCommentError(data));
         } else {
           throw new Error(`HTTP error! status: ${res.status}`);
         }
@@ -243,20 +282,21 @@ export default function CommentSection() {
         throw new Error('API endpoint not found or invalid response');
       }
       
-      await res.json();
+      const data = await res.json();
       setNewContent('');
       setNewPassword('');
-      // 새 댓글 생성 후 첫 페이지로 리셋
-      setCurrentPage(1);
-      fetchComments(1);
+      setSubmitError(null);
+      // 승인 대기 모드에서는 관리자 승인 후 목록에 표시됨
+      if (data.status === 'pending') {
+        alert('Your comment has been submitted and will appear after approval.');
+      }
+      // 새 댓글 생성 후 첫 목록으로 리셋 (실시간 이벤트를 받는 중이면 이벤트로 추가됨)
+      handleReload();
     } catch {
       alert('Failed to create comment. API endpoint may not be configured. Please check the API Routes setup.');
     }
   };
 
-  const totalPages = Math.ceil(totalCount / COMMENTS_PER_PAGE) || 1;
-  const canGoPrev = currentPage > 1;
-  const canGoNext = currentPage < totalPages;
 
 
   return (
@@ -294,6 +334,7 @@ export default function CommentSection() {
             </button>
           </div>
         </div>
+        {submitError && <p className={styles.errorText}>{submitError}</p>}
       </div>
 
       {/* 규칙 토글 */}
@@ -309,6 +350,7 @@ export default function CommentSection() {
             <li>When a comment is created or edited, the author&apos;s identity is generated by hashing the user&apos;s current IP address.</li>
             <li>Edited comments maintain a viewable history.</li>
             <li>Deleted comments are marked as (deleted) and their history is no longer accessible, though the hashed IP remains visible.</li>
+            <li>Comments may be held for review, and the site owner can hide or remove comments.</li>
             <li>These rules apply equally to replies.</li>
           </ul>
         )}
@@ -327,43 +369,46 @@ export default function CommentSection() {
         ) : (
           comments.map((comment) => (
             <CommentItemComponent
-              key={comment.id}
+              key={comment.headerId}
               comment={comment}
               apiUrl={apiUrl}
-              onReload={() => fetchComments(currentPage)}
+              maxDepth={maxDepth}
+              isLive={isLive}
+              subscribeEvents={subscribeEvents}
+              onReload={handleReload}
             />
           ))
         )}
       </div>
 
-      {/* 페이징 (컨테이너 밖, 고정 위치) */}
+      {/* 정렬 및 더 보기 (컨테이너 밖, 고정 위치) */}
       <div className={styles.pagination}>
-        <button
-          disabled={!canGoPrev}
-          onClick={(e) => {
-            e.preventDefault();
-            e.stopPropagation();
-            handlePrevPage();
-          }}
-          className={styles.paginationButton}
-          style={{ pointerEvents: 'auto', zIndex: 1000, position: 'relative' }}
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as CommentSort)}
+          className={styles.sortSelect}
+          aria-label="Sort comments"
         >
-          Previous
-        </button>
+          {(Object.keys(SORT_LABELS) as CommentSort[]).map((option) => (
+            <option key={option} value={option}>
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
         <span className={styles.paginationInfo}>
-          {currentPage} / {totalPages}
+          {comments.length} / {totalCount}
         </span>
         <button
-          disabled={!canGoNext}
+          disabled={!nextCursor || isLoadingMore}
           onClick={(e) => {
             e.preventDefault();
             e.stopPropagation();
-            handleNextPage();
+            handleLoadMore();
           }}
           className={styles.paginationButton}
           style={{ pointerEvents: 'auto', zIndex: 1000, position: 'relative' }}
         >
-          Next
+          {isLoadingMore ? 'Loading...' : 'Load more'}
         </button>
       </div>
 
@@ -0,0 +1,107 @@
+/**
+ * 관리자 세션 훅
+ * /api/auth/admin-session에서 받은 관리자 세션 토큰을 sessionStorage에 보관하고 복원합니다.
+ * 관리자 페이지(룸 대시보드, 댓글 모더레이션)가 같은 세션과 요청 처리를 사용합니다.
+ */
+import { useState, useCallback, useSyncExternalStore } from 'react';
+
+// 관리자 세션 토큰 보관 키 (탭을 닫으면 사라지도록 sessionStorage 사용, 비밀번호는 보관하지 않음)
+const ADMIN_SESSION_STORAGE_KEY = 'admin-session';
+
+// 관리자 API 요청 헤더 이름 (app/utils/adminAuth.ts의 ADMIN_SESSION_HEADER와 같은 값)
+export const ADMIN_SESSION_HEADER = 'x-admin-session';
+
+// 같은 탭에서 세션이 바뀌었을 때 알릴 구독자 (다른 탭의 변경은 storage 이벤트로 전달됨)
+const sessionListeners = new Set<() => void>();
+
+const subscribeSession = (listener: () => void) => {
+  sessionListeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    sessionListeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+};
+
+// 저장된 관리자 세션 토큰 (만료되었거나 형식이 맞지 않으면 null)
+const readSessionToken = (): string | null => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(ADMIN_SESSION_STORAGE_KEY) || 'null');
+    if (stored && typeof stored.token === 'string' && stored.expiresAt > Date.now()) {
+      return stored.token;
+    }
+  } catch {
+    // 형식이 맞지 않는 값은 무시
+  }
+  return null;
+};
+
+const writeSession = (session: { token: string; expiresAt: number } | null) => {
+  if (session) {
+    sessionStorage.setItem(ADMIN_SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    sessionStorage.removeItem(ADMIN_SESSION_STORAGE_KEY);
+  }
+  sessionListeners.forEach((listener) => listener());
+};
+
+export const useAdminSession = () => {
+  // 서버 렌더링에서는 세션이 없는 것으로 보고, 클라이언트에서 저장된 세션을 복원
+  const sessionToken = useSyncExternalStore(subscribeSession, readSessionToken, () => null);
+  const [loginError, setLoginError] = useState<string | null>(null);
+
+  const logout = useCallback((message: string | null = null) => {
+    writeSession(null);
+    setLoginError(message);
+  }, []);
+
+  const login = useCallback(async (password: string) => {
+    const input = password.trim();
+    if (!input) {
+      setLoginError('Please enter the admin password.');
+      return;
+    }
+    try {
+      const res = await fetch('/api/auth/admin-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: input }),
+      });
+      const data = await res.json();
+      if (res.status === 401) {
+        setLoginError('Invalid password.');
+        return;
+      }
+      if (!res.ok) {
+        setLoginError(data.details || data.error || 'Failed to verify password.');
+        return;
+      }
+      writeSession({ token: data.token, expiresAt: data.expiresAt });
+      setLoginError(null);
+    } catch {
+      setLoginError('Failed to verify password.');
+    }
+  }, []);
+
+  // 관리자 요청 공통 처리 (실패 시 서버 에러 메시지 표시)
+  const sendAdminRequest = useCallback(async (url: string, init: RequestInit): Promise<boolean> => {
+    if (!sessionToken) return false;
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', [ADMIN_SESSION_HEADER]: sessionToken },
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        alert(`Failed: ${data?.error || `HTTP ${res.status}`}`);
+        return false;
+      }
+      return true;
+    } catch {
+      alert('Request failed. Please check the server connection.');
+      return false;
+    }
+  }, [sessionToken]);
+
+  return { sessionToken, loginError, login, logout, sendAdminRequest };
+};
@@ -0,0 +1,202 @@
+/**
+ * 호스트별 차단 목록
+ * 강퇴된 참가자를 호스트 단위로 일정 시간 동안 차단합니다.
+ * 룸 인스턴스(createdAt)와 관계없이 같은 호스트가 새로 만드는 룸에도 적용되며,
+ * 선택적으로 해싱된 IP도 함께 차단합니다. (clientId를 바꿔 다시 들어오는 것 방지)
+ *
+ * - ROOM_BAN_DURATION_MINUTES: 차단 유지 시간 (기본값: 1440분, 0이면 호스트 단위 차단을 사용하지 않음)
+ * - ROOM_STORE=file이면 ROOM_BAN_FILE 경로(기본값: data/room-bans.json)에 함께 기록 (재시작 후에도 유지)
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { HostBan, RoomBanInfo } from '@/app/types/collaboration/room';
+import { logError, logInfo } from '@/app/utils/logging';
+
+const banDurationMinutes = parseInt(process.env.ROOM_BAN_DURATION_MINUTES || '', 10);
+export const ROOM_BAN_DURATION_MS = (Number.isNaN(banDurationMinutes) || banDurationMinutes < 0 ? 24 * 60 : banDurationMinutes) * 60 * 1000;
+
+interface SerializedBanFile {
+  version: 1;
+  bans: HostBan[];
+}
+
+/**
+ * 호스트별 차단 목록 저장소
+ * filePath가 있으면 변경이 있을 때마다 전체 목록을 JSON 파일에 기록합니다.
+ */
+export class HostBanList {
+  private bans = new Map<string, HostBan[]>(); // hostId -> bans
+
+  constructor(private readonly filePath: string | null = null) {
+    this.load();
+  }
+
+  /**
+   * 참가자 차단
+   * 같은 호스트가 이미 차단한 참가자면 만료 시간을 갱신합니다. (IP 차단은 해제하지 않음)
+   *
+   * @returns 기록된 차단 정보 (차단 기능이 꺼져 있으면 null)
+   */
+  add(hostId: string, participantId: string, ipHash: string | null = null): HostBan | null {
+    if (ROOM_BAN_DURATION_MS <= 0) {
+      return null;
+    }
+
+    const now = Date.now();
+    const bans = this.getActive(hostId);
+    const existing = bans.find((ban) => ban.participantId === participantId);
+    const ban: HostBan = existing
+      ? { ...existing, ipHash: ipHash ?? existing.ipHash, bannedAt: now, expiresAt: now + ROOM_BAN_DURATION_MS }
+      : { banId: randomUUID(), hostId, participantId, ipHash, bannedAt: now, expiresAt: now + ROOM_BAN_DURATION_MS };
+
+    this.bans.set(hostId, [...bans.filter((item) => item.banId !== ban.banId), ban]);
+    this.persist();
+    return ban;
+  }
+
+  /**
+   * 참가자 ID 또는 해싱된 IP로 유효한 차단 조회
+   */
+  find(hostId: string, participantId: string, ipHash: string | null = null): HostBan | null {
+    return this.getActive(hostId).find((ban) =>
+      ban.participantId === participantId || (ipHash !== null && ban.ipHash === ipHash)
+    ) ?? null;
+  }
+
+  /**
+   * 호스트의 유효한 차단 목록 조회 (최근 차단 순)
+   */
+  list(hostId: string): HostBan[] {
+    return [...this.getActive(hostId)].sort((a, b) => b.bannedAt - a.bannedAt);
+  }
+
+  /**
+   * 차단 해제
+   *
+   * @returns 해제된 차단 정보 (없으면 null)
+   */
+  remove(hostId: string, banId: string): HostBan | null {
+    const bans = this.getActive(hostId);
+    const ban = bans.find((item) => item.banId === banId);
+    if (!ban) {
+      return null;
+    }
+
+    this.setBans(hostId, bans.filter((item) => item !== ban));
+    this.persist();
+    return ban;
+  }
+
+  /**
+   * 만료된 차단 정리
+   *
+   * @returns 정리된 차단 수
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [hostId, bans] of this.bans) {
+      const active = bans.filter((ban) => ban.expiresAt > now);
+      removed += bans.length - active.length;
+      this.setBans(hostId, active);
+    }
+    if (removed > 0) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  private getActive(hostId: string): HostBan[] {
+    const now = Date.now();
+    return (this.bans.get(hostId) ?? []).filter((ban) => ban.expiresAt > now);
+  }
+
+  private setBans(hostId: string, bans: HostBan[]): void {
+    if (bans.length > 0) {
+      this.bans.set(hostId, bans);
+    } else {
+      this.bans.delete(hostId);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf8')) as Partial<SerializedBanFile>;
+      const now = Date.now();
+      for (const ban of parsed.bans ?? []) {
+        if (!ban || typeof ban.hostId !== 'string' || typeof ban.participantId !== 'string' || !(ban.expiresAt > now)) {
+          continue;
+        }
+        this.bans.set(ban.hostId, [...(this.bans.get(ban.hostId) ?? []), { ...ban, ipHash: ban.ipHash ?? null }]);
+      }
+    } catch (error) {
+      logError('[Online Sequencer] [HostBanList] Failed to load ban file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    const payload: SerializedBanFile = {
+      version: 1,
+      bans: Array.from(this.bans.values()).flat()
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tempPath, JSON.stringify(payload));
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logError('[Online Sequencer] [HostBanList] Failed to write ban file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * 호스트에게 반환할 차단 정보로 변환 (해싱된 IP는 제외)
+ */
+export function toRoomBanInfo(ban: HostBan): RoomBanInfo {
+  return {
+    banId: ban.banId,
+    participantId: ban.participantId,
+    ipBanned: ban.ipHash !== null,
+    bannedAt: ban.bannedAt,
+    expiresAt: ban.expiresAt
+  };
+}
+
+/**
+ * 환경 변수에 따라 차단 목록 생성 (ROOM_STORE=file이면 파일에 기록)
+ */
+export function createHostBanList(): HostBanList {
+  if ((process.env.ROOM_STORE || 'memory').toLowerCase().trim() === 'file') {
+    const filePath = resolve(process.cwd(), process.env.ROOM_BAN_FILE || 'data/room-bans.json');
+    logInfo(`[Online Sequencer] [HostBanList] Using file ban list: ${filePath}`);
+    return new HostBanList(filePath);
+  }
+  return new HostBanList();
+}
+
+// 전역 변수로 hostBanList 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __hostBanList: HostBanList | undefined;
+}
+
+// 싱글톤 인스턴스 (server.ts의 WebSocket 처리와 API 라우트가 같은 목록을 사용)
+export const hostBanList = globalThis.__hostBanList || createHostBanList();
+globalThis.__hostBanList = hostBanList;
@@ -0,0 +1,71 @@
+/**
+ * 시그널링 메시지 버스
+ * 여러 서버 인스턴스(컨테이너)에 나뉘어 연결된 클라이언트 간에 시그널링 메시지를 전달합니다.
+ *
+ * SIGNALING_BUS 환경 변수로 구현체를 선택합니다.
+ * - memory (기본값): 같은 프로세스 안에서만 전달 (단일 인스턴스)
+ * - redis: SIGNALING_BUS_REDIS_URL의 Redis(또는 Redis 프로토콜 호환 서버) Pub/Sub 사용
+ */
+
+import { EventEmitter } from 'events';
+import { logInfo } from '@/app/utils/logging';
+import { RedisMessageBus } from './redisMessageBus';
+
+export type MessageBusHandler = (payload: string) => void;
+
+/**
+ * 메시지 버스 인터페이스
+ */
+export interface MessageBus {
+  publish(channel: string, payload: string): void;
+  subscribe(channel: string, handler: MessageBusHandler): void;
+  close(): void;
+}
+
+/**
+ * 프로세스 내부 메시지 버스
+ */
+export class InProcessMessageBus implements MessageBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, payload: string): void {
+    this.emitter.emit(channel, payload);
+  }
+
+  subscribe(channel: string, handler: MessageBusHandler): void {
+    this.emitter.on(channel, handler);
+  }
+
+  close(): void {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * 시그널링 메시지 버스 채널 이름
+ */
+export function getMessageBusChannel(): string {
+  return process.env.SIGNALING_BUS_CHANNEL || 'online-sequencer:signaling';
+}
+
+/**
+ * 환경 변수에 따라 메시지 버스 생성
+ */
+export function createMessageBus(): MessageBus {
+  const type = (process.env.SIGNALING_BUS || 'memory').toLowerCase().trim();
+
+  if (type === 'redis') {
+    const url = process.env.SIGNALING_BUS_REDIS_URL || 'redis://127.0.0.1:6379';
+    logInfo(`[Online Sequencer] [MessageBus] Using redis message bus: ${url.replace(/\/\/[^@/]*@/, '//***@')}`);
+    return new RedisMessageBus(url);
+  }
+
+  if (type !== 'memory') {
+    logInfo(`[Online Sequencer] [MessageBus] Unknown SIGNALING_BUS "${type}", falling back to memory`);
+  }
+  return new InProcessMessageBus();
+}
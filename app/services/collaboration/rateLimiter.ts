@@ -0,0 +1,201 @@
+/**
+ * 시그널링 WebSocket 속도 제한
+ * 연결별/액션별 토큰 버킷과 IP/clientId별 동시 연결 수 제한을 제공합니다.
+ *
+ * - SIGNALING_RATE_LIMIT_BURST / SIGNALING_RATE_LIMIT_PER_SECOND: 연결별 전체 메시지 버킷 (기본값: 150 / 80)
+ * - SIGNALING_RATE_LIMIT_MAX_VIOLATIONS: 위반 허용 횟수, 초과 시 연결 종료 (기본값: 10)
+ * - SIGNALING_RATE_LIMIT_VIOLATION_WINDOW_MS: 위반 횟수 집계 구간 (기본값: 10초)
+ * - SIGNALING_MAX_CONNECTIONS_PER_IP: IP별 동시 연결 수 (기본값: 20)
+ * - SIGNALING_MAX_CONNECTIONS_PER_CLIENT: clientId별 동시 연결 수 (기본값: 2, 재연결 중 겹치는 연결 허용)
+ * - SIGNALING_MAX_FRAME_BYTES: 최대 프레임 크기 (기본값: 64KB)
+ */
+
+import type { ClientAction } from '../../utils/collaboration/signalingProtocol';
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+export interface RateLimitConfig {
+  /** 버킷 크기 (순간 최대 허용량) */
+  capacity: number;
+
+  /** 초당 충전량 */
+  refillPerSecond: number;
+}
+
+/** 연결별 전체 메시지 제한 (relay 사용 시 노트 이벤트가 함께 오므로 액션별 제한보다 크게 설정) */
+export const CONNECTION_RATE_LIMIT: RateLimitConfig = {
+  capacity: readPositiveInt('SIGNALING_RATE_LIMIT_BURST', 150),
+  refillPerSecond: readPositiveInt('SIGNALING_RATE_LIMIT_PER_SECOND', 80)
+};
+
+/**
+ * 액션별 메시지 제한
+ * signaling은 연결 직후 ICE candidate가 몰리므로 여유 있게, 룸 입장/등록 계열은 엄격하게 제한합니다.
+ */
+export const ACTION_RATE_LIMITS: Record<ClientAction, RateLimitConfig> = {
+  'register': { capacity: 5, refillPerSecond: 0.2 },
+  'join': { capacity: 5, refillPerSecond: 0.2 },
+  'signaling': { capacity: 50, refillPerSecond: 15 },
+  'leave': { capacity: 5, refillPerSecond: 0.2 },
+  'approve-join': { capacity: 20, refillPerSecond: 2 },
+  'deny-join': { capacity: 20, refillPerSecond: 2 },
+  'relay': { capacity: 120, refillPerSecond: 60 },
+  'chat': { capacity: 5, refillPerSecond: 1 },
+  'update-state': { capacity: 10, refillPerSecond: 1 }
+};
+
+export const MAX_RATE_LIMIT_VIOLATIONS = readPositiveInt('SIGNALING_RATE_LIMIT_MAX_VIOLATIONS', 10);
+const VIOLATION_WINDOW_MS = readPositiveInt('SIGNALING_RATE_LIMIT_VIOLATION_WINDOW_MS', 10 * 1000);
+
+export const MAX_CONNECTIONS_PER_IP = readPositiveInt('SIGNALING_MAX_CONNECTIONS_PER_IP', 20);
+export const MAX_CONNECTIONS_PER_CLIENT = readPositiveInt('SIGNALING_MAX_CONNECTIONS_PER_CLIENT', 2);
+export const MAX_FRAME_BYTES = readPositiveInt('SIGNALING_MAX_FRAME_BYTES', 64 * 1024);
+
+/**
+ * 토큰 버킷
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefillAt = Date.now();
+
+  constructor(private readonly config: RateLimitConfig) {
+    this.tokens = config.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefillAt) / 1000;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsedSeconds * this.config.refillPerSecond);
+    this.lastRefillAt = now;
+  }
+
+  /**
+   * 토큰 사용
+   *
+   * @returns 토큰이 남아 있어 사용했는지 여부
+   */
+  tryRemove(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * 다음 토큰이 충전될 때까지 남은 시간 (ms)
+   */
+  getRetryAfterMs(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.config.refillPerSecond) * 1000);
+  }
+}
+
+export type RateLimitScope = 'message' | 'action';
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+/**
+ * 연결 하나의 메시지 속도 제한
+ * 전체 메시지 버킷과 액션별 버킷을 함께 확인하고, 집계 구간 안의 위반 횟수를 기록합니다.
+ */
+export class MessageRateLimiter {
+  private readonly messageBucket = new TokenBucket(CONNECTION_RATE_LIMIT);
+  private readonly actionBuckets = new Map<ClientAction, TokenBucket>();
+  private violationTimestamps: number[] = [];
+
+  /**
+   * 프레임 수신 시 전체 메시지 제한 확인 (파싱 전)
+   */
+  checkMessage(): RateLimitResult {
+    if (this.messageBucket.tryRemove()) {
+      return { allowed: true };
+    }
+    return { allowed: false, scope: 'message', retryAfterMs: this.messageBucket.getRetryAfterMs() };
+  }
+
+  /**
+   * 액션별 제한 확인 (파싱 후)
+   */
+  checkAction(action: ClientAction): RateLimitResult {
+    let bucket = this.actionBuckets.get(action);
+    if (!bucket) {
+      bucket = new TokenBucket(ACTION_RATE_LIMITS[action]);
+      this.actionBuckets.set(action, bucket);
+    }
+
+    if (bucket.tryRemove()) {
+      return { allowed: true };
+    }
+    return { allowed: false, scope: 'action', retryAfterMs: bucket.getRetryAfterMs() };
+  }
+
+  /**
+   * 위반 기록
+   *
+   * @returns 집계 구간 안의 위반 횟수
+   */
+  recordViolation(): number {
+    const now = Date.now();
+    this.violationTimestamps = this.violationTimestamps.filter((timestamp) => now - timestamp < VIOLATION_WINDOW_MS);
+    this.violationTimestamps.push(now);
+    return this.violationTimestamps.length;
+  }
+}
+
+export type ConnectionLimitScope = 'ip' | 'client';
+
+/**
+ * IP/clientId별 동시 연결 수 제한
+ */
+export class ConnectionLimiter {
+  private connectionsByIp = new Map<string, number>();
+  private connectionsByClientId = new Map<string, number>();
+
+  /**
+   * 연결 슬롯 확보
+   *
+   * @returns 확보 성공 시 null, 제한 초과 시 초과한 범위
+   */
+  acquire(ip: string, clientId: string): ConnectionLimitScope | null {
+    const ipCount = this.connectionsByIp.get(ip) ?? 0;
+    if (ipCount >= MAX_CONNECTIONS_PER_IP) {
+      return 'ip';
+    }
+
+    const clientCount = this.connectionsByClientId.get(clientId) ?? 0;
+    if (clientCount >= MAX_CONNECTIONS_PER_CLIENT) {
+      return 'client';
+    }
+
+    this.connectionsByIp.set(ip, ipCount + 1);
+    this.connectionsByClientId.set(clientId, clientCount + 1);
+    return null;
+  }
+
+  /**
+   * 연결 슬롯 반환 (연결 종료 시)
+   */
+  release(ip: string, clientId: string): void {
+    decrement(this.connectionsByIp, ip);
+    decrement(this.connectionsByClientId, clientId);
+  }
+}
+
+function decrement(counts: Map<string, number>, key: string): void {
+  const count = (counts.get(key) ?? 0) - 1;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Redis Pub/Sub 메시지 버스
+ * 외부 클라이언트 라이브러리 없이 RESP 프로토콜로 직접 통신합니다.
+ * PUBLISH용 연결과 SUBSCRIBE용 연결을 따로 유지하며, 연결이 끊기면 자동으로 재연결합니다.
+ */
+
+import { Socket, createConnection } from 'net';
+import { logDebug, logError, logInfo } from '@/app/utils/logging';
+import type { MessageBus, MessageBusHandler } from './messageBus';
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_PENDING_COMMANDS = 1000;
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+export interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  password?: string;
+  username?: string;
+}
+
+/**
+ * redis://[username:password@]host:port URL 파싱
+ */
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  const parsed = new URL(url);
+  return {
+    host: parsed.hostname || '127.0.0.1',
+    port: parsed.port ? parseInt(parsed.port, 10) : 6379,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined
+  };
+}
+
+/**
+ * RESP 명령 인코딩 (Array of Bulk Strings)
+ */
+export function encodeRespCommand(args: string[]): string {
+  let command = `*${args.length}\r\n`;
+  for (const arg of args) {
+    command += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return command;
+}
+
+/**
+ * RESP 응답 파싱
+ * 버퍼에 완전한 값이 없으면 null을 반환합니다.
+ */
+export function parseResp(buffer: Buffer, offset: number = 0): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseResp(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP prefix: ${prefix}`);
+  }
+}
+
+/** 응답을 기다리는 명령의 콜백 (null이면 응답을 onValue로 전달) */
+type ReplyCallback = ((value: RespValue) => void) | null;
+
+/**
+ * 재연결을 지원하는 단일 RESP 연결
+ * request()로 보낸 명령의 응답은 보낸 순서대로 콜백에 전달하고, 그 외의 값(send() 응답, Pub/Sub 메시지)은 onValue로 전달합니다.
+ */
+export class RespConnection {
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: Array<{ command: string; callback: ReplyCallback }> = [];
+  /** 소켓에 쓴 명령의 응답 대기열 (보낸 순서) */
+  private inflight: ReplyCallback[] = [];
+  private connected = false;
+  private closed = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: RedisConnectionOptions,
+    private readonly onValue: (value: RespValue) => void,
+    private readonly onReady: () => string[][] = () => []
+  ) {
+    this.connect();
+  }
+
+  send(args: string[]): void {
+    this.write(encodeRespCommand(args), null);
+  }
+
+  /**
+   * 명령을 보내고 응답을 기다림
+   * Redis 오류 응답이나 연결 종료 시 reject합니다. (Pub/Sub 구독 중인 연결에서는 사용하지 않음)
+   */
+  request(args: string[]): Promise<RespValue> {
+    return new Promise((resolvePromise, rejectPromise) => {
+      this.write(encodeRespCommand(args), (value) => {
+        if (value instanceof Error) {
+          rejectPromise(value);
+          return;
+        }
+        resolvePromise(value);
+      });
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.destroy();
+    this.socket = null;
+    this.failInflight();
+    for (const { callback } of this.pending.splice(0)) {
+      callback?.(new Error(`Redis ${this.name} connection closed`));
+    }
+  }
+
+  private write(command: string, callback: ReplyCallback): void {
+    if (this.closed) {
+      callback?.(new Error(`Redis ${this.name} connection closed`));
+      return;
+    }
+    if (this.connected && this.socket) {
+      this.inflight.push(callback);
+      this.socket.write(command);
+      return;
+    }
+    if (this.pending.length >= MAX_PENDING_COMMANDS) {
+      this.pending.shift()?.callback?.(new Error(`Redis ${this.name} pending command queue is full`));
+    }
+    this.pending.push({ command, callback });
+  }
+
+  /**
+   * 응답을 받지 못한 명령의 콜백에 오류 전달 (연결이 끊기면 응답 순서를 알 수 없으므로 다시 보내지 않음)
+   */
+  private failInflight(): void {
+    const error = new Error(`Redis ${this.name} connection closed before reply`);
+    for (const callback of this.inflight.splice(0)) {
+      callback?.(error);
+    }
+  }
+
+  private connect(): void {
+    const socket = createConnection({ host: this.options.host, port: this.options.port });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.on('connect', () => {
+      logInfo(`[Online Sequencer] [MessageBus] Redis ${this.name} connection established`);
+      this.connected = true;
+
+      if (this.options.password) {
+        this.write(encodeRespCommand(
+          this.options.username
+            ? ['AUTH', this.options.username, this.options.password]
+            : ['AUTH', this.options.password]
+        ), null);
+      }
+      for (const args of this.onReady()) {
+        this.write(encodeRespCommand(args), null);
+      }
+      for (const { command, callback } of this.pending.splice(0)) {
+        this.write(command, callback);
+      }
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      try {
+        let parsed = parseResp(this.buffer);
+        while (parsed) {
+          this.buffer = this.buffer.subarray(parsed.offset);
+          // Pub/Sub 메시지처럼 명령 없이 도착한 값은 대기열이 비어 있으므로 onValue로 전달
+          const callback = this.inflight.length > 0 ? this.inflight.shift() : null;
+          if (callback) {
+            callback(parsed.value);
+          } else {
+            this.onValue(parsed.value);
+          }
+          parsed = this.buffer.length > 0 ? parseResp(this.buffer) : null;
+        }
+      } catch (error) {
+        logError(`[Online Sequencer] [MessageBus] Redis ${this.name} protocol error`, { error: error instanceof Error ? error.message : String(error) });
+        socket.destroy();
+      }
+    });
+
+    socket.on('error', (error) => {
+      logError(`[Online Sequencer] [MessageBus] Redis ${this.name} connection error`, { error: error.message });
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.failInflight();
+      if (this.closed) {
+        return;
+      }
+      logDebug(`[Online Sequencer] [MessageBus] Redis ${this.name} connection closed, reconnecting in ${RECONNECT_DELAY_MS}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, RECONNECT_DELAY_MS);
+    });
+  }
+}
+
+/**
+ * Redis Pub/Sub 기반 메시지 버스
+ */
+export class RedisMessageBus implements MessageBus {
+  private handlers = new Map<string, Set<MessageBusHandler>>();
+  private publisher: RespConnection;
+  private subscriber: RespConnection;
+
+  constructor(url: string) {
+    const options = parseRedisUrl(url);
+
+    this.publisher = new RespConnection('publisher', options, (value) => {
+      if (value instanceof Error) {
+        logError('[Online Sequencer] [MessageBus] Redis publish error', { error: value.message });
+      }
+    });
+
+    // 재연결 시 기존 채널을 다시 구독
+    this.subscriber = new RespConnection(
+      'subscriber',
+      options,
+      (value) => this.handleSubscriberValue(value),
+      () => Array.from(this.handlers.keys()).map((channel) => ['SUBSCRIBE', channel])
+    );
+  }
+
+  publish(channel: string, payload: string): void {
+    this.publisher.send(['PUBLISH', channel, payload]);
+  }
+
+  subscribe(channel: string, handler: MessageBusHandler): void {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      this.subscriber.send(['SUBSCRIBE', channel]);
+    }
+    handlers.add(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.publisher.close();
+    this.subscriber.close();
+  }
+
+  private handleSubscriberValue(value: RespValue): void {
+    if (value instanceof Error) {
+      logError('[Online Sequencer] [MessageBus] Redis subscribe error', { error: value.message });
+      return;
+    }
+
+    // ['message', channel, payload] 형식만 처리 (subscribe 확인 응답 등은 무시)
+    if (!Array.isArray(value) || value[0] !== 'message') {
+      return;
+    }
+
+    const [, channel, payload] = value;
+    if (typeof channel !== 'string' || typeof payload !== 'string') {
+      return;
+    }
+
+    for (const handler of this.handlers.get(channel) ?? []) {
+      try {
+        handler(payload);
+      } catch (error) {
+        logError('[Online Sequencer] [MessageBus] Message handler error', { channel, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+}
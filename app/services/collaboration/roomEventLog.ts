@@ -0,0 +1,167 @@
+/**
+ * 룸 이벤트 로그
+ * 룸별 생명주기 이벤트(생성, 등록, 조인 시도와 실패 사유, 강퇴, 조인 허용 변경, 연결 끊김, 만료 등)를
+ * 크기가 제한된 링 버퍼에 기록합니다. 협업 세션 문제를 디버깅할 때 사용합니다.
+ *
+ * - ROOM_EVENT_LOG_SIZE: 룸별 최대 이벤트 수 (기본값: 500, 넘으면 오래된 이벤트부터 삭제)
+ * - ROOM_EVENT_LOG_RETENTION_MINUTES: 룸 삭제 후 로그 보관 시간 (기본값: 60분, 관리자만 조회 가능)
+ */
+
+import type { SignalingType } from '../../utils/collaboration/signalingProtocol';
+
+export type RoomEventType =
+  | 'room-created'
+  | 'room-restored'
+  | 'room-deleted'
+  | 'room-expired'
+  | 'room-extended'
+  | 'host-registered'
+  | 'host-register-failed'
+  | 'host-disconnected'
+  | 'host-reconnected'
+  | 'host-changed'
+  | 'join-succeeded'
+  | 'join-failed'
+  | 'join-requested'
+  | 'join-request-resolved'
+  | 'participant-left'
+  | 'participant-disconnected'
+  | 'participant-resumed'
+  | 'participant-kicked'
+  | 'ban-lifted'
+  | 'spectator-left'
+  | 'allow-join-changed'
+  | 'state-updated';
+
+export interface RoomEvent {
+  /** 룸 안에서 증가하는 이벤트 순번 */
+  seq: number;
+
+  type: RoomEventType;
+
+  /** 발생 시간 (timestamp) */
+  timestamp: number;
+
+  /** 관련 클라이언트 ID (호스트 또는 참가자) */
+  clientId?: string;
+
+  /** 이벤트별 상세 정보 (실패 사유, 에러 코드 등) */
+  details?: Record<string, unknown>;
+}
+
+/** 시그널링 메시지 종류별 전달 횟수 (relay 포함) */
+export type SignalingCounts = Record<SignalingType | 'relay', number>;
+
+interface RoomEventBuffer {
+  events: RoomEvent[];
+  nextSeq: number;
+  signalingCounts: SignalingCounts;
+  /** 룸이 삭제된 시간 (보관 기간 계산용, 활성 룸이면 null) */
+  closedAt: number | null;
+}
+
+const ROOM_EVENT_LOG_SIZE = parseInt(process.env.ROOM_EVENT_LOG_SIZE || '', 10) || 500;
+const ROOM_EVENT_LOG_RETENTION_MS = (parseInt(process.env.ROOM_EVENT_LOG_RETENTION_MINUTES || '', 10) || 60) * 60 * 1000;
+
+function createBuffer(): RoomEventBuffer {
+  return {
+    events: [],
+    nextSeq: 1,
+    signalingCounts: { 'offer': 0, 'answer': 0, 'ice-candidate': 0, 'relay': 0 },
+    closedAt: null
+  };
+}
+
+/**
+ * 룸 이벤트 로그 저장소
+ */
+export class RoomEventLog {
+  private buffers = new Map<string, RoomEventBuffer>();
+
+  /**
+   * 이벤트 기록
+   * room-created/room-restored는 같은 코드로 이전에 쓰였던 룸의 로그를 버리고 새로 시작합니다.
+   * 그 외 이벤트는 로그가 있는 룸에만 기록합니다. (존재하지 않는 룸 코드로 로그가 무한히 늘어나는 것 방지)
+   */
+  record(roomCode: string, type: RoomEventType, clientId?: string, details?: Record<string, unknown>): void {
+    let buffer = this.buffers.get(roomCode);
+    if (type === 'room-created' || type === 'room-restored') {
+      buffer = createBuffer();
+      this.buffers.set(roomCode, buffer);
+    }
+    if (!buffer) {
+      return;
+    }
+
+    buffer.events.push({
+      seq: buffer.nextSeq++,
+      type,
+      timestamp: Date.now(),
+      ...(clientId ? { clientId } : {}),
+      ...(details ? { details } : {})
+    });
+    if (buffer.events.length > ROOM_EVENT_LOG_SIZE) {
+      buffer.events.splice(0, buffer.events.length - ROOM_EVENT_LOG_SIZE);
+    }
+
+    if (type === 'room-deleted' || type === 'room-expired') {
+      buffer.closedAt = Date.now();
+    }
+  }
+
+  /**
+   * 시그널링 메시지 전달 횟수 증가
+   */
+  countSignaling(roomCode: string, type: keyof SignalingCounts): void {
+    const buffer = this.buffers.get(roomCode);
+    if (buffer) {
+      buffer.signalingCounts[type]++;
+    }
+  }
+
+  /**
+   * 룸 이벤트 조회
+   *
+   * @returns 이벤트 목록과 시그널링 횟수 (기록이 없으면 null)
+   */
+  get(roomCode: string): { events: RoomEvent[]; signalingCounts: SignalingCounts; closedAt: number | null } | null {
+    this.cleanup();
+    const buffer = this.buffers.get(roomCode);
+    if (!buffer) {
+      return null;
+    }
+    return {
+      events: [...buffer.events],
+      signalingCounts: { ...buffer.signalingCounts },
+      closedAt: buffer.closedAt
+    };
+  }
+
+  /**
+   * 보관 기간이 지난 삭제된 룸의 로그 정리
+   */
+  cleanup(): void {
+    const now = Date.now();
+    for (const [roomCode, buffer] of this.buffers) {
+      if (buffer.closedAt !== null && now - buffer.closedAt > ROOM_EVENT_LOG_RETENTION_MS) {
+        this.buffers.delete(roomCode);
+      }
+    }
+  }
+}
+
+/**
+ * 이벤트 목록을 JSONL(한 줄에 이벤트 하나) 형식으로 변환
+ */
+export function toJsonLines(roomCode: string, events: RoomEvent[]): string {
+  return events.map((event) => JSON.stringify({ roomCode, ...event })).join('\n') + (events.length > 0 ? '\n' : '');
+}
+
+// 전역 변수로 roomEventLog 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __roomEventLog: RoomEventLog | undefined;
+}
+
+// 싱글톤 인스턴스 (server.ts의 WebSocket 처리와 API 라우트가 같은 로그를 사용)
+export const roomEventLog = globalThis.__roomEventLog || new RoomEventLog();
+globalThis.__roomEventLog = roomEventLog;
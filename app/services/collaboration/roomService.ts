@@ -3,52 +3,153 @@
  * 룸 생성, 조회, 수정, 삭제 등의 로직을 담당합니다.
  */
 
-import type { Room } from '@/app/types/collaboration/room';
+import type { HostBan, PendingJoinRequest, Room, RoomJoinMode } from '@/app/types/collaboration/room';
+import { randomUUID } from 'crypto';
+import type { ChatMessage, JoinRole, RoomStateSnapshot } from '@/app/utils/collaboration/signalingProtocol';
 import { generateRoomCode } from '@/app/utils/collaboration/roomCodeGenerator';
-import { logDebug } from '@/app/utils/logging';
+import { verifyRoomToken } from '@/app/utils/collaboration/roomToken';
+import { logDebug, logInfo } from '@/app/utils/logging';
+import { hostBanList } from './hostBanList';
+import { roomEventLog } from './roomEventLog';
+import { createRoomStore, type RoomStore } from './roomStore';
+
+// 전역 변수로 roomStore 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __roomStore: RoomStore | undefined;
+}
+
+// 개발 모드에서는 HMR로 인해 모듈이 재로드될 수 있으므로 전역 변수 사용
+const roomStore = globalThis.__roomStore || createRoomStore();
+globalThis.__roomStore = roomStore;
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+function readMinutesList(name: string, defaultValue: number[]): number[] {
+  const values = (process.env[name] || '')
+    .split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((value) => !Number.isNaN(value) && value > 0);
+  return values.length > 0 ? Array.from(new Set(values)).sort((a, b) => b - a) : defaultValue;
+}
+
+const ROOM_TTL_MAX_MINUTES = readPositiveInt('ROOM_TTL_MAX_MINUTES', 6 * 60);
+const ROOM_TTL_MIN_MINUTES = Math.min(readPositiveInt('ROOM_TTL_MIN_MINUTES', 10), ROOM_TTL_MAX_MINUTES);
+const ROOM_MAX_PARTICIPANTS_LIMIT = readPositiveInt('ROOM_MAX_PARTICIPANTS_LIMIT', 16);
+
 /**
- * 룸 저장소 (인메모리)
+ * 룸 수명/인원/개수 제한
+ * - ROOM_TTL_MIN_MINUTES / ROOM_TTL_MAX_MINUTES / ROOM_TTL_DEFAULT_MINUTES: 생성 시 선택 가능한 수명 (기본값: 10 / 360 / 360분)
+ * - ROOM_LIFETIME_MAX_MINUTES: 연장을 포함한 최대 수명 (기본값: 720분, 생성 시 수명보다 짧으면 생성 시 수명으로 고정)
+ * - ROOM_EXTEND_MAX_MINUTES: 한 번에 연장 가능한 시간 (기본값: 60분)
+ * - ROOM_MAX_PARTICIPANTS_LIMIT / ROOM_MAX_PARTICIPANTS_DEFAULT: 선택 가능한 최대/기본 참가자 수 (기본값: 16 / 4)
+ * - ROOM_MAX_SPECTATORS: 룸별 최대 관전자 수 (기본값: 20, 0이면 관전 비활성화)
+ * - ROOM_MAX_ROOMS_PER_IP: 호스트 IP별 동시 룸 수 (기본값: 3)
+ * - ROOM_MAX_ROOMS: 서버 전체 동시 룸 수 (기본값: 500)
+ * - ROOM_EXPIRY_WARNING_MINUTES: 만료 경고 시점 (쉼표 구분, 기본값: 30,5,1)
  */
-class RoomStore {
-  private rooms = new Map<string, Room>();
+export const ROOM_LIMITS = {
+  ttlMinMinutes: ROOM_TTL_MIN_MINUTES,
+  ttlMaxMinutes: ROOM_TTL_MAX_MINUTES,
+  ttlDefaultMinutes: Math.min(Math.max(readPositiveInt('ROOM_TTL_DEFAULT_MINUTES', 6 * 60), ROOM_TTL_MIN_MINUTES), ROOM_TTL_MAX_MINUTES),
+  lifetimeMaxMinutes: readPositiveInt('ROOM_LIFETIME_MAX_MINUTES', 12 * 60),
+  extendMaxMinutes: readPositiveInt('ROOM_EXTEND_MAX_MINUTES', 60),
+  maxParticipantsLimit: ROOM_MAX_PARTICIPANTS_LIMIT,
+  maxParticipantsDefault: Math.min(readPositiveInt('ROOM_MAX_PARTICIPANTS_DEFAULT', 4), ROOM_MAX_PARTICIPANTS_LIMIT),
+  maxSpectators: (() => {
+    const value = parseInt(process.env.ROOM_MAX_SPECTATORS || '', 10);
+    return Number.isNaN(value) ? 20 : Math.max(value, 0);
+  })(),
+  maxRoomsPerIp: readPositiveInt('ROOM_MAX_ROOMS_PER_IP', 3),
+  maxRooms: readPositiveInt('ROOM_MAX_ROOMS', 500),
+  expiryWarningMinutes: readMinutesList('ROOM_EXPIRY_WARNING_MINUTES', [30, 5, 1])
+};
 
-  get(roomCode: string): Room | undefined {
-    return this.rooms.get(roomCode);
-  }
+/**
+ * 룸 생성 옵션
+ */
+export interface CreateRoomOptions {
+  /** 최대 참가자 수 (기본값: ROOM_MAX_PARTICIPANTS_DEFAULT) */
+  maxParticipants?: number;
 
-  set(roomCode: string, room: Room): void {
-    this.rooms.set(roomCode, room);
-  }
+  /** 조인 방식 (기본값: open) */
+  joinMode?: RoomJoinMode;
 
-  delete(roomCode: string): boolean {
-    const deleted = this.rooms.delete(roomCode);
-    return deleted;
-  }
+  /** 룸 수명 (분 단위, 기본값: ROOM_TTL_DEFAULT_MINUTES) */
+  ttlMinutes?: number;
 
-  getAll(): Room[] {
-    return Array.from(this.rooms.values());
-  }
+  /** 해싱된 호스트 IP (IP별 룸 수 제한용) */
+  hostIpHash?: string | null;
 
-  getAllRoomCodes(): Set<string> {
-    return new Set(this.rooms.keys());
-  }
+  /** 같은 호스트의 활성 룸을 다시 받을 때 제시한 그 룸의 호스트 토큰 */
+  hostToken?: string | null;
 }
 
-// 전역 변수로 roomStore 공유 (Next.js 모듈 시스템 문제 해결)
-declare global {
-  var __roomStore: RoomStore | undefined;
-}
+// 참가자 세션 재개 유예 시간 (기본값: 60초, 0이면 연결 종료 즉시 제거)
+const PARTICIPANT_RESUME_GRACE_MS = (() => {
+  const seconds = parseInt(process.env.ROOM_PARTICIPANT_RESUME_GRACE_SECONDS || '', 10);
+  return (Number.isNaN(seconds) ? 60 : Math.max(seconds, 0)) * 1000;
+})();
 
-// 개발 모드에서는 HMR로 인해 모듈이 재로드될 수 있으므로 전역 변수 사용
-const roomStore = globalThis.__roomStore || new RoomStore();
-globalThis.__roomStore = roomStore;
+// 룸 상태 스냅샷 최대 크기 (기본값: 256KB, WebSocket 업로드는 SIGNALING_MAX_FRAME_BYTES 제한도 받음)
+const ROOM_STATE_MAX_BYTES = parseInt(process.env.ROOM_STATE_MAX_BYTES || '', 10) || 256 * 1024;
+
+// 채팅 메시지 최대 길이 (기본값: 500자)
+export const ROOM_CHAT_MAX_LENGTH = readPositiveInt('ROOM_CHAT_MAX_LENGTH', 500);
 
-const MAX_ROOM_TTL_MS = 6 * 60 * 60 * 1000; // 6시간
+// 룸에 보관하는 최근 채팅 메시지 수 (기본값: 50개, 늦게 들어온 참가자에게 전달)
+const ROOM_CHAT_BACKLOG_SIZE = readPositiveInt('ROOM_CHAT_BACKLOG_SIZE', 50);
+
+// lobby 모드 조인 요청 유효 시간 (기본값: 120초)
+const JOIN_REQUEST_TTL_MS = (parseInt(process.env.ROOM_JOIN_REQUEST_TTL_SECONDS || '', 10) || 120) * 1000;
 
 /**
  * 룸 서비스
  */
 export class RoomService {
+  constructor() {
+    this.restoreRooms();
+  }
+
+  /**
+   * 저장소에서 룸 복구
+   * 서버 시작 시 영속 저장소에 남아 있는 룸을 다시 읽고, 이미 만료된 룸은 삭제합니다.
+   * 재시작 후에는 WebSocket 연결이 남아 있지 않으므로 조인 요청과 관전자는 비우고, 참가자는 세션 재개 대기 상태로 전환합니다.
+   * 호스트도 연결이 끊긴 상태로 표시하며, 재연결 유예 타이머는 signalingService.resumeHostGracePeriods()에서 시작합니다.
+   * 강퇴 목록은 그대로 유지합니다.
+   *
+   * @returns 복구된 룸 코드 목록
+   */
+  restoreRooms(): string[] {
+    const now = Date.now();
+    const restoredRoomCodes: string[] = [];
+
+    for (const room of roomStore.load()) {
+      if (now > room.expiresAt) {
+        roomStore.delete(room.roomCode);
+        continue;
+      }
+      room.pendingJoinRequests = [];
+      room.spectators = [];
+      room.reconnectingParticipants = room.participants.map((participantId) => ({
+        participantId,
+        disconnectedAt: now,
+        expiresAt: now + PARTICIPANT_RESUME_GRACE_MS
+      }));
+      room.hostDisconnectedAt = now;
+      roomStore.set(room.roomCode, room);
+      roomEventLog.record(room.roomCode, 'room-restored', undefined, { participantCount: room.participants.length });
+      restoredRoomCodes.push(room.roomCode);
+    }
+
+    if (restoredRoomCodes.length > 0) {
+      logInfo(`[Online Sequencer] [RoomService] Restored ${restoredRoomCodes.length} room(s): ${restoredRoomCodes.join(', ')}`);
+    }
+    return restoredRoomCodes;
+  }
+
   private getActiveRoomsByHostId(hostId: string): Room[] {
     const now = Date.now();
     return roomStore.getAll()
@@ -64,6 +165,7 @@ export class RoomService {
     const keep = rooms[0];
     for (const room of rooms.slice(1)) {
       roomStore.delete(room.roomCode);
+      roomEventLog.record(room.roomCode, 'room-deleted', hostId, { reason: 'duplicate-host-room' });
     }
     return keep;
   }
@@ -71,42 +173,109 @@ export class RoomService {
   /**
    * 룸 생성
    * 서버가 룸 코드를 생성하여 반환합니다.
+   * 같은 호스트의 활성 룸이 이미 있으면 그 룸의 호스트 토큰을 제시한 경우에만 옵션과 관계없이 기존 룸을 반환합니다.
+   * (hostId만 알아낸 다른 사용자가 기존 룸의 토큰을 다시 발급받지 못하도록 함)
    * 
    * @param hostId - 호스트 UUID
-   * @param maxParticipants - 최대 참가자 수 (기본값: 4)
+   * @param options - 룸 생성 옵션 (범위 검증은 호출하는 쪽에서 수행)
    * @returns 생성된 룸
+   * @throws Error - 서버 전체 또는 호스트 IP별 룸 수 제한을 넘은 경우, 유효한 호스트 토큰 없이 기존 룸이 있는 호스트가 요청한 경우
    */
-  createRoom(hostId: string, maxParticipants: number = 4): Room {
+  createRoom(hostId: string, options: CreateRoomOptions = {}): Room {
     const existingRoom = this.pruneRoomsByHostId(hostId);
     if (existingRoom) {
+      if (!verifyRoomToken(options.hostToken, existingRoom, 'host')) {
+        throw new Error('Host room already exists');
+      }
       return existingRoom;
     }
 
+    const {
+      maxParticipants = ROOM_LIMITS.maxParticipantsDefault,
+      joinMode = 'open',
+      ttlMinutes = ROOM_LIMITS.ttlDefaultMinutes,
+      hostIpHash = null
+    } = options;
+
+    // 동시 룸 수 제한 (서버 전체, 호스트 IP별)
+    const activeRooms = this.getActiveRooms();
+    if (activeRooms.length >= ROOM_LIMITS.maxRooms) {
+      throw new Error('Room limit reached');
+    }
+    if (hostIpHash && activeRooms.filter((room) => room.hostIpHash === hostIpHash).length >= ROOM_LIMITS.maxRoomsPerIp) {
+      throw new Error('Host room limit reached');
+    }
+
     // 사용 중인 룸 코드 조회
     const usedCodes = roomStore.getAllRoomCodes();
     
-    // 서버가 룸 코드 생성 (0000-9999 범위에서 임의 선택)
+    // 서버가 룸 코드 생성 (설정된 형식에서 임의 선택)
     const roomCode = generateRoomCode(usedCodes);
     
     const now = Date.now();
-    const expiresAt = now + MAX_ROOM_TTL_MS; // 6시간 후
+    const expiresAt = now + ttlMinutes * 60 * 1000;
+    const maxExpiresAt = Math.max(now + ROOM_LIMITS.lifetimeMaxMinutes * 60 * 1000, expiresAt);
     
     const room: Room = {
       roomCode,
       hostId,
+      hostIpHash,
       createdAt: now,
       expiresAt,
+      maxExpiresAt,
       allowJoin: false,
       allowJoinExpiresAt: null,
       participants: [],
+      spectators: [],
       kickedParticipants: new Map(),
-      maxParticipants
+      joinMode,
+      pendingJoinRequests: [],
+      reconnectingParticipants: [],
+      hostDisconnectedAt: null,
+      stateSnapshot: null,
+      chatMessages: [],
+      maxParticipants,
+      maxSpectators: ROOM_LIMITS.maxSpectators
     };
     
     roomStore.set(roomCode, room);
+    roomEventLog.record(roomCode, 'room-created', hostId, { maxParticipants, joinMode, expiresAt, maxExpiresAt });
+    return room;
+  }
+
+  /**
+   * 룸 수명 연장
+   * 최대 수명(maxExpiresAt)을 넘는 부분은 잘라서 연장합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param minutes - 연장 시간 (분 단위)
+   * @returns 연장된 룸
+   * @throws Error - 룸이 없거나 이미 최대 수명에 도달한 경우
+   */
+  extendRoom(roomCode: string, minutes: number): Room {
+    const room = this.getRoom(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+    if (room.expiresAt >= room.maxExpiresAt) {
+      throw new Error('Room lifetime limit reached');
+    }
+
+    const previousExpiresAt = room.expiresAt;
+    room.expiresAt = Math.min(room.expiresAt + minutes * 60 * 1000, room.maxExpiresAt);
+    roomStore.set(roomCode, room);
+    roomEventLog.record(roomCode, 'room-extended', undefined, { previousExpiresAt, expiresAt: room.expiresAt });
     return room;
   }
 
+  /**
+   * 만료되지 않은 룸 목록
+   */
+  private getActiveRooms(): Room[] {
+    const now = Date.now();
+    return roomStore.getAll().filter((room) => now <= room.expiresAt);
+  }
+
   /**
    * 호스트 ID로 룸 조회
    * 
@@ -172,6 +341,7 @@ export class RoomService {
     room.allowJoinExpiresAt = expiresAt;
     
     roomStore.set(roomCode, room);
+    roomEventLog.record(roomCode, 'allow-join-changed', undefined, { allowJoin: true, duration, expiresAt });
   }
 
   /**
@@ -200,6 +370,49 @@ export class RoomService {
     roomStore.set(roomCode, room);
   }
 
+  /**
+   * 관전자 추가
+   * 관전자는 maxParticipants에 포함되지 않고 maxSpectators로 따로 제한합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param spectatorId - 관전자 UUID
+   */
+  addSpectator(roomCode: string, spectatorId: string): void {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    if (room.spectators.includes(spectatorId)) {
+      return;
+    }
+
+    if (room.spectators.length >= room.maxSpectators) {
+      throw new Error('Spectator limit reached');
+    }
+
+    room.spectators.push(spectatorId);
+    roomStore.set(roomCode, room);
+  }
+
+  /**
+   * 관전자 제거
+   *
+   * @param roomCode - 룸 코드
+   * @param spectatorId - 관전자 UUID
+   * @returns 제거된 관전자가 있었는지 여부
+   */
+  removeSpectator(roomCode: string, spectatorId: string): boolean {
+    const room = roomStore.get(roomCode);
+    if (!room || !room.spectators.includes(spectatorId)) {
+      return false;
+    }
+
+    room.spectators = room.spectators.filter((id) => id !== spectatorId);
+    roomStore.set(roomCode, room);
+    return true;
+  }
+
   /**
    * 참가자 제거
    * 
@@ -215,62 +428,459 @@ export class RoomService {
     const index = room.participants.indexOf(participantId);
     if (index > -1) {
       room.participants.splice(index, 1);
+      room.reconnectingParticipants = room.reconnectingParticipants
+        .filter((reconnecting) => reconnecting.participantId !== participantId);
       roomStore.set(roomCode, room);
     }
   }
 
   /**
-   * 참가자 강퇴
-   * 강퇴된 참가자는 같은 룸 인스턴스에 재조인할 수 없습니다.
+   * 참가자 연결 끊김 표시
+   * 세션 재개 유예 시간 동안 참가자 슬롯을 유지합니다. 유예 시간이 0이면 바로 제거합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param participantId - 참가자 UUID
+   * @returns 세션 재개 대기 상태로 전환되었는지 여부
+   */
+  markParticipantDisconnected(roomCode: string, participantId: string): boolean {
+    const room = roomStore.get(roomCode);
+    if (!room || !room.participants.includes(participantId)) {
+      return false;
+    }
+
+    if (PARTICIPANT_RESUME_GRACE_MS <= 0) {
+      this.removeParticipant(roomCode, participantId);
+      return false;
+    }
+
+    const now = Date.now();
+    room.reconnectingParticipants = room.reconnectingParticipants
+      .filter((reconnecting) => reconnecting.participantId !== participantId)
+      .concat({ participantId, disconnectedAt: now, expiresAt: now + PARTICIPANT_RESUME_GRACE_MS });
+    roomStore.set(roomCode, room);
+    return true;
+  }
+
+  /**
+   * 참가자 세션 재개
+   * 참가자 슬롯이 남아 있고 유예 시간이 지나지 않았으면 재개 대기 상태를 해제합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param participantId - 참가자 UUID
+   * @returns 세션을 재개할 수 있는지 여부
+   */
+  resumeParticipant(roomCode: string, participantId: string): boolean {
+    const room = roomStore.get(roomCode);
+    if (!room || !room.participants.includes(participantId)) {
+      return false;
+    }
+
+    const reconnecting = room.reconnectingParticipants.find((entry) => entry.participantId === participantId);
+    if (reconnecting && Date.now() > reconnecting.expiresAt) {
+      return false;
+    }
+
+    if (reconnecting) {
+      room.reconnectingParticipants = room.reconnectingParticipants.filter((entry) => entry !== reconnecting);
+      roomStore.set(roomCode, room);
+    }
+    return true;
+  }
+
+  /**
+   * 세션 재개 유예 시간이 지난 참가자 정리
+   *
+   * @returns 제거된 참가자 목록 (룸 코드 포함)
+   */
+  cleanupExpiredReconnects(): Array<{ roomCode: string; participantId: string }> {
+    const now = Date.now();
+    const expired: Array<{ roomCode: string; participantId: string }> = [];
+
+    for (const room of roomStore.getAll()) {
+      for (const reconnecting of room.reconnectingParticipants) {
+        if (now > reconnecting.expiresAt) {
+          expired.push({ roomCode: room.roomCode, participantId: reconnecting.participantId });
+        }
+      }
+    }
+
+    for (const { roomCode, participantId } of expired) {
+      this.removeParticipant(roomCode, participantId);
+    }
+
+    return expired;
+  }
+
+  /**
+   * 조인 요청 추가 (lobby 모드)
+   * 이미 대기 중인 요청이 있으면 만료 시간을 갱신합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param participantId - 참가자 UUID
+   * @param role - 조인 역할 (기본값: participant)
+   * @returns 대기 중인 조인 요청
+   */
+  addJoinRequest(roomCode: string, participantId: string, role: JoinRole = 'participant'): PendingJoinRequest {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    // 최대 참가자/관전자 수 확인
+    if (role === 'spectator' && room.spectators.length >= room.maxSpectators) {
+      throw new Error('Spectator limit reached');
+    }
+    if (role === 'participant' && room.participants.length >= room.maxParticipants) {
+      throw new Error('Room is full');
+    }
+
+    const now = Date.now();
+    const request: PendingJoinRequest = {
+      participantId,
+      role,
+      requestedAt: now,
+      expiresAt: now + JOIN_REQUEST_TTL_MS
+    };
+
+    room.pendingJoinRequests = room.pendingJoinRequests
+      .filter((pending) => pending.participantId !== participantId)
+      .concat(request);
+    roomStore.set(roomCode, room);
+    return request;
+  }
+
+  /**
+   * 조인 요청 제거 (승인, 거절, 취소 시)
+   *
+   * @param roomCode - 룸 코드
+   * @param participantId - 참가자 UUID
+   * @returns 제거된 조인 요청 (만료되었거나 없으면 null)
+   */
+  removeJoinRequest(roomCode: string, participantId: string): PendingJoinRequest | null {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      return null;
+    }
+
+    const request = room.pendingJoinRequests.find((pending) => pending.participantId === participantId);
+    if (!request) {
+      return null;
+    }
+
+    room.pendingJoinRequests = room.pendingJoinRequests.filter((pending) => pending !== request);
+    roomStore.set(roomCode, room);
+
+    return Date.now() > request.expiresAt ? null : request;
+  }
+
+  /**
+   * 대기 중인 조인 요청 조회 (만료된 요청 제외)
+   *
+   * @param roomCode - 룸 코드
+   * @returns 조인 요청 목록
+   */
+  getJoinRequests(roomCode: string): PendingJoinRequest[] {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      return [];
+    }
+
+    const now = Date.now();
+    return room.pendingJoinRequests.filter((pending) => now <= pending.expiresAt);
+  }
+
+  /**
+   * 참가자의 모든 조인 요청 취소 (연결 종료 시)
+   *
+   * @param participantId - 참가자 UUID
+   * @returns 요청이 취소된 룸 코드 목록
+   */
+  cancelJoinRequests(participantId: string): string[] {
+    const roomCodes: string[] = [];
+
+    for (const room of roomStore.getAll()) {
+      if (room.pendingJoinRequests.some((pending) => pending.participantId === participantId)) {
+        room.pendingJoinRequests = room.pendingJoinRequests.filter((pending) => pending.participantId !== participantId);
+        roomStore.set(room.roomCode, room);
+        roomCodes.push(room.roomCode);
+      }
+    }
+
+    return roomCodes;
+  }
+
+  /**
+   * 만료된 조인 요청 정리
+   *
+   * @returns 만료된 조인 요청 목록 (룸 코드 포함)
+   */
+  cleanupExpiredJoinRequests(): Array<{ roomCode: string; participantId: string }> {
+    const now = Date.now();
+    const expired: Array<{ roomCode: string; participantId: string }> = [];
+
+    for (const room of roomStore.getAll()) {
+      const remaining = room.pendingJoinRequests.filter((pending) => now <= pending.expiresAt);
+      if (remaining.length === room.pendingJoinRequests.length) {
+        continue;
+      }
+
+      for (const pending of room.pendingJoinRequests) {
+        if (now > pending.expiresAt) {
+          expired.push({ roomCode: room.roomCode, participantId: pending.participantId });
+        }
+      }
+      room.pendingJoinRequests = remaining;
+      roomStore.set(room.roomCode, room);
+    }
+
+    return expired;
+  }
+
+  /**
+   * 참가자 강퇴 (관전자 포함)
+   * 강퇴된 참가자는 같은 룸 인스턴스에 재조인할 수 없고,
+   * 차단 기간 동안 같은 호스트가 새로 만드는 룸에도 조인할 수 없습니다.
    * 
    * @param roomCode - 룸 코드
    * @param participantId - 참가자 UUID
+   * @param ipHash - 함께 차단할 참가자의 해싱된 IP (IP 차단을 하지 않으면 null)
+   * @returns 호스트 단위 차단 정보 (차단 기능이 꺼져 있으면 null)
    */
-  kickParticipant(roomCode: string, participantId: string): void {
+  kickParticipant(roomCode: string, participantId: string, ipHash: string | null = null): HostBan | null {
     const room = roomStore.get(roomCode);
     if (!room) {
       throw new Error('Room not found');
     }
     
-    // 참가자 목록에서 제거
+    // 참가자/관전자 목록에서 제거
     this.removeParticipant(roomCode, participantId);
+    this.removeSpectator(roomCode, participantId);
     
     // 강퇴 목록에 추가 (roomCreatedAt 저장)
     room.kickedParticipants.set(participantId, room.createdAt);
     
     roomStore.set(roomCode, room);
+
+    // 호스트 단위 차단 목록에 추가 (다음 룸 인스턴스에도 적용)
+    const ban = hostBanList.add(room.hostId, participantId, ipHash);
+    roomEventLog.record(roomCode, 'participant-kicked', participantId, ban ? { banId: ban.banId, ipBanned: ban.ipHash !== null, banExpiresAt: ban.expiresAt } : undefined);
+    return ban;
   }
 
   /**
    * 강퇴된 참가자인지 확인
+   * 같은 룸 인스턴스에서 강퇴됐거나, 룸 호스트의 차단 목록에 참가자 ID 또는 해싱된 IP가 있으면 true입니다.
    * 
    * @param roomCode - 룸 코드
    * @param participantId - 참가자 UUID
+   * @param ipHash - 참가자의 해싱된 IP (알 수 없으면 null)
    * @returns 강퇴된 참가자인지 여부
    */
-  isKickedParticipant(roomCode: string, participantId: string): boolean {
+  isKickedParticipant(roomCode: string, participantId: string, ipHash: string | null = null): boolean {
     const room = roomStore.get(roomCode);
     if (!room) {
       return false;
     }
     
-    // 강퇴 목록에 있고, 같은 룸 인스턴스인지 확인
-    const kickedAt = room.kickedParticipants.get(participantId);
-    if (kickedAt === undefined) {
+    // 강퇴 목록에 있고, 같은 룸 인스턴스인지 확인 (createdAt 비교)
+    if (room.kickedParticipants.get(participantId) === room.createdAt) {
+      return true;
+    }
+
+    // 호스트 단위 차단 확인
+    return hostBanList.find(room.hostId, participantId, ipHash) !== null;
+  }
+
+  /**
+   * 룸 호스트의 차단 목록 조회
+   * 
+   * @param roomCode - 룸 코드
+   * @returns 유효한 차단 목록 (최근 차단 순)
+   * @throws Error - 룸이 없는 경우
+   */
+  getBans(roomCode: string): HostBan[] {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+    return hostBanList.list(room.hostId);
+  }
+
+  /**
+   * 차단 해제
+   * 현재 룸 인스턴스의 강퇴 기록도 함께 지워 바로 다시 조인할 수 있게 합니다.
+   * 
+   * @param roomCode - 룸 코드
+   * @param banId - 차단 ID
+   * @returns 해제된 차단 정보
+   * @throws Error - 룸 또는 차단이 없는 경우
+   */
+  liftBan(roomCode: string, banId: string): HostBan {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    const ban = hostBanList.remove(room.hostId, banId);
+    if (!ban) {
+      throw new Error('Ban not found');
+    }
+
+    if (room.kickedParticipants.delete(ban.participantId)) {
+      roomStore.set(roomCode, room);
+    }
+    roomEventLog.record(roomCode, 'ban-lifted', ban.participantId, { banId });
+    return ban;
+  }
+
+  /**
+   * 호스트 연결 끊김 표시
+   * 재연결 유예 시간 동안 룸을 유지하기 위해 연결이 끊긴 시간을 기록합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @returns 기록된 연결 끊김 시간 (룸이 없으면 null)
+   */
+  markHostDisconnected(roomCode: string): number | null {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      return null;
+    }
+
+    if (room.hostDisconnectedAt === null) {
+      room.hostDisconnectedAt = Date.now();
+      roomStore.set(roomCode, room);
+    }
+    return room.hostDisconnectedAt;
+  }
+
+  /**
+   * 호스트 재연결 표시
+   *
+   * @param roomCode - 룸 코드
+   * @returns 연결 끊김 상태였는지 여부
+   */
+  markHostReconnected(roomCode: string): boolean {
+    const room = roomStore.get(roomCode);
+    if (!room || room.hostDisconnectedAt === null) {
       return false;
     }
-    
-    // 같은 룸 인스턴스인지 확인 (createdAt 비교)
-    return kickedAt === room.createdAt;
+
+    room.hostDisconnectedAt = null;
+    roomStore.set(roomCode, room);
+    return true;
+  }
+
+  /**
+   * 호스트 변경
+   * 참가자를 새 호스트로 승격하고 참가자 목록에서 제외합니다. (한 번의 저장으로 처리)
+   *
+   * @param roomCode - 룸 코드
+   * @param newHostId - 새 호스트 UUID (현재 참가자여야 함)
+   * @returns 변경된 룸
+   */
+  transferHost(roomCode: string, newHostId: string): Room {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    if (!room.participants.includes(newHostId)) {
+      throw new Error('Participant not found');
+    }
+
+    const updatedRoom: Room = {
+      ...room,
+      hostId: newHostId,
+      hostDisconnectedAt: null,
+      participants: room.participants.filter((participantId) => participantId !== newHostId)
+    };
+    roomStore.set(roomCode, updatedRoom);
+    return updatedRoom;
+  }
+
+  /**
+   * 룸 상태 스냅샷 저장
+   * 이전 스냅샷보다 높은 버전만 저장합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param version - 상태 버전
+   * @param state - 상태 데이터 (JSON 값)
+   * @returns 저장된 스냅샷
+   * @throws Error - 룸이 없거나, 크기 제한을 넘거나, 버전이 이전 스냅샷 이하인 경우
+   */
+  setRoomState(roomCode: string, version: number, state: unknown): RoomStateSnapshot {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    const size = Buffer.byteLength(JSON.stringify(state) ?? '');
+    if (size > ROOM_STATE_MAX_BYTES) {
+      throw new Error('Room state too large');
+    }
+
+    if (room.stateSnapshot && version <= room.stateSnapshot.version) {
+      throw new Error('Room state version conflict');
+    }
+
+    const snapshot: RoomStateSnapshot = {
+      version,
+      state,
+      size,
+      updatedAt: Date.now()
+    };
+    room.stateSnapshot = snapshot;
+    roomStore.set(roomCode, room);
+    return snapshot;
+  }
+
+  /**
+   * 채팅 메시지 추가
+   * 서버가 id와 timestamp를 부여하고, 최근 ROOM_CHAT_BACKLOG_SIZE개만 룸에 보관합니다.
+   *
+   * @param roomCode - 룸 코드
+   * @param from - 발신자 ID
+   * @param role - 발신자 역할
+   * @param text - 메시지 내용 (앞뒤 공백 제거 후 저장)
+   * @returns 저장된 채팅 메시지
+   * @throws Error - 룸이 없거나, 내용이 비어 있거나, 최대 길이를 넘는 경우
+   */
+  addChatMessage(roomCode: string, from: string, role: ChatMessage['role'], text: string): ChatMessage {
+    const room = roomStore.get(roomCode);
+    if (!room) {
+      throw new Error('Room not found');
+    }
+
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      throw new Error('Chat message is empty');
+    }
+    if (trimmed.length > ROOM_CHAT_MAX_LENGTH) {
+      throw new Error('Chat message too long');
+    }
+
+    const message: ChatMessage = {
+      id: randomUUID(),
+      from,
+      role,
+      text: trimmed,
+      timestamp: Date.now()
+    };
+    room.chatMessages = room.chatMessages.concat(message).slice(-ROOM_CHAT_BACKLOG_SIZE);
+    roomStore.set(roomCode, room);
+    return message;
   }
 
   /**
    * 룸 삭제
    * 
    * @param roomCode - 룸 코드
+   * @param reason - 삭제 사유 (이벤트 로그 기록용)
    */
-  deleteRoom(roomCode: string): void {
-    roomStore.delete(roomCode);
+  deleteRoom(roomCode: string, reason?: string): void {
+    if (roomStore.delete(roomCode)) {
+      roomEventLog.record(roomCode, 'room-deleted', undefined, reason ? { reason } : undefined);
+    }
   }
 
   /**
@@ -287,6 +897,7 @@ export class RoomService {
     for (const room of rooms) {
       if (now > room.expiresAt) {
         roomStore.delete(room.roomCode);
+        roomEventLog.record(room.roomCode, 'room-expired', undefined, { expiresAt: room.expiresAt });
         deletedRoomCodes.push(room.roomCode);
       }
     }
@@ -312,6 +923,7 @@ export class RoomService {
         room.allowJoin = false;
         room.allowJoinExpiresAt = null;
         roomStore.set(roomCode, room);
+        roomEventLog.record(roomCode, 'allow-join-changed', undefined, { allowJoin: false, reason: 'expired' });
       }
     }
   }
@@ -0,0 +1,448 @@
+/**
+ * 룸 저장소
+ * 룸 데이터를 보관하는 저장소 인터페이스와 구현체(인메모리, 파일)를 제공합니다.
+ *
+ * ROOM_STORE 환경 변수로 구현체를 선택합니다.
+ * - memory (기본값): 프로세스 메모리에만 보관 (재시작 시 초기화)
+ * - file: ROOM_STORE_FILE 경로의 JSON 파일에 함께 기록 (재시작 후 복구 가능)
+ *   변경 사항은 ROOM_STORE_FLUSH_MS(기본값: 1000ms) 동안 모아 비동기로 기록하고, 프로세스 종료 시 남은 변경을 기록합니다.
+ * - redis: ROOM_STORE_REDIS_URL(없으면 SIGNALING_BUS_REDIS_URL)의 Redis Hash(ROOM_STORE_REDIS_KEY)에 기록하고
+ *   변경을 ROOM_STORE_REDIS_CHANNEL로 알려 여러 서버 인스턴스가 같은 룸 상태를 공유합니다.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { dirname, resolve } from 'path';
+import type { Room } from '@/app/types/collaboration/room';
+import { logDebug, logError, logInfo } from '@/app/utils/logging';
+import { RespConnection, parseRedisUrl, type RespValue } from './redisMessageBus';
+
+const flushDelayMs = parseInt(process.env.ROOM_STORE_FLUSH_MS || '', 10);
+const ROOM_STORE_FLUSH_MS = Number.isNaN(flushDelayMs) || flushDelayMs < 0 ? 1000 : flushDelayMs;
+
+/**
+ * 룸 저장소 인터페이스
+ */
+export interface RoomStore {
+  get(roomCode: string): Room | undefined;
+  set(roomCode: string, room: Room): void;
+  delete(roomCode: string): boolean;
+  getAll(): Room[];
+  getAllRoomCodes(): Set<string>;
+
+  /**
+   * 영속 저장소에서 룸 목록을 다시 읽어옵니다.
+   * 인메모리 저장소는 현재 보관 중인 룸을 그대로 반환합니다.
+   */
+  load(): Room[];
+}
+
+/**
+ * JSON 직렬화용 룸 데이터
+ * kickedParticipants(Map)는 [participantId, roomCreatedAt] 배열로 저장합니다.
+ */
+interface SerializedRoom extends Omit<Room, 'kickedParticipants'> {
+  kickedParticipants: Array<[string, number]>;
+}
+
+interface SerializedRoomFile {
+  version: 1;
+  rooms: SerializedRoom[];
+}
+
+export function serializeRoom(room: Room): SerializedRoom {
+  return {
+    ...room,
+    kickedParticipants: Array.from(room.kickedParticipants.entries())
+  };
+}
+
+export function deserializeRoom(data: SerializedRoom): Room {
+  return {
+    ...data,
+    hostIpHash: typeof data.hostIpHash === 'string' ? data.hostIpHash : null,
+    maxExpiresAt: typeof data.maxExpiresAt === 'number' ? data.maxExpiresAt : data.expiresAt,
+    participants: Array.isArray(data.participants) ? [...data.participants] : [],
+    spectators: Array.isArray(data.spectators) ? [...data.spectators] : [],
+    maxSpectators: typeof data.maxSpectators === 'number' ? data.maxSpectators : 0,
+    kickedParticipants: new Map(Array.isArray(data.kickedParticipants) ? data.kickedParticipants : []),
+    joinMode: data.joinMode === 'lobby' ? 'lobby' : 'open',
+    pendingJoinRequests: Array.isArray(data.pendingJoinRequests)
+      ? data.pendingJoinRequests.map((request) => ({ ...request, role: request.role === 'spectator' ? 'spectator' : 'participant' }))
+      : [],
+    reconnectingParticipants: Array.isArray(data.reconnectingParticipants) ? [...data.reconnectingParticipants] : [],
+    hostDisconnectedAt: typeof data.hostDisconnectedAt === 'number' ? data.hostDisconnectedAt : null,
+    stateSnapshot: data.stateSnapshot ?? null,
+    chatMessages: Array.isArray(data.chatMessages) ? [...data.chatMessages] : []
+  };
+}
+
+/**
+ * 인메모리 룸 저장소
+ */
+export class InMemoryRoomStore implements RoomStore {
+  protected rooms = new Map<string, Room>();
+
+  get(roomCode: string): Room | undefined {
+    return this.rooms.get(roomCode);
+  }
+
+  set(roomCode: string, room: Room): void {
+    this.rooms.set(roomCode, room);
+  }
+
+  delete(roomCode: string): boolean {
+    const deleted = this.rooms.delete(roomCode);
+    return deleted;
+  }
+
+  getAll(): Room[] {
+    return Array.from(this.rooms.values());
+  }
+
+  getAllRoomCodes(): Set<string> {
+    return new Set(this.rooms.keys());
+  }
+
+  load(): Room[] {
+    return this.getAll();
+  }
+}
+
+/**
+ * 파일 기반 룸 저장소
+ * 조회는 메모리에서 처리하고, 변경이 있으면 flushDelayMs 동안 모은 뒤 전체 룸 목록을 JSON 파일에 비동기로 기록합니다.
+ * (채팅, 상태 스냅샷 등 잦은 변경이 시그널링 이벤트 루프를 막지 않도록 함)
+ * 임시 파일에 쓴 뒤 rename하므로 기록 도중 프로세스가 종료되어도 이전 파일이 유지됩니다.
+ */
+export class FileRoomStore extends InMemoryRoomStore {
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string, private readonly flushDelayMs: number = ROOM_STORE_FLUSH_MS) {
+    super();
+    // 종료 직전 아직 기록하지 않은 변경 저장 (exit 이벤트에서는 동기 작업만 가능)
+    process.once('exit', () => this.flushSync());
+  }
+
+  set(roomCode: string, room: Room): void {
+    super.set(roomCode, room);
+    this.schedulePersist();
+  }
+
+  delete(roomCode: string): boolean {
+    const deleted = super.delete(roomCode);
+    if (deleted) {
+      this.schedulePersist();
+    }
+    return deleted;
+  }
+
+  /**
+   * 모아 둔 변경을 파일에 기록 (이전 기록이 진행 중이면 끝난 뒤 기록)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    while (this.writing) {
+      await this.writing;
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    const data = this.serialize();
+    this.writing = this.writeFileAsync(data).then((written) => {
+      this.writing = null;
+      // 기록에 실패하면 다음 주기에 다시 시도
+      if (!written) {
+        this.schedulePersist();
+      }
+    });
+    await this.writing;
+  }
+
+  /**
+   * 모아 둔 변경을 즉시 동기로 기록 (프로세스 종료 시)
+   */
+  flushSync(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.dirty) {
+      return;
+    }
+    this.dirty = false;
+
+    const tempPath = `${this.filePath}.sync.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tempPath, this.serialize());
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logError('[Online Sequencer] [RoomStore] Failed to write room store file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  load(): Room[] {
+    this.rooms.clear();
+
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf8')) as Partial<SerializedRoomFile>;
+      for (const data of parsed.rooms ?? []) {
+        if (!data || typeof data.roomCode !== 'string') {
+          continue;
+        }
+        this.rooms.set(data.roomCode, deserializeRoom(data));
+      }
+    } catch (error) {
+      logError('[Online Sequencer] [RoomStore] Failed to load room store file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return this.getAll();
+  }
+
+  private schedulePersist(): void {
+    this.dirty = true;
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushDelayMs);
+    this.flushTimer.unref?.();
+  }
+
+  private serialize(): string {
+    const payload: SerializedRoomFile = {
+      version: 1,
+      rooms: this.getAll().map(serializeRoom)
+    };
+    return JSON.stringify(payload);
+  }
+
+  private async writeFileAsync(data: string): Promise<boolean> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, data);
+      await rename(tempPath, this.filePath);
+      return true;
+    } catch (error) {
+      logError('[Online Sequencer] [RoomStore] Failed to write room store file', {
+        filePath: this.filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+}
+
+/**
+ * Redis 룸 변경 알림
+ * room이 null이면 삭제
+ */
+interface RoomChangeEnvelope {
+  instanceId: string;
+  roomCode: string;
+  room: SerializedRoom | null;
+}
+
+/**
+ * Redis 기반 공유 룸 저장소
+ * 룸 서비스가 동기 인터페이스를 사용하므로 조회는 로컬 복제본에서 처리하고,
+ * 변경은 Redis Hash에 기록한 뒤 Pub/Sub으로 다른 인스턴스의 복제본에 반영합니다.
+ * 같은 룸을 여러 인스턴스가 동시에 변경하면 마지막 기록이 남습니다.
+ *
+ * 복제본은 구독 연결이 (재)연결될 때마다 HGETALL로 다시 동기화합니다.
+ * 다른 인스턴스가 운영 중인 룸이므로 load()는 재시작 복구 대상 룸을 반환하지 않습니다.
+ */
+export class RedisRoomStore extends InMemoryRoomStore {
+  /** 메시지 버스에서 자신이 발행한 변경을 구분하기 위한 인스턴스 ID */
+  private readonly instanceId = randomUUID();
+  private readonly commands: RespConnection;
+  private readonly subscriber: RespConnection;
+  /** 동기화 중에 Pub/Sub으로 받은 변경 (HGETALL 결과보다 최신이므로 덮어쓰지 않음) */
+  private changedDuringSync: Set<string> | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(url: string, private readonly key: string, private readonly channel: string) {
+    super();
+    const options = parseRedisUrl(url);
+
+    this.commands = new RespConnection('room store', options, (value) => {
+      if (value instanceof Error) {
+        logError('[Online Sequencer] [RoomStore] Redis command error', { error: value.message });
+      }
+    });
+
+    // 구독이 끊긴 동안 놓친 변경이 있을 수 있으므로 (재)연결 시 전체 다시 동기화
+    this.subscriber = new RespConnection(
+      'room store subscriber',
+      options,
+      (value) => this.handleSubscriberValue(value),
+      () => {
+        void this.sync();
+        return [['SUBSCRIBE', this.channel]];
+      }
+    );
+  }
+
+  set(roomCode: string, room: Room): void {
+    super.set(roomCode, room);
+    this.changedDuringSync?.add(roomCode);
+    const serialized = serializeRoom(room);
+    this.commands.send(['HSET', this.key, roomCode, JSON.stringify(serialized)]);
+    this.publishChange(roomCode, serialized);
+  }
+
+  delete(roomCode: string): boolean {
+    const deleted = super.delete(roomCode);
+    this.changedDuringSync?.add(roomCode);
+    this.commands.send(['HDEL', this.key, roomCode]);
+    this.publishChange(roomCode, null);
+    return deleted;
+  }
+
+  load(): Room[] {
+    return [];
+  }
+
+  /**
+   * Redis Hash 전체를 읽어 복제본 동기화 (진행 중이면 같은 작업을 기다림)
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.changedDuringSync = new Set();
+      this.syncing = this.commands.request(['HGETALL', this.key])
+        .then((value) => this.applySnapshot(value))
+        .catch((error) => {
+          logError('[Online Sequencer] [RoomStore] Failed to sync rooms from redis', { error: error instanceof Error ? error.message : String(error) });
+        })
+        .finally(() => {
+          this.changedDuringSync = null;
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  close(): void {
+    this.commands.close();
+    this.subscriber.close();
+  }
+
+  private publishChange(roomCode: string, room: SerializedRoom | null): void {
+    const envelope: RoomChangeEnvelope = { instanceId: this.instanceId, roomCode, room };
+    this.commands.send(['PUBLISH', this.channel, JSON.stringify(envelope)]);
+  }
+
+  /**
+   * HGETALL 응답([field, value, ...])을 복제본에 반영
+   */
+  private applySnapshot(value: RespValue): void {
+    if (!Array.isArray(value)) {
+      return;
+    }
+
+    const roomCodes = new Set<string>();
+    for (let i = 0; i + 1 < value.length; i += 2) {
+      const roomCode = value[i];
+      const payload = value[i + 1];
+      if (typeof roomCode !== 'string' || typeof payload !== 'string') {
+        continue;
+      }
+      roomCodes.add(roomCode);
+      if (this.changedDuringSync?.has(roomCode)) {
+        continue;
+      }
+      try {
+        this.rooms.set(roomCode, deserializeRoom(JSON.parse(payload)));
+      } catch (error) {
+        logError('[Online Sequencer] [RoomStore] Invalid room in redis', { roomCode, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    for (const roomCode of Array.from(this.rooms.keys())) {
+      if (!roomCodes.has(roomCode) && !this.changedDuringSync?.has(roomCode)) {
+        this.rooms.delete(roomCode);
+      }
+    }
+    logDebug(`[Online Sequencer] [RoomStore] Synced ${this.rooms.size} room(s) from redis`);
+  }
+
+  private handleSubscriberValue(value: RespValue): void {
+    if (value instanceof Error) {
+      logError('[Online Sequencer] [RoomStore] Redis subscribe error', { error: value.message });
+      return;
+    }
+
+    // ['message', channel, payload] 형식만 처리 (subscribe 확인 응답 등은 무시)
+    if (!Array.isArray(value) || value[0] !== 'message' || value[1] !== this.channel || typeof value[2] !== 'string') {
+      return;
+    }
+
+    let envelope: RoomChangeEnvelope;
+    try {
+      envelope = JSON.parse(value[2]);
+    } catch (error) {
+      logError('[Online Sequencer] [RoomStore] Invalid room change payload', { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (envelope.instanceId === this.instanceId || typeof envelope.roomCode !== 'string') {
+      return;
+    }
+
+    this.changedDuringSync?.add(envelope.roomCode);
+    if (envelope.room) {
+      this.rooms.set(envelope.roomCode, deserializeRoom(envelope.room));
+    } else {
+      this.rooms.delete(envelope.roomCode);
+    }
+  }
+}
+
+/**
+ * 환경 변수에 따라 룸 저장소 생성
+ */
+export function createRoomStore(): RoomStore {
+  const type = (process.env.ROOM_STORE || 'memory').toLowerCase().trim();
+
+  if (type === 'file') {
+    const filePath = resolve(process.cwd(), process.env.ROOM_STORE_FILE || 'data/rooms.json');
+    logInfo(`[Online Sequencer] [RoomStore] Using file room store: ${filePath}`);
+    return new FileRoomStore(filePath);
+  }
+
+  if (type === 'redis') {
+    const url = process.env.ROOM_STORE_REDIS_URL || process.env.SIGNALING_BUS_REDIS_URL || 'redis://127.0.0.1:6379';
+    const key = process.env.ROOM_STORE_REDIS_KEY || 'online-sequencer:rooms';
+    const channel = process.env.ROOM_STORE_REDIS_CHANNEL || 'online-sequencer:rooms:changes';
+    logInfo(`[Online Sequencer] [RoomStore] Using redis room store: ${url.replace(/\/\/[^@/]*@/, '//***@')}`);
+    return new RedisRoomStore(url, key, channel);
+  }
+
+  if (type !== 'memory') {
+    logInfo(`[Online Sequencer] [RoomStore] Unknown ROOM_STORE "${type}", falling back to memory`);
+  }
+  return new InMemoryRoomStore();
+}
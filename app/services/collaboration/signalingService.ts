@@ -3,82 +3,143 @@
  * WebRTC 시그널링 메시지(offer, answer, ice-candidate)를 라우팅합니다.
  */
 
+import { randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
 import { roomService } from './roomService';
-import { logDebug, logError } from '../../utils/logging';
+import type { RelayedPair, Room } from '../../types/collaboration/room';
+import { createResumeToken, createRoomTokens, decodeRoomToken, verifyResumeToken, verifyRoomToken } from '../../utils/collaboration/roomToken';
+import { normalizeRoomCode } from '../../utils/collaboration/roomCodeGenerator';
+import { getIceServers } from '../../utils/collaboration/iceServers';
+import { createMessageBus, getMessageBusChannel } from './messageBus';
+import { roomEventLog } from './roomEventLog';
+import { MAX_FRAME_BYTES, MAX_RATE_LIMIT_VIOLATIONS, MessageRateLimiter, type RateLimitResult } from './rateLimiter';
+import { ErrorCode } from '../../utils/collaboration/errorHandler';
+import {
+  createServerMessage,
+  encodeSignalingMessage,
+  getSignalingEncoding,
+  parseBinaryClientMessage,
+  parseClientMessage,
+  type ChatClientMessage,
+  type ClientToServerMessage,
+  type IceServer,
+  type JoinDecisionMessage,
+  type JoinMessage,
+  type JoinRole,
+  type ProtocolErrorDetails,
+  type RegisterMessage,
+  type RelayClientMessage,
+  type UpdateStateMessage,
+  type ServerMessageInit,
+  type SignalingClientMessage,
+  type SignalingEncoding
+} from '../../utils/collaboration/signalingProtocol';
+import { logDebug, logError, logInfo } from '../../utils/logging';
 
-/**
- * 시그널링 메시지 타입 (WebRTC 시그널링용)
- */
-// WebRTC 타입 정의
-export interface RTCSessionDescriptionInit {
-  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
-  sdp?: string;
-}
+// 시그널링 프로토콜 타입 (클라이언트와 공유하는 모듈에서 정의)
+export type {
+  ClientToServerMessage,
+  ServerToClientMessage,
+  RTCIceCandidateInit,
+  RTCSessionDescriptionInit
+} from '../../utils/collaboration/signalingProtocol';
 
-export interface RTCIceCandidateInit {
-  candidate?: string;
-  sdpMLineIndex?: number | null;
-  sdpMid?: string | null;
-}
+// 호스트 재연결 유예 시간 (기본값: 30초, 0이면 유예 없이 바로 처리)
+const HOST_RECONNECT_GRACE_MS = (() => {
+  const seconds = parseInt(process.env.ROOM_HOST_RECONNECT_GRACE_SECONDS || '', 10);
+  return (Number.isNaN(seconds) ? 30 : Math.max(seconds, 0)) * 1000;
+})();
 
-export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate';
-  from: string;        // 발신자 ID (hostId 또는 participantId)
-  to: string;          // 수신자 ID
-  roomCode: string;    // 룸 코드
-  data: {
-    sdp?: RTCSessionDescriptionInit;
-    candidate?: RTCIceCandidateInit;
-  };
-  timestamp: number;
+// 유예 시간 후 호스트를 가장 오래 접속한 참가자에게 넘길지 여부 (기본값: false, 넘기지 않으면 룸 종료)
+const HOST_HANDOFF_ENABLED = (process.env.ROOM_HOST_HANDOFF || 'false').toLowerCase().trim() === 'true';
+
+// 서버 릴레이 설정 (WebRTC 연결 실패 시 WebSocket으로 데이터 전달)
+const RELAY_ENABLED = (process.env.SIGNALING_RELAY_ENABLED || 'true').toLowerCase().trim() !== 'false';
+const RELAY_MAX_PAYLOAD_BYTES = parseInt(process.env.SIGNALING_RELAY_MAX_PAYLOAD_BYTES || '', 10) || 16 * 1024;
+// 이 시간 동안 릴레이가 없으면 릴레이 중인 쌍 목록에서 제외
+const RELAY_PAIR_IDLE_MS = 60 * 1000;
+
+/**
+ * 처리 중 발생한 예외를 에러 코드로 변환
+ */
+function getErrorCode(error: unknown): ErrorCode {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'Room is full' || message === 'Spectator limit reached') {
+    return ErrorCode.ROOM_FULL;
+  }
+  if (message === 'Room not found') {
+    return ErrorCode.ROOM_NOT_FOUND;
+  }
+  if (message === 'Room state too large') {
+    return ErrorCode.PAYLOAD_TOO_LARGE;
+  }
+  if (message === 'Room state version conflict') {
+    return ErrorCode.STATE_VERSION_CONFLICT;
+  }
+  if (message === 'Chat message is empty') {
+    return ErrorCode.INVALID_MESSAGE;
+  }
+  if (message === 'Chat message too long') {
+    return ErrorCode.PAYLOAD_TOO_LARGE;
+  }
+  return ErrorCode.INTERNAL_ERROR;
 }
 
 /**
- * 클라이언트 → 서버 메시지 (WebSocket)
+ * 서버 메시지를 클라이언트가 협상한 인코딩(JSON 텍스트 또는 MessagePack 바이너리)으로 전송
  */
-export interface ClientToServerMessage {
-  action: 'register' | 'join' | 'signaling' | 'leave';
-  roomCode: string;
-  clientId: string;
-  data?: {
-    role?: 'host' | 'participant';
-    type?: 'offer' | 'answer' | 'ice-candidate';
-    to?: string;
-    sdp?: RTCSessionDescriptionInit;
-    candidate?: RTCIceCandidateInit;
-    [key: string]: unknown;
-  };
+export function sendServerMessage(ws: WebSocket, message: ServerMessageInit): void {
+  ws.send(encodeSignalingMessage(createServerMessage(message), getSignalingEncoding(ws.protocol)));
 }
 
 /**
- * 서버 → 클라이언트 메시지 (WebSocket)
+ * 메시지 버스 전달 단위
+ * - room: 룸 전체 브로드캐스트 (excludeClientId 제외)
+ * - client: 특정 클라이언트에게 전달 (해당 클라이언트가 연결된 인스턴스에서만 처리)
+ * - room-closed: 룸 종료 알림 (excludeClientId 제외) 후 각 인스턴스에서 룸의 연결 정리
+ * - kick: 강퇴 알림 후 해당 클라이언트가 연결된 인스턴스에서 연결 정리
  */
-export interface ServerToClientMessage {
-  action: 'connected' | 'registered' | 'joined' | 'signaling' | 'error' | 'room-closed' | 'kicked' | 'allow-join-expired' | 'room-expiring' | 'room-session-expired' | 'participant-joined' | 'participant-left';
-  roomCode?: string;
+interface BusEnvelope {
+  instanceId: string;
+  kind: 'room' | 'client' | 'room-closed' | 'kick';
+  roomCode: string;
   clientId?: string;
-  data?: {
-    status?: string;
-    hostId?: string;
-    participantId?: string;
-    participantCount?: number;
-    minutesLeft?: number;
-    roomCreatedAt?: number;
-    [key: string]: unknown;
-  };
-  error?: string;
-  timestamp?: number;
+  excludeClientId?: string;
+  message: ServerMessageInit;
 }
 
+// WebSocket heartbeat 설정 (ping 전송 주기, pong 대기 시간)
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.SIGNALING_HEARTBEAT_INTERVAL_MS || '', 10) || 30 * 1000;
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.SIGNALING_HEARTBEAT_TIMEOUT_MS || '', 10) || 10 * 1000;
+
+/** 룸 안에서의 클라이언트 역할 */
+type ClientRole = 'host' | JoinRole;
+
 /**
  * 클라이언트 연결 정보
  */
 interface ClientConnection {
   ws: WebSocket;
   clientId: string;
+  ipHash: string | null;       // 해싱된 클라이언트 IP (IP 차단 확인용)
   roomCode: string | null;
-  role: 'host' | 'participant' | null;
+  role: ClientRole | null;
+  joinedAt: number | null; // 현재 룸에 등록된 시간
+  rttMs: number | null;        // 마지막 ping/pong 왕복 시간
+  lastPongAt: number | null;   // 마지막 pong 수신 시간
+  lastRelaySeq: number | null; // 마지막으로 릴레이한 메시지 순번
+}
+
+/**
+ * 클라이언트 연결 상세 정보 (모니터링용)
+ */
+export interface ClientConnectionInfo {
+  clientId: string;
+  role: ClientRole | null;
+  readyState: number;
+  isOpen: boolean;
+  rttMs: number | null;
+  lastPongAt: number | null;
 }
 
 /**
@@ -88,12 +149,17 @@ class SignalingStore {
   private connections = new Map<string, ClientConnection>(); // clientId -> connection
   private roomClients = new Map<string, Set<string>>();      // roomCode -> Set<clientId>
 
-  addConnection(clientId: string, ws: WebSocket): void {
+  addConnection(clientId: string, ws: WebSocket, ipHash: string | null): void {
     this.connections.set(clientId, {
       ws,
       clientId,
+      ipHash,
       roomCode: null,
-      role: null
+      role: null,
+      joinedAt: null,
+      rttMs: null,
+      lastPongAt: null,
+      lastRelaySeq: null
     });
   }
 
@@ -115,9 +181,9 @@ class SignalingStore {
    * Phase 3: 오래된 연결 정리 (dead connection cleanup)
    * WebSocket이 닫혔지만 정상적으로 제거되지 않은 연결을 정리합니다.
    */
-  cleanupDeadConnections(): { cleaned: number; roomsDeleted: string[] } {
+  cleanupDeadConnections(): { cleaned: number; hostDisconnectedRooms: Array<{ roomCode: string; hostId: string }> } {
     let cleaned = 0;
-    const roomsToDelete = new Map<string, string>(); // roomCode -> hostId
+    const hostDisconnectedRooms = new Map<string, string>(); // roomCode -> hostId
     
     for (const [clientId, connection] of this.connections.entries()) {
       const readyState = connection.ws.readyState;
@@ -126,18 +192,21 @@ class SignalingStore {
       if (isClosed) {
         // 연결이 닫혔거나 닫히는 중인 경우 즉시 정리
         if (connection.roomCode && connection.role === 'host') {
-          // 호스트 연결이 끊어진 경우 룸 삭제
-          roomsToDelete.set(connection.roomCode, clientId);
+          // 호스트 연결이 끊어진 경우 재연결 유예 처리 대상
+          hostDisconnectedRooms.set(connection.roomCode, clientId);
         }
         this.removeConnection(clientId);
         cleaned++;
       }
     }
     
-    return { cleaned, roomsDeleted: Array.from(roomsToDelete.keys()) };
+    return {
+      cleaned,
+      hostDisconnectedRooms: Array.from(hostDisconnectedRooms.entries()).map(([roomCode, hostId]) => ({ roomCode, hostId }))
+    };
   }
 
-  setRoom(clientId: string, roomCode: string, role: 'host' | 'participant'): void {
+  setRoom(clientId: string, roomCode: string, role: ClientRole): void {
     const connection = this.connections.get(clientId);
     if (!connection) {
       return;
@@ -151,7 +220,11 @@ class SignalingStore {
       }
     }
 
-    // 새 룸에 추가
+    // 새 룸에 추가 (같은 룸에서 역할만 바뀌는 경우 등록 시간 유지)
+    if (connection.roomCode !== roomCode || connection.joinedAt === null) {
+      connection.joinedAt = Date.now();
+      connection.lastRelaySeq = null;
+    }
     connection.roomCode = roomCode;
     connection.role = role;
 
@@ -165,6 +238,30 @@ class SignalingStore {
     return this.connections.get(clientId);
   }
 
+  /**
+   * 룸에 가장 오래 접속해 있는 참가자 조회 (열린 연결만)
+   */
+  getLongestConnectedParticipant(roomCode: string, participantIds: string[]): string | null {
+    let candidate: ClientConnection | null = null;
+
+    for (const clientId of this.getRoomClients(roomCode)) {
+      const connection = this.connections.get(clientId);
+      if (
+        !connection ||
+        connection.role !== 'participant' ||
+        connection.ws.readyState !== WebSocket.OPEN ||
+        !participantIds.includes(clientId)
+      ) {
+        continue;
+      }
+      if (!candidate || (connection.joinedAt ?? Infinity) < (candidate.joinedAt ?? Infinity)) {
+        candidate = connection;
+      }
+    }
+
+    return candidate?.clientId ?? null;
+  }
+
   getRoomClients(roomCode: string): string[] {
     const clients = this.roomClients.get(roomCode);
     return clients ? Array.from(clients) : [];
@@ -173,12 +270,7 @@ class SignalingStore {
   /**
    * 룸의 모든 클라이언트 연결 정보 조회 (상세 정보 포함)
    */
-  getRoomClientConnections(roomCode: string): Array<{
-    clientId: string;
-    role: 'host' | 'participant' | null;
-    readyState: number;
-    isOpen: boolean;
-  }> {
+  getRoomClientConnections(roomCode: string): ClientConnectionInfo[] {
     const clients = this.roomClients.get(roomCode);
     if (!clients) {
       return [];
@@ -197,7 +289,9 @@ class SignalingStore {
         clientId,
         role: connection.role,
         readyState,
-        isOpen
+        isOpen,
+        rttMs: connection.rttMs,
+        lastPongAt: connection.lastPongAt
       };
     }).filter((conn): conn is NonNullable<typeof conn> => conn !== null);
   }
@@ -209,48 +303,393 @@ const signalingStore = new SignalingStore();
  * 시그널링 서비스
  */
 export class SignalingService {
+  /** 메시지 버스에서 자신이 발행한 메시지를 구분하기 위한 인스턴스 ID */
+  private readonly instanceId = randomUUID();
+  private readonly messageBus = createMessageBus();
+  private readonly busChannel = getMessageBusChannel();
+  private busSubscribed = false;
+  /** 호스트 재연결 유예 타이머 (roomCode -> timer) */
+  private hostGraceTimers = new Map<string, NodeJS.Timeout>();
+  /** 릴레이 중인 참가자 쌍 (roomCode -> "from\nto" -> 정보, 이 인스턴스에서 릴레이한 것만 집계) */
+  private relayedPairs = new Map<string, Map<string, RelayedPair>>();
+
+  /**
+   * 메시지 버스 구독
+   * WebSocket 연결을 실제로 처리하는 인스턴스에서만 구독하도록 첫 연결 시점에 호출합니다.
+   */
+  private ensureBusSubscription(): void {
+    if (this.busSubscribed) {
+      return;
+    }
+    this.busSubscribed = true;
+    this.messageBus.subscribe(this.busChannel, (payload) => this.handleBusMessage(payload));
+  }
+
+  /**
+   * 다른 인스턴스에서 발행한 메시지 처리
+   */
+  private handleBusMessage(payload: string): void {
+    let envelope: BusEnvelope;
+    try {
+      envelope = JSON.parse(payload);
+    } catch (error) {
+      logError('[Online Sequencer] Invalid message bus payload', { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    if (envelope.instanceId === this.instanceId) {
+      return;
+    }
+
+    if (envelope.kind === 'room') {
+      this.deliverToLocalRoom(envelope.roomCode, envelope.message, envelope.excludeClientId);
+      return;
+    }
+
+    if (envelope.kind === 'room-closed') {
+      this.closeLocalRoom(envelope.roomCode, envelope.message, envelope.excludeClientId);
+      return;
+    }
+
+    if (envelope.kind === 'kick' && envelope.clientId) {
+      this.kickLocalClient(envelope.roomCode, envelope.clientId, envelope.message);
+      return;
+    }
+
+    if (envelope.kind === 'client' && envelope.clientId) {
+      const connection = signalingStore.getConnection(envelope.clientId);
+      if (connection && connection.roomCode === envelope.roomCode) {
+        logDebug(`[Online Sequencer] Message bus delivery to client:${envelope.clientId} action:${envelope.message.action} roomCode:${envelope.roomCode}`);
+        this.sendToClient(envelope.clientId, envelope.message);
+      }
+    }
+  }
+
+  /**
+   * 메시지 버스로 발행
+   */
+  private publishToBus(envelope: Omit<BusEnvelope, 'instanceId'>): void {
+    try {
+      this.messageBus.publish(this.busChannel, JSON.stringify({ ...envelope, instanceId: this.instanceId }));
+    } catch (error) {
+      logError('[Online Sequencer] Failed to publish to message bus', { roomCode: envelope.roomCode, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * 룸의 특정 클라이언트에게 전달
+   * 이 인스턴스에 연결되어 있지 않으면 메시지 버스를 통해 다른 인스턴스로 전달합니다.
+   */
+  private deliverToClient(roomCode: string, clientId: string, message: ServerMessageInit): void {
+    if (signalingStore.getConnection(clientId)) {
+      this.sendToClient(clientId, message);
+      return;
+    }
+    this.publishToBus({ kind: 'client', roomCode, clientId, message });
+  }
+
   /**
    * 클라이언트 연결 처리
+   *
+   * @param ipHash - 해싱된 클라이언트 IP (강퇴 시 IP 차단용, 알 수 없으면 null)
    */
-  handleConnection(ws: WebSocket, clientId: string): void {
-    signalingStore.addConnection(clientId, ws);
+  handleConnection(ws: WebSocket, clientId: string, ipHash: string | null = null): void {
+    this.ensureBusSubscription();
+    signalingStore.addConnection(clientId, ws, ipHash);
+    this.startHeartbeat(ws, clientId);
+    const rateLimiter = new MessageRateLimiter();
 
-    ws.on('message', (data: Buffer) => {
-      try {
-        const message: ClientToServerMessage = JSON.parse(data.toString());
-        this.handleMessage(clientId, message);
-      } catch (error) {
-        logError('Error parsing message:', { clientId, error: error instanceof Error ? error.message : String(error) });
-        ws.send(JSON.stringify({
-          action: 'error',
-          error: 'Invalid message format',
-          timestamp: Date.now()
-        } as ServerToClientMessage));
+    // MessagePack 서브프로토콜로 연결한 클라이언트의 바이너리 프레임만 MessagePack으로 해석 (텍스트 프레임은 항상 JSON)
+    const binaryFrames = getSignalingEncoding(ws.protocol) === 'msgpack';
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      // 연결별 전체 메시지 속도 제한 (파싱 전에 확인)
+      const messageLimit = rateLimiter.checkMessage();
+      if (!messageLimit.allowed) {
+        this.handleRateLimitViolation(ws, clientId, rateLimiter, messageLimit);
+        return;
+      }
+
+      // 프로토콜 형식 검증 (잘못된 프레임은 ErrorCode를 포함한 에러로 응답)
+      const result = binaryFrames && isBinary ? parseBinaryClientMessage(data) : parseClientMessage(data.toString());
+      if (!result.ok) {
+        logDebug(`[Online Sequencer] Invalid message from client:${clientId} code:${result.error.code} message:${result.error.message}`);
+        this.sendError(clientId, result.error.code, result.error.message, result.error.details);
+        return;
+      }
+
+      // 액션별 속도 제한
+      const actionLimit = rateLimiter.checkAction(result.message.action);
+      if (!actionLimit.allowed) {
+        this.handleRateLimitViolation(ws, clientId, rateLimiter, actionLimit, result.message.action);
+        return;
       }
+
+      this.handleMessage(clientId, result.message);
     });
 
     ws.on('close', () => {
-      const connection = signalingStore.getConnection(clientId);
-      if (connection?.roomCode) {
-        roomService.removeParticipant(connection.roomCode, clientId);
-      }
-      signalingStore.removeConnection(clientId);
+      this.handleDisconnect(clientId, ws);
     });
 
     ws.on('error', (error) => {
+      // 최대 프레임 크기 초과 (ws 라이브러리가 1009 코드로 연결 종료)
+      if ((error as NodeJS.ErrnoException).code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+        logInfo('[Online Sequencer] WebSocket frame too large, connection closed', { clientId, maxFrameBytes: MAX_FRAME_BYTES });
+      }
       logError('WebSocket error:', { clientId, error: error instanceof Error ? error.message : String(error) });
+      this.handleDisconnect(clientId, ws);
+    });
+  }
+
+  /**
+   * 속도 제한 위반 처리
+   * 메시지를 버리고 rate-limited를 전송하며, 집계 구간 안의 위반 횟수가 허용치를 넘으면 1008 코드로 연결을 종료합니다.
+   */
+  private handleRateLimitViolation(
+    ws: WebSocket,
+    clientId: string,
+    rateLimiter: MessageRateLimiter,
+    result: Extract<RateLimitResult, { allowed: false }>,
+    action?: ClientToServerMessage['action']
+  ): void {
+    const violations = rateLimiter.recordViolation();
+    const exceeded = violations > MAX_RATE_LIMIT_VIOLATIONS;
+    logInfo('[Online Sequencer] WebSocket rate limit exceeded', {
+      clientId,
+      scope: result.scope,
+      action,
+      violations,
+      closing: exceeded
+    });
+
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    sendServerMessage(ws, {
+      action: 'rate-limited',
+      error: exceeded ? 'Rate limit exceeded repeatedly, closing connection' : 'Rate limit exceeded, message dropped',
+      code: ErrorCode.RATE_LIMITED,
+      data: {
+        scope: result.scope,
+        limitedAction: action,
+        retryAfterMs: result.retryAfterMs,
+        violations,
+        maxViolations: MAX_RATE_LIMIT_VIOLATIONS
+      },
+      timestamp: Date.now()
+    });
+
+    if (exceeded) {
+      ws.close(1008, 'rate limit exceeded');
+    }
+  }
+
+  /**
+   * WebSocket heartbeat 시작
+   * 주기적으로 ping을 보내고 pong까지의 왕복 시간(RTT)을 기록합니다.
+   * 제한 시간 안에 pong이 오지 않으면 half-open 연결로 보고 소켓을 종료합니다.
+   */
+  private startHeartbeat(ws: WebSocket, clientId: string): void {
+    let pingSentAt: number | null = null;
+    let timeoutTimer: NodeJS.Timeout | null = null;
+
+    ws.on('pong', () => {
+      const now = Date.now();
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+        timeoutTimer = null;
+      }
+
       const connection = signalingStore.getConnection(clientId);
-      if (connection?.roomCode) {
-        roomService.removeParticipant(connection.roomCode, clientId);
+      if (connection && connection.ws === ws) {
+        connection.lastPongAt = now;
+        if (pingSentAt !== null) {
+          connection.rttMs = now - pingSentAt;
+        }
       }
-      signalingStore.removeConnection(clientId);
+      pingSentAt = null;
+    });
+
+    const intervalTimer = setInterval(() => {
+      if (ws.readyState !== WebSocket.OPEN || timeoutTimer) {
+        return;
+      }
+
+      pingSentAt = Date.now();
+      try {
+        ws.ping();
+      } catch (error) {
+        logError('[Online Sequencer] Failed to send ping', { clientId, error: error instanceof Error ? error.message : String(error) });
+      }
+
+      timeoutTimer = setTimeout(() => {
+        timeoutTimer = null;
+        logInfo('[Online Sequencer] WebSocket heartbeat timeout, terminating connection', { clientId, timeoutMs: HEARTBEAT_TIMEOUT_MS });
+        ws.terminate();
+      }, HEARTBEAT_TIMEOUT_MS);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    ws.on('close', () => {
+      clearInterval(intervalTimer);
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+        timeoutTimer = null;
+      }
+    });
+  }
+
+  /**
+   * 연결 종료 처리
+   * 같은 clientId로 새 연결이 이미 등록된 경우(재연결) 이전 소켓의 종료는 무시합니다.
+   */
+  private handleDisconnect(clientId: string, ws: WebSocket): void {
+    const connection = signalingStore.getConnection(clientId);
+    if (!connection || connection.ws !== ws) {
+      return;
+    }
+
+    this.cancelPendingJoinRequests(clientId);
+    const { roomCode, role } = connection;
+    // 참가자는 세션 재개 유예 시간 동안 슬롯 유지 (유예 시간이 0이면 바로 제거)
+    if (roomCode && role === 'participant') {
+      roomService.markParticipantDisconnected(roomCode, clientId);
+      roomEventLog.record(roomCode, 'participant-disconnected', clientId);
+    }
+    signalingStore.removeConnection(clientId);
+
+    // 관전자는 슬롯을 유지하지 않음 (재개 토큰으로 다시 입장)
+    if (roomCode && role === 'spectator') {
+      this.removeSpectator(roomCode, clientId, 'disconnected');
+    }
+
+    if (roomCode && role === 'host') {
+      this.handleHostDisconnect(roomCode, clientId);
+    }
+  }
+
+  /**
+   * 호스트 연결 끊김 처리
+   * 유예 시간 동안 룸을 유지하며 참가자에게 host-reconnecting을 알리고,
+   * 유예 시간이 지나도 재연결하지 않으면 호스트를 넘기거나 룸을 종료합니다.
+   */
+  private handleHostDisconnect(roomCode: string, hostId: string): void {
+    const room = roomService.getRoom(roomCode);
+    if (!room || room.hostId !== hostId) {
+      return;
+    }
+
+    const disconnectedAt = roomService.markHostDisconnected(roomCode) ?? Date.now();
+    const graceExpiresAt = disconnectedAt + HOST_RECONNECT_GRACE_MS;
+    logDebug(`[Online Sequencer] Host disconnected:${roomCode} hostId:${hostId} graceExpiresAt:${graceExpiresAt}`);
+    roomEventLog.record(roomCode, 'host-disconnected', hostId, { graceExpiresAt });
+
+    this.broadcastToRoom(roomCode, {
+      action: 'host-reconnecting',
+      roomCode,
+      data: {
+        hostId,
+        graceExpiresAt
+      },
+      timestamp: Date.now()
+    });
+
+    const existingTimer = this.hostGraceTimers.get(roomCode);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+    const timer = setTimeout(() => {
+      this.hostGraceTimers.delete(roomCode);
+      this.finishHostGracePeriod(roomCode, hostId);
+    }, Math.max(graceExpiresAt - Date.now(), 0));
+    timer.unref?.();
+    this.hostGraceTimers.set(roomCode, timer);
+  }
+
+  /**
+   * 연결이 끊긴 상태로 남아 있는 호스트의 재연결 유예 타이머 시작
+   * 서버 재시작으로 복구된 룸은 호스트 연결이 없으므로, 유예 시간 안에 돌아오지 않으면 다른 룸과 같이 정리합니다.
+   *
+   * @returns 유예 타이머를 시작한 룸 수
+   */
+  resumeHostGracePeriods(): number {
+    let started = 0;
+    for (const room of roomService.getAllRooms()) {
+      if (room.hostDisconnectedAt !== null && !this.hostGraceTimers.has(room.roomCode)) {
+        this.handleHostDisconnect(room.roomCode, room.hostId);
+        started++;
+      }
+    }
+    return started;
+  }
+
+  /**
+   * 호스트 재연결 유예 시간 종료 처리
+   */
+  private finishHostGracePeriod(roomCode: string, hostId: string): void {
+    const room = roomService.getRoom(roomCode);
+    if (!room || room.hostId !== hostId || room.hostDisconnectedAt === null) {
+      // 이미 재연결했거나 룸이 종료됨
+      return;
+    }
+
+    if (HOST_HANDOFF_ENABLED) {
+      const newHostId = signalingStore.getLongestConnectedParticipant(roomCode, room.participants);
+      if (newHostId) {
+        this.promoteHost(roomCode, newHostId);
+        return;
+      }
+    }
+
+    this.notifyRoomClosed(roomCode);
+    roomService.deleteRoom(roomCode, 'host-reconnect-timeout');
+    logDebug(`[Online Sequencer] Room deleted due to host reconnect timeout:${roomCode} hostId:${hostId}`);
+  }
+
+  /**
+   * 참가자를 새 호스트로 승격
+   * 새 호스트에게는 새 호스트 토큰을 포함한 host-changed를, 나머지 참가자에게는 토큰 없이 전송합니다.
+   */
+  private promoteHost(roomCode: string, newHostId: string): void {
+    const previousRoom = roomService.getRoom(roomCode);
+    if (!previousRoom) {
+      return;
+    }
+
+    const room = roomService.transferHost(roomCode, newHostId);
+    this.registerClient(newHostId, roomCode, 'host');
+    logDebug(`[Online Sequencer] Host changed:${roomCode} previousHostId:${previousRoom.hostId} hostId:${newHostId}`);
+    roomEventLog.record(roomCode, 'host-changed', newHostId, { previousHostId: previousRoom.hostId });
+
+    const data = {
+      previousHostId: previousRoom.hostId,
+      hostId: newHostId,
+      participantCount: room.participants.length
+    };
+
+    this.sendToClient(newHostId, {
+      action: 'host-changed',
+      roomCode,
+      data: {
+        ...data,
+        hostToken: createRoomTokens(room).hostToken
+      },
+      timestamp: Date.now()
     });
+
+    this.broadcastToRoom(roomCode, {
+      action: 'host-changed',
+      roomCode,
+      data,
+      timestamp: Date.now()
+    }, newHostId);
   }
 
   /**
    * 룸에 클라이언트 등록
    */
-  registerClient(clientId: string, roomCode: string, role: 'host' | 'participant'): void {
+  registerClient(clientId: string, roomCode: string, role: ClientRole): void {
     signalingStore.setRoom(clientId, roomCode, role);
   }
 
@@ -258,6 +697,10 @@ export class SignalingService {
    * 메시지 처리 (register, join, signaling, leave)
    */
   private handleMessage(senderId: string, message: ClientToServerMessage): void {
+    // 룸 코드 입력 정규화 (대소문자, 하이픈, Crockford 혼동 문자)
+    if (typeof message.roomCode === 'string') {
+      message.roomCode = normalizeRoomCode(message.roomCode);
+    }
     logDebug(`[Online Sequencer] WebSocket message received: ${message.action} roomCode:${message.roomCode} senderId:${senderId}`);
     const sender = signalingStore.getConnection(senderId);
     if (!sender) {
@@ -281,34 +724,35 @@ export class SignalingService {
         case 'leave':
           this.handleLeave(senderId);
           break;
-        default:
-          this.sendError(senderId, `Unknown action: ${message.action}`);
+        case 'approve-join':
+          this.handleJoinDecision(senderId, message, true);
+          break;
+        case 'deny-join':
+          this.handleJoinDecision(senderId, message, false);
+          break;
+        case 'relay':
+          this.handleRelay(senderId, message);
+          break;
+        case 'chat':
+          this.handleChat(senderId, message);
+          break;
+        case 'update-state':
+          this.handleUpdateState(senderId, message);
+          break;
       }
     } catch (error) {
       logError('[Online Sequencer] Error handling message:', { senderId, action: message.action, error: error instanceof Error ? error.message : String(error) });
-      this.sendError(senderId, error instanceof Error ? error.message : 'Unknown error');
+      this.sendError(senderId, getErrorCode(error), error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
   /**
    * 호스트 등록 처리
    */
-  private handleRegister(clientId: string, message: ClientToServerMessage): void {
+  private handleRegister(clientId: string, message: RegisterMessage): void {
     const { roomCode, data } = message;
     
-    logDebug(`[Online Sequencer] [handleRegister] Processing register clientId:${clientId} roomCode:${roomCode || 'none'} role:${data?.role || 'none'}`);
-    
-    if (!data?.role) {
-      logDebug(`[Online Sequencer] [handleRegister] Error: role is missing clientId:${clientId}`);
-      this.sendError(clientId, 'Invalid register message: role is required');
-      return;
-    }
-
-    if (data.role !== 'host') {
-      logDebug(`[Online Sequencer] [handleRegister] Error: Invalid role:${data.role} clientId:${clientId}`);
-      this.sendError(clientId, 'Invalid role: register action requires host role');
-      return;
-    }
+    logDebug(`[Online Sequencer] [handleRegister] Processing register clientId:${clientId} roomCode:${roomCode || 'none'} role:${data.role}`);
 
     // roomCode가 없으면 hostId로 룸 찾기 (방 생성 직후 register 시나리오)
     let targetRoomCode = roomCode;
@@ -322,7 +766,7 @@ export class SignalingService {
       const room = roomService.getRoomByHostId(clientId);
       if (!room) {
         logDebug(`[Online Sequencer] [handleRegister] Error: No active room found for hostId:${clientId}`);
-        this.sendError(clientId, 'No active room found for this host. Please create a room first.');
+        this.sendError(clientId, ErrorCode.ROOM_NOT_FOUND, 'No active room found for this host. Please create a room first.');
         return;
       }
       targetRoomCode = room.roomCode;
@@ -335,7 +779,7 @@ export class SignalingService {
     const room = roomService.getRoom(targetRoomCode);
     if (!room) {
       logDebug(`[Online Sequencer] [handleRegister] Error: Room not found:${targetRoomCode}`);
-      this.sendError(clientId, `Room not found: ${targetRoomCode}`);
+      this.sendError(clientId, ErrorCode.ROOM_NOT_FOUND, `Room not found: ${targetRoomCode}`);
       return;
     }
 
@@ -344,7 +788,14 @@ export class SignalingService {
     // 호스트 권한 확인
     if (room.hostId !== clientId) {
       logDebug(`[Online Sequencer] [handleRegister] Error: Unauthorized - hostId mismatch roomHostId:${room.hostId} clientId:${clientId}`);
-      this.sendError(clientId, 'Unauthorized: You are not the host of this room');
+      this.rejectRegister(clientId, room.roomCode, ErrorCode.UNAUTHORIZED, 'Unauthorized: You are not the host of this room');
+      return;
+    }
+
+    // 호스트 토큰 검증
+    if (!verifyRoomToken(data.token, room, 'host')) {
+      logDebug(`[Online Sequencer] [handleRegister] Error: Invalid host token roomCode:${room.roomCode} clientId:${clientId}`);
+      this.rejectRegister(clientId, room.roomCode, ErrorCode.UNAUTHORIZED, 'Unauthorized: Invalid host token');
       return;
     }
 
@@ -352,37 +803,75 @@ export class SignalingService {
     logDebug(`[Online Sequencer] [handleRegister] Registering host to room:${targetRoomCode} clientId:${clientId}`);
     this.registerClient(clientId, targetRoomCode, 'host');
 
+    // 재연결 유예 중이던 호스트가 다시 등록한 경우
+    const reconnected = roomService.markHostReconnected(targetRoomCode);
+    roomEventLog.record(targetRoomCode, reconnected ? 'host-reconnected' : 'host-registered', clientId);
+    if (reconnected) {
+      const timer = this.hostGraceTimers.get(targetRoomCode);
+      if (timer) {
+        clearTimeout(timer);
+        this.hostGraceTimers.delete(targetRoomCode);
+      }
+      logDebug(`[Online Sequencer] [handleRegister] Host reconnected within grace period:${targetRoomCode} clientId:${clientId}`);
+      this.broadcastToRoom(targetRoomCode, {
+        action: 'host-reconnected',
+        roomCode: targetRoomCode,
+        data: {
+          hostId: clientId
+        },
+        timestamp: Date.now()
+      }, clientId);
+    }
+
     // 등록 성공 응답
     logDebug(`[Online Sequencer] [handleRegister] Registration successful, sending response clientId:${clientId}`);
     this.sendToClient(clientId, {
       action: 'registered',
       roomCode: targetRoomCode,
       data: {
-        status: 'active'
+        status: 'active',
+        ...this.getIceServerData(room, clientId),
+        chatBacklog: room.chatMessages
       },
       timestamp: Date.now()
-    } as ServerToClientMessage);
+    });
+  }
+
+  /**
+   * 호스트 등록 거부 (이벤트 로그 기록 후 에러 전송)
+   */
+  private rejectRegister(clientId: string, roomCode: string, code: ErrorCode, errorMessage: string): void {
+    roomEventLog.record(roomCode, 'host-register-failed', clientId, { code, reason: errorMessage });
+    this.sendError(clientId, code, errorMessage);
+  }
+
+  /**
+   * 조인 거부 (이벤트 로그 기록 후 에러 전송)
+   */
+  private rejectJoin(clientId: string, roomCode: string, code: ErrorCode, errorMessage: string, details?: Record<string, unknown>): void {
+    roomEventLog.record(roomCode, 'join-failed', clientId, { code, reason: errorMessage, ...details });
+    this.sendError(clientId, code, errorMessage);
+  }
+
+  /**
+   * registered/joined 응답에 포함할 ICE 서버 정보
+   */
+  private getIceServerData(room: Room, clientId: string): { iceServers: IceServer[]; iceServersExpiresAt: number } {
+    const { iceServers, expiresAt } = getIceServers(room, clientId);
+    return { iceServers, iceServersExpiresAt: expiresAt };
   }
 
   /**
-   * 참가자 조인 처리
+   * 참가자/관전자 조인 처리
    */
-  private handleJoin(clientId: string, message: ClientToServerMessage): void {
+  private handleJoin(clientId: string, message: JoinMessage): void {
     logDebug(`[Online Sequencer] Handling join for client:${clientId}`);
     const { roomCode, data } = message;
-    
-    // data가 없거나 role이 없으면 기본값으로 participant 설정
-    const role = data?.role || 'participant';
+    const role: JoinRole = data?.role ?? 'participant';
     
     if (!roomCode) {
       logDebug(`[Online Sequencer] Join failed: roomCode is required clientId:${clientId}`);
-      this.sendError(clientId, 'Invalid join message: roomCode is required');
-      return;
-    }
-
-    if (role !== 'participant') {
-      logDebug(`[Online Sequencer] Join failed: Invalid role:${role} clientId:${clientId}`);
-      this.sendError(clientId, 'Invalid role: join action requires participant role');
+      this.sendError(clientId, ErrorCode.INVALID_ROOM_CODE, 'Invalid join message: roomCode is required', { field: 'roomCode' });
       return;
     }
 
@@ -393,7 +882,8 @@ export class SignalingService {
     if (!room) {
       const availableRooms = roomService.getAllRooms().map(r => r.roomCode).join(',');
       logDebug(`[Online Sequencer] Join failed: Room not found:${roomCode} clientId:${clientId} availableRooms:${availableRooms}`);
-      this.sendError(clientId, 'Room not found');
+      // 삭제된 지 얼마 안 된 룸이면 로그가 남아 있으므로 실패 사유를 기록
+      this.rejectJoin(clientId, roomCode, ErrorCode.ROOM_NOT_FOUND, 'Room not found');
       return;
     }
     
@@ -402,27 +892,85 @@ export class SignalingService {
     // 호스트가 자신의 룸에 게스트로 조인하는 것을 방지
     if (room.hostId === clientId) {
       logDebug(`[Online Sequencer] Join failed: Host cannot join their own room clientId:${clientId} roomCode:${roomCode}`);
-      this.sendError(clientId, 'Host cannot join their own room as a participant');
+      this.rejectJoin(clientId, roomCode, ErrorCode.INVALID_PARTICIPANT_ID, 'Host cannot join their own room as a participant');
+      return;
+    }
+
+    // 강퇴된 클라이언트는 같은 룸 인스턴스에 다시 입장할 수 없음 (호스트 차단 목록의 ID/IP 포함)
+    if (roomService.isKickedParticipant(roomCode, clientId, this.getClientIpHash(clientId))) {
+      logDebug(`[Online Sequencer] Join failed: Kicked client clientId:${clientId} roomCode:${roomCode}`);
+      this.rejectJoin(clientId, roomCode, ErrorCode.KICKED, 'You have been kicked from this room');
+      return;
+    }
+
+    // 세션 재개 (유예 시간 안에 재연결한 참가자는 토큰/조인 허용 여부와 무관하게 복귀)
+    if (data?.resumeToken) {
+      this.resumeParticipant(clientId, room, data.resumeToken);
+      return;
+    }
+
+    // 토큰 검증 (관전자는 참가자 토큰 또는 관전자 토큰)
+    const tokenValid = verifyRoomToken(data?.token, room, 'participant')
+      || (role === 'spectator' && verifyRoomToken(data?.token, room, 'spectator'));
+    if (!tokenValid) {
+      logDebug(`[Online Sequencer] Join failed: Invalid ${role} token clientId:${clientId} roomCode:${roomCode}`);
+      this.rejectJoin(clientId, roomCode, ErrorCode.UNAUTHORIZED, `Unauthorized: Invalid ${role} token`, { role });
+      return;
+    }
+
+    // lobby 모드: 호스트 승인 대기열에 등록 (조인 허용 시간과 무관하게 요청 가능)
+    if (room.joinMode === 'lobby') {
+      this.requestJoin(clientId, room, role);
       return;
     }
 
     // 조인 허용 여부 확인
     if (!room.allowJoin) {
       logDebug(`[Online Sequencer] Join failed: Room is not accepting new participants clientId:${clientId} roomCode:${roomCode}`);
-      this.sendError(clientId, 'Room is not accepting new participants');
+      this.rejectJoin(clientId, roomCode, ErrorCode.JOIN_NOT_ALLOWED, 'Room is not accepting new participants', { role });
       return;
     }
 
-    // 룸에 참가자 등록
-    logDebug(`[Online Sequencer] Registering participant:${clientId} roomCode:${roomCode}`);
-    this.registerClient(clientId, roomCode, 'participant');
+    this.completeJoin(clientId, room, role);
+  }
 
-    // 참가자 추가 (roomService)
-    roomService.addParticipant(roomCode, clientId);
-    const updatedRoom = roomService.getRoom(roomCode);
-    
-    if (updatedRoom) {
-      logDebug(`[Online Sequencer] Participant added to room:${roomCode} clientId:${clientId} participantCount:${updatedRoom.participants.length}`);
+  /**
+   * 참가자/관전자 입장 완료
+   * 룸에 추가하고 joined 응답 및 participant-joined(관전자는 spectator-joined) 알림을 전송합니다.
+   */
+  private completeJoin(clientId: string, room: Room, role: JoinRole = 'participant', resumed: boolean = false): void {
+    const { roomCode } = room;
+
+    // 참가자/관전자 추가 (roomService, 룸이 가득 찬 경우 예외 발생)
+    try {
+      if (role === 'spectator') {
+        roomService.addSpectator(roomCode, clientId);
+      } else {
+        roomService.addParticipant(roomCode, clientId);
+      }
+    } catch (error) {
+      roomEventLog.record(roomCode, 'join-failed', clientId, {
+        code: getErrorCode(error),
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        role
+      });
+      throw error;
+    }
+
+    // 룸에 참가자 등록
+    logDebug(`[Online Sequencer] Registering ${role}:${clientId} roomCode:${roomCode}`);
+    this.registerClient(clientId, roomCode, role);
+
+    if (role === 'spectator') {
+      this.completeSpectatorJoin(clientId, room, resumed);
+      return;
+    }
+    roomEventLog.record(roomCode, 'join-succeeded', clientId, { role, participantCount: room.participants.length });
+
+    const updatedRoom = roomService.getRoom(roomCode);
+    
+    if (updatedRoom) {
+      logDebug(`[Online Sequencer] Participant added to room:${roomCode} clientId:${clientId} participantCount:${updatedRoom.participants.length}`);
     }
 
     // 조인 성공 응답 (참가자에게)
@@ -433,10 +981,15 @@ export class SignalingService {
       data: {
         hostId: room.hostId,
         status: 'active',
-        roomCreatedAt: room.createdAt
+        role: 'participant',
+        roomCreatedAt: room.createdAt,
+        resumeToken: createResumeToken(room, clientId),
+        ...this.getIceServerData(room, clientId),
+        stateSnapshot: updatedRoom?.stateSnapshot ?? room.stateSnapshot,
+        chatBacklog: updatedRoom?.chatMessages ?? room.chatMessages
       },
       timestamp: Date.now()
-    } as ServerToClientMessage);
+    });
 
     // Notify room about participant join
     if (updatedRoom) {
@@ -449,14 +1002,318 @@ export class SignalingService {
           participantCount: updatedRoom.participants.length
         },
         timestamp: Date.now()
-      } as ServerToClientMessage, clientId);
+      }, clientId);
+    }
+  }
+
+  /**
+   * 관전자 입장 완료
+   * 관전자에게 joined, 룸에 spectator-joined를 전송합니다.
+   */
+  private completeSpectatorJoin(clientId: string, room: Room, resumed: boolean): void {
+    const { roomCode } = room;
+    const spectatorCount = roomService.getRoom(roomCode)?.spectators.length ?? room.spectators.length;
+    roomEventLog.record(roomCode, resumed ? 'participant-resumed' : 'join-succeeded', clientId, { role: 'spectator', spectatorCount });
+
+    this.sendToClient(clientId, {
+      action: 'joined',
+      roomCode,
+      data: {
+        hostId: room.hostId,
+        status: 'active',
+        role: 'spectator',
+        roomCreatedAt: room.createdAt,
+        resumeToken: createResumeToken(room, clientId, true),
+        ...(resumed ? { resumed: true } : {}),
+        ...this.getIceServerData(room, clientId),
+        stateSnapshot: room.stateSnapshot,
+        chatBacklog: room.chatMessages
+      },
+      timestamp: Date.now()
+    });
+
+    this.broadcastToRoom(roomCode, {
+      action: 'spectator-joined',
+      roomCode,
+      data: {
+        spectatorId: clientId,
+        spectatorCount
+      },
+      timestamp: Date.now()
+    }, clientId);
+  }
+
+  /**
+   * 관전자 제거 및 룸에 spectator-left 알림
+   */
+  private removeSpectator(roomCode: string, spectatorId: string, reason: 'left' | 'disconnected'): void {
+    if (!roomService.removeSpectator(roomCode, spectatorId)) {
+      return;
+    }
+    roomEventLog.record(roomCode, 'spectator-left', spectatorId, { reason });
+    this.notifySpectatorLeft(roomCode, spectatorId);
+  }
+
+  /**
+   * 룸에 관전자 퇴장 알림
+   */
+  private notifySpectatorLeft(roomCode: string, spectatorId: string): void {
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      return;
+    }
+    this.broadcastToRoom(roomCode, {
+      action: 'spectator-left',
+      roomCode,
+      data: {
+        spectatorId,
+        spectatorCount: room.spectators.length
+      },
+      timestamp: Date.now()
+    }, spectatorId);
+  }
+
+  /**
+   * 참가자 세션 재개
+   * 재개 토큰과 유예 시간을 확인한 뒤 기존 참가자 슬롯으로 다시 등록하고,
+   * 참가자에게 joined(resumed), 룸에 participant-reconnected를 전송합니다.
+   * 관전자는 유예 시간 없이 룸이 유지되는 동안 관전자로 다시 입장합니다. (조인 허용 여부와 무관)
+   */
+  private resumeParticipant(clientId: string, room: Room, resumeToken: string): void {
+    const { roomCode } = room;
+
+    if (!verifyResumeToken(resumeToken, room, clientId)) {
+      logDebug(`[Online Sequencer] Resume failed: Invalid resume token clientId:${clientId} roomCode:${roomCode}`);
+      this.rejectJoin(clientId, roomCode, ErrorCode.UNAUTHORIZED, 'Unauthorized: Invalid resume token', { resume: true });
+      return;
     }
+
+    if (decodeRoomToken(resumeToken)?.spectator) {
+      this.completeJoin(clientId, room, 'spectator', true);
+      return;
+    }
+
+    if (roomService.isKickedParticipant(roomCode, clientId, this.getClientIpHash(clientId)) || !roomService.resumeParticipant(roomCode, clientId)) {
+      logDebug(`[Online Sequencer] Resume failed: Session expired clientId:${clientId} roomCode:${roomCode}`);
+      this.rejectJoin(clientId, roomCode, ErrorCode.SESSION_EXPIRED, 'Session expired: Please join the room again', { resume: true });
+      return;
+    }
+
+    this.registerClient(clientId, roomCode, 'participant');
+    logDebug(`[Online Sequencer] Participant resumed:${roomCode} participantId:${clientId}`);
+    roomEventLog.record(roomCode, 'participant-resumed', clientId);
+
+    this.sendToClient(clientId, {
+      action: 'joined',
+      roomCode,
+      data: {
+        hostId: room.hostId,
+        status: 'active',
+        role: 'participant',
+        roomCreatedAt: room.createdAt,
+        resumeToken: createResumeToken(room, clientId),
+        resumed: true,
+        ...this.getIceServerData(room, clientId),
+        stateSnapshot: room.stateSnapshot,
+        chatBacklog: room.chatMessages
+      },
+      timestamp: Date.now()
+    });
+
+    this.broadcastToRoom(roomCode, {
+      action: 'participant-reconnected',
+      roomCode,
+      data: {
+        participantId: clientId,
+        participantCount: room.participants.length
+      },
+      timestamp: Date.now()
+    }, clientId);
+  }
+
+  /**
+   * 세션 재개 유예 시간이 지난 참가자 정리
+   * 룸에 participant-left를 전송합니다.
+   *
+   * @returns 제거된 참가자 수
+   */
+  expireReconnectingParticipants(): number {
+    const expired = roomService.cleanupExpiredReconnects();
+
+    for (const { roomCode, participantId } of expired) {
+      roomEventLog.record(roomCode, 'participant-left', participantId, { reason: 'resume-expired' });
+      this.notifyParticipantLeft(roomCode, participantId);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * 룸에 참가자 퇴장 알림
+   */
+  private notifyParticipantLeft(roomCode: string, participantId: string): void {
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      return;
+    }
+
+    this.broadcastToRoom(roomCode, {
+      action: 'participant-left',
+      roomCode,
+      data: {
+        participantId,
+        participantCount: room.participants.length
+      },
+      timestamp: Date.now()
+    }, participantId);
+  }
+
+  /**
+   * 조인 요청 등록 (lobby 모드)
+   * 참가자에게 join-pending, 호스트에게 join-requested를 전송합니다.
+   */
+  private requestJoin(clientId: string, room: Room, role: JoinRole): void {
+    const { roomCode } = room;
+    const request = roomService.addJoinRequest(roomCode, clientId, role);
+    logDebug(`[Online Sequencer] Join request queued:${roomCode} participantId:${clientId} role:${role} expiresAt:${request.expiresAt}`);
+    roomEventLog.record(roomCode, 'join-requested', clientId, { role, expiresAt: request.expiresAt });
+
+    this.sendToClient(clientId, {
+      action: 'join-pending',
+      roomCode,
+      data: {
+        status: 'pending',
+        expiresAt: request.expiresAt
+      },
+      timestamp: Date.now()
+    });
+
+    this.deliverToClient(roomCode, room.hostId, {
+      action: 'join-requested',
+      roomCode,
+      data: {
+        participantId: clientId,
+        role,
+        expiresAt: request.expiresAt
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * 조인 요청 승인/거절 처리 (호스트 WebSocket 액션)
+   */
+  private handleJoinDecision(senderId: string, message: JoinDecisionMessage, approve: boolean): void {
+    const sender = signalingStore.getConnection(senderId);
+    const { participantId } = message.data;
+
+    if (!sender?.roomCode || sender.role !== 'host') {
+      logDebug(`[Online Sequencer] Join decision failed: Sender is not a host senderId:${senderId}`);
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Unauthorized: Only the host can respond to join requests');
+      return;
+    }
+
+    if (!this.resolveJoinRequest(sender.roomCode, participantId, approve)) {
+      this.sendError(senderId, ErrorCode.PARTICIPANT_NOT_FOUND, `Join request not found or expired: ${participantId}`);
+    }
+  }
+
+  /**
+   * 조인 요청 승인/거절
+   * 승인 시 참가자를 입장시키고, 거절 시 참가자에게 에러를 전송합니다.
+   *
+   * @returns 처리된 요청이 있었는지 여부
+   * @throws Error - 룸이 없거나 가득 찬 경우
+   */
+  resolveJoinRequest(roomCode: string, participantId: string, approve: boolean): boolean {
+    const request = roomService.removeJoinRequest(roomCode, participantId);
+    if (!request) {
+      logDebug(`[Online Sequencer] Join request not found:${roomCode} participantId:${participantId}`);
+      return false;
+    }
+
+    // 대기 중인 참가자는 요청을 보낸 인스턴스에 연결되어 있어야 함
+    if (!signalingStore.getConnection(participantId)) {
+      logDebug(`[Online Sequencer] Join request participant not connected:${roomCode} participantId:${participantId}`);
+      return false;
+    }
+
+    roomEventLog.record(roomCode, 'join-request-resolved', participantId, { result: approve ? 'approved' : 'denied' });
+    if (!approve) {
+      logDebug(`[Online Sequencer] Join request denied:${roomCode} participantId:${participantId}`);
+      this.sendError(participantId, ErrorCode.JOIN_DENIED, 'Join request denied by host');
+      return true;
+    }
+
+    const room = roomService.getRoom(roomCode);
+    if (!room) {
+      this.sendError(participantId, ErrorCode.ROOM_NOT_FOUND, 'Room not found');
+      throw new Error('Room not found');
+    }
+
+    try {
+      this.completeJoin(participantId, room, request.role);
+    } catch (error) {
+      this.sendError(participantId, getErrorCode(error), error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+    logDebug(`[Online Sequencer] Join request approved:${roomCode} participantId:${participantId}`);
+    return true;
+  }
+
+  /**
+   * 참가자의 대기 중인 조인 요청 취소 (연결 종료, leave 시)
+   */
+  private cancelPendingJoinRequests(clientId: string): void {
+    for (const roomCode of roomService.cancelJoinRequests(clientId)) {
+      roomEventLog.record(roomCode, 'join-request-resolved', clientId, { result: 'cancelled' });
+      const room = roomService.getRoom(roomCode);
+      if (room) {
+        this.notifyJoinRequestCancelled(room, clientId, 'cancelled');
+      }
+    }
+  }
+
+  /**
+   * 만료된 조인 요청 정리
+   * 참가자에게 에러를, 호스트에게 join-request-cancelled를 전송합니다.
+   *
+   * @returns 만료된 조인 요청 수
+   */
+  expireJoinRequests(): number {
+    const expired = roomService.cleanupExpiredJoinRequests();
+
+    for (const { roomCode, participantId } of expired) {
+      roomEventLog.record(roomCode, 'join-request-resolved', participantId, { result: 'expired' });
+      this.sendError(participantId, ErrorCode.JOIN_REQUEST_EXPIRED, 'Join request expired');
+      const room = roomService.getRoom(roomCode);
+      if (room) {
+        this.notifyJoinRequestCancelled(room, participantId, 'expired');
+      }
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * 호스트에게 조인 요청 취소 알림
+   */
+  private notifyJoinRequestCancelled(room: Room, participantId: string, reason: 'cancelled' | 'expired'): void {
+    this.deliverToClient(room.roomCode, room.hostId, {
+      action: 'join-request-cancelled',
+      roomCode: room.roomCode,
+      data: {
+        participantId,
+        reason
+      },
+      timestamp: Date.now()
+    });
   }
 
   /**
    * 시그널링 메시지 처리 (WebRTC offer/answer/ice-candidate)
    */
-  private handleSignaling(senderId: string, message: ClientToServerMessage): void {
+  private handleSignaling(senderId: string, message: SignalingClientMessage): void {
     const sender = signalingStore.getConnection(senderId);
     if (!sender) {
       logDebug(`[Online Sequencer] Signaling failed: Sender not found:${senderId}`);
@@ -465,59 +1322,261 @@ export class SignalingService {
 
     const { roomCode, data } = message;
 
-    if (!roomCode || !data?.type || !data?.to) {
-      logDebug(`[Online Sequencer] Signaling failed: Invalid message format senderId:${senderId} roomCode:${roomCode || 'none'} hasType:${!!data?.type} hasTo:${!!data?.to}`);
-      this.sendError(senderId, 'Invalid signaling message: roomCode, type, and to are required');
-      return;
-    }
-
     // 룸 코드 검증
     if (sender.roomCode !== roomCode) {
       logDebug(`[Online Sequencer] Signaling failed: Sender not in room senderId:${senderId} senderRoom:${sender.roomCode} messageRoom:${roomCode}`);
-      this.sendError(senderId, 'Client is not in the specified room');
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Client is not in the specified room');
+      return;
+    }
+
+    // 관전자끼리는 시그널링 불가 (관전자는 호스트/참가자와만 연결)
+    if (sender.role === 'spectator' && this.isSpectator(roomCode, data.to)) {
+      logDebug(`[Online Sequencer] Signaling failed: Spectator to spectator senderId:${senderId} receiverId:${data.to} roomCode:${roomCode}`);
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Spectators cannot signal other spectators', { field: 'data.to' });
       return;
     }
 
+    roomEventLog.countSignaling(roomCode, data.type);
+
+    // 시그널링 메시지 생성
+    const signalingMessage: ServerMessageInit = {
+      action: 'signaling',
+      roomCode,
+      data: {
+        type: data.type,
+        from: senderId,
+        sdp: data.sdp,
+        candidate: data.candidate
+      },
+      timestamp: Date.now()
+    };
+
     // 수신자 찾기
     const receiver = signalingStore.getConnection(data.to);
     if (!receiver) {
-      logDebug(`[Online Sequencer] Signaling failed: Receiver not found senderId:${senderId} receiverId:${data.to}`);
-      this.sendError(senderId, `Receiver ${data.to} not found`);
+      // 다른 인스턴스에 연결된 수신자일 수 있으므로 메시지 버스로 전달
+      logDebug(`[Online Sequencer] Receiver not connected to this instance, forwarding via message bus senderId:${senderId} receiverId:${data.to} type:${data.type} roomCode:${roomCode}`);
+      this.publishToBus({ kind: 'client', roomCode, clientId: data.to, message: signalingMessage });
       return;
     }
 
     // 수신자의 룸 코드 확인
     if (receiver.roomCode !== roomCode) {
       logDebug(`[Online Sequencer] Signaling failed: Receiver not in room senderId:${senderId} receiverId:${data.to} receiverRoom:${receiver.roomCode} messageRoom:${roomCode}`);
-      this.sendError(senderId, `Receiver ${data.to} is not in room ${roomCode}`);
+      this.sendError(senderId, ErrorCode.PARTICIPANT_NOT_FOUND, `Receiver ${data.to} is not in room ${roomCode}`);
       return;
     }
 
     // 시그널링 메시지 전달
-    const signalingMessage: ServerToClientMessage = {
-      action: 'signaling',
+    if (receiver.ws.readyState === WebSocket.OPEN) {
+      sendServerMessage(receiver.ws, signalingMessage);
+      logDebug(`[Online Sequencer] Signaling message forwarded from:${senderId} to:${data.to} type:${data.type} roomCode:${roomCode}`);
+    } else {
+      logDebug(`[Online Sequencer] Signaling failed: Receiver WebSocket not open receiverId:${data.to} readyState:${receiver.ws.readyState}`);
+    }
+  }
+
+  /**
+   * 채팅 메시지 처리
+   * 서버가 id와 timestamp를 부여해 보관한 뒤 발신자를 포함한 룸 전체에 전달합니다.
+   * 강퇴된 클라이언트의 메시지는 연결이 남아 있어도 거부합니다.
+   */
+  private handleChat(senderId: string, message: ChatClientMessage): void {
+    const sender = signalingStore.getConnection(senderId);
+    const { roomCode, data } = message;
+
+    if (!sender?.role || sender.roomCode !== roomCode) {
+      logDebug(`[Online Sequencer] Chat failed: Sender not in room senderId:${senderId} senderRoom:${sender?.roomCode} messageRoom:${roomCode}`);
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Client is not in the specified room');
+      return;
+    }
+
+    if (roomService.isKickedParticipant(roomCode, senderId)) {
+      logDebug(`[Online Sequencer] Chat failed: Kicked client senderId:${senderId} roomCode:${roomCode}`);
+      this.sendError(senderId, ErrorCode.KICKED, 'You have been kicked from this room');
+      return;
+    }
+
+    const chatMessage = roomService.addChatMessage(roomCode, senderId, sender.role, data.text);
+    this.broadcastToRoom(roomCode, {
+      action: 'chat',
+      roomCode,
+      data: chatMessage,
+      timestamp: chatMessage.timestamp
+    });
+  }
+
+  /**
+   * 룸 상태 스냅샷 업로드 처리 (호스트 전용)
+   * 저장 후 호스트에게 state-updated를 전송합니다.
+   */
+  private handleUpdateState(senderId: string, message: UpdateStateMessage): void {
+    const sender = signalingStore.getConnection(senderId);
+    const { roomCode, data } = message;
+
+    if (!sender || sender.roomCode !== roomCode || sender.role !== 'host') {
+      logDebug(`[Online Sequencer] State update failed: Sender is not the host senderId:${senderId} roomCode:${roomCode}`);
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Unauthorized: Only the host can update room state');
+      return;
+    }
+
+    const snapshot = roomService.setRoomState(roomCode, data.version, data.state);
+    logDebug(`[Online Sequencer] Room state updated:${roomCode} version:${snapshot.version} size:${snapshot.size}`);
+    roomEventLog.record(roomCode, 'state-updated', senderId, { version: snapshot.version, size: snapshot.size });
+
+    this.sendToClient(senderId, {
+      action: 'state-updated',
+      roomCode,
+      data: {
+        version: snapshot.version,
+        size: snapshot.size,
+        updatedAt: snapshot.updatedAt
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * 서버 릴레이 처리
+   * WebRTC 연결이 실패한 참가자끼리 애플리케이션 데이터를 WebSocket으로 주고받도록 전달합니다.
+   * 발신자별 순번(seq)이 증가하지 않는 메시지와 크기 제한을 넘는 payload는 거부합니다.
+   */
+  private handleRelay(senderId: string, message: RelayClientMessage): void {
+    const sender = signalingStore.getConnection(senderId);
+    if (!sender) {
+      return;
+    }
+
+    const { roomCode, data } = message;
+
+    if (!RELAY_ENABLED) {
+      this.sendError(senderId, ErrorCode.SERVICE_UNAVAILABLE, 'Server relay is disabled');
+      return;
+    }
+
+    if (sender.roomCode !== roomCode) {
+      logDebug(`[Online Sequencer] Relay failed: Sender not in room senderId:${senderId} senderRoom:${sender.roomCode} messageRoom:${roomCode}`);
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Client is not in the specified room');
+      return;
+    }
+
+    // 순서 보장: 같은 연결에서 보낸 seq는 계속 증가해야 함 (중복/역순 메시지 거부)
+    if (sender.lastRelaySeq !== null && data.seq <= sender.lastRelaySeq) {
+      logDebug(`[Online Sequencer] Relay failed: Out-of-order seq senderId:${senderId} seq:${data.seq} lastSeq:${sender.lastRelaySeq}`);
+      this.sendError(senderId, ErrorCode.INVALID_MESSAGE, `Relay seq must be greater than ${sender.lastRelaySeq}`, { field: 'data.seq' });
+      return;
+    }
+
+    const payloadBytes = Buffer.byteLength(JSON.stringify(data.payload) ?? '');
+    if (payloadBytes > RELAY_MAX_PAYLOAD_BYTES) {
+      logDebug(`[Online Sequencer] Relay failed: Payload too large senderId:${senderId} bytes:${payloadBytes}`);
+      this.sendError(senderId, ErrorCode.PAYLOAD_TOO_LARGE, `Relay payload exceeds ${RELAY_MAX_PAYLOAD_BYTES} bytes`, { field: 'data.payload' });
+      return;
+    }
+
+    // 관전자는 다른 관전자에게 릴레이할 수 없으므로 룸 전체 전달도 불가
+    if (sender.role === 'spectator' && (!data.to || this.isSpectator(roomCode, data.to))) {
+      this.sendError(senderId, ErrorCode.UNAUTHORIZED, 'Spectators can only relay to the host or participants', { field: 'data.to' });
+      return;
+    }
+
+    if (data.to) {
+      if (data.to === senderId) {
+        this.sendError(senderId, ErrorCode.INVALID_PARTICIPANT_ID, 'Cannot relay to yourself', { field: 'data.to' });
+        return;
+      }
+
+      const receiver = signalingStore.getConnection(data.to);
+      if (receiver && receiver.roomCode !== roomCode) {
+        this.sendError(senderId, ErrorCode.PARTICIPANT_NOT_FOUND, `Receiver ${data.to} is not in room ${roomCode}`);
+        return;
+      }
+    }
+
+    sender.lastRelaySeq = data.seq;
+    roomEventLog.countSignaling(roomCode, 'relay');
+    const relayMessage: ServerMessageInit = {
+      action: 'relay',
       roomCode,
       data: {
-        type: data.type,
         from: senderId,
-        sdp: data.sdp,
-        candidate: data.candidate
+        to: data.to,
+        seq: data.seq,
+        payload: data.payload
       },
       timestamp: Date.now()
     };
 
-    if (receiver.ws.readyState === WebSocket.OPEN) {
-      receiver.ws.send(JSON.stringify(signalingMessage));
-      logDebug(`[Online Sequencer] Signaling message forwarded from:${senderId} to:${data.to} type:${data.type} roomCode:${roomCode}`);
+    if (data.to) {
+      this.deliverToClient(roomCode, data.to, relayMessage);
+      this.recordRelayedPair(roomCode, senderId, data.to);
+      return;
+    }
+
+    this.broadcastToRoom(roomCode, relayMessage, senderId);
+    for (const clientId of signalingStore.getRoomClients(roomCode)) {
+      if (clientId !== senderId) {
+        this.recordRelayedPair(roomCode, senderId, clientId);
+      }
+    }
+  }
+
+  /**
+   * 룸의 관전자인지 확인 (다른 인스턴스에 연결된 관전자도 룸 정보로 확인)
+   */
+  private isSpectator(roomCode: string, clientId: string): boolean {
+    return roomService.getRoom(roomCode)?.spectators.includes(clientId) ?? false;
+  }
+
+  /**
+   * 릴레이 쌍 기록
+   */
+  private recordRelayedPair(roomCode: string, from: string, to: string): void {
+    let pairs = this.relayedPairs.get(roomCode);
+    if (!pairs) {
+      pairs = new Map();
+      this.relayedPairs.set(roomCode, pairs);
+    }
+
+    const key = `${from}\n${to}`;
+    const pair = pairs.get(key);
+    if (pair) {
+      pair.messageCount++;
+      pair.lastRelayedAt = Date.now();
     } else {
-      logDebug(`[Online Sequencer] Signaling failed: Receiver WebSocket not open receiverId:${data.to} readyState:${receiver.ws.readyState}`);
+      pairs.set(key, { from, to, messageCount: 1, lastRelayedAt: Date.now() });
     }
   }
 
+  /**
+   * 현재 릴레이 중인 참가자 쌍 조회
+   * 최근 RELAY_PAIR_IDLE_MS 안에 릴레이한 쌍만 반환하며, 오래된 기록은 정리합니다.
+   */
+  getRelayedPairs(roomCode: string): RelayedPair[] {
+    const pairs = this.relayedPairs.get(roomCode);
+    if (!pairs) {
+      return [];
+    }
+
+    const now = Date.now();
+    for (const [key, pair] of pairs) {
+      if (now - pair.lastRelayedAt > RELAY_PAIR_IDLE_MS) {
+        pairs.delete(key);
+      }
+    }
+    if (pairs.size === 0) {
+      this.relayedPairs.delete(roomCode);
+      return [];
+    }
+
+    return Array.from(pairs.values(), (pair) => ({ ...pair }));
+  }
+
   /**
    * 룸 나가기 처리
    */
   private handleLeave(clientId: string): void {
+    this.cancelPendingJoinRequests(clientId);
     const connection = signalingStore.getConnection(clientId);
     if (connection?.roomCode) {
       const roomCode = connection.roomCode;
@@ -530,12 +1589,15 @@ export class SignalingService {
           // 모든 참가자에게 room-closed 알림
           this.notifyRoomClosed(roomCode);
           // 룸 삭제
-          roomService.deleteRoom(roomCode);
+          roomService.deleteRoom(roomCode, 'host-left');
           logDebug(`[Online Sequencer] Room deleted due to host leave:${roomCode} hostId:${clientId}`);
         }
+      } else if (role === 'spectator') {
+        this.removeSpectator(roomCode, clientId, 'left');
       } else {
         // 참가자 제거 (roomService)
         roomService.removeParticipant(roomCode, clientId);
+        roomEventLog.record(roomCode, 'participant-left', clientId, { reason: 'left' });
         
         // Notify room about participant leave
         const updatedRoom = roomService.getRoom(roomCode);
@@ -548,7 +1610,7 @@ export class SignalingService {
               participantCount: updatedRoom.participants.length
             },
             timestamp: Date.now()
-          } as ServerToClientMessage, clientId);
+          }, clientId);
         }
       }
       
@@ -560,21 +1622,33 @@ export class SignalingService {
   /**
    * 에러 메시지 전송
    */
-  private sendError(clientId: string, errorMessage: string): void {
+  private sendError(clientId: string, code: ErrorCode, errorMessage: string, details?: ProtocolErrorDetails): void {
     this.sendToClient(clientId, {
       action: 'error',
       error: errorMessage,
+      code,
+      details,
       timestamp: Date.now()
-    } as ServerToClientMessage);
+    });
   }
 
   /**
    * 룸의 모든 클라이언트에게 브로드캐스트
+   * 이 인스턴스의 클라이언트에게 전송한 뒤, 메시지 버스로 다른 인스턴스에도 전달합니다.
+   */
+  broadcastToRoom(roomCode: string, message: ServerMessageInit, excludeClientId?: string): void {
+    this.deliverToLocalRoom(roomCode, message, excludeClientId);
+    this.publishToBus({ kind: 'room', roomCode, excludeClientId, message });
+  }
+
+  /**
+   * 이 인스턴스에 연결된 룸 클라이언트에게 전송
    * Phase 3: 메시지 전송 최적화 - 연결 상태 확인 후 전송, 실패한 연결 정리
    */
-  broadcastToRoom(roomCode: string, message: ServerToClientMessage, excludeClientId?: string): void {
+  private deliverToLocalRoom(roomCode: string, message: ServerMessageInit, excludeClientId?: string): void {
     const clientIds = signalingStore.getRoomClients(roomCode);
-    const messageStr = JSON.stringify(message); // 한 번만 직렬화
+    const serverMessage = createServerMessage(message);
+    const frames = new Map<SignalingEncoding, string | Uint8Array>(); // 인코딩별로 한 번만 직렬화
     
     for (const clientId of clientIds) {
       if (clientId === excludeClientId) {
@@ -584,7 +1658,13 @@ export class SignalingService {
       const connection = signalingStore.getConnection(clientId);
       if (connection && connection.ws.readyState === WebSocket.OPEN) {
         try {
-          connection.ws.send(messageStr);
+          const encoding = getSignalingEncoding(connection.ws.protocol);
+          let frame = frames.get(encoding);
+          if (frame === undefined) {
+            frame = encodeSignalingMessage(serverMessage, encoding);
+            frames.set(encoding, frame);
+          }
+          connection.ws.send(frame);
         } catch (error) {
           logError(`[Online Sequencer] Failed to broadcast to client:${clientId}`, { error: error instanceof Error ? error.message : String(error) });
           // 전송 실패 시 연결 정리
@@ -603,11 +1683,11 @@ export class SignalingService {
    * 특정 클라이언트에게 메시지 전송
    * Phase 3: 메시지 전송 최적화 - 연결 상태 확인 후 전송
    */
-  sendToClient(clientId: string, message: ServerToClientMessage): void {
+  sendToClient(clientId: string, message: ServerMessageInit): void {
     const connection = signalingStore.getConnection(clientId);
     if (connection && connection.ws.readyState === WebSocket.OPEN) {
       try {
-        connection.ws.send(JSON.stringify(message));
+        sendServerMessage(connection.ws, message);
       } catch (error) {
         logError(`[Online Sequencer] Failed to send message to client:${clientId}`, { error: error instanceof Error ? error.message : String(error) });
         // 전송 실패 시 연결 정리
@@ -625,22 +1705,18 @@ export class SignalingService {
    * Phase 3: 오래된 연결 정리
    * 주기적으로 호출하여 dead connection을 정리합니다.
    */
-  cleanupDeadConnections(): { cleaned: number; roomsDeleted: string[] } {
+  cleanupDeadConnections(): { cleaned: number; hostDisconnectedRooms: string[] } {
     const result = signalingStore.cleanupDeadConnections();
     
-    // 호스트 연결이 끊어진 룸 삭제
-    for (const roomCode of result.roomsDeleted) {
-      const room = roomService.getRoom(roomCode);
-      if (room) {
-        // 모든 참가자에게 room-closed 알림
-        this.notifyRoomClosed(roomCode);
-        // 룸 삭제
-        roomService.deleteRoom(roomCode);
-        logDebug(`[Online Sequencer] Room deleted due to host connection closed:${roomCode} hostId:${room.hostId}`);
-      }
+    // 호스트 연결이 끊어진 룸은 재연결 유예 처리
+    for (const { roomCode, hostId } of result.hostDisconnectedRooms) {
+      this.handleHostDisconnect(roomCode, hostId);
     }
     
-    return result;
+    return {
+      cleaned: result.cleaned,
+      hostDisconnectedRooms: result.hostDisconnectedRooms.map(({ roomCode }) => roomCode)
+    };
   }
 
   /**
@@ -650,23 +1726,27 @@ export class SignalingService {
     return signalingStore.getRoomClients(roomCode);
   }
 
+  /**
+   * 클라이언트의 해싱된 IP 조회 (이 인스턴스에 연결된 클라이언트만, 없으면 null)
+   */
+  getClientIpHash(clientId: string): string | null {
+    return signalingStore.getConnection(clientId)?.ipHash ?? null;
+  }
+
   /**
    * 룸의 모든 클라이언트 연결 정보 조회 (상세 정보 포함)
    */
-  getRoomClientConnections(roomCode: string): Array<{
-    clientId: string;
-    role: 'host' | 'participant' | null;
-    readyState: number;
-    isOpen: boolean;
-  }> {
+  getRoomClientConnections(roomCode: string): ClientConnectionInfo[] {
     return signalingStore.getRoomClientConnections(roomCode);
   }
 
   /**
-   * 룸의 모든 참가자에게 room-closed 메시지 전송
+   * 룸의 모든 참가자/관전자에게 room-closed 메시지 전송
+   *
+   * @param includeHost - 호스트에게도 전송할지 여부 (관리자가 룸을 강제 종료한 경우)
    */
-  notifyRoomClosed(roomCode: string): void {
-    const message: ServerToClientMessage = {
+  notifyRoomClosed(roomCode: string, includeHost: boolean = false): void {
+    const message: ServerMessageInit = {
       action: 'room-closed',
       roomCode,
       data: {
@@ -674,27 +1754,31 @@ export class SignalingService {
       },
       timestamp: Date.now()
     };
-    
-    // 호스트를 제외한 모든 참가자에게 전송
-    const room = roomService.getRoom(roomCode);
-    if (room) {
-      for (const participantId of room.participants) {
-        this.sendToClient(participantId, message);
-      }
-    }
-    
-    // 룸의 모든 클라이언트 연결 정리 (호스트 포함)
-    const clientIds = signalingStore.getRoomClients(roomCode);
-    for (const clientId of clientIds) {
+    const excludeClientId = includeHost ? undefined : roomService.getRoom(roomCode)?.hostId;
+
+    // 이 인스턴스의 연결을 정리한 뒤, 다른 인스턴스에 연결된 클라이언트도 같은 방식으로 정리
+    this.closeLocalRoom(roomCode, message, excludeClientId);
+    this.publishToBus({ kind: 'room-closed', roomCode, excludeClientId, message });
+  }
+
+  /**
+   * 이 인스턴스에 연결된 룸 클라이언트에게 room-closed를 전송하고 연결 정리 (호스트 포함)
+   */
+  private closeLocalRoom(roomCode: string, message: ServerMessageInit, excludeClientId?: string): void {
+    this.relayedPairs.delete(roomCode);
+    this.deliverToLocalRoom(roomCode, message, excludeClientId);
+
+    for (const clientId of signalingStore.getRoomClients(roomCode)) {
       signalingStore.removeConnection(clientId);
     }
   }
 
   /**
    * 강퇴된 참가자에게 kicked 메시지 전송
+   * 룸의 나머지 클라이언트에게는 participant-left(관전자는 spectator-left)를 전송합니다.
    */
-  notifyKicked(roomCode: string, participantId: string): void {
-    const message: ServerToClientMessage = {
+  notifyKicked(roomCode: string, participantId: string, role: JoinRole = 'participant'): void {
+    const message: ServerMessageInit = {
       action: 'kicked',
       roomCode,
       data: {
@@ -703,16 +1787,43 @@ export class SignalingService {
       timestamp: Date.now()
     };
     
-    // 강퇴된 참가자에게 메시지 전송
-    this.sendToClient(participantId, message);
-    
-    // 강퇴된 참가자를 룸에서 제거 (signalingStore)
-    const connection = signalingStore.getConnection(participantId);
-    if (connection && connection.roomCode === roomCode) {
-      signalingStore.removeConnection(participantId);
+    // 강퇴된 참가자에게 메시지 전송 후 연결 정리 (다른 인스턴스에 연결되어 있으면 메시지 버스로 전달)
+    if (signalingStore.getConnection(participantId)) {
+      this.kickLocalClient(roomCode, participantId, message);
+    } else {
+      this.publishToBus({ kind: 'kick', roomCode, clientId: participantId, message });
+    }
+
+    if (role === 'spectator') {
+      this.notifySpectatorLeft(roomCode, participantId);
+    } else {
+      this.notifyParticipantLeft(roomCode, participantId);
+    }
+  }
+
+  /**
+   * 이 인스턴스에 연결된 강퇴 대상에게 kicked를 전송하고 룸에서 제거
+   */
+  private kickLocalClient(roomCode: string, clientId: string, message: ServerMessageInit): void {
+    const connection = signalingStore.getConnection(clientId);
+    if (!connection) {
+      return;
+    }
+    this.sendToClient(clientId, message);
+    if (connection.roomCode === roomCode) {
+      signalingStore.removeConnection(clientId);
     }
   }
 }
 
-export const signalingService = new SignalingService();
+// 전역 변수로 signalingService 공유 (Next.js 모듈 시스템 문제 해결)
+// server.ts의 WebSocket 연결과 API 라우트가 같은 연결 정보를 사용하도록 합니다.
+declare global {
+  var __signalingService: SignalingService | undefined;
+}
+
+const signalingService = globalThis.__signalingService || new SignalingService();
+globalThis.__signalingService = signalingService;
+
+export { signalingService };
 
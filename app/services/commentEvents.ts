@@ -0,0 +1,120 @@
+/**
+ * 댓글 실시간 이벤트 허브
+ * 댓글 작성/수정/삭제가 커밋된 뒤 이벤트를 발행하고, GET /api/comments/stream의 SSE 연결에 전달합니다.
+ *
+ * 여러 서버 인스턴스로 운영하는 경우 시그널링과 같은 메시지 버스(SIGNALING_BUS)를 통해
+ * 다른 인스턴스에 연결된 방문자에게도 전달합니다.
+ * - COMMENT_EVENTS_CHANNEL: 메시지 버스 채널 이름 (기본값: comments:events)
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { createMessageBus, type MessageBus } from './collaboration/messageBus';
+import { COMMENT_EVENT_TYPES } from '../types/comment';
+import type { CommentEvent } from '../types/comment';
+
+const LOCAL_EVENT = 'comment';
+
+export type CommentEventListener = (event: CommentEvent) => void;
+
+interface CommentEventEnvelope {
+  instanceId: string;
+  event: CommentEvent;
+}
+
+/**
+ * 댓글 이벤트 허브
+ * 같은 인스턴스의 구독자에게는 바로 전달하고, 메시지 버스로 발행한 이벤트는 다른 인스턴스에서만 전달합니다.
+ */
+export class CommentEventHub {
+  /** 메시지 버스에서 자신이 발행한 이벤트를 구분하기 위한 인스턴스 ID */
+  private readonly instanceId = randomUUID();
+  private readonly emitter = new EventEmitter();
+  private readonly channel = process.env.COMMENT_EVENTS_CHANNEL || 'comments:events';
+  private messageBus: MessageBus | null = null;
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * 이벤트 발행
+   * 발행 실패는 댓글 작성 결과에 영향을 주지 않도록 로그만 남깁니다.
+   */
+  publish(event: CommentEvent): void {
+    this.emit(event);
+    try {
+      const envelope: CommentEventEnvelope = { instanceId: this.instanceId, event };
+      this.getMessageBus().publish(this.channel, JSON.stringify(envelope));
+    } catch (error) {
+      console.error('[COMMENT EVENTS ERROR] 메시지 버스 발행 중 오류:', error);
+    }
+  }
+
+  /**
+   * 이벤트 구독
+   * @returns 구독 해제 함수
+   */
+  subscribe(listener: CommentEventListener): () => void {
+    this.getMessageBus();
+    this.emitter.on(LOCAL_EVENT, listener);
+    return () => {
+      this.emitter.off(LOCAL_EVENT, listener);
+    };
+  }
+
+  /**
+   * 현재 구독자 수 (이 인스턴스 기준)
+   */
+  get listenerCount(): number {
+    return this.emitter.listenerCount(LOCAL_EVENT);
+  }
+
+  private emit(event: CommentEvent): void {
+    for (const listener of this.emitter.listeners(LOCAL_EVENT) as CommentEventListener[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[COMMENT EVENTS ERROR] 이벤트 전달 중 오류:', error);
+      }
+    }
+  }
+
+  /**
+   * 메시지 버스는 이벤트를 처음 발행하거나 구독할 때 연결
+   */
+  private getMessageBus(): MessageBus {
+    if (!this.messageBus) {
+      this.messageBus = createMessageBus();
+      this.messageBus.subscribe(this.channel, (payload) => this.handleBusMessage(payload));
+    }
+    return this.messageBus;
+  }
+
+  /**
+   * 다른 인스턴스에서 발행한 이벤트 처리
+   */
+  private handleBusMessage(payload: string): void {
+    let envelope: CommentEventEnvelope;
+    try {
+      envelope = JSON.parse(payload);
+    } catch (error) {
+      console.error('[COMMENT EVENTS ERROR] 잘못된 메시지 버스 이벤트:', error);
+      return;
+    }
+
+    if (envelope.instanceId === this.instanceId || !COMMENT_EVENT_TYPES.includes(envelope.event?.type)) {
+      return;
+    }
+    this.emit(envelope.event);
+  }
+}
+
+// 전역 변수로 commentEventHub 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __commentEventHub: CommentEventHub | undefined;
+}
+
+// 싱글톤 인스턴스 (댓글 서비스와 SSE 라우트가 같은 허브를 사용)
+export const commentEventHub = globalThis.__commentEventHub || new CommentEventHub();
+globalThis.__commentEventHub = commentEventHub;
@@ -0,0 +1,405 @@
+/**
+ * 댓글 필터 파이프라인
+ * 새 댓글이나 수정한 내용을 DB에 저장하기 전에 등록된 필터를 순서대로 실행하고, 처음 거부한 필터의 사유를 반환합니다.
+ * 작성 기록이 필요한 필터(중복, 작성 빈도)는 통과와 동시에 기록을 예약하므로 동시에 보낸 요청도 제한을 넘지 못하며,
+ * 저장에 실패하면 release로 예약을 취소합니다.
+ * 차단된 댓글은 크기가 제한된 버퍼에 기록해 관리자가 확인할 수 있습니다. (프로세스 재시작 시 초기화)
+ *
+ * 기본 필터 설정 (환경 변수)
+ * - COMMENT_BLOCKED_WORDS: 쉼표로 구분한 금지어 목록 (대소문자 무시, 부분 일치)
+ * - COMMENT_BLOCKED_PATTERNS: 금지 정규식 목록 (JSON 문자열 배열, 대소문자 무시)
+ * - COMMENT_MAX_LINKS: 댓글 하나에 허용하는 링크 수 (기본값: 2)
+ * - COMMENT_DUPLICATE_WINDOW_SECONDS: 같은 사용자가 같은 내용을 다시 작성할 수 없는 시간 (기본값: 600초, 0이면 사용 안 함)
+ * - COMMENT_RATE_LIMIT_COUNT / COMMENT_RATE_LIMIT_WINDOW_SECONDS: 사용자(해싱된 IP)별 작성 수 제한 (기본값: 5개 / 600초)
+ * - COMMENT_BLOCK_LOG_SIZE: 차단 기록 보관 개수 (기본값: 200)
+ */
+import crypto from 'crypto';
+import type { BlockedComment, CommentRejectionCode } from '../types/comment';
+
+function readNonNegativeInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+const COMMENT_MAX_LINKS = readNonNegativeInt('COMMENT_MAX_LINKS', 2);
+const COMMENT_DUPLICATE_WINDOW_MS = readNonNegativeInt('COMMENT_DUPLICATE_WINDOW_SECONDS', 600) * 1000;
+const COMMENT_RATE_LIMIT_COUNT = readNonNegativeInt('COMMENT_RATE_LIMIT_COUNT', 5);
+const COMMENT_RATE_LIMIT_WINDOW_MS = readNonNegativeInt('COMMENT_RATE_LIMIT_WINDOW_SECONDS', 600) * 1000;
+const COMMENT_BLOCK_LOG_SIZE = readNonNegativeInt('COMMENT_BLOCK_LOG_SIZE', 200);
+
+// 차단 기록에 보관하는 내용 최대 길이
+const BLOCKED_CONTENT_MAX_LENGTH = 2000;
+
+// 만료된 작성 기록 정리 주기
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+export interface CommentFilterInput {
+  content: string;
+  hashedUserIP: string;
+  parentHeaderId: number | null;
+}
+
+export interface CommentRejection {
+  code: CommentRejectionCode;
+  message: string;        // 사용자에게 반환할 메시지
+  detail?: string;        // 관리자용 상세 정보 (일치한 금지어 등)
+  retryAfterMs?: number;  // 다시 작성할 수 있을 때까지 남은 시간
+}
+
+/**
+ * 댓글 필터
+ * check가 거부 사유를 반환하면 이후 필터는 실행하지 않습니다.
+ * 작성 기록이 필요한 필터는 check를 통과할 때 기록을 남기고,
+ * release는 이후 필터가 거부했거나 저장에 실패했을 때 그 기록을 취소합니다.
+ */
+export interface CommentFilter {
+  name: string;
+  check(input: CommentFilterInput, now: number): CommentRejection | null;
+  release?(input: CommentFilterInput): void;
+  cleanup?(now: number): void;
+}
+
+/**
+ * 필터에 거부된 댓글 작성 에러
+ */
+export class CommentRejectedError extends Error {
+  constructor(public readonly rejection: CommentRejection) {
+    super(rejection.message);
+    this.name = 'CommentRejectedError';
+  }
+}
+
+/**
+ * 비교용 내용 정규화 (유니코드 호환 문자, 대소문자, 연속 공백 통일)
+ */
+function normalizeContent(content: string): string {
+  return content.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 금지어/금지 패턴 필터
+ */
+export function createBlocklistFilter(words: string[], patterns: RegExp[]): CommentFilter {
+  const normalizedWords = words.map(normalizeContent).filter((word) => word.length > 0);
+
+  return {
+    name: 'blocklist',
+    check(input) {
+      const content = normalizeContent(input.content);
+      const word = normalizedWords.find((item) => content.includes(item));
+      if (word) {
+        return { code: 'BLOCKED_WORD', message: '허용되지 않는 단어가 포함되어 있습니다.', detail: word };
+      }
+      const pattern = patterns.find((item) => item.test(input.content) || item.test(content));
+      if (pattern) {
+        return { code: 'BLOCKED_PATTERN', message: '허용되지 않는 내용이 포함되어 있습니다.', detail: pattern.source };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * 링크 수 제한 필터
+ */
+export function createLinkLimitFilter(maxLinks: number): CommentFilter {
+  return {
+    name: 'link-limit',
+    check(input) {
+      const linkCount = (input.content.match(/\bhttps?:\/\/|\bwww\./gi) ?? []).length;
+      if (linkCount > maxLinks) {
+        return {
+          code: 'TOO_MANY_LINKS',
+          message: `링크는 최대 ${maxLinks}개까지 포함할 수 있습니다.`,
+          detail: `${linkCount} links`,
+        };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * 사용자(해싱된 IP)별 시간 기록 저장소
+ * 각 필터가 windowMs가 지난 기록을 정리하며 사용합니다.
+ */
+class RecentEntries<T extends { at: number }> {
+  private entries = new Map<string, T[]>();
+
+  constructor(private readonly windowMs: number) {}
+
+  get(key: string, now: number): T[] {
+    const active = (this.entries.get(key) ?? []).filter((entry) => now - entry.at < this.windowMs);
+    if (active.length > 0) {
+      this.entries.set(key, active);
+    } else {
+      this.entries.delete(key);
+    }
+    return active;
+  }
+
+  add(key: string, entry: T): void {
+    this.entries.set(key, [...(this.entries.get(key) ?? []), entry]);
+  }
+
+  /**
+   * 조건에 맞는 가장 최근 기록 하나 제거 (예약 취소용)
+   */
+  removeLast(key: string, predicate: (entry: T) => boolean): void {
+    const entries = this.entries.get(key);
+    if (!entries) {
+      return;
+    }
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (predicate(entries[i])) {
+        entries.splice(i, 1);
+        break;
+      }
+    }
+    if (entries.length === 0) {
+      this.entries.delete(key);
+    }
+  }
+
+  cleanup(now: number): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.get(key, now);
+    }
+  }
+}
+
+/**
+ * 중복 내용 필터
+ * 같은 사용자가 windowMs 안에 같은 내용(정규화 후 비교)을 다시 작성하면 거부합니다.
+ */
+export function createDuplicateFilter(windowMs: number): CommentFilter {
+  const recent = new RecentEntries<{ at: number; hash: string }>(windowMs);
+  const hashContent = (content: string) => crypto.createHash('sha256').update(normalizeContent(content)).digest('hex');
+
+  return {
+    name: 'duplicate',
+    check(input, now) {
+      const hash = hashContent(input.content);
+      const duplicate = recent.get(input.hashedUserIP, now).find((entry) => entry.hash === hash);
+      if (duplicate) {
+        return {
+          code: 'DUPLICATE_CONTENT',
+          message: '같은 내용의 댓글을 이미 작성했습니다.',
+          retryAfterMs: duplicate.at + windowMs - now,
+        };
+      }
+      recent.add(input.hashedUserIP, { at: now, hash });
+      return null;
+    },
+    release(input) {
+      const hash = hashContent(input.content);
+      recent.removeLast(input.hashedUserIP, (entry) => entry.hash === hash);
+    },
+    cleanup(now) {
+      recent.cleanup(now);
+    },
+  };
+}
+
+/**
+ * 작성 빈도 제한 필터
+ * 같은 사용자가 windowMs 안에 maxCount개를 넘게 작성하면 거부합니다.
+ */
+export function createRateLimitFilter(maxCount: number, windowMs: number): CommentFilter {
+  const recent = new RecentEntries<{ at: number }>(windowMs);
+
+  return {
+    name: 'rate-limit',
+    check(input, now) {
+      const entries = recent.get(input.hashedUserIP, now);
+      if (entries.length >= maxCount) {
+        return {
+          code: 'RATE_LIMITED',
+          message: '댓글을 너무 자주 작성했습니다. 잠시 후 다시 시도해 주세요.',
+          detail: `${entries.length} comments`,
+          retryAfterMs: entries[0].at + windowMs - now,
+        };
+      }
+      recent.add(input.hashedUserIP, { at: now });
+      return null;
+    },
+    release(input) {
+      recent.removeLast(input.hashedUserIP, () => true);
+    },
+    cleanup(now) {
+      recent.cleanup(now);
+    },
+  };
+}
+
+/**
+ * 댓글 필터 파이프라인
+ */
+export class CommentFilterPipeline {
+  private filters: CommentFilter[] = [];
+  private blocked: BlockedComment[] = [];
+  private nextBlockedId = 1;
+  private lastCleanupAt = Date.now();
+
+  constructor(private readonly blockLogSize: number = COMMENT_BLOCK_LOG_SIZE) {}
+
+  /**
+   * 필터 등록 (같은 이름의 필터가 있으면 교체)
+   */
+  use(filter: CommentFilter): this {
+    const index = this.filters.findIndex((item) => item.name === filter.name);
+    if (index >= 0) {
+      this.filters[index] = filter;
+    } else {
+      this.filters.push(filter);
+    }
+    return this;
+  }
+
+  /**
+   * 필터 제거
+   *
+   * @returns 제거 여부
+   */
+  remove(name: string): boolean {
+    const before = this.filters.length;
+    this.filters = this.filters.filter((item) => item.name !== name);
+    return this.filters.length !== before;
+  }
+
+  /**
+   * 등록된 필터를 순서대로 실행
+   * 모든 필터를 통과하면 작성 기록이 예약되며, 저장에 실패하면 release를 호출해야 합니다.
+   * 거부된 댓글은 차단 기록에 남기고, 앞서 통과한 필터의 예약은 취소합니다.
+   *
+   * @returns 거부 사유 (모든 필터를 통과하면 null)
+   */
+  check(input: CommentFilterInput): CommentRejection | null {
+    const now = Date.now();
+    this.cleanup(now);
+
+    for (const [index, filter] of this.filters.entries()) {
+      const rejection = filter.check(input, now);
+      if (rejection) {
+        this.releaseFilters(this.filters.slice(0, index), input);
+        this.recordBlocked(input, rejection, now);
+        return rejection;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 저장에 실패한 댓글의 작성 기록 예약 취소
+   */
+  release(input: CommentFilterInput): void {
+    this.releaseFilters(this.filters, input);
+  }
+
+  /**
+   * 차단 기록 조회 (최근 순)
+   */
+  getBlocked(limit: number = this.blockLogSize): BlockedComment[] {
+    return this.blocked.slice(-limit).reverse();
+  }
+
+  /**
+   * 차단 기록 삭제
+   *
+   * @returns 삭제된 기록 수
+   */
+  clearBlocked(): number {
+    const count = this.blocked.length;
+    this.blocked = [];
+    return count;
+  }
+
+  private releaseFilters(filters: CommentFilter[], input: CommentFilterInput): void {
+    for (const filter of filters) {
+      filter.release?.(input);
+    }
+  }
+
+  private recordBlocked(input: CommentFilterInput, rejection: CommentRejection, now: number): void {
+    if (this.blockLogSize <= 0) {
+      return;
+    }
+    this.blocked.push({
+      id: this.nextBlockedId++,
+      code: rejection.code,
+      detail: rejection.detail ?? null,
+      hashedUser: input.hashedUserIP,
+      parentHeaderId: input.parentHeaderId,
+      content: input.content.slice(0, BLOCKED_CONTENT_MAX_LENGTH),
+      blockedAt: new Date(now).toISOString(),
+    });
+    if (this.blocked.length > this.blockLogSize) {
+      this.blocked.splice(0, this.blocked.length - this.blockLogSize);
+    }
+  }
+
+  private cleanup(now: number): void {
+    if (now - this.lastCleanupAt < CLEANUP_INTERVAL_MS) {
+      return;
+    }
+    this.lastCleanupAt = now;
+    for (const filter of this.filters) {
+      filter.cleanup?.(now);
+    }
+  }
+}
+
+/**
+ * 환경 변수의 금지 정규식 목록 파싱 (잘못된 패턴은 경고 후 제외)
+ */
+function parseBlockedPatterns(value: string | undefined): RegExp[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON 배열이 아닙니다.');
+    }
+    return parsed.flatMap((source) => {
+      try {
+        return [new RegExp(String(source), 'i')];
+      } catch (error) {
+        console.warn('[COMMENT FILTER] 잘못된 금지 패턴을 건너뜁니다:', source, error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.warn('[COMMENT FILTER] COMMENT_BLOCKED_PATTERNS를 해석할 수 없습니다:', error);
+    return [];
+  }
+}
+
+/**
+ * 환경 변수에 따라 기본 필터를 등록한 파이프라인 생성
+ */
+export function createCommentFilterPipeline(): CommentFilterPipeline {
+  const pipeline = new CommentFilterPipeline();
+
+  const words = (process.env.COMMENT_BLOCKED_WORDS || '').split(',').map((word) => word.trim());
+  const patterns = parseBlockedPatterns(process.env.COMMENT_BLOCKED_PATTERNS);
+  pipeline.use(createBlocklistFilter(words, patterns));
+  pipeline.use(createLinkLimitFilter(COMMENT_MAX_LINKS));
+  if (COMMENT_DUPLICATE_WINDOW_MS > 0) {
+    pipeline.use(createDuplicateFilter(COMMENT_DUPLICATE_WINDOW_MS));
+  }
+  if (COMMENT_RATE_LIMIT_COUNT > 0 && COMMENT_RATE_LIMIT_WINDOW_MS > 0) {
+    pipeline.use(createRateLimitFilter(COMMENT_RATE_LIMIT_COUNT, COMMENT_RATE_LIMIT_WINDOW_MS));
+  }
+
+  return pipeline;
+}
+
+// 전역 변수로 commentFilterPipeline 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __commentFilterPipeline: CommentFilterPipeline | undefined;
+}
+
+// 싱글톤 인스턴스 (작성 기록과 차단 기록을 모든 API 라우트가 공유)
+export const commentFilterPipeline = globalThis.__commentFilterPipeline || createCommentFilterPipeline();
+globalThis.__commentFilterPipeline = commentFilterPipeline;
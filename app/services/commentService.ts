@@ -1,12 +1,40 @@
 /**
  * Comment 서비스
  * 댓글 관련 비즈니스 로직
+ *
+ * 모더레이션 상태는 COMMENTS.STATUS 컬럼에 저장하며, 같은 HEADER_ID 체인의 모든 행이 같은 값을 가집니다.
+ *   ALTER TABLE COMMENTS ADD (
+ *     STATUS VARCHAR2(10) DEFAULT 'visible' NOT NULL
+ *       CONSTRAINT COMMENTS_STATUS_CHK CHECK (STATUS IN ('visible', 'pending', 'hidden', 'spam'))
+ *   );
+ *
+ * - COMMENTS_REQUIRE_APPROVAL=true: 새 댓글과 수정된 댓글을 관리자 승인 전까지 pending 상태로 저장
+ * - COMMENT_MAX_DEPTH: 답글 최대 깊이 (루트 댓글이 0, 기본값: 10, 0이면 제한 없음)
+ * - COMMENT_INLINE_REPLY_DEPTH: 목록/답글 조회 시 함께 포함하는 답글 단계 수 (기본값: 2)
+ *   더 깊은 답글은 children 없이 REPLY_COUNT만 내려주며 GET /api/comments/:id/replies로 이어서 조회합니다.
+ *
+ * 공개 상태의 댓글이 작성/수정/삭제되면 커밋 후 commentEventHub로 실시간 이벤트를 발행합니다.
+ * 상위 댓글까지 모두 공개된 스레드의 변경만 발행하며, 관리자가 공개 댓글을 숨기면 deleted 이벤트로 알립니다.
  */
 import oracledb from 'oracledb';
 import { getConnection } from '../utils/db';
 import { handleLob } from '../utils/handleLob';
 import { hashPassword, comparePassword } from '../utils/passwordUtils';
-import type { Comment } from '../types/comment';
+import { toCommentResponse } from '../utils/commentResponse';
+import { commentFilterPipeline, CommentRejectedError, type CommentFilterInput } from './commentFilter';
+import { commentEventHub } from './commentEvents';
+import type { Comment, CommentEventType, CommentResponse, CommentSort, CommentStatus } from '../types/comment';
+
+export const COMMENTS_REQUIRE_APPROVAL = process.env.COMMENTS_REQUIRE_APPROVAL === 'true';
+
+const maxDepth = parseInt(process.env.COMMENT_MAX_DEPTH || '', 10);
+export const COMMENT_MAX_DEPTH = Number.isNaN(maxDepth) || maxDepth < 0 ? 10 : maxDepth;
+
+const inlineReplyDepth = parseInt(process.env.COMMENT_INLINE_REPLY_DEPTH || '', 10);
+const COMMENT_INLINE_REPLY_DEPTH = Number.isNaN(inlineReplyDepth) || inlineReplyDepth < 1 ? 2 : inlineReplyDepth;
+
+// Oracle IN 목록 최대 개수(1000)를 넘지 않도록 나누어 조회
+const REPLY_QUERY_CHUNK_SIZE = 500;
 
 interface ParentCommentRowRaw {
   ID: number;
@@ -21,6 +49,7 @@ interface ParentCommentRowRaw {
   TAIL_ID: number;
   PARENT_HEADER_ID: number | null;
   EDITED_COMMENT_ID: number | null;
+  REPLY_COUNT: number;
 }
 
 interface ChildCommentRowRaw {
@@ -36,6 +65,7 @@ interface ChildCommentRowRaw {
   HEADER_ID: number;
   TAIL_ID: number;
   HASHED_USER_IP: string;
+  REPLY_COUNT: number;
 }
 
 interface ParentCommentRow extends Omit<ParentCommentRowRaw, 'CONTENT'> {
@@ -46,7 +76,24 @@ interface ChildCommentRow extends Omit<ChildCommentRowRaw, 'CONTENT'> {
   CONTENT: string | null;
 }
 
-type ParentCommentWithChildren = ParentCommentRow & { children: ChildCommentRow[] };
+/**
+ * 답글 트리 노드
+ * children이 없으면(undefined) 아직 불러오지 않은 하위 답글이 REPLY_COUNT개 있다는 뜻입니다.
+ */
+export interface CommentReplyNode extends ChildCommentRow {
+  depth: number;  // 루트 댓글이 0
+  children?: CommentReplyNode[];
+}
+
+type ParentCommentWithChildren = ParentCommentRow & { children?: CommentReplyNode[] };
+
+interface ModerationCommentRowRaw extends Omit<ParentCommentRowRaw, 'REPLY_COUNT'> {
+  STATUS: CommentStatus;
+}
+
+interface ModerationCommentRow extends Omit<ModerationCommentRowRaw, 'CONTENT'> {
+  CONTENT: string | null;
+}
 
 interface CommentHistoryRow {
   id: number;
@@ -62,146 +109,224 @@ interface CommentHistoryRow {
   tailId: number;
   hashedUserIP: string;
   hashedPassword: string;
+  status: CommentStatus;
 }
 
 /**
- * 부모 댓글과 해당 자식 댓글을 함께 조회 (페이지네이션)
- * @param page 페이지 번호 (1부터 시작)
- * @param limit 페이지당 댓글 개수
- * @returns 댓글 목록과 총 개수
+ * 댓글 생성/수정 결과
+ */
+export interface CommentWriteResult {
+  id: number;
+  status: CommentStatus;
+}
+
+/**
+ * 영구 삭제 결과
+ */
+export interface CommentPurgeResult {
+  headerIds: number[];  // 삭제된 체인의 HEADER_ID (대댓글 체인 포함)
+  deletedRows: number;  // 삭제된 전체 행 수 (모든 버전 포함)
+}
+
+/**
+ * 댓글 목록 조회 옵션
+ */
+export interface GetCommentsOptions {
+  limit: number;
+  page?: number;            // 페이지 번호 (1부터 시작, cursor가 있으면 무시)
+  cursor?: string | null;   // 이전 응답의 nextCursor
+  sort?: CommentSort;       // 정렬 기준 (기본값: newest)
+  includeCount?: boolean;   // 총 개수 조회 여부 (기본값: true)
+}
+
+/**
+ * 커서 내용
+ * HEADER_ID는 IDENTITY라 작성 순서대로 증가하므로 작성 시간 대신 정렬/경계 기준으로 사용합니다.
+ */
+export interface CommentCursor {
+  sort: CommentSort;
+  headerId: number;
+  replyCount?: number;  // most_replies 정렬일 때만 사용
+}
+
+/**
+ * 커서를 응답용 문자열로 인코딩 (base64url JSON)
+ */
+export function encodeCursor(cursor: CommentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * 요청의 커서 문자열 해석
+ * @throws Error - 형식이 잘못되었거나 다른 정렬 기준의 커서인 경우
+ */
+export function decodeCursor(value: string, sort: CommentSort): CommentCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as Partial<CommentCursor>;
+    if (
+      cursor.sort === sort &&
+      Number.isSafeInteger(cursor.headerId) &&
+      (sort !== 'most_replies' || Number.isSafeInteger(cursor.replyCount))
+    ) {
+      return cursor as CommentCursor;
+    }
+  } catch {
+    // 아래에서 공통 에러 처리
+  }
+  throw new Error('유효하지 않은 커서입니다.');
+}
+
+// 정렬 기준별 ORDER BY 절과 커서 이후 조건
+const COMMENT_SORT_SQL: Record<CommentSort, { orderBy: string; after: string }> = {
+  newest: {
+    orderBy: 'HEADER_ID DESC',
+    after: 'HEADER_ID < :cursorHeaderId',
+  },
+  oldest: {
+    orderBy: 'HEADER_ID ASC',
+    after: 'HEADER_ID > :cursorHeaderId',
+  },
+  most_replies: {
+    orderBy: 'REPLY_COUNT DESC, HEADER_ID DESC',
+    after: '(REPLY_COUNT < :cursorReplyCount OR (REPLY_COUNT = :cursorReplyCount AND HEADER_ID < :cursorHeaderId))',
+  },
+};
+
+/**
+ * limit + 1개 조회한 부모 댓글 행을 limit개로 자르고 다음 커서 생성
+ * limit보다 많이 조회되었으면 다음 목록이 있으므로 마지막으로 남긴 행을 경계로 커서를 만듭니다.
+ */
+export function paginateParentRows<T extends { HEADER_ID: number; REPLY_COUNT: number }>(
+  rows: T[],
+  limit: number,
+  sort: CommentSort
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, nextCursor: null };
+  }
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[limit - 1];
+  const nextCursor = encodeCursor({
+    sort,
+    headerId: last.HEADER_ID,
+    ...(sort === 'most_replies' ? { replyCount: last.REPLY_COUNT } : {}),
+  });
+  return { rows: pageRows, nextCursor };
+}
+
+/**
+ * 부모 댓글과 해당 자식 댓글을 함께 조회 (페이지 또는 커서 기반 페이지네이션)
+ * STATUS가 visible인 댓글만 포함합니다.
+ * 커서를 사용하면 새 댓글이 추가되어도 이미 본 댓글이 다음 목록에 다시 나오지 않습니다.
+ * (most_replies 정렬은 조회 중 답글 수가 바뀌면 순서가 달라질 수 있음)
+ * @param options 조회 옵션
+ * @returns 댓글 목록, 총 개수(includeCount가 false면 null), 다음 커서(마지막이면 null)
+ * @throws Error - 커서가 잘못되었거나 다른 정렬 기준의 커서인 경우
  */
 export async function getComments(
-  page: number,
-  limit: number
-): Promise<{ comments: ParentCommentWithChildren[]; totalCount: number }> {
+  options: GetCommentsOptions
+): Promise<{ comments: ParentCommentWithChildren[]; totalCount: number | null; nextCursor: string | null }> {
+  const { limit, page = 1, sort = 'newest', includeCount = true } = options;
+  const cursor = options.cursor ? decodeCursor(options.cursor, sort) : null;
+
   let connection: oracledb.Connection | undefined;
   try {
     connection = await getConnection();
 
-    // 1. 부모 댓글 총 개수 조회
-    const countSql = `
-      SELECT COUNT(*) AS TOTAL
-      FROM COMMENTS
-      WHERE PARENT_HEADER_ID IS NULL
-        AND ID = TAIL_ID
-    `;
-    const countResult = await connection.execute<{ TOTAL: number }>(
-      countSql,
-      {},
-      { outFormat: oracledb.OUT_FORMAT_OBJECT }
-    );
-    const totalCount = countResult.rows?.[0]?.TOTAL ?? 0;
+    // 1. 부모 댓글 총 개수 조회 (요청한 경우만)
+    let totalCount: number | null = null;
+    if (includeCount) {
+      const countSql = `
+        SELECT COUNT(*) AS TOTAL
+        FROM COMMENTS
+        WHERE PARENT_HEADER_ID IS NULL
+          AND ID = TAIL_ID
+          AND STATUS = 'visible'
+      `;
+      const countResult = await connection.execute<{ TOTAL: number }>(
+        countSql,
+        {},
+        { outFormat: oracledb.OUT_FORMAT_OBJECT }
+      );
+      totalCount = countResult.rows?.[0]?.TOTAL ?? 0;
+    }
 
-    // 2. 부모 댓글 데이터 조회 (페이지네이션 적용)
-    //    - c: 현재(최신 버전) 댓글, p: 헤더(원본) 댓글
-    const offset = (page - 1) * limit;
+    // 2. 부모 댓글 데이터 조회
+    //    - c: 현재(최신 버전) 댓글, r: 답글 체인의 최신 버전
+    //    - 다음 목록 여부 확인을 위해 limit + 1개 조회
+    const sortSql = COMMENT_SORT_SQL[sort];
+    const cursorBinds: Record<string, number> = cursor
+      ? { cursorHeaderId: cursor.headerId, ...(sort === 'most_replies' ? { cursorReplyCount: cursor.replyCount ?? 0 } : {}) }
+      : {};
+    const offset = cursor ? 0 : (page - 1) * limit;
     const parentSql = `
-      SELECT 
-        c.ID, 
-        c.HASHED_USER_IP, 
-        c.CONTENT, 
-        c.CREATED_AT, 
-        c.UPDATED_AT, 
-        c.IS_EDITED, 
-        c.IS_DELETED, 
-        c.VERSION, 
-        c.HEADER_ID, 
-        c.TAIL_ID,
-        c.PARENT_HEADER_ID,
-        c.EDITED_COMMENT_ID
-      FROM COMMENTS c
-      JOIN COMMENTS p ON c.HEADER_ID = p.ID
-      WHERE c.PARENT_HEADER_ID IS NULL
-        AND c.ID = c.TAIL_ID
-      ORDER BY p.CREATED_AT DESC
-      OFFSET :offset ROWS FETCH NEXT :limit ROWS ONLY
+      SELECT *
+      FROM (
+        SELECT 
+          c.ID, 
+          c.HASHED_USER_IP, 
+          c.CONTENT, 
+          c.CREATED_AT, 
+          c.UPDATED_AT, 
+          c.IS_EDITED, 
+          c.IS_DELETED, 
+          c.VERSION, 
+          c.HEADER_ID, 
+          c.TAIL_ID,
+          c.PARENT_HEADER_ID,
+          c.EDITED_COMMENT_ID,
+          (
+            SELECT COUNT(*)
+            FROM COMMENTS r
+            WHERE r.PARENT_HEADER_ID = c.HEADER_ID
+              AND r.ID = r.TAIL_ID
+              AND r.STATUS = 'visible'
+          ) AS REPLY_COUNT
+        FROM COMMENTS c
+        WHERE c.PARENT_HEADER_ID IS NULL
+          AND c.ID = c.TAIL_ID
+          AND c.STATUS = 'visible'
+      )
+      ${cursor ? `WHERE ${sortSql.after}` : ''}
+      ORDER BY ${sortSql.orderBy}
+      OFFSET :offset ROWS FETCH NEXT :fetchLimit ROWS ONLY
     `;
     const parentResult = await connection.execute<ParentCommentRowRaw>(
       parentSql,
-      { offset, limit },
+      { ...cursorBinds, offset, fetchLimit: limit + 1 },
       { resultSet: true, outFormat: oracledb.OUT_FORMAT_OBJECT }
     );
     const parentRS = parentResult.resultSet as oracledb.ResultSet<ParentCommentRowRaw>;
-    const parentRows: ParentCommentRow[] = [];
+    const fetchedRows: ParentCommentRow[] = [];
     let row: ParentCommentRowRaw | undefined;
     while ((row = await parentRS.getRow())) {
       const content = row.CONTENT ? await handleLob(row.CONTENT) : null;
-      parentRows.push({
+      fetchedRows.push({
         ...row,
         CONTENT: content,
       });
     }
     await parentRS.close();
 
-    // 3. 조회된 부모 댓글들의 HEADER_ID 목록 추출
-    const headerIds = parentRows
-      .map(item => item.HEADER_ID)
-      .filter((id): id is number => id !== null && id !== undefined);
-    let childrenRows: ChildCommentRow[] = [];
-    if (headerIds.length > 0) {
-      // 4. 자식(대댓글) 조회: 부모 댓글의 HEADER_ID를 PARENT_HEADER_ID로 갖는 댓글 조회
-      //    - c: 자식 댓글, p: 헤더 댓글
-      //    정렬은 p.CREATED_AT 기준 오름차순(원래 입력 순서 유지)
-      const bindNames = headerIds.map((_, idx) => `:id${idx}`).join(', ');
-      const childrenSql = `
-        SELECT 
-          c.ID, 
-          c.PARENT_HEADER_ID AS "parentHeaderId", 
-          c.CONTENT, 
-          c.CREATED_AT, 
-          c.UPDATED_AT, 
-          c.IS_EDITED, 
-          c.IS_DELETED, 
-          c.VERSION, 
-          c.EDITED_COMMENT_ID, 
-          c.HEADER_ID, 
-          c.TAIL_ID, 
-          c.HASHED_USER_IP
-        FROM COMMENTS c
-        JOIN COMMENTS p ON c.HEADER_ID = p.ID
-        WHERE c.PARENT_HEADER_ID IN (${bindNames})
-          AND c.ID = c.TAIL_ID
-        ORDER BY p.CREATED_AT ASC
-      `;
-      const bindParams: { [key: string]: number } = {};
-      headerIds.forEach((id, idx) => {
-        bindParams[`id${idx}`] = id;
-      });
-      const childrenResult = await connection.execute<ChildCommentRowRaw>(
-        childrenSql,
-        bindParams,
-        { outFormat: oracledb.OUT_FORMAT_OBJECT }
-      );
-      const rawChildrenRows = childrenResult.rows ?? [];
-      childrenRows = await Promise.all(
-        rawChildrenRows.map(async (child) => ({
-          ...child,
-          CONTENT: child.CONTENT ? await handleLob(child.CONTENT) : null,
-        }))
-      );
-
-    }
+    // 3. 다음 커서 생성 (limit보다 많이 조회되었으면 다음 목록이 있음)
+    const { rows: parentRows, nextCursor } = paginateParentRows(fetchedRows, limit, sort);
 
-    // 5. 부모 댓글별로 자식 댓글 그룹핑
-    const childrenByParent: Record<number, ChildCommentRow[]> = {};
-    for (const child of childrenRows) {
-      if (child.parentHeaderId === null) {
-        continue;
-      }
-      const key = child.parentHeaderId;
-      if (!childrenByParent[key]) {
-        childrenByParent[key] = [];
-      }
-      childrenByParent[key].push(child);
-    }
+    // 4. 답글 트리 조회 (COMMENT_INLINE_REPLY_DEPTH 단계까지)
+    const db = connection;
+    const repliesByParent = await loadReplyTree(
+      parentRows.map(item => item.HEADER_ID),
+      1,
+      COMMENT_INLINE_REPLY_DEPTH,
+      (parentHeaderIds) => getDirectReplies(db, parentHeaderIds)
+    );
 
-    // 6. 각 부모 댓글 객체에 자식 댓글 배열 추가
+    // 5. 각 부모 댓글 객체에 답글 배열 추가
     const combinedComments = parentRows.map(parent => ({
       ...parent,
-      children: childrenByParent[parent.HEADER_ID] || [],
+      children: repliesByParent.get(parent.HEADER_ID) ?? (parent.REPLY_COUNT === 0 ? [] : undefined),
     }));
 
-    return { comments: combinedComments, totalCount };
+    return { comments: combinedComments, totalCount, nextCursor };
   } catch (error) {
     console.error('[COMMENT SERVICE ERROR] 부모+자식 댓글 조회 중 오류:', error);
     throw error;
@@ -216,24 +341,95 @@ export async function getComments(
   }
 }
 
+/**
+ * 특정 댓글의 답글 트리 조회 (깊은 답글 지연 로딩용)
+ * 자신과 모든 상위 댓글이 공개 상태일 때만 조회할 수 있습니다.
+ * @param commentId 체인 내의 임의 댓글 ID
+ * @returns 댓글의 HEADER_ID와 깊이, COMMENT_INLINE_REPLY_DEPTH 단계까지의 답글 트리
+ */
+export async function getReplies(
+  commentId: number
+): Promise<{ headerId: number; depth: number; replyCount: number; replies: CommentReplyNode[] }> {
+  let connection: oracledb.Connection | undefined;
+  try {
+    connection = await getConnection();
+
+    const headerId = await getHeaderId(connection, commentId);
+    const position = await getThreadPosition(connection, headerId);
+    if (!position.visible) {
+      throw new Error('존재하지 않는 댓글입니다.');
+    }
+
+    const db = connection;
+    const repliesByParent = await loadReplyTree(
+      [headerId],
+      position.depth + 1,
+      COMMENT_INLINE_REPLY_DEPTH,
+      (parentHeaderIds) => getDirectReplies(db, parentHeaderIds)
+    );
+    const replies = repliesByParent.get(headerId) ?? [];
+
+    return { headerId, depth: position.depth, replyCount: replies.length, replies };
+  } catch (error) {
+    console.error('[COMMENT SERVICE ERROR] 답글 조회 중 오류:', error);
+    throw error;
+  } finally {
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (closeError) {
+        console.error('[DB ERROR] DB 연결 종료 중 오류:', closeError);
+      }
+    }
+  }
+}
+
 /**
  * 새로운 댓글 생성
  * @param content 댓글 내용
  * @param userPassword 사용자 비밀번호
  * @param hashedUserIP 해싱된 사용자 IP
  * @param parentHeaderId 부모 댓글의 HEADER_ID (대댓글인 경우), null이면 루트 댓글
- * @returns 생성된 댓글의 ID
+ * @returns 생성된 댓글의 ID와 모더레이션 상태
+ * @throws CommentRejectedError - 스팸/도배 필터에 거부된 경우
  */
 export async function createComment(
   content: string,
   userPassword: string,
   hashedUserIP: string,
   parentHeaderId: number | null
-): Promise<number> {
+): Promise<CommentWriteResult> {
+  // 저장 전 필터 파이프라인 실행 (금지어, 링크 수, 중복, 작성 빈도)
+  const filterInput = { content, hashedUserIP, parentHeaderId };
+  const rejection = commentFilterPipeline.check(filterInput);
+  if (rejection) {
+    throw new CommentRejectedError(rejection);
+  }
+
   let connection: oracledb.Connection | undefined;
+  let committed = false;
   try {
     connection = await getConnection();
 
+    // 부모 댓글 검증 (공개되지 않은 스레드에는 답글 불가, 최대 깊이 제한)
+    //   체인 내의 임의 ID가 전달되어도 부모의 HEADER_ID로 연결
+    let parentId: number | null = null;
+    let depth = 0;
+    if (parentHeaderId) {
+      const parentHeader = await findHeaderId(connection, parentHeaderId);
+      const parent = parentHeader ? await getThreadPosition(connection, parentHeader) : null;
+      if (!parentHeader || !parent?.visible) {
+        throw new Error('존재하지 않는 부모 댓글입니다.');
+      }
+      if (COMMENT_MAX_DEPTH > 0 && parent.depth + 1 > COMMENT_MAX_DEPTH) {
+        throw new Error(`답글은 ${COMMENT_MAX_DEPTH}단계까지만 작성할 수 있습니다.`);
+      }
+      parentId = parentHeader;
+      depth = parent.depth + 1;
+    }
+
+    const status: CommentStatus = COMMENTS_REQUIRE_APPROVAL ? 'pending' : 'visible';
+
     // 비밀번호 해싱
     const hashedPassword = await hashPassword(userPassword);
 
@@ -252,7 +448,8 @@ export async function createComment(
         VERSION,
         EDITED_COMMENT_ID,
         HEADER_ID,
-        TAIL_ID
+        TAIL_ID,
+        STATUS
       ) VALUES (
         :hashedUserIP,
         :hashedPassword,
@@ -265,7 +462,8 @@ export async function createComment(
         1,
         NULL,
         NULL,
-        NULL
+        NULL,
+        :status
       )
       RETURNING ID INTO :insertedId
     `;
@@ -275,8 +473,9 @@ export async function createComment(
       {
         hashedUserIP,
         hashedPassword,
-        parentHeaderId: parentHeaderId || null,
+        parentHeaderId: parentId,
         content,
+        status,
         insertedId: { dir: oracledb.BIND_OUT, type: oracledb.NUMBER },
       },
       { 
@@ -306,9 +505,18 @@ export async function createComment(
 
     // 트랜잭션 커밋
     await connection.commit();
+    committed = true;
+
+    if (status === 'visible') {
+      await publishCommentEvent(connection, 'created', newId, { depth, replyCount: 0, children: [] });
+    }
     
-    return newId;
+    return { id: newId, status };
   } catch (error) {
+    // 저장하지 못한 댓글은 작성 기록 예약 취소
+    if (!committed) {
+      commentFilterPipeline.release(filterInput);
+    }
     if (connection) {
       try {
         await connection.rollback();
@@ -335,15 +543,20 @@ export async function createComment(
  * @param newContent 새로운 댓글 내용
  * @param userPassword 사용자 비밀번호
  * @param hashedUserIP 해싱된 사용자 IP
- * @returns 새로 생성된 댓글의 ID
+ * @param requesterHashedIP 요청한 클라이언트의 해싱된 IP (필터의 작성 기록 기준, 기본값: hashedUserIP)
+ * @returns 새로 생성된 댓글의 ID와 모더레이션 상태
+ * @throws CommentRejectedError - 스팸/도배 필터에 거부된 경우
  */
 export async function updateComment(
   originalId: number,
   newContent: string,
   userPassword: string,
-  hashedUserIP: string
-): Promise<number> {
+  hashedUserIP: string,
+  requesterHashedIP: string = hashedUserIP
+): Promise<CommentWriteResult> {
   let connection: oracledb.Connection | undefined;
+  let filterInput: CommentFilterInput | null = null;
+  let committed = false;
   try {
     connection = await getConnection();
 
@@ -360,7 +573,8 @@ export async function updateComment(
         EDITED_COMMENT_ID AS "editedCommentId", 
         UPDATED_AT AS "updatedAt", 
         IS_DELETED AS "isDeleted",
-        TAIL_ID AS "tailId"
+        TAIL_ID AS "tailId",
+        STATUS AS "status"
       FROM COMMENTS 
       WHERE ID = :originalId
     `;
@@ -378,6 +592,11 @@ export async function updateComment(
 
     const oldComment = oldComments[0];
 
+    // 관리자가 숨기거나 스팸으로 분류한 댓글은 작성자에게도 없는 댓글로 취급
+    if (oldComment.status === 'hidden' || oldComment.status === 'spam') {
+      throw new Error('존재하지 않는 댓글입니다.');
+    }
+
     if (!oldComment.hashedPassword) {
       throw new Error('해시된 비밀번호가 존재하지 않습니다.');
     }
@@ -392,6 +611,14 @@ export async function updateComment(
       throw new Error('이미 수정된 댓글은 다시 수정할 수 없습니다.');
     }
 
+    // 수정한 내용도 새 댓글과 같은 필터 파이프라인 실행 (금지어, 링크 수, 중복, 작성 빈도)
+    const input: CommentFilterInput = { content: newContent, hashedUserIP: requesterHashedIP, parentHeaderId: oldComment.parentHeaderId ?? null };
+    const rejection = commentFilterPipeline.check(input);
+    if (rejection) {
+      throw new CommentRejectedError(rejection);
+    }
+    filterInput = input;
+
     // 비밀번호 검증
     const isPasswordMatch = await comparePassword(userPassword, oldComment.hashedPassword);
 
@@ -399,12 +626,21 @@ export async function updateComment(
       throw new Error('비밀번호가 일치하지 않아 수정할 수 없습니다.');
     }
 
+    // 승인 대기로 돌아가는 수정은 방문자에게 보이던 댓글이었는지 변경 전에 확인 (커밋 후 deleted 이벤트 발행용)
+    const wasThreadVisible =
+      COMMENTS_REQUIRE_APPROVAL &&
+      oldComment.status === 'visible' &&
+      !!oldComment.headerId &&
+      (await getThreadPosition(connection, oldComment.headerId)).visible;
+
     // 2) 기존 댓글의 IS_EDITED = 1로 표시
     const markEditedSql = `UPDATE COMMENTS SET IS_EDITED = 1 WHERE ID = :originalId`;
     await connection.execute(markEditedSql, { originalId }, { autoCommit: false });
 
     // 3) 새 댓글 삽입 (버전 + 1)
+    //    승인 대기 모드에서는 수정된 내용도 다시 승인을 받아야 함
     const newVersion = (oldComment.version || 1) + 1;
+    const status: CommentStatus = COMMENTS_REQUIRE_APPROVAL ? 'pending' : oldComment.status ?? 'visible';
     const insertSql = `
       INSERT INTO COMMENTS (
         PARENT_HEADER_ID, 
@@ -418,7 +654,8 @@ export async function updateComment(
         HEADER_ID, 
         TAIL_ID,
         HASHED_USER_IP, 
-        HASHED_PASSWORD
+        HASHED_PASSWORD,
+        STATUS
       )
       VALUES (
         :parentHeaderId, 
@@ -432,7 +669,8 @@ export async function updateComment(
         :headerId, 
         NULL,
         :newHashedUserIP, 
-        :hashedPassword
+        :hashedPassword,
+        :status
       )
       RETURNING ID INTO :newId
     `;
@@ -445,6 +683,7 @@ export async function updateComment(
         headerId: oldComment.headerId,
         newHashedUserIP: hashedUserIP,
         hashedPassword: oldComment.hashedPassword,
+        status,
         newId: { dir: oracledb.BIND_OUT, type: oracledb.NUMBER },
       },
       { autoCommit: false }
@@ -469,20 +708,33 @@ export async function updateComment(
     `;
     await connection.execute(updateOldCommentSql, { newId, originalId }, { autoCommit: false });
 
-    // 6) 동일 HEADER_ID를 공유하는 모든 댓글의 TAIL_ID를 새 댓글 ID로 갱신
+    // 6) 동일 HEADER_ID를 공유하는 모든 댓글의 TAIL_ID와 STATUS를 갱신
     const updateAllTailSql = `
       UPDATE COMMENTS
       SET TAIL_ID = :newId,
+          STATUS = :status,
           UPDATED_AT = SYSTIMESTAMP
       WHERE HEADER_ID = :headerId
     `;
-    await connection.execute(updateAllTailSql, { newId, headerId: oldComment.headerId }, { autoCommit: false });
+    await connection.execute(updateAllTailSql, { newId, status, headerId: oldComment.headerId }, { autoCommit: false });
 
     // 트랜잭션 커밋
     await connection.commit();
+    committed = true;
 
-    return newId;
+    if (status === 'visible' && oldComment.headerId) {
+      await publishVisibleCommentEvent(connection, 'edited', oldComment.headerId);
+    } else if (wasThreadVisible && oldComment.headerId) {
+      // 승인 대기로 내려간 댓글은 방문자 화면에서 제거
+      await publishCommentEvent(connection, 'deleted', oldComment.headerId, { content: null, isDeleted: 1 });
+    }
+
+    return { id: newId, status };
   } catch (error) {
+    // 저장하지 못한 수정 내용은 작성 기록 예약 취소
+    if (filterInput && !committed) {
+      commentFilterPipeline.release(filterInput);
+    }
     if (connection) {
       try {
         await connection.rollback();
@@ -532,7 +784,8 @@ export async function deleteComment(
         EDITED_COMMENT_ID AS "editedCommentId", 
         UPDATED_AT AS "updatedAt", 
         IS_DELETED AS "isDeleted",
-        TAIL_ID AS "tailId"
+        TAIL_ID AS "tailId",
+        STATUS AS "status"
       FROM COMMENTS 
       WHERE ID = :commentId
     `;
@@ -550,6 +803,11 @@ export async function deleteComment(
 
     const oldComment = oldComments[0];
 
+    // 관리자가 숨기거나 스팸으로 분류한 댓글은 작성자에게도 없는 댓글로 취급
+    if (oldComment.status === 'hidden' || oldComment.status === 'spam') {
+      throw new Error('존재하지 않는 댓글입니다.');
+    }
+
     if (!oldComment.hashedPassword) {
       throw new Error('해시된 비밀번호가 존재하지 않습니다.');
     }
@@ -582,13 +840,13 @@ export async function deleteComment(
         PARENT_HEADER_ID, CONTENT, CREATED_AT, UPDATED_AT,
         IS_EDITED, IS_DELETED, VERSION, EDITED_COMMENT_ID,
         HEADER_ID, TAIL_ID,
-        HASHED_USER_IP, HASHED_PASSWORD
+        HASHED_USER_IP, HASHED_PASSWORD, STATUS
       )
       VALUES (
         :parentHeaderId, NULL, SYSTIMESTAMP, SYSTIMESTAMP,
         0, 1, :version, NULL,
         :headerId, NULL,
-        :newHashedUserIP, :hashedPassword
+        :newHashedUserIP, :hashedPassword, :status
       )
       RETURNING ID INTO :newId
     `;
@@ -600,6 +858,7 @@ export async function deleteComment(
         headerId: oldComment.headerId,
         newHashedUserIP: hashedUserIP,
         hashedPassword: oldComment.hashedPassword,
+        status: oldComment.status ?? 'visible',
         newId: { dir: oracledb.BIND_OUT, type: oracledb.NUMBER },
       },
       { autoCommit: false }
@@ -621,6 +880,10 @@ export async function deleteComment(
     // 트랜잭션 커밋
     await connection.commit();
 
+    if (oldComment.status === 'visible' && oldComment.headerId) {
+      await publishVisibleCommentEvent(connection, 'deleted', oldComment.headerId);
+    }
+
     return newId;
   } catch (error) {
     if (connection) {
@@ -647,6 +910,7 @@ export async function deleteComment(
  * 특정 댓글의 모든 히스토리 조회 (삭제되지 않은 댓글만)
  * - 같은 HEADER_ID를 공유하는 댓글을 모두 조회
  * - 삭제되지 않은 댓글만 포함
+ * - 공개(visible) 상태가 아닌 체인은 찾을 수 없는 댓글로 취급
  * @param commentId 댓글 ID (HEADER_ID 또는 체인 내의 임의 ID)
  * @returns 댓글 히스토리 배열
  */
@@ -657,17 +921,17 @@ export async function getCommentHistory(commentId: number): Promise<Comment[]> {
 
     // 1) 주어진 commentId의 HEADER_ID 조회
     const headerSql = `
-      SELECT HEADER_ID 
+      SELECT HEADER_ID, STATUS
       FROM COMMENTS 
       WHERE ID = :commentId
     `;
-    const headerResult = await connection.execute<{ HEADER_ID: number }>(
+    const headerResult = await connection.execute<{ HEADER_ID: number; STATUS: CommentStatus }>(
       headerSql,
       { commentId },
       { outFormat: oracledb.OUT_FORMAT_OBJECT }
     );
 
-    if (!headerResult.rows || headerResult.rows.length === 0) {
+    if (!headerResult.rows || headerResult.rows.length === 0 || headerResult.rows[0].STATUS !== 'visible') {
       throw new Error('해당 댓글을 찾을 수 없습니다.');
     }
 
@@ -688,7 +952,8 @@ export async function getCommentHistory(commentId: number): Promise<Comment[]> {
         HEADER_ID AS "headerId",
         TAIL_ID AS "tailId",
         HASHED_USER_IP AS "hashedUserIP",
-        HASHED_PASSWORD AS "hashedPassword"
+        HASHED_PASSWORD AS "hashedPassword",
+        STATUS AS "status"
       FROM COMMENTS
       WHERE HEADER_ID = :headerId
         AND IS_DELETED = 0
@@ -716,6 +981,7 @@ export async function getCommentHistory(commentId: number): Promise<Comment[]> {
         tailId: row.tailId,
         hashedUserIP: row.hashedUserIP,
         hashedPassword: row.hashedPassword,
+        status: row.status,
       }))
     );
 
@@ -733,3 +999,565 @@ export async function getCommentHistory(commentId: number): Promise<Comment[]> {
     }
   }
 }
+
+/**
+ * 댓글의 스레드 위치 조회
+ * 자신과 모든 상위 댓글의 헤더 행을 PARENT_HEADER_ID로 따라 올라가며 깊이와 공개 여부를 계산합니다.
+ * @param connection DB 연결
+ * @param headerId 체인의 HEADER_ID
+ * @returns 깊이(루트 댓글이 0)와 자신 및 모든 상위 댓글이 공개 상태인지 여부
+ */
+async function getThreadPosition(
+  connection: oracledb.Connection,
+  headerId: number
+): Promise<{ depth: number; visible: boolean }> {
+  const result = await connection.execute<{ DEPTH: number | null; HIDDEN_COUNT: number | null }>(
+    `
+      SELECT 
+        MAX(LEVEL) - 1 AS DEPTH,
+        SUM(CASE WHEN STATUS = 'visible' THEN 0 ELSE 1 END) AS HIDDEN_COUNT
+      FROM COMMENTS
+      START WITH ID = :headerId
+      CONNECT BY NOCYCLE ID = PRIOR PARENT_HEADER_ID
+    `,
+    { headerId },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  const row = result.rows?.[0];
+  return {
+    depth: row?.DEPTH ?? 0,
+    visible: row?.DEPTH !== null && row?.DEPTH !== undefined && row.HIDDEN_COUNT === 0,
+  };
+}
+
+/**
+ * 여러 부모 댓글의 바로 아래 답글(최신 버전) 조회
+ * 정렬은 헤더 댓글의 CREATED_AT 기준 오름차순(원래 입력 순서 유지)
+ */
+async function getDirectReplies(
+  connection: oracledb.Connection,
+  parentHeaderIds: number[]
+): Promise<ChildCommentRow[]> {
+  const rows: ChildCommentRow[] = [];
+  for (let start = 0; start < parentHeaderIds.length; start += REPLY_QUERY_CHUNK_SIZE) {
+    const chunk = parentHeaderIds.slice(start, start + REPLY_QUERY_CHUNK_SIZE);
+    const bindNames = chunk.map((_, idx) => `:id${idx}`).join(', ');
+    //    - c: 답글, p: 헤더 댓글, r: 답글의 답글(최신 버전)
+    const repliesSql = `
+      SELECT 
+        c.ID, 
+        c.PARENT_HEADER_ID AS "parentHeaderId", 
+        c.CONTENT, 
+        c.CREATED_AT, 
+        c.UPDATED_AT, 
+        c.IS_EDITED, 
+        c.IS_DELETED, 
+        c.VERSION, 
+        c.EDITED_COMMENT_ID, 
+        c.HEADER_ID, 
+        c.TAIL_ID, 
+        c.HASHED_USER_IP,
+        (
+          SELECT COUNT(*)
+          FROM COMMENTS r
+          WHERE r.PARENT_HEADER_ID = c.HEADER_ID
+            AND r.ID = r.TAIL_ID
+            AND r.STATUS = 'visible'
+        ) AS REPLY_COUNT
+      FROM COMMENTS c
+      JOIN COMMENTS p ON c.HEADER_ID = p.ID
+      WHERE c.PARENT_HEADER_ID IN (${bindNames})
+        AND c.ID = c.TAIL_ID
+        AND c.STATUS = 'visible'
+      ORDER BY p.CREATED_AT ASC
+    `;
+    const bindParams: { [key: string]: number } = {};
+    chunk.forEach((id, idx) => {
+      bindParams[`id${idx}`] = id;
+    });
+    const result = await connection.execute<ChildCommentRowRaw>(
+      repliesSql,
+      bindParams,
+      { outFormat: oracledb.OUT_FORMAT_OBJECT }
+    );
+    for (const row of result.rows ?? []) {
+      rows.push({
+        ...row,
+        CONTENT: row.CONTENT ? await handleLob(row.CONTENT) : null,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * 답글 트리 조회 (levels 단계까지)
+ * 마지막 단계의 답글 중 하위 답글이 있는 노드는 children을 비워 두어 지연 로딩 대상임을 표시합니다.
+ * @param parentHeaderIds 답글을 조회할 부모 댓글의 HEADER_ID 목록
+ * @param startDepth 첫 단계 답글의 깊이
+ * @param levels 조회할 단계 수
+ * @param loadDirectReplies 여러 부모 댓글의 바로 아래 답글 조회
+ * @returns 부모 HEADER_ID별 답글 목록
+ */
+export async function loadReplyTree(
+  parentHeaderIds: number[],
+  startDepth: number,
+  levels: number,
+  loadDirectReplies: (parentHeaderIds: number[]) => Promise<ChildCommentRow[]>
+): Promise<Map<number, CommentReplyNode[]>> {
+  const repliesByParent = new Map<number, CommentReplyNode[]>();
+  const nodes: CommentReplyNode[] = [];
+
+  let parentIds = parentHeaderIds;
+  for (let level = 0; level < levels && parentIds.length > 0; level++) {
+    const levelNodes: CommentReplyNode[] = (await loadDirectReplies(parentIds))
+      .map((row) => ({ ...row, depth: startDepth + level }));
+    for (const node of levelNodes) {
+      if (node.parentHeaderId === null) {
+        continue;
+      }
+      const siblings = repliesByParent.get(node.parentHeaderId) ?? [];
+      siblings.push(node);
+      repliesByParent.set(node.parentHeaderId, siblings);
+    }
+    nodes.push(...levelNodes);
+    parentIds = levelNodes.filter((node) => node.REPLY_COUNT > 0).map((node) => node.HEADER_ID);
+  }
+
+  for (const node of nodes) {
+    const children = repliesByParent.get(node.HEADER_ID);
+    if (children) {
+      node.children = children;
+    } else if (node.REPLY_COUNT === 0) {
+      node.children = [];
+    }
+  }
+  return repliesByParent;
+}
+
+/**
+ * 댓글 ID로 체인의 HEADER_ID 조회
+ * @returns HEADER_ID (댓글이 없으면 null)
+ */
+async function findHeaderId(connection: oracledb.Connection, commentId: number): Promise<number | null> {
+  const result = await connection.execute<{ HEADER_ID: number }>(
+    `SELECT HEADER_ID FROM COMMENTS WHERE ID = :commentId`,
+    { commentId },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  return result.rows?.[0]?.HEADER_ID ?? null;
+}
+
+/**
+ * 댓글 ID로 체인의 HEADER_ID 조회
+ * @throws Error - 댓글이 없는 경우
+ */
+async function getHeaderId(connection: oracledb.Connection, commentId: number): Promise<number> {
+  const headerId = await findHeaderId(connection, commentId);
+  if (!headerId) {
+    throw new Error('존재하지 않는 댓글입니다.');
+  }
+  return headerId;
+}
+
+/**
+ * 체인 행 (버전 연결 정보)
+ */
+export interface ChainRow {
+  ID: number;
+  EDITED_COMMENT_ID: number | null;
+  TAIL_ID: number | null;
+}
+
+/**
+ * 체인의 행 ID를 HEADER_ID → TAIL_ID 순서로 정렬
+ * EDITED_COMMENT_ID 연결을 따라가며(순환 연결은 한 번만 방문), 연결이 끊어진 행도 뒤에 포함합니다.
+ */
+export function orderChainRowIds(headerId: number, chainRows: ChainRow[]): number[] {
+  const rows = new Map(chainRows.map((row) => [row.ID, row]));
+
+  const ids: number[] = [];
+  let currentId: number | null = headerId;
+  while (currentId !== null && rows.has(currentId) && !ids.includes(currentId)) {
+    ids.push(currentId);
+    currentId = rows.get(currentId)?.EDITED_COMMENT_ID ?? null;
+  }
+
+  const tailId = rows.get(headerId)?.TAIL_ID;
+  if (ids[ids.length - 1] !== tailId || ids.length !== rows.size) {
+    console.warn('[COMMENT SERVICE] 버전 체인이 TAIL_ID까지 이어지지 않습니다:', { headerId, tailId, walked: ids });
+  }
+
+  for (const id of rows.keys()) {
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * 체인의 모든 행 ID를 HEADER_ID → TAIL_ID 순서로 조회
+ */
+async function getChainRowIds(connection: oracledb.Connection, headerId: number): Promise<number[]> {
+  const result = await connection.execute<ChainRow>(
+    `SELECT ID, EDITED_COMMENT_ID, TAIL_ID FROM COMMENTS WHERE HEADER_ID = :headerId`,
+    { headerId },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  return orderChainRowIds(headerId, result.rows ?? []);
+}
+
+/**
+ * 체인과 그 아래 모든 대댓글 체인의 HEADER_ID를 위에서부터 너비 우선으로 수집
+ * 이미 수집한 HEADER_ID는 다시 방문하지 않으므로 잘못된 순환 연결이 있어도 끝납니다.
+ * @param rootHeaderId 시작 체인의 HEADER_ID
+ * @param loadChildHeaderIds 바로 아래 대댓글 체인의 HEADER_ID 조회
+ */
+export async function collectThreadHeaderIds(
+  rootHeaderId: number,
+  loadChildHeaderIds: (headerId: number) => Promise<number[]>
+): Promise<number[]> {
+  const headerIds = [rootHeaderId];
+  for (let i = 0; i < headerIds.length; i++) {
+    for (const childHeaderId of await loadChildHeaderIds(headerIds[i])) {
+      if (!headerIds.includes(childHeaderId)) {
+        headerIds.push(childHeaderId);
+      }
+    }
+  }
+  return headerIds;
+}
+
+/**
+ * 바로 아래 공개 답글 수 조회
+ */
+async function countReplies(connection: oracledb.Connection, headerId: number): Promise<number> {
+  const result = await connection.execute<{ REPLY_COUNT: number }>(
+    `
+      SELECT COUNT(*) AS REPLY_COUNT
+      FROM COMMENTS
+      WHERE PARENT_HEADER_ID = :headerId
+        AND ID = TAIL_ID
+        AND STATUS = 'visible'
+    `,
+    { headerId },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  return result.rows?.[0]?.REPLY_COUNT ?? 0;
+}
+
+/**
+ * 실시간 이벤트로 보낼 체인의 최신 버전 조회
+ * @returns 체인이 없으면 null
+ */
+async function loadEventComment(connection: oracledb.Connection, headerId: number): Promise<CommentResponse | null> {
+  const result = await connection.execute<CommentHistoryRow>(
+    `
+      SELECT 
+        ID AS "id",
+        PARENT_HEADER_ID AS "parentHeaderId",
+        CONTENT AS "content",
+        CREATED_AT AS "createdAt",
+        UPDATED_AT AS "updatedAt",
+        IS_EDITED AS "isEdited",
+        IS_DELETED AS "isDeleted",
+        VERSION AS "version",
+        EDITED_COMMENT_ID AS "editedCommentId",
+        HEADER_ID AS "headerId",
+        TAIL_ID AS "tailId",
+        HASHED_USER_IP AS "hashedUserIP",
+        HASHED_PASSWORD AS "hashedPassword",
+        STATUS AS "status"
+      FROM COMMENTS
+      WHERE HEADER_ID = :headerId
+        AND ID = TAIL_ID
+    `,
+    { headerId },
+    { outFormat: oracledb.OUT_FORMAT_OBJECT }
+  );
+  const row = result.rows?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return toCommentResponse({
+    ...row,
+    content: row.content ? await handleLob(row.content) : null,
+  });
+}
+
+/**
+ * 체인의 최신 버전을 조회해 실시간 이벤트로 발행 (커밋 후 호출)
+ * 이미 커밋된 변경이므로 조회/발행 실패는 로그만 남기고 요청은 성공으로 처리합니다.
+ * @param connection DB 연결
+ * @param type 이벤트 종류
+ * @param headerId 체인의 HEADER_ID
+ * @param extra 응답에 추가할 필드 (created 이벤트의 depth, replyCount, children)
+ */
+async function publishCommentEvent(
+  connection: oracledb.Connection,
+  type: CommentEventType,
+  headerId: number,
+  extra: Partial<CommentResponse> = {}
+): Promise<void> {
+  try {
+    const comment = await loadEventComment(connection, headerId);
+    if (comment) {
+      commentEventHub.publish({ type, comment: { ...comment, ...extra } });
+    }
+  } catch (error) {
+    console.error('[COMMENT SERVICE ERROR] 댓글 이벤트 발행 중 오류:', error);
+  }
+}
+
+/**
+ * 자신과 모든 상위 댓글이 공개 상태인 체인만 실시간 이벤트로 발행 (커밋 후 호출)
+ * 상위 댓글이 숨겨진 답글의 변경은 방문자가 볼 수 없으므로 발행하지 않습니다.
+ */
+async function publishVisibleCommentEvent(
+  connection: oracledb.Connection,
+  type: CommentEventType,
+  headerId: number
+): Promise<void> {
+  try {
+    const position = await getThreadPosition(connection, headerId);
+    if (!position.visible) {
+      return;
+    }
+  } catch (error) {
+    console.error('[COMMENT SERVICE ERROR] 댓글 이벤트 발행 중 오류:', error);
+    return;
+  }
+  await publishCommentEvent(connection, type, headerId);
+}
+
+/**
+ * 모더레이션용 댓글 목록 조회 (관리자 전용, 페이지네이션)
+ * 루트 댓글과 대댓글을 구분하지 않고 각 체인의 최신 버전을 최근 작성 순으로 조회합니다.
+ * @param status 조회할 모더레이션 상태 (null이면 전체)
+ * @param page 페이지 번호 (1부터 시작)
+ * @param limit 페이지당 댓글 개수
+ * @returns 댓글 목록과 총 개수
+ */
+export async function getModerationComments(
+  status: CommentStatus | null,
+  page: number,
+  limit: number
+): Promise<{ comments: ModerationCommentRow[]; totalCount: number }> {
+  let connection: oracledb.Connection | undefined;
+  try {
+    connection = await getConnection();
+
+    const statusFilter = status ? 'AND c.STATUS = :status' : '';
+    const statusBind: { status?: CommentStatus } = status ? { status } : {};
+
+    // 1. 총 개수 조회
+    const countSql = `
+      SELECT COUNT(*) AS TOTAL
+      FROM COMMENTS c
+      WHERE c.ID = c.TAIL_ID
+        ${statusFilter}
+    `;
+    const countResult = await connection.execute<{ TOTAL: number }>(
+      countSql,
+      statusBind,
+      { outFormat: oracledb.OUT_FORMAT_OBJECT }
+    );
+    const totalCount = countResult.rows?.[0]?.TOTAL ?? 0;
+
+    // 2. 최신 버전 댓글 조회 (헤더 댓글의 작성 시간 기준 최근 순)
+    const offset = (page - 1) * limit;
+    const listSql = `
+      SELECT 
+        c.ID, 
+        c.HASHED_USER_IP, 
+        c.CONTENT, 
+        c.CREATED_AT, 
+        c.UPDATED_AT, 
+        c.IS_EDITED, 
+        c.IS_DELETED, 
+        c.VERSION, 
+        c.HEADER_ID, 
+        c.TAIL_ID,
+        c.PARENT_HEADER_ID,
+        c.EDITED_COMMENT_ID,
+        c.STATUS
+      FROM COMMENTS c
+      JOIN COMMENTS p ON c.HEADER_ID = p.ID
+      WHERE c.ID = c.TAIL_ID
+        ${statusFilter}
+      ORDER BY p.CREATED_AT DESC
+      OFFSET :offset ROWS FETCH NEXT :limit ROWS ONLY
+    `;
+    const listResult = await connection.execute<ModerationCommentRowRaw>(
+      listSql,
+      { ...statusBind, offset, limit },
+      { outFormat: oracledb.OUT_FORMAT_OBJECT }
+    );
+    const comments: ModerationCommentRow[] = await Promise.all(
+      (listResult.rows ?? []).map(async (row) => ({
+        ...row,
+        CONTENT: row.CONTENT ? await handleLob(row.CONTENT) : null,
+      }))
+    );
+
+    return { comments, totalCount };
+  } catch (error) {
+    console.error('[COMMENT SERVICE ERROR] 모더레이션 댓글 조회 중 오류:', error);
+    throw error;
+  } finally {
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (closeError) {
+        console.error('[DB ERROR] DB 연결 종료 중 오류:', closeError);
+      }
+    }
+  }
+}
+
+/**
+ * 댓글 체인의 모더레이션 상태 변경 (관리자 전용)
+ * 같은 HEADER_ID를 공유하는 모든 버전의 STATUS를 함께 변경합니다.
+ * 공개되어 있던 스레드를 숨기면 방문자 화면에서도 내용이 사라지도록 deleted 이벤트를 발행합니다.
+ * @param commentId 체인 내의 임의 댓글 ID
+ * @param status 변경할 모더레이션 상태
+ * @returns 체인의 HEADER_ID
+ */
+export async function setCommentStatus(commentId: number, status: CommentStatus): Promise<number> {
+  let connection: oracledb.Connection | undefined;
+  try {
+    connection = await getConnection();
+
+    const headerId = await getHeaderId(connection, commentId);
+    const before = await getThreadPosition(connection, headerId);
+
+    await connection.execute(
+      `UPDATE COMMENTS SET STATUS = :status WHERE HEADER_ID = :headerId`,
+      { status, headerId },
+      { autoCommit: false }
+    );
+
+    // 트랜잭션 커밋
+    await connection.commit();
+
+    // 승인 등으로 새로 공개된 댓글은 방문자에게 새 댓글로 전달
+    if (status === 'visible' && !before.visible) {
+      const after = await getThreadPosition(connection, headerId);
+      if (after.visible) {
+        const replyCount = await countReplies(connection, headerId);
+        await publishCommentEvent(connection, 'created', headerId, {
+          depth: after.depth,
+          replyCount,
+          children: replyCount === 0 ? [] : undefined,
+        });
+      }
+    }
+
+    // 공개되어 있던 댓글을 숨기거나 스팸/승인 대기로 돌리면 내용을 지운 deleted 이벤트로 전달
+    if (status !== 'visible' && before.visible) {
+      await publishCommentEvent(connection, 'deleted', headerId, { content: null, isDeleted: 1 });
+    }
+
+    return headerId;
+  } catch (error) {
+    if (connection) {
+      try {
+        await connection.rollback();
+      } catch (rollbackError) {
+        console.error('[DB ERROR] 롤백 중 오류:', rollbackError);
+      }
+    }
+    console.error('[COMMENT SERVICE ERROR] 댓글 상태 변경 중 오류:', error);
+    throw error;
+  } finally {
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (closeError) {
+        console.error('[DB ERROR] DB 연결 종료 중 오류:', closeError);
+      }
+    }
+  }
+}
+
+/**
+ * 댓글 체인 영구 삭제 (관리자 전용)
+ * 체인의 모든 버전과 그 아래 대댓글 체인까지 DB에서 삭제하며, 되돌릴 수 없습니다.
+ * 대댓글 체인부터, 각 체인은 HEADER_ID에서 TAIL_ID 방향으로 삭제합니다.
+ * 방문자에게 보이던 체인은 커밋 후 deleted 이벤트를 발행합니다.
+ * @param commentId 체인 내의 임의 댓글 ID
+ * @returns 삭제된 체인과 행 수
+ */
+export async function purgeComment(commentId: number): Promise<CommentPurgeResult> {
+  let connection: oracledb.Connection | undefined;
+  try {
+    connection = await getConnection();
+
+    // 1) 삭제할 체인의 HEADER_ID 수집 (대댓글 체인 포함)
+    const db = connection;
+    const headerIds = await collectThreadHeaderIds(await getHeaderId(db, commentId), async (headerId) => {
+      const childResult = await db.execute<{ HEADER_ID: number }>(
+        `SELECT DISTINCT HEADER_ID FROM COMMENTS WHERE PARENT_HEADER_ID = :headerId`,
+        { headerId },
+        { outFormat: oracledb.OUT_FORMAT_OBJECT }
+      );
+      return (childResult.rows ?? []).map((child) => child.HEADER_ID);
+    });
+
+    // 2) 방문자에게 보이던 체인은 삭제 전에 최신 버전을 보관 (커밋 후 deleted 이벤트로 전달)
+    const removedComments: CommentResponse[] = [];
+    for (const headerId of headerIds) {
+      if ((await getThreadPosition(connection, headerId)).visible) {
+        const comment = await loadEventComment(connection, headerId);
+        if (comment) {
+          removedComments.push(comment);
+        }
+      }
+    }
+
+    // 3) 가장 깊은 대댓글 체인부터 버전 순서대로 삭제
+    let deletedRows = 0;
+    for (const headerId of [...headerIds].reverse()) {
+      const rowIds = await getChainRowIds(connection, headerId);
+      if (rowIds.length === 0) {
+        continue;
+      }
+      const deleteResult = await connection.executeMany(
+        `DELETE FROM COMMENTS WHERE ID = :id`,
+        rowIds.map((id) => ({ id })),
+        { autoCommit: false }
+      );
+      deletedRows += deleteResult.rowsAffected ?? 0;
+    }
+
+    // 트랜잭션 커밋
+    await connection.commit();
+
+    // 영구 삭제된 공개 댓글은 내용을 지운 deleted 이벤트로 전달
+    for (const comment of removedComments) {
+      commentEventHub.publish({ type: 'deleted', comment: { ...comment, content: null, isDeleted: 1 } });
+    }
+
+    return { headerIds, deletedRows };
+  } catch (error) {
+    if (connection) {
+      try {
+        await connection.rollback();
+      } catch (rollbackError) {
+        console.error('[DB ERROR] 롤백 중 오류:', rollbackError);
+      }
+    }
+    console.error('[COMMENT SERVICE ERROR] 댓글 영구 삭제 중 오류:', error);
+    throw error;
+  } finally {
+    if (connection) {
+      try {
+        await connection.close();
+      } catch (closeError) {
+        console.error('[DB ERROR] DB 연결 종료 중 오류:', closeError);
+      }
+    }
+  }
+}
@@ -3,18 +3,89 @@
  * 콜라보레이션 세션의 룸 정보를 나타냅니다.
  */
 
+import type { RoomEvent, SignalingCounts } from '@/app/services/collaboration/roomEventLog';
+import type { ChatMessage, IceServer, JoinRole, RoomStateSnapshot } from '@/app/utils/collaboration/signalingProtocol';
+
+/**
+ * 룸 조인 방식
+ * - open: 조인 허용 시간 동안 바로 입장
+ * - lobby: 조인 요청을 대기열에 올리고 호스트가 승인/거절
+ */
+export type RoomJoinMode = 'open' | 'lobby';
+
+/**
+ * 호스트 승인 대기 중인 조인 요청
+ */
+export interface PendingJoinRequest {
+  /** 참가자 UUID */
+  participantId: string;
+
+  /** 조인 역할 (참가자 또는 관전자) */
+  role: JoinRole;
+
+  /** 요청 시간 (timestamp) */
+  requestedAt: number;
+
+  /** 요청 만료 시간 (timestamp) */
+  expiresAt: number;
+}
+
+/**
+ * 연결이 끊겨 세션 재개를 기다리는 참가자
+ */
+export interface ReconnectingParticipant {
+  /** 참가자 UUID */
+  participantId: string;
+
+  /** 연결이 끊긴 시간 (timestamp) */
+  disconnectedAt: number;
+
+  /** 세션 재개 가능 만료 시간 (timestamp) */
+  expiresAt: number;
+}
+
+/**
+ * 호스트 단위 차단 정보
+ * 강퇴 시 기록되며, 만료 전까지 같은 호스트가 만드는 모든 룸에 적용됩니다.
+ */
+export interface HostBan {
+  /** 차단 ID */
+  banId: string;
+
+  /** 차단한 호스트 UUID */
+  hostId: string;
+
+  /** 차단된 참가자 UUID */
+  participantId: string;
+
+  /** 차단된 해싱된 IP (IP 차단을 선택하지 않았거나 알 수 없으면 null) */
+  ipHash: string | null;
+
+  /** 차단 시간 (timestamp) */
+  bannedAt: number;
+
+  /** 차단 만료 시간 (timestamp) */
+  expiresAt: number;
+}
+
 export interface Room {
-  /** 서버가 생성한 4자리 숫자 (0000-9999) */
+  /** 서버가 생성한 룸 코드 (ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH 설정, 기본값: 6자리 Crockford base32) */
   roomCode: string;
   
   /** 호스트 UUID */
   hostId: string;
+
+  /** 룸을 생성한 호스트의 해싱된 IP (IP별 룸 수 제한용, 알 수 없으면 null) */
+  hostIpHash: string | null;
   
   /** 생성 시간 (timestamp) */
   createdAt: number;
   
-  /** 만료 시간 (6시간 후, timestamp) */
+  /** 만료 시간 (생성 시 선택한 수명, 연장 시 늘어남, timestamp) */
   expiresAt: number;
+
+  /** 연장 가능한 최대 만료 시간 (timestamp) */
+  maxExpiresAt: number;
   
   /** 조인 허용 여부 */
   allowJoin: boolean;
@@ -24,12 +95,36 @@ export interface Room {
   
   /** 참가자 ID 목록 */
   participants: string[];
+
+  /** 관전자 ID 목록 (읽기 전용, maxParticipants에 포함되지 않음) */
+  spectators: string[];
   
   /** 강퇴된 참가자 (participantId -> roomCreatedAt) */
   kickedParticipants: Map<string, number>;
+
+  /** 조인 방식 (기본값: open) */
+  joinMode: RoomJoinMode;
+
+  /** 호스트 승인 대기 중인 조인 요청 (lobby 모드) */
+  pendingJoinRequests: PendingJoinRequest[];
+
+  /** 연결이 끊겨 재개를 기다리는 참가자 (participants 슬롯 유지) */
+  reconnectingParticipants: ReconnectingParticipant[];
+
+  /** 호스트 연결이 끊긴 시간 (재연결 유예 중, timestamp, 연결 중이면 null) */
+  hostDisconnectedAt: number | null;
+
+  /** 호스트가 업로드한 최신 룸 상태 (늦게 들어온 참가자에게 전달, 룸과 함께 만료) */
+  stateSnapshot: RoomStateSnapshot | null;
+
+  /** 최근 채팅 메시지 (ROOM_CHAT_BACKLOG_SIZE개까지, 늦게 들어온 참가자에게 전달) */
+  chatMessages: ChatMessage[];
   
-  /** 최대 참가자 수 (기본값: 4) */
+  /** 최대 참가자 수 (기본값: ROOM_MAX_PARTICIPANTS_DEFAULT) */
   maxParticipants: number;
+
+  /** 최대 관전자 수 (ROOM_MAX_SPECTATORS) */
+  maxSpectators: number;
 }
 
 export interface HostInfo {
@@ -45,22 +140,72 @@ export interface HostInfo {
  */
 export interface CreateRoomRequest {
   hostId: string;
+  joinMode?: RoomJoinMode;
+
+  /** 룸 수명 (분 단위, ROOM_TTL_MIN_MINUTES ~ ROOM_TTL_MAX_MINUTES) */
+  ttlMinutes?: number;
+
+  /** 최대 참가자 수 (1 ~ ROOM_MAX_PARTICIPANTS_LIMIT) */
+  maxParticipants?: number;
+}
+
+/**
+ * 룸 생성 응답 데이터
+ */
+export interface CreateRoomResponse {
+  success: boolean;
+  roomCode: string;
+  hostId: string;
+  expiresAt: number;
+  /** 연장 가능한 최대 만료 시간 */
+  maxExpiresAt: number;
+  maxParticipants: number;
+  allowJoin: boolean;
+  joinMode: RoomJoinMode;
+  createdAt: number;
+  /** 호스트 전용 서명 토큰 (kick, allow-join, 룸 삭제, WebSocket register에 사용) */
+  hostToken: string;
+  /** 참가자 서명 토큰 (WebSocket join에 사용, 호스트가 초대 시 공유) */
+  participantToken: string;
+  /** 관전자 서명 토큰 (관전자로만 join 가능, 호스트가 관전 링크로 공유) */
+  spectatorToken: string;
 }
 
 /**
  * 룸 조회 응답 데이터
  */
+/**
+ * 서버 릴레이로 데이터를 주고받는 참가자 쌍 (WebRTC 연결 실패로 WebSocket 릴레이 사용 중)
+ */
+export interface RelayedPair {
+  /** 발신자 ID */
+  from: string;
+
+  /** 수신자 ID */
+  to: string;
+
+  /** 릴레이된 메시지 수 */
+  messageCount: number;
+
+  /** 마지막 릴레이 시간 (timestamp) */
+  lastRelayedAt: number;
+}
+
 export interface RoomInfo {
   success: boolean;
   roomCode: string;
-  hostId: string;
   status: 'active' | 'expired' | 'inactive' | 'full';
   allowJoin: boolean;
   allowJoinExpiresAt: number | null;
+  joinMode: RoomJoinMode;
   participantCount: number;
   maxParticipants: number;
+  spectatorCount: number;
+  maxSpectators: number;
   createdAt: number;
   expiresAt: number;
+  maxExpiresAt: number;
+  relayedPairs: RelayedPair[];
   error?: string;
   roomCreatedAt?: number;
 }
@@ -82,11 +227,29 @@ export interface AllowJoinResponse {
   error?: string;
 }
 
+/**
+ * 룸 수명 연장 요청 데이터
+ */
+export interface ExtendRoomRequest {
+  minutes: number; // 분 단위 (1 ~ ROOM_EXTEND_MAX_MINUTES)
+}
+
+/**
+ * 룸 수명 연장 응답 데이터
+ */
+export interface ExtendRoomResponse {
+  success: boolean;
+  expiresAt: number;
+  maxExpiresAt: number;
+  error?: string;
+}
+
 /**
  * 참가자 강퇴 요청 데이터
  */
 export interface KickParticipantRequest {
   participantId: string;
+  banIp?: boolean; // 참가자의 해싱된 IP도 함께 차단 (기본값: false)
 }
 
 /**
@@ -95,6 +258,139 @@ export interface KickParticipantRequest {
 export interface KickParticipantResponse {
   success: boolean;
   message: string;
+  ban: RoomBanInfo | null; // 호스트 단위 차단 정보 (차단 기능이 꺼져 있으면 null)
   error?: string;
 }
 
+/**
+ * 차단 목록 항목 (호스트에게 해싱된 IP는 노출하지 않음)
+ */
+export interface RoomBanInfo {
+  banId: string;
+  participantId: string;
+  ipBanned: boolean;
+  bannedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 차단 목록 조회 응답 데이터
+ */
+export interface RoomBansResponse {
+  success: boolean;
+  bans: RoomBanInfo[];
+  error?: string;
+}
+
+/**
+ * 차단 해제 응답 데이터
+ */
+export interface LiftBanResponse {
+  success: boolean;
+  banId: string;
+  participantId: string;
+  error?: string;
+}
+
+/**
+ * 조인 요청 승인/거절 요청 데이터
+ */
+export interface JoinRequestDecisionRequest {
+  participantId: string;
+  approve: boolean;
+}
+
+/**
+ * 조인 요청 승인/거절 응답 데이터
+ */
+export interface JoinRequestDecisionResponse {
+  success: boolean;
+  participantId: string;
+  approved: boolean;
+  error?: string;
+}
+
+export interface IceServersResponse {
+  success: boolean;
+  iceServers: IceServer[];
+  expiresAt: number; // TURN 인증 정보 만료 시간 (timestamp)
+  error?: string;
+}
+
+export interface UpdateRoomStateRequest {
+  version: number;
+  state: unknown;
+}
+
+export interface RoomStateResponse {
+  success: boolean;
+  roomCode: string;
+  stateSnapshot: RoomStateSnapshot | null;
+  error?: string;
+}
+
+/**
+ * 관리자용 클라이언트 WebSocket 연결 정보
+ */
+export interface AdminClientConnection {
+  clientId: string;
+  role: 'host' | JoinRole | null;
+  isOpen: boolean;
+  readyState: number; // 0: CONNECTING, 1: OPEN, 2: CLOSING, 3: CLOSED
+  rttMs: number | null; // 마지막 ping/pong 왕복 시간 (ms, 아직 측정 전이면 null)
+  lastPongAt: number | null;
+}
+
+/**
+ * 관리자용 룸 상세 정보
+ */
+export interface AdminRoomSummary {
+  roomCode: string;
+  hostId: string;
+  hostDisconnectedAt: number | null;
+  createdAt: number;
+  expiresAt: number;
+  maxExpiresAt: number;
+  minutesLeft: number;
+  allowJoin: boolean;
+  allowJoinExpiresAt: number | null;
+  joinMode: RoomJoinMode;
+  pendingJoinRequests: PendingJoinRequest[];
+  reconnectingParticipants: ReconnectingParticipant[];
+  relayedPairs: RelayedPair[];
+  stateSnapshot: { version: number; size: number; updatedAt: number } | null;
+  participantCount: number;
+  participants: string[];
+  maxParticipants: number;
+  spectatorCount: number;
+  spectators: string[];
+  maxSpectators: number;
+  connectedClients: number;
+  connectedClientIds: string[];
+  clientConnections: AdminClientConnection[];
+}
+
+/**
+ * 관리자용 전체 룸 조회 응답
+ */
+export interface AdminRoomsResponse {
+  success: boolean;
+  totalRooms: number;
+  rooms: AdminRoomSummary[];
+  timestamp: number; // 서버 기준 현재 시간 (남은 시간 계산용)
+  error?: string;
+}
+
+/**
+ * 룸 이벤트 로그 응답
+ */
+export interface RoomEventsResponse {
+  success: boolean;
+  roomCode: string;
+  events: RoomEvent[];
+  signalingCounts: SignalingCounts;
+
+  /** 룸이 삭제된 시간 (활성 룸이면 null) */
+  closedAt: number | null;
+  error?: string;
+}
@@ -1,3 +1,24 @@
+/**
+ * 댓글 모더레이션 상태
+ * - visible: 공개 (기본값)
+ * - pending: 승인 대기 (COMMENTS_REQUIRE_APPROVAL=true일 때 새 댓글)
+ * - hidden: 관리자가 숨김
+ * - spam: 관리자가 스팸으로 분류
+ */
+export type CommentStatus = 'visible' | 'pending' | 'hidden' | 'spam';
+
+export const COMMENT_STATUSES: readonly CommentStatus[] = ['visible', 'pending', 'hidden', 'spam'];
+
+/**
+ * 댓글 목록 정렬 기준
+ * - newest: 최근 작성 순 (기본값)
+ * - oldest: 오래된 순
+ * - most_replies: 답글 많은 순 (같으면 최근 작성 순)
+ */
+export type CommentSort = 'newest' | 'oldest' | 'most_replies';
+
+export const COMMENT_SORTS: readonly CommentSort[] = ['newest', 'oldest', 'most_replies'];
+
 /**
  * Comment 타입 정의
  */
@@ -15,6 +36,7 @@ export interface Comment {
   editedCommentId: number | null;  // 이전 버전 댓글 ID
   headerId: number;           // 체인의 헤더 ID
   tailId: number;             // 체인의 테일 ID
+  status: CommentStatus;      // 모더레이션 상태 (체인 전체가 같은 값을 가짐)
 }
 
 /**
@@ -34,6 +56,89 @@ export interface CommentResponse {
   headerId: number;
   tailId: number;
   hashedUser: string;  // hashedUserIP를 hashedUser로 매핑
-  children?: CommentResponse[];  // GET /api/comments 응답에만 포함
+  status?: CommentStatus;  // 관리자 API 응답에만 포함
+  depth?: number;       // 스레드 깊이 (루트 댓글이 0), 목록/답글 API 응답에만 포함
+  replyCount?: number;  // 바로 아래 답글 수, 목록/답글 API 응답에만 포함
+  children?: CommentResponse[];  // 목록/답글 API 응답에만 포함 (없으면 답글을 /api/comments/:id/replies로 조회)
+}
+
+/**
+ * 댓글 목록 응답 (GET /api/comments)
+ * cursor를 사용한 요청에는 page가 없으며, count=false이면 totalCount는 null
+ */
+export interface CommentListResponse {
+  page?: number;
+  limit: number;
+  sort: CommentSort;
+  totalCount: number | null;
+  nextCursor: string | null;  // 다음 목록 조회용 커서 (마지막이면 null)
+  maxDepth: number;           // 답글 최대 깊이 (0이면 제한 없음)
+  data: CommentResponse[];
 }
 
+/**
+ * 답글 트리 응답 (GET /api/comments/:id/replies)
+ */
+export interface CommentRepliesResponse {
+  headerId: number;   // 답글을 조회한 댓글의 HEADER_ID
+  depth: number;      // 답글을 조회한 댓글의 깊이
+  replyCount: number;
+  maxDepth: number;
+  data: CommentResponse[];
+}
+
+/**
+ * 댓글 실시간 이벤트 종류 (GET /api/comments/stream의 SSE event 이름)
+ * - created: 공개된 새 댓글 (승인 대기 댓글은 관리자가 승인할 때 전송)
+ * - edited: 공개된 댓글의 새 버전
+ * - deleted: 삭제 상태로 바뀌었거나 관리자가 숨긴 댓글 (content가 null)
+ */
+export type CommentEventType = 'created' | 'edited' | 'deleted';
+
+export const COMMENT_EVENT_TYPES: readonly CommentEventType[] = ['created', 'edited', 'deleted'];
+
+/**
+ * 댓글 실시간 이벤트
+ * created 이벤트의 comment에는 depth, replyCount, children이 포함됩니다.
+ */
+export interface CommentEvent {
+  type: CommentEventType;
+  comment: CommentResponse;
+}
+
+/**
+ * 댓글 필터 거부 사유 코드
+ * - BLOCKED_WORD: 금지어 포함
+ * - BLOCKED_PATTERN: 금지 정규식 패턴과 일치
+ * - TOO_MANY_LINKS: 링크 수 제한 초과
+ * - DUPLICATE_CONTENT: 같은 사용자가 최근에 같은 내용을 작성
+ * - RATE_LIMITED: 작성 빈도 제한 초과
+ */
+export type CommentRejectionCode =
+  | 'BLOCKED_WORD'
+  | 'BLOCKED_PATTERN'
+  | 'TOO_MANY_LINKS'
+  | 'DUPLICATE_CONTENT'
+  | 'RATE_LIMITED';
+
+/**
+ * 댓글 작성/수정 거부 응답 (POST /api/comments, PUT /api/comments/:id)
+ */
+export interface CommentRejectionResponse {
+  error: string;
+  code: CommentRejectionCode;
+  retryAfterMs?: number;  // RATE_LIMITED, DUPLICATE_CONTENT일 때 다시 작성할 수 있을 때까지 남은 시간
+}
+
+/**
+ * 필터에 차단된 댓글 기록 (관리자 조회용)
+ */
+export interface BlockedComment {
+  id: number;                     // 차단 기록 순번 (프로세스 재시작 시 초기화)
+  code: CommentRejectionCode;
+  detail: string | null;          // 일치한 금지어/패턴, 링크 수 등
+  hashedUser: string;
+  parentHeaderId: number | null;
+  content: string;
+  blockedAt: string;              // ISO 8601 문자열
+}
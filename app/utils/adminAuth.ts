@@ -0,0 +1,212 @@
+/**
+ * 관리자 인증 유틸리티
+ * 관리자 비밀번호(환경변수 ADMIN_PASSWORD_HASH, /api/auth/verify-password와 같은 PEPPER와 규칙 사용)를 확인한 뒤
+ * 짧은 수명의 서명된 관리자 세션 토큰을 발급하고, 관리자 API는 X-Admin-Session 헤더의 토큰을 검증합니다.
+ *
+ * - ADMIN_SESSION_SECRET: 세션 토큰 서명 키 (없으면 프로세스마다 랜덤 생성, 다중 인스턴스 환경에서는 설정 필요)
+ * - ADMIN_SESSION_TTL_MINUTES: 세션 토큰 유효 시간 (기본값: 30분)
+ * - ADMIN_LOGIN_MAX_FAILURES: IP별 비밀번호 시도 허용 횟수 (기본값: 5)
+ * - ADMIN_LOGIN_MAX_GLOBAL_FAILURES: 서버 전체 비밀번호 시도가 이 수를 넘으면 시도마다 응답을 늦춤 (기본값: 50)
+ * - ADMIN_LOGIN_GLOBAL_DELAY_MS: 서버 전체 시도가 많을 때 비밀번호 확인 전 대기 시간 (기본값: 1000ms)
+ * - ADMIN_LOGIN_WINDOW_SECONDS: 시도 횟수 집계 구간 (기본값: 900초)
+ */
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { comparePassword } from './passwordUtils';
+
+export const ADMIN_SESSION_HEADER = 'x-admin-session';
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+const ADMIN_SESSION_TTL_MS = readPositiveInt('ADMIN_SESSION_TTL_MINUTES', 30) * 60 * 1000;
+const ADMIN_LOGIN_MAX_FAILURES = readPositiveInt('ADMIN_LOGIN_MAX_FAILURES', 5);
+const ADMIN_LOGIN_MAX_GLOBAL_FAILURES = readPositiveInt('ADMIN_LOGIN_MAX_GLOBAL_FAILURES', 50);
+const ADMIN_LOGIN_WINDOW_MS = readPositiveInt('ADMIN_LOGIN_WINDOW_SECONDS', 900) * 1000;
+const ADMIN_LOGIN_GLOBAL_DELAY_MS = readPositiveInt('ADMIN_LOGIN_GLOBAL_DELAY_MS', 1000);
+
+// 전체 시도 집계 키 (IP를 바꿔 가며 시도하는 경우 대비)
+//   전체 집계로는 거부하지 않고 응답만 늦춰, 누구나 관리자를 잠글 수 없도록 함
+const GLOBAL_THROTTLE_KEY = '*';
+
+// 집계 중인 키가 이 수를 넘으면 집계 구간이 지난 키를 정리
+const THROTTLE_SWEEP_THRESHOLD = 10000;
+
+/**
+ * 관리자 비밀번호 확인 결과
+ * retryAfterMs가 있으면 시도 횟수 제한으로 비밀번호를 확인하지 않은 것입니다.
+ */
+export interface AdminPasswordCheck {
+  valid: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * 관리자 세션 토큰
+ */
+export interface AdminSession {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * 관리자 로그인 시도 횟수 제한
+ * 비밀번호 비교 전에 시도를 먼저 기록하므로 동시에 보낸 요청도 제한을 넘지 못하며, 성공하면 해당 키의 기록을 지웁니다.
+ * 키(IP)별 제한을 넘으면 거부하고, 서버 전체 시도가 많을 때는 거부하지 않고 대기 시간만 요구합니다.
+ */
+export class AdminLoginThrottle {
+  private attempts = new Map<string, number[]>(); // key -> 시도 시간 목록
+
+  constructor(
+    private readonly maxAttempts: number,
+    private readonly maxGlobalFailures: number,
+    private readonly windowMs: number,
+    private readonly globalDelayMs: number = ADMIN_LOGIN_GLOBAL_DELAY_MS
+  ) {}
+
+  /**
+   * 시도 기록
+   * @returns 키별 제한을 넘었으면 다시 시도할 수 있을 때까지 남은 시간, 아니면 null
+   */
+  acquire(key: string, now: number = Date.now()): number | null {
+    if (this.attempts.size > THROTTLE_SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+    const keyAttempts = this.getRecent(key, now);
+    const globalAttempts = this.getRecent(GLOBAL_THROTTLE_KEY, now);
+
+    if (keyAttempts.length >= this.maxAttempts) {
+      return keyAttempts[0] + this.windowMs - now;
+    }
+
+    keyAttempts.push(now);
+    globalAttempts.push(now);
+    this.attempts.set(key, keyAttempts);
+    this.attempts.set(GLOBAL_THROTTLE_KEY, globalAttempts);
+    return null;
+  }
+
+  /**
+   * 비밀번호 확인 전 대기 시간 (서버 전체 시도가 maxGlobalFailures를 넘었을 때만)
+   */
+  getGlobalDelayMs(now: number = Date.now()): number {
+    return this.getRecent(GLOBAL_THROTTLE_KEY, now).length > this.maxGlobalFailures ? this.globalDelayMs : 0;
+  }
+
+  /**
+   * 성공한 시도 처리 (해당 키의 기록을 지우고, 전체 집계에서는 이번 시도만 제외)
+   */
+  release(key: string): void {
+    this.attempts.delete(key);
+    this.attempts.get(GLOBAL_THROTTLE_KEY)?.pop();
+  }
+
+  private getRecent(key: string, now: number): number[] {
+    return (this.attempts.get(key) ?? []).filter((at) => now - at < this.windowMs);
+  }
+
+  private sweep(now: number): void {
+    for (const key of Array.from(this.attempts.keys())) {
+      if (this.getRecent(key, now).length === 0) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+}
+
+// 전역 변수로 시도 횟수와 랜덤 서명 키 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __adminLoginThrottle: AdminLoginThrottle | undefined;
+  var __adminSessionSecret: string | undefined;
+}
+
+const adminLoginThrottle = globalThis.__adminLoginThrottle
+  || new AdminLoginThrottle(ADMIN_LOGIN_MAX_FAILURES, ADMIN_LOGIN_MAX_GLOBAL_FAILURES, ADMIN_LOGIN_WINDOW_MS);
+globalThis.__adminLoginThrottle = adminLoginThrottle;
+
+const ADMIN_SESSION_SECRET = process.env.ADMIN_SESSION_SECRET
+  || globalThis.__adminSessionSecret
+  || (globalThis.__adminSessionSecret = crypto.randomBytes(32).toString('hex'));
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', ADMIN_SESSION_SECRET).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * 관리자 비밀번호 확인
+ * 입력값은 /api/auth/verify-password와 같이 앞뒤 공백을 제거한 뒤 비교합니다.
+ * ADMIN_PASSWORD_HASH가 설정되지 않았으면 항상 실패합니다.
+ *
+ * @param password - 입력한 비밀번호
+ * @param clientKey - 시도 횟수를 집계할 클라이언트 키 (해싱된 IP)
+ */
+export async function verifyAdminPassword(password: string, clientKey: string): Promise<AdminPasswordCheck> {
+  const storedPasswordHash = process.env.ADMIN_PASSWORD_HASH?.trim();
+  const input = password.trim();
+  if (!input || !storedPasswordHash) {
+    return { valid: false };
+  }
+
+  const retryAfterMs = adminLoginThrottle.acquire(clientKey);
+  if (retryAfterMs !== null) {
+    return { valid: false, retryAfterMs };
+  }
+
+  // IP를 바꿔 가며 시도하는 경우 올바른 비밀번호도 거부하지 않고 확인만 늦춤
+  const delayMs = adminLoginThrottle.getGlobalDelayMs();
+  if (delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  const valid = await comparePassword(input, storedPasswordHash);
+  if (valid) {
+    adminLoginThrottle.release(clientKey);
+  }
+  return { valid };
+}
+
+/**
+ * 관리자 세션 토큰 발급
+ * 토큰 형식: base64url(payload JSON).base64url(HMAC-SHA256 서명)
+ */
+export function createAdminSession(now: number = Date.now()): AdminSession {
+  const expiresAt = now + ADMIN_SESSION_TTL_MS;
+  const encodedPayload = Buffer.from(JSON.stringify({ role: 'admin', exp: expiresAt })).toString('base64url');
+  return { token: `${encodedPayload}.${sign(encodedPayload)}`, expiresAt };
+}
+
+/**
+ * 관리자 세션 토큰 검증
+ */
+export function verifyAdminSession(token: string | null | undefined): boolean {
+  if (!token || typeof token !== 'string') {
+    return false;
+  }
+
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    return payload.role === 'admin' && typeof payload.exp === 'number' && Date.now() <= payload.exp;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 관리자 요청인지 확인 (X-Admin-Session 헤더의 세션 토큰 검증)
+ */
+export async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  return verifyAdminSession(request.headers.get(ADMIN_SESSION_HEADER));
+}
@@ -27,22 +27,40 @@ export enum ErrorCode {
   INVALID_HOST_ID = 'INVALID_HOST_ID',
   INVALID_PARTICIPANT_ID = 'INVALID_PARTICIPANT_ID',
   INVALID_DURATION = 'INVALID_DURATION',
+  INVALID_MESSAGE = 'INVALID_MESSAGE',
+  UNSUPPORTED_PROTOCOL_VERSION = 'UNSUPPORTED_PROTOCOL_VERSION',
   
   // 403 Forbidden
   UNAUTHORIZED = 'UNAUTHORIZED',
   KICKED = 'KICKED',
+  JOIN_NOT_ALLOWED = 'JOIN_NOT_ALLOWED',
+  JOIN_DENIED = 'JOIN_DENIED',
   
   // 404 Not Found
   ROOM_NOT_FOUND = 'ROOM_NOT_FOUND',
   PARTICIPANT_NOT_FOUND = 'PARTICIPANT_NOT_FOUND',
+  JOIN_REQUEST_EXPIRED = 'JOIN_REQUEST_EXPIRED',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  BAN_NOT_FOUND = 'BAN_NOT_FOUND',
   
   // 409 Conflict
   ROOM_FULL = 'ROOM_FULL',
   NO_AVAILABLE_ROOM_CODES = 'NO_AVAILABLE_ROOM_CODES',
+  STATE_VERSION_CONFLICT = 'STATE_VERSION_CONFLICT',
+  ROOM_LIFETIME_LIMIT_REACHED = 'ROOM_LIFETIME_LIMIT_REACHED',
+  HOST_ROOM_EXISTS = 'HOST_ROOM_EXISTS',
+  
+  // 413 Payload Too Large
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  
+  // 429 Too Many Requests
+  RATE_LIMITED = 'RATE_LIMITED',
+  HOST_ROOM_LIMIT_EXCEEDED = 'HOST_ROOM_LIMIT_EXCEEDED',
   
   // 500 Internal Server Error
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  ROOM_LIMIT_EXCEEDED = 'ROOM_LIMIT_EXCEEDED',
 }
 
 /**
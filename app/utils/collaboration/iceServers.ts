@@ -0,0 +1,65 @@
+/**
+ * ICE 서버 설정 유틸리티
+ * 설정된 STUN 서버와 TURN REST API 방식(공유 비밀 키 HMAC)의 기한이 있는 TURN 인증 정보를 발급합니다.
+ *
+ * - ICE_STUN_URLS: STUN 서버 URL 목록 (쉼표 구분, 기본값: stun:stun.l.google.com:19302)
+ * - TURN_URLS: TURN 서버 URL 목록 (쉼표 구분, 없으면 TURN 서버 미포함)
+ * - TURN_SHARED_SECRET: TURN 서버(coturn의 static-auth-secret)와 공유하는 비밀 키
+ * - TURN_CREDENTIAL_TTL_SECONDS: TURN 인증 정보 유효 시간 (기본값: 3600초, 룸 만료 시간을 넘지 않음)
+ *
+ * TURN 인증 정보 형식 (TURN REST API 초안)
+ * - username: "<만료 시간(unix 초)>:<룸 코드>:<clientId>"
+ * - credential: base64(HMAC-SHA1(TURN_SHARED_SECRET, username))
+ */
+import crypto from 'crypto';
+import type { Room } from '@/app/types/collaboration/room';
+import type { IceServer } from './signalingProtocol';
+
+const DEFAULT_STUN_URLS = 'stun:stun.l.google.com:19302';
+
+function parseUrlList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
+
+const STUN_URLS = parseUrlList(process.env.ICE_STUN_URLS ?? DEFAULT_STUN_URLS);
+const TURN_URLS = parseUrlList(process.env.TURN_URLS);
+const TURN_SHARED_SECRET = process.env.TURN_SHARED_SECRET || '';
+const TURN_CREDENTIAL_TTL_MS = (parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS || '', 10) || 3600) * 1000;
+
+/**
+ * TURN 인증 정보 생성
+ */
+export function createTurnCredential(username: string, secret: string = TURN_SHARED_SECRET): string {
+  return crypto.createHmac('sha1', secret).update(username).digest('base64');
+}
+
+/**
+ * 룸 참가자에게 전달할 ICE 서버 목록 생성
+ *
+ * @param room - 참가 중인 룸
+ * @param clientId - 요청한 클라이언트 ID (호스트 또는 참가자)
+ * @returns ICE 서버 목록과 TURN 인증 정보 만료 시간 (timestamp)
+ */
+export function getIceServers(room: Room, clientId: string): { iceServers: IceServer[]; expiresAt: number } {
+  const expiresAt = Math.min(Date.now() + TURN_CREDENTIAL_TTL_MS, room.expiresAt);
+  const iceServers: IceServer[] = [];
+
+  if (STUN_URLS.length > 0) {
+    iceServers.push({ urls: STUN_URLS });
+  }
+
+  // 공유 비밀 키가 없으면 인증 정보를 만들 수 없으므로 TURN 서버는 제외
+  if (TURN_URLS.length > 0 && TURN_SHARED_SECRET) {
+    const username = `${Math.floor(expiresAt / 1000)}:${room.roomCode}:${clientId}`;
+    iceServers.push({
+      urls: TURN_URLS,
+      username,
+      credential: createTurnCredential(username)
+    });
+  }
+
+  return { iceServers, expiresAt };
+}
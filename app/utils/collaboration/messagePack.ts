@@ -0,0 +1,293 @@
+/**
+ * MessagePack 인코더/디코더
+ * 시그널링 메시지를 바이너리 프레임으로 주고받을 때 사용하는 최소 구현입니다.
+ * (nil, boolean, 정수/실수, 문자열, 바이너리, 배열, 맵 지원, 확장 타입 미지원)
+ *
+ * signalingProtocol과 마찬가지로 시퀀서 클라이언트에서도 쓸 수 있도록 Node 전용 모듈에 의존하지 않습니다.
+ * 객체의 undefined 필드는 JSON.stringify와 같이 생략합니다.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * 크기가 늘어나는 바이트 버퍼
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: number): void {
+    this.ensure(8);
+    this.view.setBigUint64(this.length, BigInt(value));
+    this.length += 8;
+  }
+
+  i64(value: number): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.length, BigInt(value));
+    this.length += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function encodeNumber(writer: ByteWriter, value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    // 실수, NaN, Infinity, 안전 범위를 넘는 정수는 float64
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(value);
+    }
+  } else if (value >= -0x20) {
+    writer.u8(value & 0xff);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.u8(value & 0xff);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.u16(value & 0xffff);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.u32(value >>> 0);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(value);
+  }
+}
+
+function encodeHeader(writer: ByteWriter, length: number, fix: { prefix: number; max: number } | null, codes: [number, number, number]): void {
+  if (fix && length <= fix.max) {
+    writer.u8(fix.prefix | length);
+  } else if (length <= 0xff && codes[0] !== 0) {
+    writer.u8(codes[0]);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(codes[1]);
+    writer.u16(length);
+  } else {
+    writer.u8(codes[2]);
+    writer.u32(length);
+  }
+}
+
+function encodeValue(writer: ByteWriter, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    encodeNumber(writer, value);
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    encodeHeader(writer, bytes.length, { prefix: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]);
+    writer.raw(bytes);
+  } else if (value instanceof Uint8Array) {
+    encodeHeader(writer, value.length, null, [0xc4, 0xc5, 0xc6]);
+    writer.raw(value);
+  } else if (Array.isArray(value)) {
+    encodeHeader(writer, value.length, { prefix: 0x90, max: 15 }, [0, 0xdc, 0xdd]);
+    for (const item of value) {
+      encodeValue(writer, item);
+    }
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    encodeHeader(writer, entries.length, { prefix: 0x80, max: 15 }, [0, 0xde, 0xdf]);
+    for (const [key, item] of entries) {
+      encodeValue(writer, key);
+      encodeValue(writer, item);
+    }
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+}
+
+/**
+ * 값을 MessagePack 바이트로 인코딩
+ *
+ * @throws TypeError - 함수, symbol, bigint 등 지원하지 않는 값이 포함된 경우
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  encodeValue(writer, value);
+  return writer.result();
+}
+
+/**
+ * MessagePack 바이트 디코더
+ */
+class ByteReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data');
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+
+  u8(): number { return this.view.getUint8(this.take(1)); }
+  u16(): number { return this.view.getUint16(this.take(2)); }
+  u32(): number { return this.view.getUint32(this.take(4)); }
+  i8(): number { return this.view.getInt8(this.take(1)); }
+  i16(): number { return this.view.getInt16(this.take(2)); }
+  i32(): number { return this.view.getInt32(this.take(4)); }
+  u64(): number { return Number(this.view.getBigUint64(this.take(8))); }
+  i64(): number { return Number(this.view.getBigInt64(this.take(8))); }
+  f32(): number { return this.view.getFloat32(this.take(4)); }
+  f64(): number { return this.view.getFloat64(this.take(8)); }
+
+  bin(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.bytes.slice(start, start + length);
+  }
+
+  str(length: number): string {
+    const start = this.take(length);
+    return textDecoder.decode(this.bytes.subarray(start, start + length));
+  }
+
+  array(length: number): unknown[] {
+    const result: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      result.push(this.value());
+    }
+    return result;
+  }
+
+  map(length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.value();
+      if (typeof key !== 'string') {
+        throw new TypeError('MessagePack map keys must be strings');
+      }
+      // __proto__ 키로 프로토타입이 바뀌지 않도록 defineProperty 사용
+      Object.defineProperty(result, key, { value: this.value(), enumerable: true, writable: true, configurable: true });
+    }
+    return result;
+  }
+
+  value(): unknown {
+    const type = this.u8();
+    if (type < 0x80) return type;
+    if (type < 0x90) return this.map(type & 0x0f);
+    if (type < 0xa0) return this.array(type & 0x0f);
+    if (type < 0xc0) return this.str(type & 0x1f);
+    if (type >= 0xe0) return type - 0x100;
+
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return this.bin(this.u8());
+      case 0xc5: return this.bin(this.u16());
+      case 0xc6: return this.bin(this.u32());
+      case 0xca: return this.f32();
+      case 0xcb: return this.f64();
+      case 0xcc: return this.u8();
+      case 0xcd: return this.u16();
+      case 0xce: return this.u32();
+      case 0xcf: return this.u64();
+      case 0xd0: return this.i8();
+      case 0xd1: return this.i16();
+      case 0xd2: return this.i32();
+      case 0xd3: return this.i64();
+      case 0xd9: return this.str(this.u8());
+      case 0xda: return this.str(this.u16());
+      case 0xdb: return this.str(this.u32());
+      case 0xdc: return this.array(this.u16());
+      case 0xdd: return this.array(this.u32());
+      case 0xde: return this.map(this.u16());
+      case 0xdf: return this.map(this.u32());
+      default:
+        throw new TypeError(`Unsupported MessagePack type: 0x${type.toString(16)}`);
+    }
+  }
+}
+
+/**
+ * MessagePack 바이트를 값으로 디코딩
+ *
+ * @throws Error - 잘못된 형식이거나 지원하지 않는 타입(확장 타입 등)이 포함된 경우
+ */
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+  const reader = new ByteReader(bytes);
+  const value = reader.value();
+  if (!reader.done) {
+    throw new RangeError('Unexpected trailing MessagePack data');
+  }
+  return value;
+}
@@ -1,42 +1,180 @@
 /**
  * 룸 코드 생성 유틸리티
- * 서버가 0000-9999 범위에서 임의로 룸 코드를 생성합니다.
+ * 환경 변수로 설정한 문자 집합과 길이로 룸 코드를 생성하고 검증합니다.
+ *
+ * - ROOM_CODE_ALPHABET: crockford(Crockford base32, 기본값), numeric 또는 사용할 문자열 직접 지정
+ * - ROOM_CODE_LENGTH: 룸 코드 길이 (기본값: 6, 기본 문자 집합에서 약 10억 개 조합이므로 무작위 대입으로 찾기 어려움)
+ * - ROOM_CODE_ACCEPT_LEGACY: 기존 4자리 숫자 코드 허용 여부 (기본값: true)
  */
+import { randomInt } from 'crypto';
+
+export interface RoomCodeScheme {
+  /** 사용할 문자 집합 */
+  alphabet: string;
+
+  /** 룸 코드 길이 */
+  length: number;
+
+  /** Crockford base32 여부 (입력 정규화 규칙 적용) */
+  crockford: boolean;
+
+  /** 기존 4자리 숫자 코드 허용 여부 */
+  acceptLegacy: boolean;
+}
+
+const NUMERIC_ALPHABET = '0123456789';
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const LEGACY_ROOM_CODE_REGEX = /^\d{4}$/;
+
+const DEFAULT_ROOM_CODE_LENGTH = 6;
+const MIN_ROOM_CODE_LENGTH = 4;
+const MAX_ROOM_CODE_LENGTH = 16;
+
+// 충돌 시 무작위 재시도 횟수 (이후에는 순차 탐색으로 전환)
+const RANDOM_ATTEMPTS = 16;
+
+/**
+ * 환경 변수에서 룸 코드 형식을 읽어옵니다.
+ */
+export function getRoomCodeScheme(): RoomCodeScheme {
+  const alphabetSetting = (process.env.ROOM_CODE_ALPHABET || 'crockford').trim();
+  const preset = alphabetSetting.toLowerCase();
+
+  let alphabet: string;
+  if (preset === 'numeric') {
+    alphabet = NUMERIC_ALPHABET;
+  } else if (preset === 'crockford') {
+    alphabet = CROCKFORD_ALPHABET;
+  } else {
+    // 직접 지정한 문자열은 대문자로 통일하고 중복 문자 제거
+    alphabet = Array.from(new Set(alphabetSetting.toUpperCase().replace(/\s/g, ''))).join('');
+    if (alphabet.length < 2) {
+      alphabet = NUMERIC_ALPHABET;
+    }
+  }
+
+  const parsedLength = parseInt(process.env.ROOM_CODE_LENGTH || '', 10);
+  const length = Number.isNaN(parsedLength)
+    ? DEFAULT_ROOM_CODE_LENGTH
+    : Math.min(Math.max(parsedLength, MIN_ROOM_CODE_LENGTH), MAX_ROOM_CODE_LENGTH);
+
+  const acceptLegacy = (process.env.ROOM_CODE_ACCEPT_LEGACY || 'true').toLowerCase().trim() !== 'false';
+
+  return {
+    alphabet,
+    length,
+    crockford: alphabet === CROCKFORD_ALPHABET,
+    acceptLegacy
+  };
+}
+
+/**
+ * 룸 코드 형식 설명 (에러 메시지용)
+ */
+export function getRoomCodeFormatDescription(scheme: RoomCodeScheme = getRoomCodeScheme()): string {
+  const charset = scheme.alphabet === NUMERIC_ALPHABET
+    ? 'digits'
+    : scheme.crockford ? 'Crockford base32 characters' : `characters from "${scheme.alphabet}"`;
+  const legacy = scheme.acceptLegacy && !(scheme.alphabet === NUMERIC_ALPHABET && scheme.length === 4)
+    ? ' or legacy 4 digits'
+    : '';
+  return `must be ${scheme.length} ${charset}${legacy}`;
+}
+
+/**
+ * 입력된 룸 코드 정규화
+ * 공백/하이픈 제거 후 대문자로 변환하며, Crockford base32인 경우 혼동 문자(I, L → 1, O → 0)를 치환합니다.
+ *
+ * @param roomCode - 입력된 룸 코드
+ * @returns 정규화된 룸 코드
+ */
+export function normalizeRoomCode(roomCode: string, scheme: RoomCodeScheme = getRoomCodeScheme()): string {
+  if (typeof roomCode !== 'string') {
+    return roomCode;
+  }
+
+  const normalized = roomCode.replace(/[\s-]/g, '').toUpperCase();
+  if (!scheme.crockford) {
+    return normalized;
+  }
+  return normalized.replace(/[IL]/g, '1').replace(/O/g, '0');
+}
+
+/**
+ * 문자 인덱스 배열을 다음 코드로 증가 (끝자리부터 올림, 전체 범위를 넘으면 처음으로 순환)
+ */
+function incrementIndexes(indexes: number[], base: number): void {
+  for (let i = indexes.length - 1; i >= 0; i--) {
+    indexes[i]++;
+    if (indexes[i] < base) {
+      return;
+    }
+    indexes[i] = 0;
+  }
+}
 
 /**
  * 사용 가능한 룸 코드를 생성합니다.
- * 
+ * crypto 난수로 무작위 코드를 뽑고, 충돌이 계속되면 무작위 시작점부터 순차 탐색합니다.
+ * 순차 탐색은 사용 중인 코드 수 + 1 단계 안에 반드시 빈 코드를 찾으므로, 코드 공간이 가득 찬 경우에만 실패합니다.
+ *
  * @param usedCodes - 이미 사용 중인 룸 코드 Set
- * @returns 사용 가능한 4자리 룸 코드 (0000-9999)
+ * @param scheme - 룸 코드 형식 (기본값: 환경 변수 설정)
+ * @returns 사용 가능한 룸 코드
  * @throws Error - 모든 룸 코드가 사용 중인 경우
  */
-export function generateRoomCode(usedCodes: Set<string>): string {
-  const min = 0;
-  const max = 9999;
-  const maxAttempts = 1000; // 최대 시도 횟수
-  
-  for (let i = 0; i < maxAttempts; i++) {
-    // 0000-9999 사이의 임의 숫자 생성
-    const code = Math.floor(Math.random() * (max - min + 1)) + min;
-    const roomCode = code.toString().padStart(4, '0'); // 4자리로 패딩 (예: 42 -> "0042")
-    
+export function generateRoomCode(usedCodes: Set<string>, scheme: RoomCodeScheme = getRoomCodeScheme()): string {
+  const { alphabet, length } = scheme;
+  const randomIndexes = () => Array.from({ length }, () => randomInt(alphabet.length));
+  const toCode = (indexes: number[]) => indexes.map((index) => alphabet[index]).join('');
+
+  for (let i = 0; i < RANDOM_ATTEMPTS; i++) {
+    const roomCode = toCode(randomIndexes());
+    if (!usedCodes.has(roomCode)) {
+      return roomCode;
+    }
+  }
+
+  const spaceSize = Math.pow(alphabet.length, length);
+  const maxSteps = Math.min(spaceSize, usedCodes.size + 1);
+  const indexes = randomIndexes();
+
+  for (let step = 0; step < maxSteps; step++) {
+    const roomCode = toCode(indexes);
     if (!usedCodes.has(roomCode)) {
       return roomCode;
     }
+    incrementIndexes(indexes, alphabet.length);
   }
-  
-  // 모든 룸 코드가 사용 중인 경우 (매우 드문 상황)
+
+  // 모든 룸 코드가 사용 중인 경우
   throw new Error('No available room codes');
 }
 
 /**
  * 룸 코드 형식 검증
- * 
- * @param roomCode - 검증할 룸 코드
+ * 설정된 형식과 일치하거나, 기존 형식 허용 시 4자리 숫자이면 유효합니다.
+ *
+ * @param roomCode - 검증할 룸 코드 (normalizeRoomCode로 정규화된 값)
  * @returns 유효한 룸 코드인지 여부
  */
-export function isValidRoomCode(roomCode: string): boolean {
-  // 4자리 숫자만 허용
-  return /^\d{4}$/.test(roomCode);
-}
+export function isValidRoomCode(roomCode: string, scheme: RoomCodeScheme = getRoomCodeScheme()): boolean {
+  if (typeof roomCode !== 'string') {
+    return false;
+  }
 
+  if (scheme.acceptLegacy && LEGACY_ROOM_CODE_REGEX.test(roomCode)) {
+    return true;
+  }
+
+  if (roomCode.length !== scheme.length) {
+    return false;
+  }
+
+  for (const char of roomCode) {
+    if (!scheme.alphabet.includes(char)) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,174 @@
+/**
+ * 룸 토큰 유틸리티
+ * 룸 생성 시 발급하는 HMAC 서명 토큰(호스트 토큰, 참가자 토큰, 관전자 토큰)을 생성하고 검증합니다.
+ *
+ * 토큰 형식: base64url(payload JSON).base64url(HMAC-SHA256 서명)
+ */
+import crypto from 'crypto';
+import type { Room } from '@/app/types/collaboration/room';
+
+export type RoomTokenRole = 'host' | 'participant' | 'spectator' | 'resume';
+
+export interface RoomTokenPayload {
+  /** 룸 코드 */
+  roomCode: string;
+
+  /** 토큰 역할 */
+  role: RoomTokenRole;
+
+  /** 룸 인스턴스 생성 시간 (같은 코드로 재생성된 룸과 구분) */
+  roomCreatedAt: number;
+
+  /** 호스트 UUID (호스트 토큰에만 포함) */
+  hostId?: string;
+
+  /** 참가자 UUID (세션 재개 토큰에만 포함) */
+  participantId?: string;
+
+  /** 관전자로 입장했던 세션인지 여부 (세션 재개 토큰에만 포함) */
+  spectator?: boolean;
+
+  /** 만료 시간 (timestamp, 룸을 연장해도 다시 발급하지 않도록 룸의 최대 만료 시간과 동일) */
+  exp: number;
+}
+
+// 전역 변수로 랜덤 서명 키 공유 (Next.js 모듈 시스템 문제 해결)
+declare global {
+  var __roomTokenSecret: string | undefined;
+}
+
+// 환경 변수에서 서명 키를 불러오거나, 없으면 프로세스마다 랜덤 생성
+// (랜덤 키는 재시작 또는 다중 인스턴스 환경에서 토큰이 호환되지 않으므로 운영 환경에서는 ROOM_TOKEN_SECRET 설정 필요)
+const ROOM_TOKEN_SECRET = process.env.ROOM_TOKEN_SECRET
+  || globalThis.__roomTokenSecret
+  || (globalThis.__roomTokenSecret = crypto.randomBytes(32).toString('hex'));
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', ROOM_TOKEN_SECRET).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * 룸 토큰 생성
+ */
+export function createRoomToken(payload: RoomTokenPayload): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * 룸의 호스트 토큰, 참가자 토큰, 관전자 토큰 생성
+ */
+export function createRoomTokens(room: Room): { hostToken: string; participantToken: string; spectatorToken: string } {
+  return {
+    hostToken: createRoomToken({
+      roomCode: room.roomCode,
+      role: 'host',
+      roomCreatedAt: room.createdAt,
+      hostId: room.hostId,
+      exp: room.maxExpiresAt
+    }),
+    participantToken: createRoomToken({
+      roomCode: room.roomCode,
+      role: 'participant',
+      roomCreatedAt: room.createdAt,
+      exp: room.maxExpiresAt
+    }),
+    spectatorToken: createRoomToken({
+      roomCode: room.roomCode,
+      role: 'spectator',
+      roomCreatedAt: room.createdAt,
+      exp: room.maxExpiresAt
+    })
+  };
+}
+
+/**
+ * 참가자 세션 재개 토큰 생성
+ * joined 응답에 포함되며, 연결이 끊긴 참가자가 유예 시간 안에 같은 룸으로 돌아올 때 사용합니다.
+ * 관전자의 재개 토큰은 유예 시간 없이 룸이 유지되는 동안 관전자로 다시 입장할 때 사용합니다.
+ */
+export function createResumeToken(room: Room, participantId: string, spectator: boolean = false): string {
+  return createRoomToken({
+    roomCode: room.roomCode,
+    role: 'resume',
+    roomCreatedAt: room.createdAt,
+    participantId,
+    ...(spectator ? { spectator: true } : {}),
+    exp: room.maxExpiresAt
+  });
+}
+
+/**
+ * 룸 토큰 서명 검증 및 payload 추출
+ *
+ * @param token - 검증할 토큰
+ * @returns 서명이 유효하고 만료되지 않은 경우 payload, 아니면 null
+ */
+export function decodeRoomToken(token: string | null | undefined): RoomTokenPayload | null {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as RoomTokenPayload;
+    if (typeof payload.exp !== 'number' || Date.now() > payload.exp) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 룸 토큰 검증
+ * 서명, 만료 여부와 함께 룸 코드, 룸 인스턴스, 역할이 일치하는지 확인합니다.
+ * 호스트 토큰은 룸의 hostId와도 일치해야 합니다.
+ *
+ * @param token - 검증할 토큰
+ * @param room - 대상 룸
+ * @param role - 요구하는 역할
+ * @returns 유효한 토큰인지 여부
+ */
+export function verifyRoomToken(token: string | null | undefined, room: Room, role: RoomTokenRole): boolean {
+  const payload = decodeRoomToken(token);
+  if (!payload) {
+    return false;
+  }
+
+  if (payload.roomCode !== room.roomCode || payload.roomCreatedAt !== room.createdAt || payload.role !== role) {
+    return false;
+  }
+
+  if (role === 'host' && payload.hostId !== room.hostId) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 참가자 세션 재개 토큰 검증
+ *
+ * @param token - 검증할 토큰
+ * @param room - 대상 룸
+ * @param participantId - 재개하려는 참가자 UUID
+ * @returns 유효한 토큰인지 여부
+ */
+export function verifyResumeToken(token: string | null | undefined, room: Room, participantId: string): boolean {
+  if (!verifyRoomToken(token, room, 'resume')) {
+    return false;
+  }
+  return decodeRoomToken(token)?.participantId === participantId;
+}
@@ -0,0 +1,846 @@
+/**
+ * 시그널링 프로토콜
+ * WebSocket 시그널링 메시지 타입과 런타임 검증 함수를 정의합니다.
+ *
+ * 서버(signalingService)와 시퀀서 클라이언트가 같은 타입과 검증 로직을 사용하도록
+ * Node 전용 모듈에 의존하지 않습니다.
+ *
+ * - 모든 서버 메시지에는 version이 포함됩니다.
+ * - 클라이언트 메시지의 version은 생략 가능하며, 생략하면 현재 버전으로 처리합니다. (기존 클라이언트 호환)
+ * - 메시지 인코딩은 기본적으로 JSON 텍스트 프레임이며, WebSocket 서브프로토콜로
+ *   SIGNALING_SUBPROTOCOLS.msgpack을 요청한 클라이언트와는 MessagePack 바이너리 프레임을 사용합니다.
+ */
+import { ErrorCode } from './errorHandler';
+import { decodeMessagePack, encodeMessagePack } from './messagePack';
+
+/** 현재 프로토콜 버전 */
+export const SIGNALING_PROTOCOL_VERSION = 1;
+
+/** 서버가 처리할 수 있는 프로토콜 버전 목록 */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+/** 시그널링 메시지 인코딩 */
+export type SignalingEncoding = 'json' | 'msgpack';
+
+/**
+ * 인코딩별 WebSocket 서브프로토콜 (new WebSocket(url, [SIGNALING_SUBPROTOCOLS.msgpack])로 요청)
+ * 서브프로토콜을 요청하지 않은 클라이언트는 JSON을 사용합니다.
+ */
+export const SIGNALING_SUBPROTOCOLS: Readonly<Record<SignalingEncoding, string>> = {
+  json: 'sequencer-signaling.json',
+  msgpack: 'sequencer-signaling.msgpack'
+};
+
+// WebRTC 타입 정의
+export interface RTCSessionDescriptionInit {
+  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
+  sdp?: string;
+}
+
+export interface RTCIceCandidateInit {
+  candidate?: string;
+  sdpMLineIndex?: number | null;
+  sdpMid?: string | null;
+}
+
+export type SignalingType = 'offer' | 'answer' | 'ice-candidate';
+
+/**
+ * 조인하는 클라이언트의 역할
+ * - participant: 참가자 (maxParticipants에 포함)
+ * - spectator: 읽기 전용 관전자 (maxParticipants에 포함되지 않고, 다른 관전자와 시그널링 불가)
+ */
+export type JoinRole = 'participant' | 'spectator';
+
+/** RTCPeerConnection에 전달할 ICE 서버 (TURN 서버는 기한이 있는 인증 정보 포함) */
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+/**
+ * 룸 상태 스냅샷 (호스트가 업로드한 프로젝트 상태, 늦게 들어온 참가자에게 전달)
+ * state는 서버가 해석하지 않는 JSON 값입니다. (템포, 트랙, 패턴 등)
+ */
+export interface RoomStateSnapshot {
+  /** 상태 버전 (업로드할 때마다 증가해야 함) */
+  version: number;
+
+  /** 상태 데이터 */
+  state: unknown;
+
+  /** 직렬화된 크기 (bytes) */
+  size: number;
+
+  /** 업로드 시간 (timestamp) */
+  updatedAt: number;
+}
+
+/** 룸 채팅 메시지 (id와 timestamp는 서버가 부여) */
+export interface ChatMessage {
+  id: string;
+
+  /** 발신자 ID */
+  from: string;
+
+  /** 발신자 역할 */
+  role: 'host' | JoinRole;
+
+  text: string;
+
+  timestamp: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/* 클라이언트 → 서버 메시지                                                      */
+/* -------------------------------------------------------------------------- */
+
+interface ClientMessageBase {
+  /** 프로토콜 버전 (생략 시 현재 버전) */
+  version?: number;
+
+  /** 발신자 ID (서버는 연결 시 전달된 clientId를 사용) */
+  clientId?: string;
+}
+
+/** 호스트 등록 (roomCode 생략 시 hostId로 룸 검색) */
+export interface RegisterMessage extends ClientMessageBase {
+  action: 'register';
+  roomCode?: string;
+  data: {
+    role: 'host';
+    token?: string;       // 룸 생성 시 발급된 호스트 토큰
+  };
+}
+
+/** 참가자/관전자 조인 (resumeToken이 있으면 세션 재개) */
+export interface JoinMessage extends ClientMessageBase {
+  action: 'join';
+  roomCode: string;
+  data?: {
+    role?: JoinRole;      // 생략 시 participant
+    token?: string;       // 룸 생성 시 발급된 참가자 토큰 (관전자는 관전자 토큰도 가능)
+    resumeToken?: string; // joined 응답으로 받은 세션 재개 토큰
+  };
+}
+
+/** WebRTC 시그널링 (offer/answer/ice-candidate) */
+export interface SignalingClientMessage extends ClientMessageBase {
+  action: 'signaling';
+  roomCode: string;
+  data: {
+    type: SignalingType;
+    to: string;           // 수신자 ID
+    sdp?: RTCSessionDescriptionInit;
+    candidate?: RTCIceCandidateInit;
+  };
+}
+
+/** 룸 나가기 */
+export interface LeaveMessage extends ClientMessageBase {
+  action: 'leave';
+  roomCode?: string;
+}
+
+/** 조인 요청 승인/거절 (lobby 모드, 호스트 전용) */
+export interface JoinDecisionMessage extends ClientMessageBase {
+  action: 'approve-join' | 'deny-join';
+  roomCode?: string;
+  data: {
+    participantId: string;
+  };
+}
+
+/**
+ * 서버 릴레이 (WebRTC 연결 실패 시 WebSocket으로 애플리케이션 데이터 전달)
+ * to를 생략하면 발신자를 제외한 룸 전체에 전달합니다.
+ */
+export interface RelayClientMessage extends ClientMessageBase {
+  action: 'relay';
+  roomCode: string;
+  data: {
+    to?: string;          // 수신자 ID (생략 시 룸 전체)
+    seq: number;          // 발신자별 순번 (연결마다 증가해야 함)
+    payload: unknown;     // 애플리케이션 데이터 (예: 시퀀서 노트 이벤트)
+  };
+}
+
+/** 룸 채팅 (룸의 모든 클라이언트에게 전달) */
+export interface ChatClientMessage extends ClientMessageBase {
+  action: 'chat';
+  roomCode: string;
+  data: {
+    text: string;
+  };
+}
+
+/** 룸 상태 스냅샷 업로드 (호스트 전용) */
+export interface UpdateStateMessage extends ClientMessageBase {
+  action: 'update-state';
+  roomCode: string;
+  data: {
+    version: number;
+    state: unknown;
+  };
+}
+
+export type ClientToServerMessage =
+  | RegisterMessage
+  | JoinMessage
+  | SignalingClientMessage
+  | LeaveMessage
+  | JoinDecisionMessage
+  | RelayClientMessage
+  | ChatClientMessage
+  | UpdateStateMessage;
+
+export type ClientAction = ClientToServerMessage['action'];
+
+/* -------------------------------------------------------------------------- */
+/* 서버 → 클라이언트 메시지                                                      */
+/* -------------------------------------------------------------------------- */
+
+interface ParticipantCountData {
+  participantId: string;
+  participantCount: number;
+}
+
+interface SpectatorCountData {
+  spectatorId: string;
+  spectatorCount: number;
+}
+
+/**
+ * 서버 메시지 action별 data 형식
+ * data가 없는 메시지는 undefined입니다.
+ */
+export interface ServerMessageDataMap {
+  'registered': {
+    status: 'active';
+    iceServers: IceServer[];
+    iceServersExpiresAt: number;  // TURN 인증 정보 만료 시간 (이후 ice-servers API로 재발급)
+    chatBacklog: ChatMessage[];   // 최근 채팅 메시지 (오래된 순)
+  };
+  'joined': {
+    hostId: string;
+    status: 'active';
+    role: JoinRole;
+    roomCreatedAt: number;
+    resumeToken: string;
+    resumed?: boolean;
+    iceServers: IceServer[];
+    iceServersExpiresAt: number;
+    stateSnapshot: RoomStateSnapshot | null;  // 호스트가 업로드한 최신 룸 상태 (없으면 null)
+    chatBacklog: ChatMessage[];               // 최근 채팅 메시지 (오래된 순)
+  };
+  'state-updated': { version: number; size: number; updatedAt: number };
+  'signaling': {
+    type: SignalingType;
+    from: string;
+    sdp?: RTCSessionDescriptionInit;
+    candidate?: RTCIceCandidateInit;
+  };
+  'relay': {
+    from: string;
+    to?: string;          // 생략 시 룸 전체 전달
+    seq: number;
+    payload: unknown;
+  };
+  'chat': ChatMessage;
+  'room-closed': { status: 'closed' };
+  'kicked': { status: 'kicked' };
+  'allow-join-expired': undefined;
+  'room-expiring': { minutesLeft: number };
+  'room-extended': { expiresAt: number; maxExpiresAt: number };
+  'room-session-expired': undefined;
+  'participant-joined': ParticipantCountData;
+  'participant-left': ParticipantCountData;
+  'participant-reconnected': ParticipantCountData;
+  'spectator-joined': SpectatorCountData;
+  'spectator-left': SpectatorCountData;
+  'join-pending': { status: 'pending'; expiresAt: number };
+  'join-requested': { participantId: string; role: JoinRole; expiresAt: number };
+  'join-request-cancelled': { participantId: string; reason: 'cancelled' | 'expired' };
+  'host-reconnecting': { hostId: string; graceExpiresAt: number };
+  'host-reconnected': { hostId: string };
+  'host-changed': {
+    previousHostId: string;
+    hostId: string;
+    participantCount: number;
+    hostToken?: string;   // 새 호스트에게만 포함
+  };
+}
+
+type RoomEventAction = keyof ServerMessageDataMap;
+
+/**
+ * 룸 이벤트 메시지 (action별 data 형식이 정해진 메시지)
+ */
+export type RoomEventMessage = {
+  [A in RoomEventAction]: {
+    version: number;
+    action: A;
+    roomCode?: string;
+    timestamp: number;
+  } & (ServerMessageDataMap[A] extends undefined
+    ? { data?: undefined }
+    : { data: ServerMessageDataMap[A] });
+}[RoomEventAction];
+
+/** 연결 확인 메시지 */
+export interface ConnectedMessage {
+  version: number;
+  action: 'connected';
+  clientId: string;
+  timestamp: number;
+}
+
+/** 구조화된 에러 상세 정보 */
+export interface ProtocolErrorDetails {
+  /** 잘못된 필드 경로 (예: data.to) */
+  field?: string;
+
+  /** 서버가 지원하는 프로토콜 버전 (UNSUPPORTED_PROTOCOL_VERSION) */
+  supportedVersions?: readonly number[];
+}
+
+/** 에러 메시지 */
+export interface ErrorMessage {
+  version: number;
+  action: 'error';
+  error: string;
+  code: ErrorCode;
+  details?: ProtocolErrorDetails;
+  timestamp: number;
+}
+
+/**
+ * 속도 제한 범위
+ * - message: 연결별 전체 메시지 수
+ * - action: 액션별 메시지 수
+ * - ip / client: IP / clientId별 동시 연결 수
+ */
+export type RateLimitedScope = 'message' | 'action' | 'ip' | 'client';
+
+/** 속도 제한 알림 (반복 위반 시 1008 코드로 연결 종료) */
+export interface RateLimitedMessage {
+  version: number;
+  action: 'rate-limited';
+  error: string;
+  code: ErrorCode;
+  data: {
+    scope: RateLimitedScope;
+    limitedAction?: ClientAction;  // scope가 action인 경우 제한된 액션
+    retryAfterMs?: number;
+    violations?: number;
+    maxViolations?: number;
+  };
+  timestamp: number;
+}
+
+export type ServerToClientMessage = RoomEventMessage | ConnectedMessage | ErrorMessage | RateLimitedMessage;
+
+export type ServerAction = ServerToClientMessage['action'];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * version을 제외한 서버 메시지 (전송 시 createServerMessage로 버전 추가)
+ */
+export type ServerMessageInit = DistributiveOmit<ServerToClientMessage, 'version'>;
+
+/**
+ * 현재 프로토콜 버전을 붙여 서버 메시지 생성
+ */
+export function createServerMessage(message: ServerMessageInit): ServerToClientMessage {
+  return { version: SIGNALING_PROTOCOL_VERSION, ...message } as ServerToClientMessage;
+}
+
+/* -------------------------------------------------------------------------- */
+/* 런타임 검증                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/** 검증 실패 정보 */
+export interface ProtocolError {
+  code: ErrorCode;
+  message: string;
+  details?: ProtocolErrorDetails;
+}
+
+export type ProtocolValidationResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: ProtocolError };
+
+interface FieldSchema {
+  required: boolean;
+  expected: string;
+  test: (value: unknown) => boolean;
+  fields?: ObjectSchema;
+}
+
+type ObjectSchema = Record<string, FieldSchema>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const field = {
+  string: (required = true): FieldSchema => ({
+    required,
+    expected: 'a non-empty string',
+    test: (value) => typeof value === 'string' && value.length > 0
+  }),
+  any: (required = true): FieldSchema => ({
+    required,
+    expected: 'a JSON value',
+    test: () => true
+  }),
+  array: (required = true): FieldSchema => ({
+    required,
+    expected: 'an array',
+    test: Array.isArray
+  }),
+  integer: (required = true): FieldSchema => ({
+    required,
+    expected: 'a non-negative integer',
+    test: (value) => typeof value === 'number' && Number.isSafeInteger(value) && value >= 0
+  }),
+  anyString: (required = true): FieldSchema => ({
+    required,
+    expected: 'a string',
+    test: (value) => typeof value === 'string'
+  }),
+  number: (required = true): FieldSchema => ({
+    required,
+    expected: 'a finite number',
+    test: (value) => typeof value === 'number' && Number.isFinite(value)
+  }),
+  nullableNumber: (required = true): FieldSchema => ({
+    required,
+    expected: 'a number or null',
+    test: (value) => value === null || (typeof value === 'number' && Number.isFinite(value))
+  }),
+  nullableString: (required = true): FieldSchema => ({
+    required,
+    expected: 'a string or null',
+    test: (value) => value === null || typeof value === 'string'
+  }),
+  boolean: (required = true): FieldSchema => ({
+    required,
+    expected: 'a boolean',
+    test: (value) => typeof value === 'boolean'
+  }),
+  oneOf: (values: readonly string[], required = true): FieldSchema => ({
+    required,
+    expected: `one of ${values.join(', ')}`,
+    test: (value) => typeof value === 'string' && values.includes(value)
+  }),
+  object: (fields: ObjectSchema, required = true): FieldSchema => ({
+    required,
+    expected: 'an object',
+    test: isPlainObject,
+    fields
+  }),
+  nullableObject: (fields: ObjectSchema, required = true): FieldSchema => ({
+    required,
+    expected: 'an object or null',
+    test: (value) => value === null || isPlainObject(value),
+    fields
+  })
+};
+
+const SIGNALING_TYPES: readonly SignalingType[] = ['offer', 'answer', 'ice-candidate'];
+
+const sessionDescriptionSchema: ObjectSchema = {
+  type: field.oneOf(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: field.anyString(false)
+};
+
+const iceCandidateSchema: ObjectSchema = {
+  candidate: field.anyString(false),
+  sdpMLineIndex: field.nullableNumber(false),
+  sdpMid: field.nullableString(false)
+};
+
+const participantCountSchema: ObjectSchema = {
+  participantId: field.string(),
+  participantCount: field.number()
+};
+
+const spectatorCountSchema: ObjectSchema = {
+  spectatorId: field.string(),
+  spectatorCount: field.number()
+};
+
+const JOIN_ROLES: readonly JoinRole[] = ['participant', 'spectator'];
+
+/**
+ * 클라이언트 메시지 action별 필드 형식 (action, version 제외)
+ */
+const CLIENT_MESSAGE_SCHEMAS: Record<ClientAction, ObjectSchema> = {
+  'register': {
+    roomCode: field.anyString(false),
+    data: field.object({
+      role: field.oneOf(['host']),
+      token: field.string(false)
+    })
+  },
+  'join': {
+    roomCode: field.string(),
+    data: field.object({
+      role: field.oneOf(JOIN_ROLES, false),
+      token: field.string(false),
+      resumeToken: field.string(false)
+    }, false)
+  },
+  'signaling': {
+    roomCode: field.string(),
+    data: field.object({
+      type: field.oneOf(SIGNALING_TYPES),
+      to: field.string(),
+      sdp: field.object(sessionDescriptionSchema, false),
+      candidate: field.object(iceCandidateSchema, false)
+    })
+  },
+  'leave': {
+    roomCode: field.anyString(false)
+  },
+  'approve-join': {
+    roomCode: field.anyString(false),
+    data: field.object({ participantId: field.string() })
+  },
+  'deny-join': {
+    roomCode: field.anyString(false),
+    data: field.object({ participantId: field.string() })
+  },
+  'relay': {
+    roomCode: field.string(),
+    data: field.object({
+      to: field.string(false),
+      seq: field.integer(),
+      payload: field.any()
+    })
+  },
+  'chat': {
+    roomCode: field.string(),
+    data: field.object({
+      text: field.string()
+    })
+  },
+  'update-state': {
+    roomCode: field.string(),
+    data: field.object({
+      version: field.integer(),
+      state: field.any()
+    })
+  }
+};
+
+/**
+ * 서버 메시지 action별 필드 형식 (action, version, timestamp 제외)
+ */
+const SERVER_MESSAGE_SCHEMAS: Record<ServerAction, ObjectSchema> = {
+  'connected': { clientId: field.string() },
+  'error': {
+    error: field.anyString(),
+    code: field.oneOf(Object.values(ErrorCode)),
+    details: field.object({}, false)
+  },
+  'rate-limited': {
+    error: field.anyString(),
+    code: field.oneOf(Object.values(ErrorCode)),
+    data: field.object({
+      scope: field.oneOf(['message', 'action', 'ip', 'client']),
+      limitedAction: field.oneOf(Object.keys(CLIENT_MESSAGE_SCHEMAS), false),
+      retryAfterMs: field.number(false),
+      violations: field.number(false),
+      maxViolations: field.number(false)
+    })
+  },
+  'registered': {
+    data: field.object({
+      status: field.oneOf(['active']),
+      iceServers: field.array(),
+      iceServersExpiresAt: field.number(),
+      chatBacklog: field.array()
+    })
+  },
+  'joined': {
+    data: field.object({
+      hostId: field.string(),
+      status: field.oneOf(['active']),
+      role: field.oneOf(JOIN_ROLES),
+      roomCreatedAt: field.number(),
+      resumeToken: field.string(),
+      resumed: field.boolean(false),
+      iceServers: field.array(),
+      iceServersExpiresAt: field.number(),
+      stateSnapshot: field.nullableObject({
+        version: field.integer(),
+        state: field.any(),
+        size: field.number(),
+        updatedAt: field.number()
+      }),
+      chatBacklog: field.array()
+    })
+  },
+  'state-updated': {
+    data: field.object({ version: field.integer(), size: field.number(), updatedAt: field.number() })
+  },
+  'signaling': {
+    data: field.object({
+      type: field.oneOf(SIGNALING_TYPES),
+      from: field.string(),
+      sdp: field.object(sessionDescriptionSchema, false),
+      candidate: field.object(iceCandidateSchema, false)
+    })
+  },
+  'relay': {
+    data: field.object({
+      from: field.string(),
+      to: field.string(false),
+      seq: field.integer(),
+      payload: field.any()
+    })
+  },
+  'chat': {
+    data: field.object({
+      id: field.string(),
+      from: field.string(),
+      role: field.oneOf(['host', ...JOIN_ROLES]),
+      text: field.string(),
+      timestamp: field.number()
+    })
+  },
+  'room-closed': { data: field.object({ status: field.oneOf(['closed']) }) },
+  'kicked': { data: field.object({ status: field.oneOf(['kicked']) }) },
+  'allow-join-expired': {},
+  'room-expiring': { data: field.object({ minutesLeft: field.number() }) },
+  'room-extended': { data: field.object({ expiresAt: field.number(), maxExpiresAt: field.number() }) },
+  'room-session-expired': {},
+  'participant-joined': { data: field.object(participantCountSchema) },
+  'participant-left': { data: field.object(participantCountSchema) },
+  'participant-reconnected': { data: field.object(participantCountSchema) },
+  'spectator-joined': { data: field.object(spectatorCountSchema) },
+  'spectator-left': { data: field.object(spectatorCountSchema) },
+  'join-pending': {
+    data: field.object({ status: field.oneOf(['pending']), expiresAt: field.number() })
+  },
+  'join-requested': {
+    data: field.object({ participantId: field.string(), role: field.oneOf(JOIN_ROLES), expiresAt: field.number() })
+  },
+  'join-request-cancelled': {
+    data: field.object({ participantId: field.string(), reason: field.oneOf(['cancelled', 'expired']) })
+  },
+  'host-reconnecting': {
+    data: field.object({ hostId: field.string(), graceExpiresAt: field.number() })
+  },
+  'host-reconnected': { data: field.object({ hostId: field.string() }) },
+  'host-changed': {
+    data: field.object({
+      previousHostId: field.string(),
+      hostId: field.string(),
+      participantCount: field.number(),
+      hostToken: field.string(false)
+    })
+  }
+};
+
+function invalidMessage(message: string, fieldPath?: string): ProtocolError {
+  return {
+    code: ErrorCode.INVALID_MESSAGE,
+    message,
+    details: fieldPath ? { field: fieldPath } : undefined
+  };
+}
+
+/**
+ * 객체 필드 검증 (정의되지 않은 필드는 하위 호환을 위해 허용)
+ */
+function validateFields(value: Record<string, unknown>, schema: ObjectSchema, path: string): ProtocolError | null {
+  for (const [name, rule] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${name}` : name;
+    const fieldValue = value[name];
+
+    if (fieldValue === undefined) {
+      if (rule.required) {
+        return invalidMessage(`Invalid message: ${fieldPath} is required`, fieldPath);
+      }
+      continue;
+    }
+
+    if (!rule.test(fieldValue)) {
+      return invalidMessage(`Invalid message: ${fieldPath} must be ${rule.expected}`, fieldPath);
+    }
+
+    if (rule.fields && fieldValue !== null) {
+      const error = validateFields(fieldValue as Record<string, unknown>, rule.fields, fieldPath);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 공통 메시지 형식 검증 (객체 여부, version, action)
+ */
+function validateEnvelope<A extends string>(
+  value: unknown,
+  schemas: Record<A, ObjectSchema>,
+  versionRequired: boolean
+): ProtocolError | { action: A; fields: Record<string, unknown> } {
+  if (!isPlainObject(value)) {
+    return invalidMessage('Invalid message format: expected a JSON object');
+  }
+
+  const { version, action } = value;
+  if (version === undefined) {
+    if (versionRequired) {
+      return invalidMessage('Invalid message: version is required', 'version');
+    }
+  } else if (typeof version !== 'number' || !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    return {
+      code: ErrorCode.UNSUPPORTED_PROTOCOL_VERSION,
+      message: `Unsupported protocol version: ${String(version)}`,
+      details: { field: 'version', supportedVersions: SUPPORTED_PROTOCOL_VERSIONS }
+    };
+  }
+
+  if (typeof action !== 'string') {
+    return invalidMessage('Invalid message: action is required', 'action');
+  }
+  if (!Object.prototype.hasOwnProperty.call(schemas, action)) {
+    return invalidMessage(`Unknown action: ${action}`, 'action');
+  }
+
+  return { action: action as A, fields: value };
+}
+
+function parseJson(raw: string): { ok: true; value: unknown } | { ok: false; error: ProtocolError } {
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch {
+    return { ok: false, error: invalidMessage('Invalid message format: malformed JSON') };
+  }
+}
+
+function parseMessagePack(raw: Uint8Array): { ok: true; value: unknown } | { ok: false; error: ProtocolError } {
+  try {
+    return { ok: true, value: decodeMessagePack(raw) };
+  } catch {
+    return { ok: false, error: invalidMessage('Invalid message format: malformed MessagePack') };
+  }
+}
+
+/**
+ * 협상된 서브프로토콜에 해당하는 인코딩 조회 (없거나 알 수 없으면 json)
+ */
+export function getSignalingEncoding(subprotocol: string | null | undefined): SignalingEncoding {
+  return subprotocol === SIGNALING_SUBPROTOCOLS.msgpack ? 'msgpack' : 'json';
+}
+
+/**
+ * 클라이언트가 요청한 서브프로토콜 중 서버가 사용할 것을 선택 (지원하는 것이 없으면 false)
+ * 요청한 순서대로 먼저 나오는 것을 선택합니다.
+ */
+export function selectSignalingSubprotocol(requested: Iterable<string>): string | false {
+  const supported = Object.values(SIGNALING_SUBPROTOCOLS);
+  for (const subprotocol of requested) {
+    if (supported.includes(subprotocol)) {
+      return subprotocol;
+    }
+  }
+  return false;
+}
+
+/**
+ * 메시지를 인코딩에 맞는 프레임 데이터로 변환 (json: 텍스트, msgpack: 바이너리)
+ */
+export function encodeSignalingMessage(message: ServerToClientMessage | ClientToServerMessage, encoding: SignalingEncoding): string | Uint8Array {
+  return encoding === 'msgpack' ? encodeMessagePack(message) : JSON.stringify(message);
+}
+
+/**
+ * 클라이언트 메시지 검증
+ *
+ * @param value - JSON.parse된 메시지
+ * @returns 검증 결과 (실패 시 ErrorCode를 포함한 에러)
+ */
+export function validateClientMessage(value: unknown): ProtocolValidationResult<ClientToServerMessage> {
+  const envelope = validateEnvelope(value, CLIENT_MESSAGE_SCHEMAS, false);
+  if ('code' in envelope) {
+    return { ok: false, error: envelope };
+  }
+
+  const error = validateFields(envelope.fields, CLIENT_MESSAGE_SCHEMAS[envelope.action], '');
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, message: envelope.fields as unknown as ClientToServerMessage };
+}
+
+/**
+ * 클라이언트 메시지 파싱 및 검증 (서버에서 WebSocket 수신 프레임 처리 시 사용)
+ *
+ * @param raw - 수신한 텍스트 프레임
+ */
+export function parseClientMessage(raw: string): ProtocolValidationResult<ClientToServerMessage> {
+  const parsed = parseJson(raw);
+  return parsed.ok ? validateClientMessage(parsed.value) : parsed;
+}
+
+/**
+ * MessagePack 클라이언트 메시지 파싱 및 검증
+ *
+ * @param raw - 수신한 바이너리 프레임
+ */
+export function parseBinaryClientMessage(raw: Uint8Array): ProtocolValidationResult<ClientToServerMessage> {
+  const parsed = parseMessagePack(raw);
+  return parsed.ok ? validateClientMessage(parsed.value) : parsed;
+}
+
+/**
+ * 서버 메시지 검증 (클라이언트에서 수신 메시지 처리 시 사용)
+ *
+ * @param value - JSON.parse된 메시지
+ * @returns 검증 결과 (실패 시 ErrorCode를 포함한 에러)
+ */
+export function validateServerMessage(value: unknown): ProtocolValidationResult<ServerToClientMessage> {
+  const envelope = validateEnvelope(value, SERVER_MESSAGE_SCHEMAS, true);
+  if ('code' in envelope) {
+    return { ok: false, error: envelope };
+  }
+
+  const error = validateFields(envelope.fields, {
+    ...SERVER_MESSAGE_SCHEMAS[envelope.action],
+    roomCode: field.anyString(false),
+    timestamp: field.number()
+  }, '');
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, message: envelope.fields as unknown as ServerToClientMessage };
+}
+
+/**
+ * 서버 메시지 파싱 및 검증
+ *
+ * @param raw - 수신한 텍스트 프레임
+ */
+export function parseServerMessage(raw: string): ProtocolValidationResult<ServerToClientMessage> {
+  const parsed = parseJson(raw);
+  return parsed.ok ? validateServerMessage(parsed.value) : parsed;
+}
+
+/**
+ * MessagePack 서버 메시지 파싱 및 검증
+ *
+ * @param raw - 수신한 바이너리 프레임
+ */
+export function parseBinaryServerMessage(raw: Uint8Array): ProtocolValidationResult<ServerToClientMessage> {
+  const parsed = parseMessagePack(raw);
+  return parsed.ok ? validateServerMessage(parsed.value) : parsed;
+}
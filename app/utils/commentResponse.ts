@@ -0,0 +1,50 @@
+/**
+ * 댓글 응답 매핑 유틸리티
+ * 댓글과 답글 트리 노드를 클라이언트 응답 형식으로 변환합니다.
+ */
+import type { CommentReplyNode } from '../services/commentService';
+import type { Comment, CommentResponse } from '../types/comment';
+
+/**
+ * Comment → CommentResponse (hashedPassword, status 제외)
+ */
+export function toCommentResponse(comment: Comment): CommentResponse {
+  return {
+    id: comment.id,
+    parentHeaderId: comment.parentHeaderId,
+    content: comment.content,
+    createdAt: new Date(comment.createdAt).toISOString(),
+    updatedAt: new Date(comment.updatedAt).toISOString(),
+    isEdited: comment.isEdited,
+    isDeleted: comment.isDeleted,
+    version: comment.version,
+    editedCommentId: comment.editedCommentId,
+    headerId: comment.headerId,
+    tailId: comment.tailId,
+    hashedUser: comment.hashedUserIP,  // hashedUserIP → hashedUser로 매핑
+  };
+}
+
+/**
+ * 답글 트리 노드 → CommentResponse (하위 답글 포함)
+ * 불러오지 않은 하위 답글은 children 없이 replyCount만 포함합니다.
+ */
+export function toReplyResponse(node: CommentReplyNode): CommentResponse {
+  return {
+    id: node.ID,
+    parentHeaderId: node.parentHeaderId,
+    content: node.CONTENT,
+    createdAt: new Date(node.CREATED_AT).toISOString(),
+    updatedAt: new Date(node.UPDATED_AT).toISOString(),
+    isEdited: node.IS_EDITED,
+    isDeleted: node.IS_DELETED,
+    version: node.VERSION,
+    editedCommentId: node.EDITED_COMMENT_ID,
+    headerId: node.HEADER_ID,
+    tailId: node.TAIL_ID,
+    hashedUser: node.HASHED_USER_IP,  // hashedUserIP → hashedUser로 매핑
+    depth: node.depth,
+    replyCount: node.REPLY_COUNT,
+    children: node.children?.map(toReplyResponse),
+  };
+}
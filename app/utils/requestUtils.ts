@@ -34,3 +34,20 @@ export function getClientIP(request: NextRequest): string {
   return ip;
 }
 
+/**
+ * Authorization 헤더에서 Bearer 토큰을 가져오는 함수
+ * - `Authorization: Bearer <token>` 형식이 아니면 null 반환
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (!authorization) {
+    return null;
+  }
+
+  const [scheme, token] = authorization.trim().split(/\s+/);
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+}
@@ -0,0 +1,115 @@
+/**
+ * 시그널링 서비스 테스트용 WebSocket 대역
+ * signalingService.handleConnection()에 넘기면 실제 연결처럼 메시지를 주고받고, 서버가 보낸 메시지를 기록합니다.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { roomService, type CreateRoomOptions } from '../../app/services/collaboration/roomService';
+import { signalingService } from '../../app/services/collaboration/signalingService';
+import type { Room } from '../../app/types/collaboration/room';
+import { createRoomTokens } from '../../app/utils/collaboration/roomToken';
+import type { ClientToServerMessage, JoinRole, ServerToClientMessage } from '../../app/utils/collaboration/signalingProtocol';
+
+type ServerAction = ServerToClientMessage['action'];
+
+export class TestSocket extends EventEmitter {
+  readyState: number = WebSocket.OPEN;
+  readonly protocol = '';
+  readonly received: ServerToClientMessage[] = [];
+  pingCount = 0;
+
+  send(frame: string): void {
+    this.received.push(JSON.parse(frame));
+  }
+
+  ping(): void {
+    this.pingCount++;
+  }
+
+  close(): void {
+    this.disconnect();
+  }
+
+  terminate(): void {
+    this.disconnect();
+  }
+
+  /** 연결 종료 (close 이벤트 발생) */
+  disconnect(): void {
+    if (this.readyState === WebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = WebSocket.CLOSED;
+    this.emit('close');
+  }
+
+  /** 클라이언트 메시지 전송 (텍스트 프레임) */
+  sendMessage(message: ClientToServerMessage): void {
+    this.emit('message', Buffer.from(JSON.stringify(message)), false);
+  }
+
+  /** 받은 메시지 중 action이 일치하는 것만 조회 */
+  messages<A extends ServerAction>(action: A): Array<Extract<ServerToClientMessage, { action: A }>> {
+    return this.received.filter((message): message is Extract<ServerToClientMessage, { action: A }> => message.action === action);
+  }
+
+  /** action이 일치하는 마지막 메시지 (없으면 예외) */
+  last<A extends ServerAction>(action: A): Extract<ServerToClientMessage, { action: A }> {
+    const messages = this.messages(action);
+    if (messages.length === 0) {
+      throw new Error(`No "${action}" message received (got: ${this.received.map((message) => message.action).join(', ') || 'none'})`);
+    }
+    return messages[messages.length - 1];
+  }
+
+  /** 받은 에러 코드 목록 */
+  errorCodes(): string[] {
+    return this.messages('error').map((message) => message.code);
+  }
+}
+
+/**
+ * 새 연결을 시그널링 서비스에 등록
+ */
+export function connectClient(clientId: string = randomUUID(), ipHash: string | null = null): { clientId: string; socket: TestSocket } {
+  const socket = new TestSocket();
+  signalingService.handleConnection(socket as unknown as WebSocket, clientId, ipHash);
+  return { clientId, socket };
+}
+
+export interface TestRoom {
+  room: Room;
+  host: TestSocket;
+  tokens: ReturnType<typeof createRoomTokens>;
+}
+
+/**
+ * 룸을 만들고 호스트 연결을 등록 (open 모드는 조인도 허용)
+ */
+export function openRoom(options: CreateRoomOptions = {}, hostId: string = randomUUID()): TestRoom {
+  const room = roomService.createRoom(hostId, options);
+  const tokens = createRoomTokens(room);
+  const { socket: host } = connectClient(room.hostId);
+  host.sendMessage({ action: 'register', roomCode: room.roomCode, data: { role: 'host', token: tokens.hostToken } });
+  if (room.joinMode === 'open') {
+    roomService.allowJoin(room.roomCode, 60);
+  }
+  return { room, host, tokens };
+}
+
+/**
+ * 새 연결로 룸에 조인 요청
+ */
+export function joinRoom(
+  { room, tokens }: TestRoom,
+  role: JoinRole = 'participant',
+  clientId: string = randomUUID(),
+  ipHash: string | null = null
+): { clientId: string; socket: TestSocket } {
+  const client = connectClient(clientId, ipHash);
+  const token = role === 'spectator' ? tokens.spectatorToken : tokens.participantToken;
+  client.socket.sendMessage({ action: 'join', roomCode: room.roomCode, data: { role, token } });
+  return client;
+}
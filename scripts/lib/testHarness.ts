@@ -0,0 +1,58 @@
+/**
+ * 스크립트 테스트용 간단한 실행기
+ * 사용법: test('이름', async () => { ... }); 후 마지막에 await run('스위트 이름');
+ * 실패한 테스트가 있으면 exit code 1로 종료합니다.
+ */
+
+type TestFn = () => void | Promise<void>;
+
+const tests: Array<{ name: string; fn: TestFn }> = [];
+
+export function test(name: string, fn: TestFn): void {
+  tests.push({ name, fn });
+}
+
+export async function run(suiteName: string): Promise<void> {
+  console.log(`\n=== ${suiteName} ===`);
+  let failed = 0;
+
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`  ✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`  ✗ ${name}`);
+      console.error(error);
+    }
+  }
+
+  console.log(`${tests.length - failed} passed, ${failed} failed`);
+  // 테스트 중 남은 타이머/소켓이 있어도 종료
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+/**
+ * 조건이 참이 될 때까지 대기 (비동기 전달 확인용)
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error(`waitFor timed out after ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Date.now()를 ms만큼 앞당김 (만료/유예 시간 확인용)
+ * @returns 원래 시계로 되돌리는 함수
+ */
+export function advanceClock(ms: number): () => void {
+  const realNow = Date.now;
+  Date.now = () => realNow() + ms;
+  return () => {
+    Date.now = realNow;
+  };
+}
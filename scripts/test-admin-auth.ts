@@ -0,0 +1,75 @@
+/**
+ * 관리자 인증 테스트 (로그인 시도 횟수 제한, 세션 토큰)
+ * 사용법: npm run test:admin-auth
+ */
+
+import assert from 'node:assert/strict';
+import { AdminLoginThrottle, createAdminSession, verifyAdminPassword, verifyAdminSession } from '../app/utils/adminAuth';
+import { hashPassword } from '../app/utils/passwordUtils';
+import { run, test } from './lib/testHarness';
+
+test('IP별 시도 횟수를 넘으면 집계 구간이 끝날 때까지 거부한다', () => {
+  const throttle = new AdminLoginThrottle(3, 100, 1000);
+  const now = 10_000;
+
+  assert.equal(throttle.acquire('a', now), null);
+  assert.equal(throttle.acquire('a', now + 1), null);
+  assert.equal(throttle.acquire('a', now + 2), null);
+  assert.equal(throttle.acquire('a', now + 3), 997);
+  // 다른 IP는 영향을 받지 않음
+  assert.equal(throttle.acquire('b', now + 3), null);
+  // 첫 시도가 집계 구간을 벗어나면 다시 허용
+  assert.equal(throttle.acquire('a', now + 1000), null);
+});
+
+test('IP를 바꿔 가며 시도하면 거부하지 않고 대기 시간만 요구한다', () => {
+  const throttle = new AdminLoginThrottle(3, 4, 1000, 250);
+  for (let i = 0; i < 4; i++) {
+    assert.equal(throttle.acquire(`ip-${i}`, 0), null);
+    assert.equal(throttle.getGlobalDelayMs(0), 0);
+  }
+  // 전체 시도가 많아도 새 IP(실제 관리자)의 시도는 거부하지 않음
+  assert.equal(throttle.acquire('admin-ip', 1), null);
+  assert.equal(throttle.getGlobalDelayMs(1), 250);
+  // 집계 구간이 지나면 대기 시간도 사라짐
+  assert.equal(throttle.getGlobalDelayMs(1001), 0);
+});
+
+test('성공한 시도는 해당 IP의 기록을 지운다', () => {
+  const throttle = new AdminLoginThrottle(2, 100, 1000);
+  throttle.acquire('a', 0);
+  throttle.acquire('a', 1);
+  throttle.release('a');
+  assert.equal(throttle.acquire('a', 2), null);
+});
+
+test('verifyAdminPassword는 입력값의 앞뒤 공백을 제거하고 동시 요청도 시도 횟수에 포함한다', async () => {
+  process.env.ADMIN_PASSWORD_HASH = await hashPassword('correct horse');
+
+  assert.deepEqual(await verifyAdminPassword('  correct horse \n', 'trim-test'), { valid: true });
+
+  const results = await Promise.all(
+    Array.from({ length: 8 }, () => verifyAdminPassword('wrong', 'concurrent-test'))
+  );
+  assert.equal(results.filter((result) => result.retryAfterMs === undefined).length, 5);
+  assert.ok(results.every((result) => !result.valid));
+  // 제한 중에는 올바른 비밀번호도 확인하지 않음
+  assert.ok((await verifyAdminPassword('correct horse', 'concurrent-test')).retryAfterMs);
+});
+
+test('세션 토큰은 서명과 만료 시간을 검증한다', () => {
+  const { token, expiresAt } = createAdminSession();
+  assert.ok(expiresAt > Date.now());
+  assert.equal(verifyAdminSession(token), true);
+
+  const [payload, signature] = token.split('.');
+  assert.equal(verifyAdminSession(`${payload}.${signature.slice(0, -2)}xx`), false);
+  const forged = Buffer.from(JSON.stringify({ role: 'admin', exp: Date.now() + 10 ** 9 })).toString('base64url');
+  assert.equal(verifyAdminSession(`${forged}.${signature}`), false);
+
+  const expired = createAdminSession(Date.now() - 24 * 60 * 60 * 1000);
+  assert.equal(verifyAdminSession(expired.token), false);
+  assert.equal(verifyAdminSession(null), false);
+});
+
+void run('Admin auth');
@@ -0,0 +1,111 @@
+/**
+ * 관리자 룸 API 테스트 (대시보드 목록, 강제 종료, 강퇴)
+ * 사용법: npm run test:admin-rooms
+ */
+
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { DELETE as deleteRoomRoute } from '../app/api/online-sequencer/rooms/[roomCode]/route';
+import { POST as kickRoute } from '../app/api/online-sequencer/rooms/[roomCode]/kick/route';
+import { GET as listRoomsRoute } from '../app/api/online-sequencer/rooms/route';
+import { roomService } from '../app/services/collaboration/roomService';
+import type { AdminRoomsResponse, KickParticipantResponse } from '../app/types/collaboration/room';
+import { ADMIN_SESSION_HEADER, createAdminSession } from '../app/utils/adminAuth';
+import { joinRoom, openRoom } from './lib/signalingClient';
+import { run, test } from './lib/testHarness';
+
+// ADMIN_SESSION_TTL_MINUTES 기본값
+const ADMIN_SESSION_TTL_MS = 30 * 60 * 1000;
+
+function adminHeaders(token: string = createAdminSession().token): Record<string, string> {
+  return { [ADMIN_SESSION_HEADER]: token };
+}
+
+function listRooms(headers: Record<string, string> = {}): Promise<Response> {
+  return listRoomsRoute(new NextRequest('http://localhost/api/online-sequencer/rooms', { headers }));
+}
+
+test('룸 목록은 유효한 관리자 세션이 있어야 조회할 수 있다', async () => {
+  assert.equal((await listRooms()).status, 403);
+  assert.equal((await listRooms(adminHeaders('forged.token'))).status, 403);
+  const expired = createAdminSession(Date.now() - ADMIN_SESSION_TTL_MS - 1).token;
+  assert.equal((await listRooms(adminHeaders(expired))).status, 403);
+
+  const response = await listRooms(adminHeaders());
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('cache-control'), 'no-store');
+});
+
+test('룸 목록에 연결 상태, 대기 중인 요청, 상태 스냅샷 요약을 포함한다', async () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const participant = joinRoom(lobby);
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: participant.clientId } });
+  const spectator = joinRoom(lobby, 'spectator');
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: spectator.clientId } });
+  const waiting = joinRoom(lobby);
+  lobby.host.sendMessage({ action: 'update-state', roomCode: lobby.room.roomCode, data: { version: 2, state: { bpm: 90 } } });
+  participant.socket.sendMessage({ action: 'relay', roomCode: lobby.room.roomCode, data: { to: lobby.room.hostId, seq: 1, payload: null } });
+
+  const body = await (await listRooms(adminHeaders())).json() as AdminRoomsResponse;
+  const summary = body.rooms.find((room) => room.roomCode === lobby.room.roomCode);
+  assert.ok(summary);
+  assert.equal(summary.hostId, lobby.room.hostId);
+  assert.equal(summary.joinMode, 'lobby');
+  assert.deepEqual(summary.participants, [participant.clientId]);
+  assert.deepEqual(summary.spectators, [spectator.clientId]);
+  assert.deepEqual(summary.pendingJoinRequests.map((request) => request.participantId), [waiting.clientId]);
+  // 상태 데이터는 빼고 요약만 전달
+  assert.equal(summary.stateSnapshot?.version, 2);
+  assert.deepEqual(Object.keys(summary.stateSnapshot ?? {}).sort(), ['size', 'updatedAt', 'version']);
+  assert.deepEqual(summary.relayedPairs.map((pair) => [pair.from, pair.to]), [[participant.clientId, lobby.room.hostId]]);
+
+  const roles = Object.fromEntries(summary.clientConnections.map((connection) => [connection.clientId, connection.role]));
+  assert.deepEqual(roles, {
+    [lobby.room.hostId]: 'host',
+    [participant.clientId]: 'participant',
+    [spectator.clientId]: 'spectator'
+  });
+  assert.ok(summary.clientConnections.every((connection) => connection.isOpen));
+  assert.equal(body.totalRooms, roomService.getAllRooms().length);
+});
+
+test('관리자는 호스트 토큰 없이 룸을 종료하고 호스트에게도 room-closed를 보낸다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+  const request = (headers: Record<string, string>) =>
+    deleteRoomRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}`, { method: 'DELETE', headers }), { params: Promise.resolve({ roomCode }) });
+
+  assert.equal((await request({})).status, 403);
+  assert.notEqual(roomService.getRoom(roomCode), null);
+
+  assert.equal((await request(adminHeaders())).status, 200);
+  assert.equal(roomService.getRoom(roomCode), null);
+  assert.equal(testRoom.host.messages('room-closed').length, 1);
+  assert.equal(participant.socket.messages('room-closed').length, 1);
+});
+
+test('관리자는 호스트 토큰 없이 참가자를 강퇴할 수 있다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+  const request = (headers: Record<string, string>) =>
+    kickRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}/kick`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify({ participantId: participant.clientId })
+    }), { params: Promise.resolve({ roomCode }) });
+
+  assert.equal((await request({})).status, 403);
+  assert.deepEqual(roomService.getRoom(roomCode)?.participants, [participant.clientId]);
+
+  const response = await request(adminHeaders());
+  assert.equal(response.status, 200);
+  const body = await response.json() as KickParticipantResponse;
+  assert.equal(body.ban?.participantId, participant.clientId);
+  assert.equal(participant.socket.messages('kicked').length, 1);
+  assert.equal(testRoom.host.last('participant-left').data.participantId, participant.clientId);
+  assert.deepEqual(roomService.getRoom(roomCode)?.participants, []);
+});
+
+void run('Admin rooms');
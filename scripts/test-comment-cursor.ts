@@ -0,0 +1,55 @@
+/**
+ * 댓글 목록 커서 테스트 (커서 인코딩/검증, 다음 커서 생성)
+ * 사용법: npm run test:comment-cursor
+ */
+
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, paginateParentRows } from '../app/services/commentService';
+import { run, test } from './lib/testHarness';
+
+const rowsOf = (...items: Array<[number, number]>) => items.map(([headerId, replyCount]) => ({ HEADER_ID: headerId, REPLY_COUNT: replyCount }));
+const encodeRaw = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+test('인코딩한 커서는 같은 정렬 기준으로 되돌린다', () => {
+  assert.deepEqual(decodeCursor(encodeCursor({ sort: 'newest', headerId: 42 }), 'newest'), { sort: 'newest', headerId: 42 });
+  assert.deepEqual(
+    decodeCursor(encodeCursor({ sort: 'most_replies', headerId: 7, replyCount: 3 }), 'most_replies'),
+    { sort: 'most_replies', headerId: 7, replyCount: 3 }
+  );
+});
+
+test('다른 정렬 기준의 커서는 거부한다', () => {
+  const cursor = encodeCursor({ sort: 'newest', headerId: 42 });
+  assert.throws(() => decodeCursor(cursor, 'oldest'), /유효하지 않은 커서/);
+});
+
+test('형식이 잘못되었거나 값이 정수가 아닌 커서는 거부한다', () => {
+  assert.throws(() => decodeCursor('not-a-cursor', 'newest'), /유효하지 않은 커서/);
+  assert.throws(() => decodeCursor(encodeRaw({ sort: 'newest', headerId: '1 OR 1=1' }), 'newest'), /유효하지 않은 커서/);
+  assert.throws(() => decodeCursor(encodeRaw({ sort: 'newest', headerId: 1.5 }), 'newest'), /유효하지 않은 커서/);
+  assert.throws(() => decodeCursor(encodeRaw(null), 'newest'), /유효하지 않은 커서/);
+  // most_replies 커서에는 답글 수 경계가 필요
+  assert.throws(() => decodeCursor(encodeRaw({ sort: 'most_replies', headerId: 1 }), 'most_replies'), /유효하지 않은 커서/);
+});
+
+test('limit 이하로 조회되면 마지막 목록이므로 다음 커서가 없다', () => {
+  const rows = rowsOf([3, 0], [2, 0]);
+  assert.deepEqual(paginateParentRows(rows, 2, 'newest'), { rows, nextCursor: null });
+});
+
+test('limit보다 많이 조회되면 limit개로 자르고 마지막 행을 경계로 커서를 만든다', () => {
+  const { rows, nextCursor } = paginateParentRows(rowsOf([9, 0], [8, 0], [7, 0]), 2, 'newest');
+
+  assert.deepEqual(rows.map((row) => row.HEADER_ID), [9, 8]);
+  assert.ok(nextCursor);
+  assert.deepEqual(decodeCursor(nextCursor, 'newest'), { sort: 'newest', headerId: 8 });
+});
+
+test('most_replies 커서에는 마지막 행의 답글 수를 함께 담는다', () => {
+  const { nextCursor } = paginateParentRows(rowsOf([5, 10], [9, 4], [3, 4]), 2, 'most_replies');
+
+  assert.ok(nextCursor);
+  assert.deepEqual(decodeCursor(nextCursor, 'most_replies'), { sort: 'most_replies', headerId: 9, replyCount: 4 });
+});
+
+void run('Comment cursor');
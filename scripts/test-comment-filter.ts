@@ -0,0 +1,81 @@
+/**
+ * 댓글 필터 파이프라인 테스트 (금지어, 링크 수, 중복, 작성 빈도, 예약 취소)
+ * 사용법: npm run test:comment-filter
+ */
+
+import assert from 'node:assert/strict';
+import {
+  CommentFilterPipeline,
+  createBlocklistFilter,
+  createDuplicateFilter,
+  createLinkLimitFilter,
+  createRateLimitFilter,
+} from '../app/services/commentFilter';
+import { run, test } from './lib/testHarness';
+
+const input = (content: string, hashedUserIP = 'user-a') => ({ content, hashedUserIP, parentHeaderId: null });
+
+test('금지어와 금지 패턴은 정규화한 내용으로 비교한다', () => {
+  const pipeline = new CommentFilterPipeline(10).use(createBlocklistFilter(['Casino'], [/free\s+money/i]));
+
+  assert.equal(pipeline.check(input('ＣＡＳＩＮＯ 홍보'))?.code, 'BLOCKED_WORD');
+  assert.equal(pipeline.check(input('FREE   money here'))?.code, 'BLOCKED_PATTERN');
+  assert.equal(pipeline.check(input('좋은 노래네요')), null);
+  assert.equal(pipeline.getBlocked().length, 2);
+});
+
+test('링크 수 제한을 넘으면 거부한다', () => {
+  const pipeline = new CommentFilterPipeline(10).use(createLinkLimitFilter(1));
+
+  assert.equal(pipeline.check(input('https://a.example')), null);
+  assert.equal(pipeline.check(input('https://a.example www.b.example'))?.code, 'TOO_MANY_LINKS');
+});
+
+test('통과한 요청은 바로 작성 기록을 예약하므로 저장 전에 보낸 요청도 제한된다', () => {
+  const pipeline = new CommentFilterPipeline(10)
+    .use(createDuplicateFilter(60_000))
+    .use(createRateLimitFilter(2, 60_000));
+
+  // 같은 내용을 저장 완료 전에 연달아 보내도 두 번째는 중복으로 거부
+  assert.equal(pipeline.check(input('첫 댓글')), null);
+  assert.equal(pipeline.check(input('첫  댓글'))?.code, 'DUPLICATE_CONTENT');
+  // 작성 빈도 제한도 저장 완료를 기다리지 않음
+  assert.equal(pipeline.check(input('두 번째 댓글')), null);
+  const rejection = pipeline.check(input('세 번째 댓글'));
+  assert.equal(rejection?.code, 'RATE_LIMITED');
+  assert.ok((rejection?.retryAfterMs ?? 0) > 0);
+  // 다른 사용자는 영향을 받지 않음
+  assert.equal(pipeline.check(input('첫 댓글', 'user-b')), null);
+});
+
+test('저장에 실패하면 release로 예약을 취소한다', () => {
+  const pipeline = new CommentFilterPipeline(10)
+    .use(createDuplicateFilter(60_000))
+    .use(createRateLimitFilter(1, 60_000));
+
+  assert.equal(pipeline.check(input('저장 실패한 댓글')), null);
+  pipeline.release(input('저장 실패한 댓글'));
+  assert.equal(pipeline.check(input('저장 실패한 댓글')), null);
+});
+
+test('뒤의 필터가 거부하면 앞에서 통과한 필터의 예약을 취소한다', () => {
+  const pipeline = new CommentFilterPipeline(10)
+    .use(createRateLimitFilter(1, 60_000))
+    .use(createBlocklistFilter(['spam'], []));
+
+  assert.equal(pipeline.check(input('spam spam'))?.code, 'BLOCKED_WORD');
+  // 거부된 댓글은 작성 수에 포함되지 않음
+  assert.equal(pipeline.check(input('정상 댓글')), null);
+});
+
+test('차단 기록은 크기를 넘으면 오래된 것부터 버린다', () => {
+  const pipeline = new CommentFilterPipeline(2).use(createBlocklistFilter(['spam'], []));
+
+  pipeline.check(input('spam 1'));
+  pipeline.check(input('spam 2'));
+  pipeline.check(input('spam 3'));
+  assert.deepEqual(pipeline.getBlocked().map((item) => item.content), ['spam 3', 'spam 2']);
+  assert.equal(pipeline.clearBlocked(), 2);
+});
+
+void run('Comment filter');
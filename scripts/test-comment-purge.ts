@@ -0,0 +1,57 @@
+/**
+ * 댓글 영구 삭제 순서 테스트 (대댓글 체인 수집, 버전 체인 정렬)
+ * 사용법: npm run test:comment-purge
+ */
+
+import assert from 'node:assert/strict';
+import { collectThreadHeaderIds, orderChainRowIds } from '../app/services/commentService';
+import { run, test } from './lib/testHarness';
+
+const treeLoader = (tree: Record<number, number[]>) => async (headerId: number) => tree[headerId] ?? [];
+
+test('대댓글 체인을 위에서부터 모두 수집한다', async () => {
+  const headerIds = await collectThreadHeaderIds(1, treeLoader({ 1: [2, 3], 2: [4], 4: [5] }));
+  assert.deepEqual(headerIds, [1, 2, 3, 4, 5]);
+  // 삭제는 역순(가장 깊은 체인부터)으로 진행
+  assert.deepEqual([...headerIds].reverse(), [5, 4, 3, 2, 1]);
+});
+
+test('순환 연결이나 중복 부모가 있어도 각 체인을 한 번만 수집한다', async () => {
+  const headerIds = await collectThreadHeaderIds(1, treeLoader({ 1: [2, 2], 2: [1, 3], 3: [2] }));
+  assert.deepEqual(headerIds, [1, 2, 3]);
+});
+
+test('버전 체인은 HEADER_ID에서 TAIL_ID 방향으로 정렬한다', () => {
+  const ids = orderChainRowIds(10, [
+    { ID: 30, EDITED_COMMENT_ID: null, TAIL_ID: 30 },
+    { ID: 10, EDITED_COMMENT_ID: 20, TAIL_ID: 30 },
+    { ID: 20, EDITED_COMMENT_ID: 30, TAIL_ID: 30 },
+  ]);
+  assert.deepEqual(ids, [10, 20, 30]);
+});
+
+test('연결이 끊어지거나 순환하는 체인도 모든 행을 한 번씩 포함한다', () => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    const broken = orderChainRowIds(10, [
+      { ID: 10, EDITED_COMMENT_ID: 20, TAIL_ID: 40 },
+      { ID: 20, EDITED_COMMENT_ID: null, TAIL_ID: 40 },
+      { ID: 40, EDITED_COMMENT_ID: null, TAIL_ID: 40 },
+    ]);
+    assert.deepEqual(broken, [10, 20, 40]);
+
+    const cyclic = orderChainRowIds(10, [
+      { ID: 10, EDITED_COMMENT_ID: 20, TAIL_ID: 20 },
+      { ID: 20, EDITED_COMMENT_ID: 10, TAIL_ID: 20 },
+    ]);
+    assert.deepEqual(cyclic, [10, 20]);
+
+    // 헤더 행이 없으면 남은 행만 반환
+    assert.deepEqual(orderChainRowIds(10, [{ ID: 20, EDITED_COMMENT_ID: null, TAIL_ID: 20 }]), [20]);
+  } finally {
+    console.warn = warn;
+  }
+});
+
+void run('Comment purge');
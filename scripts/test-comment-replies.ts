@@ -0,0 +1,92 @@
+/**
+ * 답글 트리 조회 테스트 (단계 제한, 지연 로딩 표시, 응답 변환)
+ * 사용법: npm run test:comment-replies
+ */
+
+import assert from 'node:assert/strict';
+import { loadReplyTree, type CommentReplyNode } from '../app/services/commentService';
+import { toReplyResponse } from '../app/utils/commentResponse';
+import { run, test } from './lib/testHarness';
+
+type ReplyRow = Omit<CommentReplyNode, 'depth' | 'children'>;
+
+function reply(headerId: number, parentHeaderId: number, replyCount: number, tailId: number = headerId): ReplyRow {
+  return {
+    ID: tailId,
+    parentHeaderId,
+    CONTENT: `reply ${headerId}`,
+    CREATED_AT: new Date('2026-01-01T00:00:00Z'),
+    UPDATED_AT: new Date('2026-01-01T00:00:00Z'),
+    IS_EDITED: tailId === headerId ? 0 : 1,
+    IS_DELETED: 0,
+    VERSION: tailId === headerId ? 1 : 2,
+    EDITED_COMMENT_ID: null,
+    HEADER_ID: headerId,
+    TAIL_ID: tailId,
+    HASHED_USER_IP: 'hashed',
+    REPLY_COUNT: replyCount,
+  };
+}
+
+// 1 ─ 2 ─ 4 ─ 6
+//   │   └ 5
+//   └ 3
+const rows = [reply(2, 1, 2), reply(3, 1, 0), reply(4, 2, 1, 40), reply(5, 2, 0), reply(6, 4, 0)];
+
+function replyLoader(calls: number[][] = []) {
+  return async (parentHeaderIds: number[]) => {
+    calls.push(parentHeaderIds);
+    return rows.filter((row) => row.parentHeaderId !== null && parentHeaderIds.includes(row.parentHeaderId));
+  };
+}
+
+test('levels 단계까지 답글을 부모별로 묶고 깊이를 매긴다', async () => {
+  const repliesByParent = await loadReplyTree([1], 1, 3, replyLoader());
+  const [two, three] = repliesByParent.get(1) ?? [];
+
+  assert.deepEqual([two.HEADER_ID, three.HEADER_ID], [2, 3]);
+  assert.deepEqual(two.children?.map((node) => [node.HEADER_ID, node.depth]), [[4, 2], [5, 2]]);
+  assert.deepEqual(two.children?.[0].children?.map((node) => [node.HEADER_ID, node.depth]), [[6, 3]]);
+  assert.deepEqual(three.children, []);
+  // 부모별 목록은 평탄하게도 조회 가능
+  assert.deepEqual(repliesByParent.get(4)?.map((node) => node.HEADER_ID), [6]);
+});
+
+test('마지막 단계에서 하위 답글이 남은 노드는 children 없이 지연 로딩 대상으로 남긴다', async () => {
+  const repliesByParent = await loadReplyTree([1], 1, 2, replyLoader());
+  const [two] = repliesByParent.get(1) ?? [];
+  const [four, five] = two.children ?? [];
+
+  assert.equal(four.REPLY_COUNT, 1);
+  assert.equal(four.children, undefined);
+  assert.deepEqual(five.children, []);
+});
+
+test('하위 답글이 있는 노드만 다음 단계에서 조회한다', async () => {
+  const calls: number[][] = [];
+  await loadReplyTree([1, 99], 1, 5, replyLoader(calls));
+  // 6은 답글이 없으므로 4단계 조회는 하지 않음
+  assert.deepEqual(calls, [[1, 99], [2], [4]]);
+});
+
+test('깊은 스레드를 이어서 조회하면 시작 깊이부터 매긴다', async () => {
+  const repliesByParent = await loadReplyTree([4], 3, 2, replyLoader());
+  assert.deepEqual(repliesByParent.get(4)?.map((node) => [node.HEADER_ID, node.depth, node.children]), [[6, 3, []]]);
+});
+
+test('응답 변환은 최신 버전 ID와 하위 트리를 유지하고 불러오지 않은 답글은 children 없이 보낸다', async () => {
+  const repliesByParent = await loadReplyTree([1], 1, 2, replyLoader());
+  const [response] = (repliesByParent.get(1) ?? []).map(toReplyResponse);
+
+  assert.equal(response.headerId, 2);
+  assert.equal(response.replyCount, 2);
+  assert.equal(response.depth, 1);
+  assert.equal(response.createdAt, '2026-01-01T00:00:00.000Z');
+  const [four] = response.children ?? [];
+  assert.deepEqual([four.id, four.headerId, four.isEdited, four.replyCount], [40, 4, 1, 1]);
+  assert.equal(four.children, undefined);
+  assert.ok(!('HASHED_USER_IP' in response));
+  assert.equal(response.hashedUser, 'hashed');
+});
+
+void run('Comment replies');
@@ -0,0 +1,128 @@
+/**
+ * 댓글 실시간 이벤트 테스트 (이벤트 허브, SSE 스트림 형식, 연결 수 제한)
+ * COMMENT_STREAM_MAX_CLIENTS=2로 실행합니다.
+ * 사용법: npm run test:comment-stream
+ */
+
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { GET as streamRoute } from '../app/api/comments/stream/route';
+import { CommentEventHub, commentEventHub } from '../app/services/commentEvents';
+import type { CommentEvent, CommentResponse } from '../app/types/comment';
+import { run, test, waitFor } from './lib/testHarness';
+
+const decoder = new TextDecoder();
+
+function commentResponse(headerId: number, overrides: Partial<CommentResponse> = {}): CommentResponse {
+  return {
+    id: headerId,
+    parentHeaderId: null,
+    content: `comment ${headerId}`,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    isEdited: 0,
+    isDeleted: 0,
+    version: 1,
+    editedCommentId: null,
+    headerId,
+    tailId: headerId,
+    hashedUser: 'hashed',
+    ...overrides,
+  };
+}
+
+/**
+ * 스트림 연결 열기 (abort로 연결 종료)
+ */
+async function openStream() {
+  const abortController = new AbortController();
+  const response = await streamRoute(new NextRequest('http://localhost/api/comments/stream', { signal: abortController.signal }));
+  const reader = response.body?.getReader();
+  const read = async () => {
+    const chunk = await reader?.read();
+    return chunk?.value ? decoder.decode(chunk.value) : '';
+  };
+  return { response, read, close: () => abortController.abort() };
+}
+
+test('구독자에게 발행 순서대로 전달하고 구독 해제 후에는 전달하지 않는다', () => {
+  const hub = new CommentEventHub();
+  const received: CommentEvent[] = [];
+  const unsubscribe = hub.subscribe((event) => received.push(event));
+  assert.equal(hub.listenerCount, 1);
+
+  const created: CommentEvent = { type: 'created', comment: commentResponse(1) };
+  const deleted: CommentEvent = { type: 'deleted', comment: commentResponse(1, { content: null, isDeleted: 1 }) };
+  hub.publish(created);
+  hub.publish(deleted);
+  unsubscribe();
+  hub.publish(created);
+
+  assert.deepEqual(received, [created, deleted]);
+  assert.equal(hub.listenerCount, 0);
+});
+
+test('구독자 하나가 실패해도 다른 구독자에게는 전달한다', () => {
+  const hub = new CommentEventHub();
+  const received: number[] = [];
+  const error = console.error;
+  console.error = () => {};
+  try {
+    hub.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    hub.subscribe((event) => received.push(event.comment.headerId));
+    hub.publish({ type: 'edited', comment: commentResponse(7, { id: 8, version: 2, isEdited: 1 }) });
+  } finally {
+    console.error = error;
+  }
+  assert.deepEqual(received, [7]);
+});
+
+test('SSE 스트림은 재연결 대기 시간을 먼저 보내고 이벤트마다 증가하는 id와 이벤트 이름을 붙인다', async () => {
+  const stream = await openStream();
+  try {
+    assert.equal(stream.response.status, 200);
+    assert.equal(stream.response.headers.get('content-type'), 'text/event-stream; charset=utf-8');
+    assert.equal(stream.response.headers.get('cache-control'), 'no-cache, no-transform');
+    assert.equal(await stream.read(), 'retry: 5000\n: connected\n\n');
+
+    const reply = commentResponse(3, { parentHeaderId: 1, depth: 1, replyCount: 0, children: [] });
+    commentEventHub.publish({ type: 'created', comment: reply });
+    commentEventHub.publish({ type: 'deleted', comment: { ...reply, content: null, isDeleted: 1 } });
+
+    assert.equal(await stream.read(), `id: 1\nevent: created\ndata: ${JSON.stringify(reply)}\n\n`);
+    assert.equal(await stream.read(), `id: 2\nevent: deleted\ndata: ${JSON.stringify({ ...reply, content: null, isDeleted: 1 })}\n\n`);
+  } finally {
+    stream.close();
+  }
+});
+
+test('연결이 끊기면 구독을 해제한다', async () => {
+  const before = commentEventHub.listenerCount;
+  const stream = await openStream();
+  assert.equal(commentEventHub.listenerCount, before + 1);
+  await stream.read();
+
+  stream.close();
+  await waitFor(() => commentEventHub.listenerCount === before);
+  // 스트림도 함께 종료
+  assert.equal(await stream.read(), '');
+});
+
+test('동시 연결 수가 COMMENT_STREAM_MAX_CLIENTS에 도달하면 503을 반환한다', async () => {
+  const streams = [await openStream(), await openStream()];
+  try {
+    const rejected = await openStream();
+    assert.equal(rejected.response.status, 503);
+  } finally {
+    streams.forEach((stream) => stream.close());
+  }
+
+  await waitFor(() => commentEventHub.listenerCount === 0);
+  const stream = await openStream();
+  assert.equal(stream.response.status, 200);
+  stream.close();
+});
+
+void run('Comment stream');
@@ -0,0 +1,96 @@
+/**
+ * WebSocket heartbeat(RTT 측정, 응답 없는 연결 정리) 테스트
+ * SIGNALING_HEARTBEAT_INTERVAL_MS=50, SIGNALING_HEARTBEAT_TIMEOUT_MS=100으로 실행합니다.
+ * 사용법: npm run test:heartbeat
+ */
+
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { roomService } from '../app/services/collaboration/roomService';
+import { signalingService } from '../app/services/collaboration/signalingService';
+import { joinRoom, openRoom, type TestSocket } from './lib/signalingClient';
+import { run, test, waitFor } from './lib/testHarness';
+
+const INTERVAL_MS = 50;
+const TIMEOUT_MS = 100;
+
+/** ping을 받으면 delayMs 후 pong으로 응답하도록 설정 */
+function answerPings(socket: TestSocket, delayMs: number): void {
+  socket.ping = () => {
+    socket.pingCount++;
+    setTimeout(() => socket.emit('pong'), delayMs);
+  };
+}
+
+function findConnection(roomCode: string, clientId: string) {
+  return signalingService.getRoomClientConnections(roomCode).find((connection) => connection.clientId === clientId);
+}
+
+test('pong을 받으면 왕복 시간과 마지막 응답 시간을 기록한다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  answerPings(participant.socket, 20);
+  assert.equal(findConnection(testRoom.room.roomCode, participant.clientId)?.rttMs, null);
+
+  await waitFor(() => findConnection(testRoom.room.roomCode, participant.clientId)?.rttMs != null);
+
+  const connection = findConnection(testRoom.room.roomCode, participant.clientId);
+  assert.ok(connection);
+  assert.ok(connection.rttMs !== null && connection.rttMs >= 15, `rttMs: ${connection.rttMs}`);
+  assert.ok(connection.lastPongAt !== null && connection.lastPongAt <= Date.now());
+});
+
+test('제한 시간 안에 응답하는 연결은 계속 유지한다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  answerPings(participant.socket, TIMEOUT_MS / 2);
+
+  await new Promise((resolve) => setTimeout(resolve, (INTERVAL_MS + TIMEOUT_MS) * 3));
+
+  assert.equal(participant.socket.readyState, WebSocket.OPEN);
+  assert.ok(participant.socket.pingCount >= 2);
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.participants, [participant.clientId]);
+});
+
+test('pong이 오지 않으면 연결을 종료하고 대기 중에는 ping을 다시 보내지 않는다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  answerPings(testRoom.host, 0);
+
+  await waitFor(() => participant.socket.readyState === WebSocket.CLOSED);
+
+  assert.equal(participant.socket.pingCount, 1);
+  assert.equal(findConnection(testRoom.room.roomCode, participant.clientId), undefined);
+  // 참가자 슬롯은 세션 재개 유예 시간 동안 유지
+  const room = roomService.getRoom(testRoom.room.roomCode);
+  assert.deepEqual(room?.reconnectingParticipants.map((entry) => entry.participantId), [participant.clientId]);
+});
+
+test('응답 없는 호스트 연결도 종료하고 재연결 유예를 시작한다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  answerPings(participant.socket, 0);
+
+  await waitFor(() => testRoom.host.readyState === WebSocket.CLOSED);
+
+  assert.equal(participant.socket.last('host-reconnecting').data.hostId, testRoom.room.hostId);
+  assert.notEqual(roomService.getRoom(testRoom.room.roomCode)?.hostDisconnectedAt, null);
+});
+
+test('close 이벤트 없이 닫힌 연결은 정기 정리에서 제거한다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+
+  // close 이벤트를 놓친 좀비 연결
+  participant.socket.readyState = WebSocket.CLOSED;
+  testRoom.host.readyState = WebSocket.CLOSED;
+
+  const result = signalingService.cleanupDeadConnections();
+
+  assert.ok(result.cleaned >= 2);
+  assert.ok(result.hostDisconnectedRooms.includes(testRoom.room.roomCode));
+  assert.deepEqual(signalingService.getRoomClients(testRoom.room.roomCode), []);
+  assert.notEqual(roomService.getRoom(testRoom.room.roomCode)?.hostDisconnectedAt, null);
+});
+
+void run('Heartbeat');
@@ -0,0 +1,156 @@
+/**
+ * 호스트 단위 차단 테스트 (새 룸 적용, IP 차단, 해제, 만료, 파일 기록)
+ * 사용법: npm run test:host-bans
+ */
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import { GET as listBansRoute } from '../app/api/online-sequencer/rooms/[roomCode]/bans/route';
+import { DELETE as liftBanRoute } from '../app/api/online-sequencer/rooms/[roomCode]/bans/[banId]/route';
+import { POST as kickRoute } from '../app/api/online-sequencer/rooms/[roomCode]/kick/route';
+import { HostBanList, ROOM_BAN_DURATION_MS } from '../app/services/collaboration/hostBanList';
+import { roomService } from '../app/services/collaboration/roomService';
+import type { KickParticipantResponse, RoomBansResponse } from '../app/types/collaboration/room';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { joinRoom, openRoom, type TestRoom } from './lib/signalingClient';
+import { advanceClock, run, test } from './lib/testHarness';
+
+function authorization(token: string): Record<string, string> {
+  return { authorization: `Bearer ${token}` };
+}
+
+async function kick(testRoom: TestRoom, participantId: string, banIp: boolean): Promise<KickParticipantResponse> {
+  const { roomCode } = testRoom.room;
+  const response = await kickRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}/kick`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...authorization(testRoom.tokens.hostToken) },
+    body: JSON.stringify({ participantId, banIp })
+  }), { params: Promise.resolve({ roomCode }) });
+  assert.equal(response.status, 200);
+  return await response.json() as KickParticipantResponse;
+}
+
+test('강퇴된 참가자는 같은 호스트가 새로 만든 룸에도 입장할 수 없다', async () => {
+  const hostId = randomUUID();
+  const first = openRoom({}, hostId);
+  const participant = joinRoom(first);
+
+  const { ban } = await kick(first, participant.clientId, false);
+  assert.equal(ban?.participantId, participant.clientId);
+  assert.equal(ban?.ipBanned, false);
+
+  roomService.deleteRoom(first.room.roomCode);
+  const second = openRoom({}, hostId);
+  assert.deepEqual(joinRoom(second, 'participant', participant.clientId).socket.errorCodes(), [ErrorCode.KICKED]);
+  assert.deepEqual(joinRoom(second, 'spectator', participant.clientId).socket.errorCodes(), [ErrorCode.KICKED]);
+
+  // 다른 호스트의 룸에는 영향 없음
+  const otherHost = openRoom();
+  assert.equal(joinRoom(otherHost, 'participant', participant.clientId).socket.last('joined').data.role, 'participant');
+});
+
+test('IP 차단은 clientId를 바꿔 들어와도 거부하고 IP 차단을 요청하지 않으면 IP는 기록하지 않는다', async () => {
+  const hostId = randomUUID();
+  const testRoom = openRoom({}, hostId);
+  const ipBanned = joinRoom(testRoom, 'participant', randomUUID(), 'ip-hash-a');
+  const idBanned = joinRoom(testRoom, 'participant', randomUUID(), 'ip-hash-b');
+
+  assert.equal((await kick(testRoom, ipBanned.clientId, true)).ban?.ipBanned, true);
+  assert.equal((await kick(testRoom, idBanned.clientId, false)).ban?.ipBanned, false);
+
+  roomService.deleteRoom(testRoom.room.roomCode);
+  const nextRoom = openRoom({}, hostId);
+  assert.deepEqual(joinRoom(nextRoom, 'participant', randomUUID(), 'ip-hash-a').socket.errorCodes(), [ErrorCode.KICKED]);
+  assert.equal(joinRoom(nextRoom, 'participant', randomUUID(), 'ip-hash-b').socket.last('joined').data.role, 'participant');
+});
+
+test('차단 목록 조회와 해제는 호스트 토큰이 필요하고 해제하면 다시 입장할 수 있다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+  const { ban } = await kick(testRoom, participant.clientId, false);
+  assert.ok(ban);
+
+  const list = (token: string) =>
+    listBansRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}/bans`, { headers: authorization(token) }), { params: Promise.resolve({ roomCode }) });
+  const lift = (token: string, banId: string) =>
+    liftBanRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}/bans/${banId}`, { method: 'DELETE', headers: authorization(token) }), { params: Promise.resolve({ roomCode, banId }) });
+
+  assert.equal((await list(testRoom.tokens.participantToken)).status, 403);
+  const body = await (await list(testRoom.tokens.hostToken)).json() as RoomBansResponse;
+  assert.deepEqual(body.bans, [ban]);
+  // 해싱된 IP는 호스트에게 노출하지 않음
+  assert.ok(!('ipHash' in body.bans[0]));
+
+  assert.equal((await lift(testRoom.tokens.participantToken, ban.banId)).status, 403);
+  assert.equal((await lift(testRoom.tokens.hostToken, ban.banId)).status, 200);
+  assert.equal((await lift(testRoom.tokens.hostToken, ban.banId)).status, 404);
+
+  // 현재 룸 인스턴스의 강퇴 기록도 함께 해제
+  assert.equal(roomService.isKickedParticipant(roomCode, participant.clientId), false);
+  assert.equal(joinRoom(testRoom, 'participant', participant.clientId).socket.last('joined').data.role, 'participant');
+});
+
+test('다시 강퇴하면 기존 차단의 만료 시간을 갱신하고 IP 차단은 유지한다', () => {
+  const banList = new HostBanList();
+  const first = banList.add('host', 'participant', 'ip-hash');
+  assert.ok(first);
+
+  const restoreClock = advanceClock(1000);
+  try {
+    const renewed = banList.add('host', 'participant');
+    assert.equal(renewed?.banId, first.banId);
+    assert.equal(renewed?.ipHash, 'ip-hash');
+    assert.ok(renewed && renewed.bannedAt >= first.bannedAt + 1000);
+    assert.equal(renewed.expiresAt - renewed.bannedAt, ROOM_BAN_DURATION_MS);
+    assert.equal(banList.list('host').length, 1);
+  } finally {
+    restoreClock();
+  }
+});
+
+test('만료된 차단은 적용하지 않고 cleanup으로 정리한다', () => {
+  const banList = new HostBanList();
+  banList.add('host', 'expired', 'ip-hash');
+
+  const restoreClock = advanceClock(ROOM_BAN_DURATION_MS);
+  try {
+    assert.equal(banList.find('host', 'expired', 'ip-hash'), null);
+    assert.deepEqual(banList.list('host'), []);
+    assert.equal(banList.cleanup(), 1);
+    assert.equal(banList.cleanup(), 0);
+  } finally {
+    restoreClock();
+  }
+});
+
+test('파일 차단 목록은 다시 불러와도 유효한 차단만 유지한다', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'room-bans-'));
+  const filePath = join(dir, 'room-bans.json');
+  try {
+    const banList = new HostBanList(filePath);
+    const kept = banList.add('host', 'kept', 'ip-hash');
+    const lifted = banList.add('host', 'lifted');
+    assert.ok(kept && lifted);
+    banList.remove('host', lifted.banId);
+
+    const reloaded = new HostBanList(filePath);
+    assert.deepEqual(reloaded.list('host'), [kept]);
+    assert.deepEqual(reloaded.find('host', 'someone-else', 'ip-hash'), kept);
+
+    const restoreClock = advanceClock(ROOM_BAN_DURATION_MS);
+    try {
+      assert.deepEqual(new HostBanList(filePath).list('host'), []);
+    } finally {
+      restoreClock();
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+void run('Host bans');
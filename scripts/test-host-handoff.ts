@@ -0,0 +1,100 @@
+/**
+ * 호스트 재연결 유예 시간과 호스트 넘기기 테스트
+ * ROOM_HOST_RECONNECT_GRACE_SECONDS=1, ROOM_HOST_HANDOFF=true로 실행합니다.
+ * 사용법: npm run test:host-handoff
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { decodeRoomToken, verifyRoomToken } from '../app/utils/collaboration/roomToken';
+import { connectClient, joinRoom, openRoom } from './lib/signalingClient';
+import { run, test, waitFor } from './lib/testHarness';
+
+const GRACE_MS = 1000;
+
+test('호스트 연결이 끊기면 유예 시간 동안 룸을 유지하고 host-reconnecting을 알린다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const before = Date.now();
+
+  testRoom.host.disconnect();
+
+  const { data } = participant.socket.last('host-reconnecting');
+  assert.equal(data.hostId, testRoom.room.hostId);
+  assert.ok(data.graceExpiresAt >= before + GRACE_MS && data.graceExpiresAt <= Date.now() + GRACE_MS);
+  assert.notEqual(roomService.getRoom(testRoom.room.roomCode), null);
+  assert.notEqual(roomService.getRoom(testRoom.room.roomCode)?.hostDisconnectedAt, null);
+});
+
+test('유예 시간 안에 다시 등록한 호스트는 룸을 그대로 유지한다', async () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  testRoom.host.disconnect();
+
+  const { socket: host } = connectClient(testRoom.room.hostId);
+  host.sendMessage({ action: 'register', roomCode: testRoom.room.roomCode, data: { role: 'host', token: testRoom.tokens.hostToken } });
+  assert.equal(participant.socket.last('host-reconnected').data.hostId, testRoom.room.hostId);
+
+  // 유예 타이머가 취소되어 시간이 지나도 호스트가 바뀌거나 룸이 닫히지 않아야 함
+  await new Promise((resolve) => setTimeout(resolve, GRACE_MS + 200));
+  const room = roomService.getRoom(testRoom.room.roomCode);
+  assert.equal(room?.hostId, testRoom.room.hostId);
+  assert.equal(room?.hostDisconnectedAt, null);
+  assert.equal(participant.socket.messages('host-changed').length, 0);
+  assert.equal(participant.socket.messages('room-closed').length, 0);
+});
+
+test('유예 시간이 지나면 가장 오래 접속한 참가자에게 호스트를 넘긴다', async () => {
+  const testRoom = openRoom();
+  const oldest = joinRoom(testRoom);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const newer = joinRoom(testRoom);
+
+  testRoom.host.disconnect();
+  await waitFor(() => oldest.socket.messages('host-changed').length > 0, GRACE_MS + 1000);
+
+  const promoted = oldest.socket.last('host-changed').data;
+  assert.equal(promoted.previousHostId, testRoom.room.hostId);
+  assert.equal(promoted.hostId, oldest.clientId);
+  assert.equal(promoted.participantCount, 1);
+
+  // 새 호스트 토큰은 승격된 참가자에게만 전달
+  const notified = newer.socket.last('host-changed').data;
+  assert.equal(notified.hostId, oldest.clientId);
+  assert.equal('hostToken' in notified, false);
+
+  const room = roomService.getRoom(testRoom.room.roomCode);
+  assert.ok(room);
+  assert.equal(room.hostId, oldest.clientId);
+  assert.deepEqual(room.participants, [newer.clientId]);
+  assert.equal(verifyRoomToken(promoted.hostToken, room, 'host'), true);
+  assert.equal(decodeRoomToken(promoted.hostToken)?.hostId, oldest.clientId);
+  // 이전 호스트 토큰은 더 이상 쓸 수 없음
+  assert.equal(verifyRoomToken(testRoom.tokens.hostToken, room, 'host'), false);
+});
+
+test('연결이 끊긴 참가자는 새 호스트 후보에서 제외한다', async () => {
+  const testRoom = openRoom();
+  const disconnected = joinRoom(testRoom);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const connected = joinRoom(testRoom);
+  disconnected.socket.disconnect();
+
+  testRoom.host.disconnect();
+  await waitFor(() => connected.socket.messages('host-changed').length > 0, GRACE_MS + 1000);
+
+  assert.equal(connected.socket.last('host-changed').data.hostId, connected.clientId);
+  assert.equal(roomService.getRoom(testRoom.room.roomCode)?.hostId, connected.clientId);
+});
+
+test('넘길 참가자가 없으면 유예 시간 후 룸을 닫는다', async () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+
+  testRoom.host.disconnect();
+  await waitFor(() => spectator.socket.messages('room-closed').length > 0, GRACE_MS + 1000);
+
+  assert.equal(roomService.getRoom(testRoom.room.roomCode), null);
+});
+
+void run('Host handoff');
@@ -0,0 +1,94 @@
+/**
+ * ICE 서버 / TURN 인증 정보 발급 테스트
+ * TURN_URLS=turn:turn.example.com:3478, TURN_SHARED_SECRET=test-secret, TURN_CREDENTIAL_TTL_SECONDS=600으로 실행합니다.
+ * 사용법: npm run test:ice-servers
+ */
+
+import assert from 'node:assert/strict';
+import { createHmac, randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { GET } from '../app/api/online-sequencer/ice-servers/route';
+import { roomService } from '../app/services/collaboration/roomService';
+import type { IceServersResponse } from '../app/types/collaboration/room';
+import { getIceServers } from '../app/utils/collaboration/iceServers';
+import { createRoomTokens } from '../app/utils/collaboration/roomToken';
+import { run, test } from './lib/testHarness';
+
+const TURN_URL = 'turn:turn.example.com:3478';
+const TURN_SECRET = 'test-secret';
+const TURN_TTL_MS = 600 * 1000;
+
+function requestIceServers(roomCode: string, clientId: string | null, token?: string): Promise<Response> {
+  const headers = new Headers();
+  if (clientId) {
+    headers.set('x-client-id', clientId);
+  }
+  if (token) {
+    headers.set('authorization', `Bearer ${token}`);
+  }
+  return GET(new NextRequest(`http://localhost/api/online-sequencer/ice-servers?roomCode=${roomCode}`, { headers }));
+}
+
+test('TURN 인증 정보는 만료 시간, 룸 코드, clientId를 담고 공유 비밀 키로 서명한다', () => {
+  const room = roomService.createRoom(randomUUID());
+  const before = Date.now();
+
+  const { iceServers, expiresAt } = getIceServers(room, 'client-1');
+
+  assert.ok(expiresAt >= before + TURN_TTL_MS && expiresAt <= Date.now() + TURN_TTL_MS);
+  const turn = iceServers.find((server) => server.username);
+  assert.ok(turn);
+  assert.deepEqual(turn.urls, [TURN_URL]);
+  assert.equal(turn.username, `${Math.floor(expiresAt / 1000)}:${room.roomCode}:client-1`);
+  // coturn(use-auth-secret)과 같은 방식: base64(HMAC-SHA1(secret, username))
+  assert.equal(turn.credential, createHmac('sha1', TURN_SECRET).update(turn.username).digest('base64'));
+  assert.ok(iceServers.some((server) => !server.username && server.urls.length > 0), 'STUN 서버도 포함해야 함');
+});
+
+test('인증 정보는 룸 만료 시간을 넘지 않는다', () => {
+  const room = roomService.createRoom(randomUUID(), { ttlMinutes: 5 });
+
+  const { iceServers, expiresAt } = getIceServers(room, 'client-1');
+
+  assert.equal(expiresAt, room.expiresAt);
+  assert.ok(iceServers.find((server) => server.username)?.username?.startsWith(`${Math.floor(room.expiresAt / 1000)}:`));
+});
+
+test('클라이언트마다 다른 인증 정보를 발급한다', () => {
+  const room = roomService.createRoom(randomUUID());
+
+  const first = getIceServers(room, 'client-1').iceServers.find((server) => server.username);
+  const second = getIceServers(room, 'client-2').iceServers.find((server) => server.username);
+
+  assert.notEqual(first?.username, second?.username);
+  assert.notEqual(first?.credential, second?.credential);
+});
+
+test('API는 자신의 역할 토큰을 제시한 룸 멤버에게만 발급한다', async () => {
+  const room = roomService.createRoom(randomUUID());
+  const { hostToken, participantToken } = createRoomTokens(room);
+  roomService.addParticipant(room.roomCode, 'participant-1');
+
+  const hostResponse = await requestIceServers(room.roomCode, room.hostId, hostToken);
+  assert.equal(hostResponse.status, 200);
+  assert.equal(hostResponse.headers.get('cache-control'), 'no-store');
+  const body = await hostResponse.json() as IceServersResponse;
+  assert.equal(body.success, true);
+  assert.ok(body.iceServers.some((server) => server.username?.endsWith(`:${room.roomCode}:${room.hostId}`)));
+
+  assert.equal((await requestIceServers(room.roomCode, 'participant-1', participantToken)).status, 200);
+  // 참가자 토큰만으로는 호스트로, 룸에 없는 clientId로는 발급받을 수 없음
+  assert.equal((await requestIceServers(room.roomCode, room.hostId, participantToken)).status, 403);
+  assert.equal((await requestIceServers(room.roomCode, 'outsider', participantToken)).status, 403);
+  assert.equal((await requestIceServers(room.roomCode, 'participant-1')).status, 403);
+});
+
+test('API는 잘못된 룸 코드나 clientId 누락을 400으로 거부한다', async () => {
+  const room = roomService.createRoom(randomUUID());
+  const { participantToken } = createRoomTokens(room);
+
+  assert.equal((await requestIceServers('!!', 'participant-1', participantToken)).status, 400);
+  assert.equal((await requestIceServers(room.roomCode, null, participantToken)).status, 400);
+});
+
+void run('ICE servers');
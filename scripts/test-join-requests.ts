@@ -0,0 +1,137 @@
+/**
+ * lobby 모드 조인 요청(호스트 승인) 테스트
+ * 사용법: npm run test:join-requests
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { signalingService } from '../app/services/collaboration/signalingService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { joinRoom, openRoom } from './lib/signalingClient';
+import { advanceClock, run, test } from './lib/testHarness';
+
+// ROOM_JOIN_REQUEST_TTL_SECONDS 기본값
+const JOIN_REQUEST_TTL_MS = 120 * 1000;
+
+test('조인 요청은 참가자에게 join-pending, 호스트에게 join-requested로 전달된다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const { clientId, socket } = joinRoom(lobby);
+
+  const pending = socket.last('join-pending');
+  const requested = lobby.host.last('join-requested');
+  assert.equal(requested.data.participantId, clientId);
+  assert.equal(requested.data.role, 'participant');
+  assert.equal(requested.data.expiresAt, pending.data.expiresAt);
+  // 조인 허용 시간과 무관하게 요청만 등록되고 입장은 하지 않음
+  assert.equal(lobby.room.allowJoin, false);
+  assert.deepEqual(roomService.getRoom(lobby.room.roomCode)?.participants, []);
+});
+
+test('같은 참가자가 다시 요청하면 기존 요청의 만료 시간을 갱신한다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const { clientId } = joinRoom(lobby);
+  const first = roomService.getJoinRequests(lobby.room.roomCode)[0];
+
+  const restoreClock = advanceClock(1000);
+  try {
+    roomService.addJoinRequest(lobby.room.roomCode, clientId);
+  } finally {
+    restoreClock();
+  }
+
+  const requests = roomService.getJoinRequests(lobby.room.roomCode);
+  assert.equal(requests.length, 1);
+  assert.ok(requests[0].expiresAt > first.expiresAt);
+});
+
+test('승인하면 입장시키고 거절하면 JOIN_DENIED를 보낸다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const approved = joinRoom(lobby);
+  const denied = joinRoom(lobby);
+
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: approved.clientId } });
+  lobby.host.sendMessage({ action: 'deny-join', data: { participantId: denied.clientId } });
+
+  assert.equal(approved.socket.last('joined').data.role, 'participant');
+  assert.deepEqual(denied.socket.errorCodes(), [ErrorCode.JOIN_DENIED]);
+  assert.deepEqual(roomService.getRoom(lobby.room.roomCode)?.participants, [approved.clientId]);
+  assert.deepEqual(roomService.getJoinRequests(lobby.room.roomCode), []);
+});
+
+test('호스트가 아닌 클라이언트는 조인 요청을 승인할 수 없다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const waiting = joinRoom(lobby);
+  const other = joinRoom(lobby);
+
+  other.socket.sendMessage({ action: 'approve-join', data: { participantId: waiting.clientId } });
+
+  assert.deepEqual(other.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.equal(waiting.socket.messages('joined').length, 0);
+  assert.equal(roomService.getJoinRequests(lobby.room.roomCode).length, 2);
+});
+
+test('만료된 요청은 목록에서 빠지고 승인할 수 없다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const { clientId, socket } = joinRoom(lobby);
+
+  const restoreClock = advanceClock(JOIN_REQUEST_TTL_MS + 1);
+  try {
+    assert.deepEqual(roomService.getJoinRequests(lobby.room.roomCode), []);
+    lobby.host.sendMessage({ action: 'approve-join', data: { participantId: clientId } });
+  } finally {
+    restoreClock();
+  }
+
+  assert.deepEqual(lobby.host.errorCodes(), [ErrorCode.PARTICIPANT_NOT_FOUND]);
+  assert.equal(socket.messages('joined').length, 0);
+});
+
+test('만료 정리는 참가자에게 JOIN_REQUEST_EXPIRED, 호스트에게 expired 취소를 알린다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const expired = joinRoom(lobby);
+
+  // 만료 직전에 들어온 요청은 남아 있어야 함
+  const restoreLate = advanceClock(JOIN_REQUEST_TTL_MS - 1000);
+  let late: ReturnType<typeof joinRoom>;
+  try {
+    late = joinRoom(lobby);
+  } finally {
+    restoreLate();
+  }
+
+  const restoreClock = advanceClock(JOIN_REQUEST_TTL_MS + 1);
+  try {
+    assert.ok(signalingService.expireJoinRequests() >= 1);
+  } finally {
+    restoreClock();
+  }
+
+  assert.deepEqual(expired.socket.errorCodes(), [ErrorCode.JOIN_REQUEST_EXPIRED]);
+  assert.deepEqual(lobby.host.messages('join-request-cancelled').map((message) => message.data), [
+    { participantId: expired.clientId, reason: 'expired' }
+  ]);
+  assert.deepEqual(roomService.getJoinRequests(lobby.room.roomCode).map((request) => request.participantId), [late.clientId]);
+});
+
+test('대기 중에 연결이 끊기면 요청을 취소하고 호스트에게 알린다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const { clientId, socket } = joinRoom(lobby);
+
+  socket.disconnect();
+
+  assert.deepEqual(lobby.host.last('join-request-cancelled').data, { participantId: clientId, reason: 'cancelled' });
+  assert.deepEqual(roomService.getJoinRequests(lobby.room.roomCode), []);
+});
+
+test('룸이 가득 차면 조인 요청도 받지 않는다', () => {
+  const lobby = openRoom({ joinMode: 'lobby', maxParticipants: 1 });
+  const first = joinRoom(lobby);
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: first.clientId } });
+
+  const second = joinRoom(lobby);
+
+  assert.deepEqual(second.socket.errorCodes(), [ErrorCode.ROOM_FULL]);
+  assert.equal(lobby.host.messages('join-requested').length, 1);
+});
+
+void run('Join requests');
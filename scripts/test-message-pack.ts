@@ -0,0 +1,91 @@
+/**
+ * MessagePack 인코딩과 바이너리 시그널링 프레임 테스트
+ * 사용법: npm run test:message-pack
+ */
+
+import assert from 'node:assert/strict';
+import { decodeMessagePack, encodeMessagePack } from '../app/utils/collaboration/messagePack';
+import {
+  SIGNALING_SUBPROTOCOLS,
+  encodeSignalingMessage,
+  getSignalingEncoding,
+  parseBinaryClientMessage,
+  selectSignalingSubprotocol,
+} from '../app/utils/collaboration/signalingProtocol';
+import { run, test } from './lib/testHarness';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+test('정수는 값 범위에 맞는 가장 짧은 형식으로 인코딩한다', () => {
+  assert.deepEqual(encodeMessagePack(0), bytes(0x00));
+  assert.deepEqual(encodeMessagePack(127), bytes(0x7f));
+  assert.deepEqual(encodeMessagePack(128), bytes(0xcc, 0x80));
+  assert.deepEqual(encodeMessagePack(0x1234), bytes(0xcd, 0x12, 0x34));
+  assert.deepEqual(encodeMessagePack(-1), bytes(0xff));
+  assert.deepEqual(encodeMessagePack(-33), bytes(0xd0, 0xdf));
+  assert.deepEqual(encodeMessagePack(0.5), bytes(0xcb, 0x3f, 0xe0, 0, 0, 0, 0, 0, 0));
+});
+
+test('문자열, 배열, 맵은 길이에 따라 fix/8/16 형식을 사용한다', () => {
+  assert.deepEqual(encodeMessagePack('a'), bytes(0xa1, 0x61));
+  assert.deepEqual(encodeMessagePack('x'.repeat(32)).subarray(0, 2), bytes(0xd9, 32));
+  assert.deepEqual(encodeMessagePack(new Array(16).fill(0)).subarray(0, 3), bytes(0xdc, 0x00, 0x10));
+  assert.deepEqual(encodeMessagePack({ a: 1 }), bytes(0x81, 0xa1, 0x61, 0x01));
+});
+
+test('지원하는 모든 타입을 원래 값으로 되돌린다', () => {
+  const value = {
+    nil: null,
+    flags: [true, false],
+    ints: [0, 127, 255, 65535, 2 ** 32 - 1, 2 ** 40, -1, -32, -128, -32768, -(2 ** 31), -(2 ** 40)],
+    floats: [0.1, -2.5, Number.MAX_VALUE],
+    text: '한글과 emoji 🎹',
+    long: 'x'.repeat(70000),
+    bin: bytes(1, 2, 3),
+    nested: { list: [{ deep: [1, [2, [3]]] }] },
+  };
+  assert.deepEqual(decodeMessagePack(encodeMessagePack(value)), value);
+});
+
+test('undefined 필드는 JSON.stringify와 같이 생략한다', () => {
+  assert.deepEqual(decodeMessagePack(encodeMessagePack({ a: 1, b: undefined })), { a: 1 });
+});
+
+test('__proto__ 키는 프로토타입을 바꾸지 않고 일반 속성으로 디코딩한다', () => {
+  // { "__proto__": { "polluted": true } }
+  const encoded = Uint8Array.from([0x81, 0xa9, ...Buffer.from('__proto__'), 0x81, 0xa8, ...Buffer.from('polluted'), 0xc3]);
+  const decoded = decodeMessagePack(encoded) as Record<string, unknown>;
+
+  assert.equal(Object.getPrototypeOf(decoded), Object.prototype);
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  assert.deepEqual(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value, { polluted: true });
+});
+
+test('잘리거나 남는 데이터, 지원하지 않는 타입은 거부한다', () => {
+  assert.throws(() => decodeMessagePack(bytes(0xa3, 0x61)), RangeError);
+  assert.throws(() => decodeMessagePack(bytes(0xdd, 0xff, 0xff, 0xff, 0xff)), RangeError);
+  assert.throws(() => decodeMessagePack(bytes(0x01, 0x02)), RangeError);
+  assert.throws(() => decodeMessagePack(bytes(0xd4, 0x01, 0x00)), TypeError);
+  assert.throws(() => decodeMessagePack(bytes(0x81, 0x01, 0x02)), TypeError);
+  assert.throws(() => decodeMessagePack(bytes(0xa2, 0xc3, 0x28)));
+  assert.throws(() => encodeMessagePack({ fn: () => 1 }), TypeError);
+});
+
+test('msgpack 서브프로토콜 협상과 바이너리 클라이언트 메시지 검증', () => {
+  assert.equal(selectSignalingSubprotocol(['unknown', SIGNALING_SUBPROTOCOLS.msgpack]), SIGNALING_SUBPROTOCOLS.msgpack);
+  assert.equal(selectSignalingSubprotocol(['unknown']), false);
+  assert.equal(getSignalingEncoding(SIGNALING_SUBPROTOCOLS.msgpack), 'msgpack');
+  assert.equal(getSignalingEncoding(undefined), 'json');
+
+  const frame = encodeSignalingMessage({ action: 'chat', roomCode: 'ABC234', data: { text: 'hi' } }, 'msgpack');
+  assert.ok(frame instanceof Uint8Array);
+  const parsed = parseBinaryClientMessage(frame);
+  assert.ok(parsed.ok);
+  assert.deepEqual(parsed.message, { action: 'chat', roomCode: 'ABC234', data: { text: 'hi' } });
+
+  // 형식이 잘못된 프레임과 스키마에 맞지 않는 메시지는 에러로 반환
+  assert.equal(parseBinaryClientMessage(bytes(0xc1)).ok, false);
+  assert.equal(parseBinaryClientMessage(encodeMessagePack({ action: 'chat', roomCode: 'ABC234', data: { text: '' } })).ok, false);
+});
+
+void run('MessagePack');
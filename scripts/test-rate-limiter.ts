@@ -0,0 +1,99 @@
+/**
+ * 시그널링 속도 제한 테스트 (토큰 버킷, 연결별 메시지/액션 제한, 동시 연결 수 제한)
+ * 사용법: npm run test:rate-limiter
+ */
+
+import assert from 'node:assert/strict';
+import {
+  ACTION_RATE_LIMITS,
+  CONNECTION_RATE_LIMIT,
+  ConnectionLimiter,
+  MAX_CONNECTIONS_PER_CLIENT,
+  MAX_CONNECTIONS_PER_IP,
+  MessageRateLimiter,
+  TokenBucket,
+} from '../app/services/collaboration/rateLimiter';
+import { run, test } from './lib/testHarness';
+
+// 버킷 충전은 Date.now 기준이므로 테스트 동안 시계를 직접 움직임
+let clock = 1_000_000;
+Date.now = () => clock;
+
+test('토큰 버킷은 용량만큼 허용한 뒤 충전 속도에 맞춰 다시 허용한다', () => {
+  const bucket = new TokenBucket({ capacity: 3, refillPerSecond: 2 });
+
+  assert.ok(bucket.tryRemove());
+  assert.ok(bucket.tryRemove());
+  assert.ok(bucket.tryRemove());
+  assert.equal(bucket.tryRemove(), false);
+  assert.equal(bucket.getRetryAfterMs(), 500);
+
+  clock += 250;
+  assert.equal(bucket.tryRemove(), false);
+  assert.equal(bucket.getRetryAfterMs(), 250);
+
+  clock += 250;
+  assert.ok(bucket.tryRemove());
+  assert.equal(bucket.tryRemove(), false);
+});
+
+test('토큰 버킷은 오래 쉬어도 용량 이상으로 충전하지 않는다', () => {
+  const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 10 });
+  bucket.tryRemove();
+  clock += 60_000;
+
+  assert.ok(bucket.tryRemove());
+  assert.ok(bucket.tryRemove());
+  assert.equal(bucket.tryRemove(), false);
+});
+
+test('액션별 버킷은 서로 독립적이고 전체 메시지 버킷과 따로 확인한다', () => {
+  const limiter = new MessageRateLimiter();
+  const chatBurst = ACTION_RATE_LIMITS.chat.capacity;
+
+  for (let i = 0; i < chatBurst; i++) {
+    assert.deepEqual(limiter.checkAction('chat'), { allowed: true });
+  }
+  const rejected = limiter.checkAction('chat');
+  assert.equal(rejected.allowed, false);
+  assert.ok(!rejected.allowed && rejected.scope === 'action' && rejected.retryAfterMs > 0);
+  // 다른 액션은 영향을 받지 않음
+  assert.deepEqual(limiter.checkAction('signaling'), { allowed: true });
+});
+
+test('전체 메시지 버킷을 다 쓰면 message 범위로 거부한다', () => {
+  const limiter = new MessageRateLimiter();
+  for (let i = 0; i < CONNECTION_RATE_LIMIT.capacity; i++) {
+    assert.deepEqual(limiter.checkMessage(), { allowed: true });
+  }
+  const rejected = limiter.checkMessage();
+  assert.ok(!rejected.allowed && rejected.scope === 'message');
+});
+
+test('위반 횟수는 집계 구간 안의 것만 센다', () => {
+  const limiter = new MessageRateLimiter();
+  assert.equal(limiter.recordViolation(), 1);
+  assert.equal(limiter.recordViolation(), 2);
+  clock += 60_000;
+  assert.equal(limiter.recordViolation(), 1);
+});
+
+test('IP와 clientId별 동시 연결 수를 제한하고 종료된 연결의 슬롯을 돌려준다', () => {
+  const limiter = new ConnectionLimiter();
+
+  for (let i = 0; i < MAX_CONNECTIONS_PER_CLIENT; i++) {
+    assert.equal(limiter.acquire('ip-a', 'client-1'), null);
+  }
+  assert.equal(limiter.acquire('ip-a', 'client-1'), 'client');
+  limiter.release('ip-a', 'client-1');
+  assert.equal(limiter.acquire('ip-a', 'client-1'), null);
+
+  for (let i = MAX_CONNECTIONS_PER_CLIENT; i < MAX_CONNECTIONS_PER_IP; i++) {
+    assert.equal(limiter.acquire('ip-a', `client-${i + 2}`), null);
+  }
+  assert.equal(limiter.acquire('ip-a', 'client-new'), 'ip');
+  // 제한에 걸린 시도는 clientId 슬롯을 차지하지 않음
+  assert.equal(limiter.acquire('ip-b', 'client-new'), null);
+});
+
+void run('Rate limiter');
@@ -0,0 +1,119 @@
+/**
+ * 서버 릴레이(WebRTC 실패 시 WebSocket 전달) 테스트
+ * 사용법: npm run test:relay
+ */
+
+import assert from 'node:assert/strict';
+import { signalingService } from '../app/services/collaboration/signalingService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { joinRoom, openRoom } from './lib/signalingClient';
+import { run, test } from './lib/testHarness';
+
+// SIGNALING_RELAY_MAX_PAYLOAD_BYTES 기본값
+const RELAY_MAX_PAYLOAD_BYTES = 16 * 1024;
+
+test('seq가 증가하는 메시지만 순서대로 전달하고 중복/역순은 거부한다', () => {
+  const testRoom = openRoom();
+  const sender = joinRoom(testRoom);
+  const receiver = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  for (const seq of [1, 2, 2, 1, 5]) {
+    sender.socket.sendMessage({ action: 'relay', roomCode, data: { to: receiver.clientId, seq, payload: { note: seq } } });
+  }
+
+  assert.deepEqual(receiver.socket.messages('relay').map((message) => message.data.seq), [1, 2, 5]);
+  assert.deepEqual(receiver.socket.messages('relay').map((message) => message.data.from), [sender.clientId, sender.clientId, sender.clientId]);
+  assert.deepEqual(sender.socket.errorCodes(), [ErrorCode.INVALID_MESSAGE, ErrorCode.INVALID_MESSAGE]);
+  assert.equal(sender.socket.last('error').details?.field, 'data.seq');
+});
+
+test('seq는 발신자마다 따로 관리한다', () => {
+  const testRoom = openRoom();
+  const first = joinRoom(testRoom);
+  const second = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  first.socket.sendMessage({ action: 'relay', roomCode, data: { to: testRoom.room.hostId, seq: 10, payload: 'a' } });
+  second.socket.sendMessage({ action: 'relay', roomCode, data: { to: testRoom.room.hostId, seq: 1, payload: 'b' } });
+
+  assert.deepEqual(testRoom.host.messages('relay').map((message) => [message.data.from, message.data.seq]), [
+    [first.clientId, 10],
+    [second.clientId, 1]
+  ]);
+  assert.deepEqual(second.socket.errorCodes(), []);
+});
+
+test('거부된 메시지는 seq를 소비하지 않는다', () => {
+  const testRoom = openRoom();
+  const sender = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  sender.socket.sendMessage({ action: 'relay', roomCode, data: { to: sender.clientId, seq: 1, payload: null } });
+  sender.socket.sendMessage({ action: 'relay', roomCode, data: { to: testRoom.room.hostId, seq: 1, payload: null } });
+
+  assert.deepEqual(sender.socket.errorCodes(), [ErrorCode.INVALID_PARTICIPANT_ID]);
+  assert.deepEqual(testRoom.host.messages('relay').map((message) => message.data.seq), [1]);
+});
+
+test('크기 제한을 넘는 payload는 거부한다', () => {
+  const testRoom = openRoom();
+  const sender = joinRoom(testRoom);
+
+  sender.socket.sendMessage({
+    action: 'relay',
+    roomCode: testRoom.room.roomCode,
+    data: { to: testRoom.room.hostId, seq: 1, payload: 'x'.repeat(RELAY_MAX_PAYLOAD_BYTES) }
+  });
+
+  assert.deepEqual(sender.socket.errorCodes(), [ErrorCode.PAYLOAD_TOO_LARGE]);
+  assert.equal(testRoom.host.messages('relay').length, 0);
+});
+
+test('to를 생략하면 발신자를 제외한 룸 전체에 전달하고 릴레이 쌍을 기록한다', () => {
+  const testRoom = openRoom();
+  const sender = joinRoom(testRoom);
+  const receiver = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  sender.socket.sendMessage({ action: 'relay', roomCode, data: { seq: 1, payload: 'all' } });
+  sender.socket.sendMessage({ action: 'relay', roomCode, data: { to: receiver.clientId, seq: 2, payload: 'one' } });
+
+  assert.equal(testRoom.host.messages('relay').length, 1);
+  assert.equal(receiver.socket.messages('relay').length, 2);
+  assert.equal(sender.socket.messages('relay').length, 0);
+
+  const pairs = signalingService.getRelayedPairs(roomCode);
+  const counts = Object.fromEntries(pairs.map((pair) => [pair.to, pair.messageCount]));
+  assert.deepEqual(counts, { [testRoom.room.hostId]: 1, [receiver.clientId]: 2 });
+  assert.ok(pairs.every((pair) => pair.from === sender.clientId));
+});
+
+test('관전자는 관전자에게나 룸 전체로 릴레이할 수 없다', () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+  const otherSpectator = joinRoom(testRoom, 'spectator');
+  const { roomCode } = testRoom.room;
+
+  spectator.socket.sendMessage({ action: 'relay', roomCode, data: { to: otherSpectator.clientId, seq: 1, payload: null } });
+  spectator.socket.sendMessage({ action: 'relay', roomCode, data: { seq: 2, payload: null } });
+  spectator.socket.sendMessage({ action: 'relay', roomCode, data: { to: testRoom.room.hostId, seq: 3, payload: null } });
+
+  assert.deepEqual(spectator.socket.errorCodes(), [ErrorCode.UNAUTHORIZED, ErrorCode.UNAUTHORIZED]);
+  assert.equal(otherSpectator.socket.messages('relay').length, 0);
+  assert.deepEqual(testRoom.host.messages('relay').map((message) => message.data.seq), [3]);
+});
+
+test('다른 룸의 클라이언트에게는 릴레이할 수 없다', () => {
+  const testRoom = openRoom();
+  const otherRoom = openRoom();
+  const sender = joinRoom(testRoom);
+
+  sender.socket.sendMessage({ action: 'relay', roomCode: testRoom.room.roomCode, data: { to: otherRoom.room.hostId, seq: 1, payload: null } });
+  sender.socket.sendMessage({ action: 'relay', roomCode: otherRoom.room.roomCode, data: { to: otherRoom.room.hostId, seq: 2, payload: null } });
+
+  assert.deepEqual(sender.socket.errorCodes(), [ErrorCode.PARTICIPANT_NOT_FOUND, ErrorCode.UNAUTHORIZED]);
+  assert.equal(otherRoom.host.messages('relay').length, 0);
+});
+
+void run('Relay');
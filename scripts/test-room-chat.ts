@@ -0,0 +1,104 @@
+/**
+ * 룸 채팅 테스트 (검증, 보관 개수, 강퇴된 발신자)
+ * ROOM_CHAT_MAX_LENGTH=20, ROOM_CHAT_BACKLOG_SIZE=3으로 실행합니다.
+ * 사용법: npm run test:room-chat
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { connectClient, joinRoom, openRoom } from './lib/signalingClient';
+import { run, test } from './lib/testHarness';
+
+test('채팅은 발신자를 포함한 룸 전체에 서버가 부여한 id와 함께 전달된다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const spectator = joinRoom(testRoom, 'spectator');
+  const before = Date.now();
+
+  participant.socket.sendMessage({ action: 'chat', roomCode: testRoom.room.roomCode, data: { text: '  hello  ' } });
+
+  const received = [testRoom.host, participant.socket, spectator.socket].map((socket) => socket.last('chat'));
+  const [message] = received;
+  assert.ok(received.every((item) => item.data.id === message.data.id));
+  assert.equal(message.data.from, participant.clientId);
+  assert.equal(message.data.role, 'participant');
+  assert.equal(message.data.text, 'hello');
+  assert.ok(message.data.timestamp >= before);
+  assert.equal(message.timestamp, message.data.timestamp);
+});
+
+test('발신자 역할은 연결의 실제 역할로 기록한다', () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+  const { roomCode } = testRoom.room;
+
+  spectator.socket.sendMessage({ action: 'chat', roomCode, data: { text: 'watching' } });
+  testRoom.host.sendMessage({ action: 'chat', roomCode, data: { text: 'welcome' } });
+
+  assert.deepEqual(testRoom.host.messages('chat').map((message) => message.data.role), ['spectator', 'host']);
+});
+
+test('빈 메시지와 최대 길이를 넘는 메시지는 거부한다 (앞뒤 공백 제외)', () => {
+  const testRoom = openRoom();
+  const { roomCode } = testRoom.room;
+
+  testRoom.host.sendMessage({ action: 'chat', roomCode, data: { text: '   ' } });
+  testRoom.host.sendMessage({ action: 'chat', roomCode, data: { text: 'x'.repeat(21) } });
+  testRoom.host.sendMessage({ action: 'chat', roomCode, data: { text: `  ${'y'.repeat(20)}  ` } });
+
+  assert.deepEqual(testRoom.host.errorCodes(), [ErrorCode.INVALID_MESSAGE, ErrorCode.PAYLOAD_TOO_LARGE]);
+  assert.deepEqual(testRoom.host.messages('chat').map((message) => message.data.text), ['y'.repeat(20)]);
+});
+
+test('최근 ROOM_CHAT_BACKLOG_SIZE개만 보관해 늦게 들어온 참가자와 재등록한 호스트에게 전달한다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  for (const text of ['one', 'two']) {
+    testRoom.host.sendMessage({ action: 'chat', roomCode, data: { text } });
+  }
+  for (const text of ['three', 'four']) {
+    participant.socket.sendMessage({ action: 'chat', roomCode, data: { text } });
+  }
+
+  const late = joinRoom(testRoom);
+  assert.deepEqual(late.socket.last('joined').data.chatBacklog?.map((message) => message.text), ['two', 'three', 'four']);
+
+  testRoom.host.disconnect();
+  const { socket: host } = connectClient(testRoom.room.hostId);
+  host.sendMessage({ action: 'register', roomCode, data: { role: 'host', token: testRoom.tokens.hostToken } });
+  assert.deepEqual(host.last('registered').data.chatBacklog?.map((message) => message.text), ['two', 'three', 'four']);
+});
+
+test('룸에 없는 클라이언트는 채팅을 보낼 수 없다', () => {
+  const testRoom = openRoom();
+  const otherRoom = openRoom();
+  const outsider = connectClient();
+  const participant = joinRoom(testRoom);
+
+  outsider.socket.sendMessage({ action: 'chat', roomCode: testRoom.room.roomCode, data: { text: 'hi' } });
+  participant.socket.sendMessage({ action: 'chat', roomCode: otherRoom.room.roomCode, data: { text: 'hi' } });
+
+  assert.deepEqual(outsider.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.deepEqual(participant.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.equal(testRoom.host.messages('chat').length, 0);
+  assert.equal(otherRoom.host.messages('chat').length, 0);
+});
+
+test('강퇴된 클라이언트는 연결이 남아 있어도 채팅을 보낼 수 없다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  // kicked 전달 전에 도착한 메시지
+  roomService.kickParticipant(roomCode, participant.clientId);
+  participant.socket.sendMessage({ action: 'chat', roomCode, data: { text: 'still here' } });
+
+  assert.deepEqual(participant.socket.errorCodes(), [ErrorCode.KICKED]);
+  assert.equal(testRoom.host.messages('chat').length, 0);
+  assert.deepEqual(roomService.getRoom(roomCode)?.chatMessages, []);
+});
+
+void run('Room chat');
@@ -0,0 +1,143 @@
+/**
+ * 룸 수명/연장 범위와 룸 수 제한 테스트
+ * ROOM_LIFETIME_MAX_MINUTES=120, ROOM_EXTEND_MAX_MINUTES=30, ROOM_MAX_ROOMS_PER_IP=2, ROOM_MAX_ROOMS=20으로 실행합니다.
+ * 사용법: npm run test:room-limits
+ */
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as createRoomRoute } from '../app/api/online-sequencer/rooms/route';
+import { POST as extendRoomRoute } from '../app/api/online-sequencer/rooms/[roomCode]/extend/route';
+import { ROOM_LIMITS, roomService } from '../app/services/collaboration/roomService';
+import type { CreateRoomResponse, ExtendRoomResponse } from '../app/types/collaboration/room';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { createRoomTokens } from '../app/utils/collaboration/roomToken';
+import { joinRoom, openRoom } from './lib/signalingClient';
+import { advanceClock, run, test } from './lib/testHarness';
+
+const MINUTE_MS = 60 * 1000;
+
+function postRoom(body: Record<string, unknown>, ip: string = '203.0.113.1'): Promise<Response> {
+  return createRoomRoute(new NextRequest('http://localhost/api/online-sequencer/rooms', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+    body: JSON.stringify({ hostId: randomUUID(), ...body })
+  }));
+}
+
+function postExtend(roomCode: string, minutes: unknown, token: string): Promise<Response> {
+  return extendRoomRoute(new NextRequest(`http://localhost/api/online-sequencer/rooms/${roomCode}/extend`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+    body: JSON.stringify({ minutes })
+  }), { params: Promise.resolve({ roomCode }) });
+}
+
+async function errorCode(response: Response): Promise<string> {
+  return (await response.json()).code;
+}
+
+test('생성 시 수명은 설정 범위 안의 정수만 받는다', async () => {
+  for (const ttlMinutes of [ROOM_LIMITS.ttlMinMinutes - 1, ROOM_LIMITS.ttlMaxMinutes + 1, 30.5, '30']) {
+    const response = await postRoom({ ttlMinutes }, `198.51.100.${ttlMinutes === '30' ? 1 : 2}`);
+    assert.equal(response.status, 400, `ttlMinutes: ${ttlMinutes}`);
+  }
+
+  const response = await postRoom({ ttlMinutes: ROOM_LIMITS.ttlMinMinutes }, '198.51.100.3');
+  assert.equal(response.status, 200);
+  const room = await response.json() as CreateRoomResponse;
+  assert.equal(room.expiresAt - room.createdAt, ROOM_LIMITS.ttlMinMinutes * MINUTE_MS);
+  assert.equal(room.maxExpiresAt - room.createdAt, 120 * MINUTE_MS);
+});
+
+test('최대 수명보다 긴 수명으로 만든 룸은 생성 시 수명이 최대 수명이 된다', () => {
+  const room = roomService.createRoom(randomUUID(), { ttlMinutes: 180 });
+  assert.equal(room.maxExpiresAt, room.expiresAt);
+  assert.throws(() => roomService.extendRoom(room.roomCode, 10), /Room lifetime limit reached/);
+});
+
+test('연장은 최대 수명에서 잘리고 최대 수명에 도달하면 거부한다', () => {
+  const room = roomService.createRoom(randomUUID(), { ttlMinutes: 100 });
+
+  const extended = roomService.extendRoom(room.roomCode, 30);
+  assert.equal(extended.expiresAt, room.maxExpiresAt);
+  assert.equal(extended.expiresAt - extended.createdAt, 120 * MINUTE_MS);
+  assert.throws(() => roomService.extendRoom(room.roomCode, 1), /Room lifetime limit reached/);
+});
+
+test('연장 API는 1~ROOM_EXTEND_MAX_MINUTES분만 받고 참가자에게 새 만료 시간을 알린다', async () => {
+  const testRoom = openRoom({ ttlMinutes: 60 });
+  const participant = joinRoom(testRoom);
+  const { roomCode } = testRoom.room;
+
+  for (const minutes of [0, 31, 1.5, '10']) {
+    const response = await postExtend(roomCode, minutes, testRoom.tokens.hostToken);
+    assert.equal(response.status, 400, `minutes: ${minutes}`);
+    assert.equal(await errorCode(response), ErrorCode.INVALID_DURATION);
+  }
+
+  const response = await postExtend(roomCode, 30, testRoom.tokens.hostToken);
+  assert.equal(response.status, 200);
+  const body = await response.json() as ExtendRoomResponse;
+  assert.equal(body.expiresAt - testRoom.room.createdAt, 90 * MINUTE_MS);
+  assert.deepEqual(participant.socket.last('room-extended').data, { expiresAt: body.expiresAt, maxExpiresAt: body.maxExpiresAt });
+});
+
+test('연장 API는 호스트 토큰만 받고 최대 수명에 도달하면 409를 반환한다', async () => {
+  const room = roomService.createRoom(randomUUID(), { ttlMinutes: 110 });
+  const { hostToken, participantToken } = createRoomTokens(room);
+
+  assert.equal((await postExtend(room.roomCode, 10, participantToken)).status, 403);
+  assert.equal((await postExtend(room.roomCode, 10, hostToken)).status, 200);
+
+  const response = await postExtend(room.roomCode, 10, hostToken);
+  assert.equal(response.status, 409);
+  assert.equal(await errorCode(response), ErrorCode.ROOM_LIFETIME_LIMIT_REACHED);
+});
+
+test('같은 IP의 호스트는 ROOM_MAX_ROOMS_PER_IP개까지만 룸을 만들 수 있다', async () => {
+  const ip = '192.0.2.10';
+  assert.equal((await postRoom({}, ip)).status, 200);
+  assert.equal((await postRoom({}, ip)).status, 200);
+
+  const rejected = await postRoom({}, ip);
+  assert.equal(rejected.status, 429);
+  assert.equal(await errorCode(rejected), ErrorCode.HOST_ROOM_LIMIT_EXCEEDED);
+  // 다른 IP는 영향을 받지 않음
+  assert.equal((await postRoom({}, '192.0.2.11')).status, 200);
+});
+
+test('만료된 룸은 IP별 룸 수에 포함하지 않는다', async () => {
+  const ip = '192.0.2.20';
+  assert.equal((await postRoom({ ttlMinutes: ROOM_LIMITS.ttlMinMinutes }, ip)).status, 200);
+  assert.equal((await postRoom({ ttlMinutes: ROOM_LIMITS.ttlMinMinutes }, ip)).status, 200);
+
+  const restoreClock = advanceClock(ROOM_LIMITS.ttlMinMinutes * MINUTE_MS + 1);
+  try {
+    assert.equal((await postRoom({ ttlMinutes: ROOM_LIMITS.ttlMinMinutes }, ip)).status, 200);
+  } finally {
+    restoreClock();
+  }
+});
+
+test('서버 전체 룸 수가 ROOM_MAX_ROOMS에 도달하면 503을 반환한다', async () => {
+  let created = 0;
+  while (created < 100) {
+    try {
+      roomService.createRoom(randomUUID());
+      created++;
+    } catch (error) {
+      assert.equal((error as Error).message, 'Room limit reached');
+      break;
+    }
+  }
+
+  const now = Date.now();
+  assert.equal(roomService.getAllRooms().filter((room) => now <= room.expiresAt).length, ROOM_LIMITS.maxRooms);
+  const response = await postRoom({}, '192.0.2.30');
+  assert.equal(response.status, 503);
+  assert.equal(await errorCode(response), ErrorCode.ROOM_LIMIT_EXCEEDED);
+});
+
+void run('Room limits');
@@ -0,0 +1,85 @@
+/**
+ * 룸 상태 스냅샷(늦게 들어온 참가자 동기화) 테스트
+ * ROOM_STATE_MAX_BYTES=1024로 실행합니다.
+ * 사용법: npm run test:room-state
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { joinRoom, openRoom } from './lib/signalingClient';
+import { run, test } from './lib/testHarness';
+
+const ROOM_STATE_MAX_BYTES = 1024;
+
+test('호스트가 올린 스냅샷을 늦게 들어온 참가자가 joined로 받는다', () => {
+  const testRoom = openRoom();
+  const early = joinRoom(testRoom);
+  assert.equal(early.socket.last('joined').data.stateSnapshot, null);
+
+  const state = { tempo: 120, tracks: [{ id: 'drums', steps: [1, 0, 1, 0] }] };
+  testRoom.host.sendMessage({ action: 'update-state', roomCode: testRoom.room.roomCode, data: { version: 1, state } });
+
+  const updated = testRoom.host.last('state-updated').data;
+  assert.equal(updated.version, 1);
+  assert.equal(updated.size, Buffer.byteLength(JSON.stringify(state)));
+
+  const late = joinRoom(testRoom);
+  const snapshot = late.socket.last('joined').data.stateSnapshot;
+  assert.deepEqual(snapshot?.state, state);
+  assert.equal(snapshot?.version, 1);
+  assert.equal(snapshot?.updatedAt, updated.updatedAt);
+});
+
+test('이전 스냅샷 이하의 버전은 STATE_VERSION_CONFLICT로 거부하고 기존 스냅샷을 유지한다', () => {
+  const testRoom = openRoom();
+  const { roomCode } = testRoom.room;
+
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 5, state: 'v5' } });
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 5, state: 'again' } });
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 4, state: 'older' } });
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 6, state: 'v6' } });
+
+  assert.deepEqual(testRoom.host.errorCodes(), [ErrorCode.STATE_VERSION_CONFLICT, ErrorCode.STATE_VERSION_CONFLICT]);
+  assert.deepEqual(testRoom.host.messages('state-updated').map((message) => message.data.version), [5, 6]);
+  assert.equal(roomService.getRoom(roomCode)?.stateSnapshot?.state, 'v6');
+});
+
+test('크기 제한을 넘는 스냅샷은 PAYLOAD_TOO_LARGE로 거부한다', () => {
+  const testRoom = openRoom();
+  const { roomCode } = testRoom.room;
+  // JSON 문자열 따옴표 2바이트 포함
+  const fitting = 'x'.repeat(ROOM_STATE_MAX_BYTES - 2);
+
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 1, state: fitting } });
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 2, state: `${fitting}x` } });
+
+  assert.deepEqual(testRoom.host.errorCodes(), [ErrorCode.PAYLOAD_TOO_LARGE]);
+  assert.equal(roomService.getRoom(roomCode)?.stateSnapshot?.version, 1);
+});
+
+test('호스트가 아닌 클라이언트는 스냅샷을 올릴 수 없다', () => {
+  const testRoom = openRoom();
+  const participant = joinRoom(testRoom);
+  const spectator = joinRoom(testRoom, 'spectator');
+  const { roomCode } = testRoom.room;
+
+  participant.socket.sendMessage({ action: 'update-state', roomCode, data: { version: 1, state: 'participant' } });
+  spectator.socket.sendMessage({ action: 'update-state', roomCode, data: { version: 1, state: 'spectator' } });
+
+  assert.deepEqual(participant.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.deepEqual(spectator.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.equal(roomService.getRoom(roomCode)?.stateSnapshot, null);
+});
+
+test('관전자도 입장할 때 현재 스냅샷을 받는다', () => {
+  const testRoom = openRoom();
+  const { roomCode } = testRoom.room;
+  testRoom.host.sendMessage({ action: 'update-state', roomCode, data: { version: 3, state: { bars: 8 } } });
+
+  const spectator = joinRoom(testRoom, 'spectator');
+
+  assert.deepEqual(spectator.socket.last('joined').data.stateSnapshot?.state, { bars: 8 });
+});
+
+void run('Room state');
@@ -0,0 +1,96 @@
+/**
+ * 룸 저장소 테스트
+ * 사용법: npm run test:room-store
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileRoomStore, deserializeRoom, serializeRoom } from '../app/services/collaboration/roomStore';
+import type { Room } from '../app/types/collaboration/room';
+import { run, test } from './lib/testHarness';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'room-store-test-'));
+process.on('exit', () => rmSync(tempDir, { recursive: true, force: true }));
+
+function createRoom(roomCode: string): Room {
+  const now = Date.now();
+  return {
+    roomCode,
+    hostId: `host-${roomCode}`,
+    hostIpHash: null,
+    createdAt: now,
+    expiresAt: now + 60 * 60 * 1000,
+    maxExpiresAt: now + 6 * 60 * 60 * 1000,
+    allowJoin: false,
+    allowJoinExpiresAt: null,
+    participants: ['participant-1'],
+    spectators: [],
+    kickedParticipants: new Map([['kicked-1', now]]),
+    joinMode: 'open',
+    pendingJoinRequests: [],
+    reconnectingParticipants: [],
+    hostDisconnectedAt: null,
+    stateSnapshot: null,
+    chatMessages: [],
+    maxParticipants: 4,
+    maxSpectators: 0
+  };
+}
+
+test('serializeRoom/deserializeRoom은 강퇴 목록(Map)을 보존한다', () => {
+  const room = createRoom('A1B2');
+  const restored = deserializeRoom(JSON.parse(JSON.stringify(serializeRoom(room))));
+  assert.deepEqual(restored, room);
+});
+
+test('FileRoomStore는 변경을 모았다가 한 번에 비동기로 기록한다', async () => {
+  const filePath = join(tempDir, 'batched.json');
+  const store = new FileRoomStore(filePath, 60 * 1000);
+
+  store.set('AAAA', createRoom('AAAA'));
+  store.set('BBBB', createRoom('BBBB'));
+  store.delete('AAAA');
+  assert.equal(existsSync(filePath), false, 'set 호출 시점에는 파일을 쓰지 않아야 함');
+
+  await store.flush();
+  const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+  assert.deepEqual(saved.rooms.map((room: Room) => room.roomCode), ['BBBB']);
+});
+
+test('FileRoomStore.load는 기록된 룸을 복구한다', async () => {
+  const filePath = join(tempDir, 'reload.json');
+  const store = new FileRoomStore(filePath, 0);
+  store.set('CCCC', createRoom('CCCC'));
+  await store.flush();
+
+  const reloaded = new FileRoomStore(filePath, 0).load();
+  assert.equal(reloaded.length, 1);
+  assert.equal(reloaded[0].roomCode, 'CCCC');
+  assert.ok(reloaded[0].kickedParticipants instanceof Map);
+});
+
+test('FileRoomStore.flushSync는 남은 변경을 즉시 기록한다', () => {
+  const filePath = join(tempDir, 'sync.json');
+  const store = new FileRoomStore(filePath, 60 * 1000);
+  store.set('DDDD', createRoom('DDDD'));
+  store.flushSync();
+
+  const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+  assert.equal(saved.rooms[0].roomCode, 'DDDD');
+});
+
+test('진행 중인 기록이 끝난 뒤 다음 변경을 기록한다', async () => {
+  const filePath = join(tempDir, 'overlap.json');
+  const store = new FileRoomStore(filePath, 60 * 1000);
+  store.set('EEEE', createRoom('EEEE'));
+  const first = store.flush();
+  store.set('FFFF', createRoom('FFFF'));
+  await Promise.all([first, store.flush()]);
+
+  const saved = JSON.parse(readFileSync(filePath, 'utf-8'));
+  assert.deepEqual(saved.rooms.map((room: Room) => room.roomCode).sort(), ['EEEE', 'FFFF']);
+});
+
+void run('Room store');
@@ -0,0 +1,79 @@
+/**
+ * 룸 토큰 발급/검증 테스트
+ * 사용법: npm run test:room-token
+ */
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { roomService } from '../app/services/collaboration/roomService';
+import type { Room } from '../app/types/collaboration/room';
+import { createResumeToken, createRoomToken, createRoomTokens, decodeRoomToken, verifyResumeToken, verifyRoomToken } from '../app/utils/collaboration/roomToken';
+import { run, test } from './lib/testHarness';
+
+function createRoom(): Room {
+  const hostId = randomUUID();
+  return roomService.createRoom(hostId);
+}
+
+test('발급한 토큰은 해당 역할로만 검증된다', () => {
+  const room = createRoom();
+  const { hostToken, participantToken, spectatorToken } = createRoomTokens(room);
+
+  assert.equal(verifyRoomToken(hostToken, room, 'host'), true);
+  assert.equal(verifyRoomToken(participantToken, room, 'participant'), true);
+  assert.equal(verifyRoomToken(spectatorToken, room, 'spectator'), true);
+  assert.equal(verifyRoomToken(participantToken, room, 'host'), false);
+  assert.equal(verifyRoomToken(spectatorToken, room, 'participant'), false);
+  assert.equal(decodeRoomToken(hostToken)?.hostId, room.hostId);
+  assert.equal(decodeRoomToken(participantToken)?.hostId, undefined);
+});
+
+test('서명이 바뀐 토큰이나 payload를 고친 토큰은 거부한다', () => {
+  const room = createRoom();
+  const { participantToken } = createRoomTokens(room);
+  const [payload, signature] = participantToken.split('.');
+
+  const forgedPayload = Buffer.from(JSON.stringify({ ...decodeRoomToken(participantToken), role: 'host', hostId: room.hostId })).toString('base64url');
+  assert.equal(verifyRoomToken(`${forgedPayload}.${signature}`, room, 'host'), false);
+  assert.equal(verifyRoomToken(`${payload}.${signature.slice(0, -2)}xx`, room, 'participant'), false);
+  assert.equal(verifyRoomToken(`${payload}.${signature}.extra`, room, 'participant'), false);
+  assert.equal(verifyRoomToken('not-a-token', room, 'participant'), false);
+  assert.equal(verifyRoomToken(null, room, 'participant'), false);
+});
+
+test('만료된 토큰과 같은 코드로 다시 만든 룸의 토큰은 거부한다', () => {
+  const room = createRoom();
+  const expired = createRoomToken({ roomCode: room.roomCode, role: 'participant', roomCreatedAt: room.createdAt, exp: Date.now() - 1 });
+  assert.equal(verifyRoomToken(expired, room, 'participant'), false);
+
+  const { participantToken } = createRoomTokens(room);
+  assert.equal(verifyRoomToken(participantToken, { ...room, createdAt: room.createdAt + 1 }, 'participant'), false);
+});
+
+test('호스트 토큰은 룸의 현재 호스트와 일치해야 한다', () => {
+  const room = createRoom();
+  const { hostToken } = createRoomTokens(room);
+  assert.equal(verifyRoomToken(hostToken, { ...room, hostId: randomUUID() }, 'host'), false);
+});
+
+test('세션 재개 토큰은 발급받은 참가자만 사용할 수 있다', () => {
+  const room = createRoom();
+  const participantId = randomUUID();
+  const resumeToken = createResumeToken(room, participantId);
+
+  assert.equal(verifyResumeToken(resumeToken, room, participantId), true);
+  assert.equal(verifyResumeToken(resumeToken, room, randomUUID()), false);
+  assert.equal(verifyRoomToken(resumeToken, room, 'participant'), false);
+});
+
+test('기존 룸은 그 룸의 호스트 토큰을 제시해야 다시 받을 수 있다', () => {
+  const room = createRoom();
+
+  assert.throws(() => roomService.createRoom(room.hostId), /Host room already exists/);
+  assert.throws(() => roomService.createRoom(room.hostId, { hostToken: createRoomTokens(createRoom()).hostToken }), /Host room already exists/);
+
+  const reused = roomService.createRoom(room.hostId, { hostToken: createRoomTokens(room).hostToken });
+  assert.equal(reused.roomCode, room.roomCode);
+});
+
+void run('Room token');
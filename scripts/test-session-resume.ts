@@ -0,0 +1,119 @@
+/**
+ * 참가자 세션 재개 테스트 (재개 토큰, 유예 시간)
+ * 사용법: npm run test:session-resume
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { signalingService } from '../app/services/collaboration/signalingService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { connectClient, joinRoom, openRoom, type TestRoom } from './lib/signalingClient';
+import { advanceClock, run, test } from './lib/testHarness';
+
+// ROOM_PARTICIPANT_RESUME_GRACE_SECONDS 기본값
+const RESUME_GRACE_MS = 60 * 1000;
+
+/** lobby 룸에 승인된 참가자 (재개는 승인 없이 가능해야 함) */
+function joinApproved(testRoom: TestRoom) {
+  const participant = joinRoom(testRoom);
+  testRoom.host.sendMessage({ action: 'approve-join', data: { participantId: participant.clientId } });
+  return { ...participant, resumeToken: participant.socket.last('joined').data.resumeToken };
+}
+
+function resume(testRoom: TestRoom, clientId: string, resumeToken: string) {
+  const { socket } = connectClient(clientId);
+  socket.sendMessage({ action: 'join', roomCode: testRoom.room.roomCode, data: { resumeToken } });
+  return socket;
+}
+
+test('유예 시간 안에 재연결하면 승인 없이 같은 슬롯으로 돌아온다', () => {
+  const testRoom = openRoom({ joinMode: 'lobby' });
+  const participant = joinApproved(testRoom);
+
+  participant.socket.disconnect();
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.participants, [participant.clientId]);
+
+  const socket = resume(testRoom, participant.clientId, participant.resumeToken);
+
+  const joined = socket.last('joined').data;
+  assert.equal(joined.resumed, true);
+  assert.equal(joined.role, 'participant');
+  assert.ok(joined.resumeToken);
+  assert.equal(testRoom.host.last('participant-reconnected').data.participantId, participant.clientId);
+  assert.equal(testRoom.host.messages('join-requested').length, 1);
+  const room = roomService.getRoom(testRoom.room.roomCode);
+  assert.deepEqual(room?.participants, [participant.clientId]);
+  assert.deepEqual(room?.reconnectingParticipants, []);
+});
+
+test('유예 시간이 지나면 SESSION_EXPIRED로 거부하고 정리 시 participant-left를 알린다', () => {
+  const testRoom = openRoom({ joinMode: 'lobby' });
+  const participant = joinApproved(testRoom);
+  participant.socket.disconnect();
+
+  const restoreClock = advanceClock(RESUME_GRACE_MS + 1);
+  let socket: ReturnType<typeof resume>;
+  try {
+    socket = resume(testRoom, participant.clientId, participant.resumeToken);
+    assert.ok(signalingService.expireReconnectingParticipants() >= 1);
+  } finally {
+    restoreClock();
+  }
+
+  assert.deepEqual(socket.errorCodes(), [ErrorCode.SESSION_EXPIRED]);
+  assert.equal(testRoom.host.last('participant-left').data.participantId, participant.clientId);
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.participants, []);
+});
+
+test('다른 참가자의 재개 토큰으로는 재개할 수 없다', () => {
+  const testRoom = openRoom({ joinMode: 'lobby' });
+  const owner = joinApproved(testRoom);
+  const other = joinApproved(testRoom);
+  other.socket.disconnect();
+
+  const socket = resume(testRoom, other.clientId, owner.resumeToken);
+
+  assert.deepEqual(socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.equal(testRoom.host.messages('participant-reconnected').length, 0);
+});
+
+test('강퇴된 참가자는 재개 토큰이 있어도 돌아올 수 없다', () => {
+  const testRoom = openRoom({ joinMode: 'lobby' });
+  const participant = joinApproved(testRoom);
+  roomService.kickParticipant(testRoom.room.roomCode, participant.clientId);
+  signalingService.notifyKicked(testRoom.room.roomCode, participant.clientId);
+
+  const socket = resume(testRoom, participant.clientId, participant.resumeToken);
+
+  assert.deepEqual(socket.errorCodes(), [ErrorCode.KICKED]);
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.participants, []);
+});
+
+test('새 연결로 재개한 뒤 이전 소켓이 닫혀도 참가자는 연결된 상태로 남는다', () => {
+  const testRoom = openRoom({ joinMode: 'lobby' });
+  const participant = joinApproved(testRoom);
+
+  const socket = resume(testRoom, participant.clientId, participant.resumeToken);
+  participant.socket.disconnect();
+
+  assert.equal(socket.last('joined').data.resumed, true);
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.reconnectingParticipants, []);
+  assert.ok(signalingService.getRoomClients(testRoom.room.roomCode).includes(participant.clientId));
+});
+
+test('관전자는 재개 토큰으로 관전자로 다시 입장한다', () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+  const { resumeToken } = spectator.socket.last('joined').data;
+  spectator.socket.disconnect();
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.spectators, []);
+
+  const socket = resume(testRoom, spectator.clientId, resumeToken);
+
+  const joined = socket.last('joined').data;
+  assert.equal(joined.role, 'spectator');
+  assert.equal(joined.resumed, true);
+  assert.deepEqual(roomService.getRoom(testRoom.room.roomCode)?.spectators, [spectator.clientId]);
+});
+
+void run('Session resume');
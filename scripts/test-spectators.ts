@@ -0,0 +1,106 @@
+/**
+ * 관전자 역할 테스트 (인원 제한, 토큰, 시그널링 제한)
+ * ROOM_MAX_SPECTATORS=2로 실행합니다.
+ * 사용법: npm run test:spectators
+ */
+
+import assert from 'node:assert/strict';
+import { roomService } from '../app/services/collaboration/roomService';
+import { signalingService } from '../app/services/collaboration/signalingService';
+import { ErrorCode } from '../app/utils/collaboration/errorHandler';
+import { connectClient, joinRoom, openRoom } from './lib/signalingClient';
+import { run, test } from './lib/testHarness';
+
+test('관전자는 참가자 정원과 별도로 ROOM_MAX_SPECTATORS명까지만 입장한다', () => {
+  const testRoom = openRoom({ maxParticipants: 1 });
+  const participant = joinRoom(testRoom);
+  const first = joinRoom(testRoom, 'spectator');
+  const second = joinRoom(testRoom, 'spectator');
+  const third = joinRoom(testRoom, 'spectator');
+
+  assert.equal(participant.socket.last('joined').data.role, 'participant');
+  assert.equal(first.socket.last('joined').data.role, 'spectator');
+  assert.equal(second.socket.last('joined').data.role, 'spectator');
+  assert.deepEqual(third.socket.errorCodes(), [ErrorCode.ROOM_FULL]);
+
+  const room = roomService.getRoom(testRoom.room.roomCode);
+  assert.deepEqual(room?.participants, [participant.clientId]);
+  assert.deepEqual(room?.spectators, [first.clientId, second.clientId]);
+});
+
+test('관전자가 나가면 자리가 비고 룸에 관전자 수를 알린다', () => {
+  const testRoom = openRoom();
+  const first = joinRoom(testRoom, 'spectator');
+  const second = joinRoom(testRoom, 'spectator');
+  assert.equal(testRoom.host.last('spectator-joined').data.spectatorCount, 2);
+
+  first.socket.sendMessage({ action: 'leave' });
+  assert.deepEqual(testRoom.host.last('spectator-left').data, { spectatorId: first.clientId, spectatorCount: 1 });
+
+  second.socket.disconnect();
+  assert.deepEqual(testRoom.host.last('spectator-left').data, { spectatorId: second.clientId, spectatorCount: 0 });
+
+  const third = joinRoom(testRoom, 'spectator');
+  assert.equal(third.socket.last('joined').data.role, 'spectator');
+  // 관전자 입출입은 participant-joined/left로 알리지 않음
+  assert.equal(testRoom.host.messages('participant-joined').length, 0);
+  assert.equal(testRoom.host.messages('participant-left').length, 0);
+});
+
+test('관전자 토큰으로는 참가자로 입장할 수 없다', () => {
+  const testRoom = openRoom();
+  const { socket } = connectClient();
+
+  socket.sendMessage({ action: 'join', roomCode: testRoom.room.roomCode, data: { role: 'participant', token: testRoom.tokens.spectatorToken } });
+  assert.deepEqual(socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+
+  // 참가자 토큰은 관전자 입장에도 사용 가능
+  socket.sendMessage({ action: 'join', roomCode: testRoom.room.roomCode, data: { role: 'spectator', token: testRoom.tokens.participantToken } });
+  assert.equal(socket.last('joined').data.role, 'spectator');
+});
+
+test('관전자는 호스트/참가자와만 시그널링할 수 있다', () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+  const otherSpectator = joinRoom(testRoom, 'spectator');
+  const { roomCode } = testRoom.room;
+
+  spectator.socket.sendMessage({ action: 'signaling', roomCode, data: { type: 'offer', to: otherSpectator.clientId, sdp: { type: 'offer', sdp: 'v=0' } } });
+  spectator.socket.sendMessage({ action: 'signaling', roomCode, data: { type: 'offer', to: testRoom.room.hostId, sdp: { type: 'offer', sdp: 'v=0' } } });
+
+  assert.deepEqual(spectator.socket.errorCodes(), [ErrorCode.UNAUTHORIZED]);
+  assert.equal(otherSpectator.socket.messages('signaling').length, 0);
+  assert.equal(testRoom.host.last('signaling').data.from, spectator.clientId);
+});
+
+test('lobby 모드에서는 관전자 요청도 승인을 받고 정원을 요청 시점에 확인한다', () => {
+  const lobby = openRoom({ joinMode: 'lobby' });
+  const first = joinRoom(lobby, 'spectator');
+  assert.equal(lobby.host.last('join-requested').data.role, 'spectator');
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: first.clientId } });
+  assert.equal(first.socket.last('joined').data.role, 'spectator');
+
+  const second = joinRoom(lobby, 'spectator');
+  lobby.host.sendMessage({ action: 'approve-join', data: { participantId: second.clientId } });
+
+  const third = joinRoom(lobby, 'spectator');
+  assert.deepEqual(third.socket.errorCodes(), [ErrorCode.ROOM_FULL]);
+  assert.equal(lobby.host.messages('join-requested').length, 2);
+});
+
+test('강퇴된 관전자는 연결이 끊기고 다시 입장할 수 없다', () => {
+  const testRoom = openRoom();
+  const spectator = joinRoom(testRoom, 'spectator');
+  const { roomCode } = testRoom.room;
+
+  roomService.kickParticipant(roomCode, spectator.clientId);
+  signalingService.notifyKicked(roomCode, spectator.clientId, 'spectator');
+
+  assert.equal(spectator.socket.messages('kicked').length, 1);
+  assert.deepEqual(testRoom.host.last('spectator-left').data, { spectatorId: spectator.clientId, spectatorCount: 0 });
+
+  const again = joinRoom(testRoom, 'spectator', spectator.clientId);
+  assert.deepEqual(again.socket.errorCodes(), [ErrorCode.KICKED]);
+});
+
+void run('Spectators');
@@ -3,14 +3,20 @@
  * WebSocket 지원을 위해 Express 서버를 사용합니다.
  */
 
-import { createServer } from 'http';
+import { createServer, type IncomingMessage } from 'http';
 import next from 'next';
 import { WebSocketServer, WebSocket } from 'ws';
 import { config } from 'dotenv';
 import { resolve } from 'path';
-import { signalingService } from './app/services/collaboration/signalingService';
-import { roomService } from './app/services/collaboration/roomService';
+import { sendServerMessage, signalingService } from './app/services/collaboration/signalingService';
+import { ROOM_LIMITS, roomService } from './app/services/collaboration/roomService';
+import { roomEventLog } from './app/services/collaboration/roomEventLog';
+import { hostBanList } from './app/services/collaboration/hostBanList';
+import { ConnectionLimiter, MAX_FRAME_BYTES } from './app/services/collaboration/rateLimiter';
+import { ErrorCode } from './app/utils/collaboration/errorHandler';
+import { selectSignalingSubprotocol } from './app/utils/collaboration/signalingProtocol';
 import { getAllowedOriginsFromEnv } from './app/utils/corsOrigins';
+import { getHashedIP } from './app/utils/hashUtils';
 import { logDebug, logInfo } from './app/utils/logging';
 
 // 환경 변수 로드 (개발 환경일 때 .env.development, 프로덕션일 때 .env.production)
@@ -22,6 +28,11 @@ const dev = process.env.NODE_ENV === 'development';
 const hostname = process.env.HOST || '0.0.0.0';
 const port = parseInt(process.env.PORT || '3000', 10);
 
+// WebSocket per-message deflate 설정 (SDP 등 큰 메시지만 압축, 작은 ICE 후보 등은 압축하지 않음)
+// 연결별 메모리 사용량을 제한하기 위해 압축 컨텍스트를 메시지마다 초기화합니다.
+const SIGNALING_DEFLATE_ENABLED = (process.env.SIGNALING_PER_MESSAGE_DEFLATE || 'true').toLowerCase().trim() !== 'false';
+const SIGNALING_DEFLATE_THRESHOLD_BYTES = parseInt(process.env.SIGNALING_DEFLATE_THRESHOLD_BYTES || '', 10) || 1024;
+
 // NODE_ENV 확인 로그
 logInfo('=================================');
 logInfo('Environment Check');
@@ -30,6 +41,35 @@ logInfo(`NODE_ENV: ${process.env.NODE_ENV || '(not set)'}`);
 logInfo(`dev variable: ${dev}`);
 logInfo('=================================');
 
+// 서버 앞에 있는 신뢰할 수 있는 리버스 프록시 수 (기본값: 1, 함께 배포하는 nginx)
+// 0이면 X-Forwarded-For를 무시하고 소켓 주소만 사용합니다.
+const trustedProxyCount = parseInt(process.env.TRUSTED_PROXY_COUNT || '', 10);
+const TRUSTED_PROXY_COUNT = Number.isNaN(trustedProxyCount) || trustedProxyCount < 0 ? 1 : trustedProxyCount;
+
+/**
+ * WebSocket 요청의 클라이언트 IP 추출
+ * 클라이언트가 보낸 X-Forwarded-For 앞부분은 위조할 수 있으므로, 소켓 주소부터 거꾸로 TRUSTED_PROXY_COUNT개의 프록시를 건너뛴 주소를 사용합니다.
+ * (nginx의 $proxy_add_x_forwarded_for는 자신이 본 주소를 마지막에 추가함)
+ */
+function getSocketClientIP(req: IncomingMessage): string {
+  const forwardedHeader = req.headers['x-forwarded-for'];
+  const forwarded = Array.isArray(forwardedHeader) ? forwardedHeader.join(',') : forwardedHeader;
+  const chain = [
+    ...(forwarded ? forwarded.split(',').map((entry) => entry.trim()).filter(Boolean) : []),
+    req.socket.remoteAddress || '0.0.0.0'
+  ];
+  let ip = chain[Math.max(chain.length - 1 - TRUSTED_PROXY_COUNT, 0)];
+
+  // IPv6 맵핑된 IPv4 주소를 IPv4로 변환 (::ffff:127.0.0.1 -> 127.0.0.1)
+  if (ip.startsWith('::ffff:')) {
+    ip = ip.substring(7);
+  }
+  if (ip === '::1') {
+    ip = '127.0.0.1';
+  }
+  return ip;
+}
+
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 const { origins: allowedOrigins, isDevMode } = getAllowedOriginsFromEnv();
@@ -67,8 +107,19 @@ app.prepare().then(() => {
   // WebSocket 서버 설정
   const wss = new WebSocketServer({
     noServer: true,
-    path: '/api/online-sequencer/signaling'
+    path: '/api/online-sequencer/signaling',
+    maxPayload: MAX_FRAME_BYTES,
+    // 클라이언트가 요청한 서브프로토콜로 메시지 인코딩 협상 (요청이 없으면 JSON)
+    handleProtocols: (protocols) => selectSignalingSubprotocol(protocols),
+    perMessageDeflate: SIGNALING_DEFLATE_ENABLED && {
+      threshold: SIGNALING_DEFLATE_THRESHOLD_BYTES,
+      zlibDeflateOptions: { level: 6, memLevel: 7 },
+      serverNoContextTakeover: true,
+      clientNoContextTakeover: true,
+      concurrencyLimit: 10
+    }
   });
+  const connectionLimiter = new ConnectionLimiter();
 
   wss.on('connection', (ws: WebSocket, req) => {
     const originHeader = req.headers.origin;
@@ -93,39 +144,82 @@ app.prepare().then(() => {
       return;
     }
 
+    // IP/clientId별 동시 연결 수 제한
+    const ip = getSocketClientIP(req);
+    const limitedScope = connectionLimiter.acquire(ip, clientId);
+    if (limitedScope) {
+      logInfo('[Online Sequencer] WebSocket connection rejected: too many connections', { ip, clientId, scope: limitedScope });
+      sendServerMessage(ws, {
+        action: 'rate-limited',
+        error: limitedScope === 'ip' ? 'Too many connections from this IP' : 'Too many connections for this clientId',
+        code: ErrorCode.RATE_LIMITED,
+        data: {
+          scope: limitedScope
+        },
+        timestamp: Date.now()
+      });
+      ws.close(1008, 'too many connections');
+      return;
+    }
+    ws.on('close', () => connectionLimiter.release(ip, clientId));
+
     logInfo('[Online Sequencer] WebSocket connection established for client:', { clientId });
     // 연결 처리
-    signalingService.handleConnection(ws, clientId);
+    signalingService.handleConnection(ws, clientId, getHashedIP(ip));
 
     // 연결 확인 메시지 전송
-    ws.send(JSON.stringify({
+    sendServerMessage(ws, {
       action: 'connected',
       clientId,
       timestamp: Date.now()
-    }));
+    });
   });
 
-  // 만료된 룸 정리 스케줄러 (1분마다) - 6시간 만료 후 정리
+  // 만료된 룸 정리 스케줄러 (1분마다)
   setInterval(() => {
     const deletedRoomCodes = roomService.cleanupExpiredRooms();
+    // 만료된 룸의 클라이언트에게 room-closed 전송 (다른 인스턴스에 연결된 클라이언트 포함)
+    for (const roomCode of deletedRoomCodes) {
+      signalingService.notifyRoomClosed(roomCode, true);
+    }
     if (deletedRoomCodes.length > 0) {
-      logInfo(`[Online Sequencer] [${new Date().toISOString()}] Room(s) deleted due to expiration (6 hours): ${deletedRoomCodes.join(', ')}`);
+      logInfo(`[Online Sequencer] [${new Date().toISOString()}] Room(s) deleted due to expiration: ${deletedRoomCodes.join(', ')}`);
     }
+    // 보관 기간이 지난 룸 이벤트 로그 정리
+    roomEventLog.cleanup();
+    // 만료된 호스트 차단 정리
+    hostBanList.cleanup();
   }, 60 * 1000); // 1분
 
   // Phase 3: 오래된 WebSocket 연결 정리 스케줄러 (1분마다)
   setInterval(() => {
     const result = signalingService.cleanupDeadConnections();
-    if (result.cleaned > 0 || result.roomsDeleted.length > 0) {
+    if (result.cleaned > 0 || result.hostDisconnectedRooms.length > 0) {
       if (result.cleaned > 0) {
         logInfo(`[Online Sequencer] [${new Date().toISOString()}] Cleaned up ${result.cleaned} dead WebSocket connection(s)`);
       }
-      if (result.roomsDeleted.length > 0) {
-        logInfo(`[Online Sequencer] [${new Date().toISOString()}] Room(s) deleted due to host connection closed: ${result.roomsDeleted.join(', ')}`);
+      if (result.hostDisconnectedRooms.length > 0) {
+        logInfo(`[Online Sequencer] [${new Date().toISOString()}] Host connection closed, waiting for reconnect: ${result.hostDisconnectedRooms.join(', ')}`);
       }
     }
   }, 60 * 1000); // 1분
 
+  // lobby 모드 조인 요청 만료 정리 스케줄러 (10초마다)
+  setInterval(() => {
+    const expiredCount = signalingService.expireJoinRequests();
+    if (expiredCount > 0) {
+      logInfo(`[Online Sequencer] [${new Date().toISOString()}] Expired ${expiredCount} pending join request(s)`);
+    }
+  }, 10 * 1000); // 10초
+
+  // 세션 재개 유예 시간이 지난 참가자 정리 스케줄러 (10초마다)
+  setInterval(() => {
+    const expiredCount = signalingService.expireReconnectingParticipants();
+    if (expiredCount > 0) {
+      logInfo(`[Online Sequencer] [${new Date().toISOString()}] Removed ${expiredCount} participant(s) after resume grace period`);
+    }
+  }, 10 * 1000); // 10초
+
   // 룸 만료 경고 스케줄러 (1분마다)
   setInterval(() => {
     const now = Date.now();
@@ -135,8 +229,8 @@ app.prepare().then(() => {
       const timeLeft = room.expiresAt - now;
       const minutesLeft = Math.floor(timeLeft / (60 * 1000));
       
-      // 30분 전, 5분 전, 1분 전 경고
-      if (minutesLeft === 30 || minutesLeft === 5 || minutesLeft === 1) {
+      // 만료 경고 (ROOM_EXPIRY_WARNING_MINUTES, 기본값: 30분 전, 5분 전, 1분 전)
+      if (ROOM_LIMITS.expiryWarningMinutes.includes(minutesLeft)) {
         signalingService.broadcastToRoom(room.roomCode, {
           action: 'room-expiring',
           roomCode: room.roomCode,
@@ -179,7 +273,21 @@ app.prepare().then(() => {
     logInfo(`Local access: http://localhost:${port}`);
     logInfo(`WebSocket: ws://${hostname}:${port}/api/online-sequencer/signaling`);
     logInfo(`=================================`);
+
+    // 재시작 후 복구된 룸의 호스트 재연결 유예 시간 시작
+    const restoredRoomCount = signalingService.resumeHostGracePeriods();
+    if (restoredRoomCount > 0) {
+      logInfo(`[Online Sequencer] Waiting for host reconnect in ${restoredRoomCount} restored room(s)`);
+    }
   });
+
+  // 종료 신호를 받으면 exit 이벤트를 거쳐 종료 (룸 저장소의 남은 변경 기록)
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      logInfo(`[Online Sequencer] Received ${signal}, shutting down`);
+      process.exit(0);
+    });
+  }
 });
 
 